@@ -17,6 +17,9 @@ import ProfilePage from './pages/profile/ProfilePage';
 import AdminUsersPage from './pages/admin/AdminUsersPage';
 import QuizManagementPage from './pages/quizzes/QuizManagementPage';
 import QuizTakingPage from './pages/quizzes/QuizTakingPage';
+import QuizGradingPage from './pages/quizzes/QuizGradingPage';
+import QuizAttemptsPage from './pages/quizzes/QuizAttemptsPage';
+import QuestionBankPage from './pages/quizzes/QuestionBankPage';
 import NotFoundPage from './pages/NotFoundPage';
 
 // Protected route wrapper
@@ -67,6 +70,21 @@ function App() {
               <QuizManagementPage />
             </ProtectedRoute>
           } />
+          <Route path="courses/:courseId/quizzes/:quizId/grading" element={
+            <ProtectedRoute allowedRoles={['faculty', 'admin']}>
+              <QuizGradingPage />
+            </ProtectedRoute>
+          } />
+          <Route path="courses/:courseId/quizzes/:quizId/attempts" element={
+            <ProtectedRoute allowedRoles={['faculty', 'admin']}>
+              <QuizAttemptsPage />
+            </ProtectedRoute>
+          } />
+          <Route path="courses/:courseId/question-bank" element={
+            <ProtectedRoute allowedRoles={['faculty', 'admin']}>
+              <QuestionBankPage />
+            </ProtectedRoute>
+          } />
           
           {/* Quiz Taking Routes */}
           <Route path="courses/:courseId/quiz/:quizId" element={<QuizTakingPage />} />
@@ -0,0 +1,404 @@
+// src/components/CourseDiscussion.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  AlertCircle, CheckCircle, Edit, Eye, EyeOff, Lock, MessageSquare,
+  Pin, PinOff, Reply, Send, Trash, Unlock
+} from 'lucide-react';
+
+import Button from './ui/Button';
+import { Card, CardContent, CardHeader } from './ui/Card';
+import { useAuthStore } from '../stores/authStore';
+import { useCommentStore, CourseComment, CommentModeration } from '../stores/commentStore';
+import { formatDateTime } from '../lib/utils';
+
+interface CourseDiscussionProps {
+  courseId: string;
+  // null shows the course-level discussion board
+  subsectionId: string | null;
+}
+
+const textareaClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500';
+
+// Threaded comments for a subsection or the whole course
+const CourseDiscussion: React.FC<CourseDiscussionProps> = ({ courseId, subsectionId }) => {
+  const { user } = useAuthStore();
+  const { fetchComments, createComment, updateComment, deleteComment, moderateComment } = useCommentStore();
+  const userId = user?.id;
+
+  const [threads, setThreads] = useState<CourseComment[]>([]);
+  const [canModerate, setCanModerate] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newBody, setNewBody] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadThreads = useCallback(async () => {
+    const result = await fetchComments(courseId, subsectionId);
+    setThreads(result.threads);
+    setCanModerate(result.canModerate);
+  }, [courseId, subsectionId, fetchComments]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    setError(null);
+    setReplyingTo(null);
+    setEditingId(null);
+
+    fetchComments(courseId, subsectionId)
+      .then(result => {
+        if (cancelled) return;
+        setThreads(result.threads);
+        setCanModerate(result.canModerate);
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [courseId, subsectionId, fetchComments]);
+
+  // Run a change against the server, then reload so ordering and placeholders stay right
+  const runAction = async (commentId: string, action: () => Promise<unknown>) => {
+    setBusyId(commentId);
+    setError(null);
+    try {
+      await action();
+      await loadThreads();
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newBody.trim()) return;
+
+    setIsPosting(true);
+    setError(null);
+    try {
+      await createComment(courseId, newBody, { subsection: subsectionId });
+      setNewBody('');
+      await loadThreads();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleReply = async (threadId: string) => {
+    if (!replyBody.trim()) return;
+
+    const posted = await runAction(threadId, () => createComment(courseId, replyBody, { parent: threadId }));
+    if (posted) {
+      setReplyingTo(null);
+      setReplyBody('');
+    }
+  };
+
+  const handleEdit = async (commentId: string) => {
+    if (!editBody.trim()) return;
+
+    const saved = await runAction(commentId, () => updateComment(courseId, commentId, editBody));
+    if (saved) {
+      setEditingId(null);
+      setEditBody('');
+    }
+  };
+
+  const handleDelete = (comment: CourseComment) => {
+    const message = comment.parent || !canModerate
+      ? 'Delete this comment?'
+      : 'Delete this thread and all of its replies?';
+    if (!window.confirm(message)) return;
+
+    runAction(comment._id, () => deleteComment(courseId, comment._id));
+  };
+
+  const handleModerate = (commentId: string, flags: CommentModeration) =>
+    runAction(commentId, () => moderateComment(courseId, commentId, flags));
+
+  const renderComment = (comment: CourseComment, thread: CourseComment) => {
+    const isThread = !comment.parent;
+    const isAuthor = Boolean(comment.author && comment.author._id === userId);
+    const isDeleted = Boolean(comment.deletedAt);
+    const isBusy = busyId === comment._id;
+    const threadLocked = thread.isLocked && !canModerate;
+
+    return (
+      <div className={comment.isHidden ? 'opacity-60' : ''}>
+        <div className="flex items-center flex-wrap gap-2 text-sm">
+          <span className="font-medium text-gray-900">
+            {isDeleted ? 'Deleted comment' : comment.author?.name || 'Unknown user'}
+          </span>
+          {!isDeleted && comment.author && comment.author.role !== 'student' && (
+            <span className="bg-primary-100 text-primary-700 px-2 py-0.5 rounded-full text-xs font-medium">
+              Instructor
+            </span>
+          )}
+          <span className="text-gray-500">{formatDateTime(comment.createdAt)}</span>
+          {comment.editedAt && !isDeleted && <span className="text-xs text-gray-400">(edited)</span>}
+          {isThread && comment.isPinned && (
+            <span className="flex items-center text-xs text-primary-700">
+              <Pin className="h-3 w-3 mr-1" />
+              Pinned
+            </span>
+          )}
+          {isThread && comment.isAnswered && (
+            <span className="flex items-center bg-success-50 text-success-700 px-2 py-0.5 rounded-full text-xs font-medium">
+              <CheckCircle className="h-3 w-3 mr-1" />
+              Answered
+            </span>
+          )}
+          {isThread && comment.isLocked && (
+            <span className="flex items-center text-xs text-gray-500">
+              <Lock className="h-3 w-3 mr-1" />
+              Locked
+            </span>
+          )}
+          {comment.isHidden && (
+            <span className="flex items-center text-xs text-error-600">
+              <EyeOff className="h-3 w-3 mr-1" />
+              Hidden from students
+            </span>
+          )}
+        </div>
+
+        {editingId === comment._id ? (
+          <div className="mt-2">
+            <textarea
+              value={editBody}
+              onChange={(e) => setEditBody(e.target.value)}
+              rows={3}
+              maxLength={5000}
+              className={textareaClassName}
+            />
+            <div className="flex justify-end space-x-2 mt-2">
+              <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => handleEdit(comment._id)}
+                isLoading={isBusy}
+                disabled={isBusy || !editBody.trim()}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : isDeleted ? (
+          <p className="mt-1 text-sm italic text-gray-400">This comment was deleted.</p>
+        ) : (
+          <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{comment.body}</p>
+        )}
+
+        {!isDeleted && editingId !== comment._id && (
+          <div className="flex items-center flex-wrap mt-1 -ml-2">
+            {isThread && !threadLocked && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setReplyingTo(replyingTo === comment._id ? null : comment._id);
+                  setReplyBody('');
+                }}
+                icon={<Reply className="h-4 w-4" />}
+              >
+                Reply
+              </Button>
+            )}
+            {isAuthor && !threadLocked && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setEditingId(comment._id);
+                  setEditBody(comment.body);
+                }}
+                icon={<Edit className="h-4 w-4" />}
+              >
+                Edit
+              </Button>
+            )}
+            {canModerate && isThread && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleModerate(comment._id, { isPinned: !comment.isPinned })}
+                  disabled={isBusy}
+                  icon={comment.isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                  title={comment.isPinned ? 'Unpin' : 'Pin to top'}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleModerate(comment._id, { isAnswered: !comment.isAnswered })}
+                  disabled={isBusy}
+                  icon={<CheckCircle className={`h-4 w-4 ${comment.isAnswered ? 'text-success-600' : ''}`} />}
+                  title={comment.isAnswered ? 'Mark as unanswered' : 'Mark as answered'}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleModerate(comment._id, { isLocked: !comment.isLocked })}
+                  disabled={isBusy}
+                  icon={comment.isLocked ? <Unlock className="h-4 w-4" /> : <Lock className="h-4 w-4" />}
+                  title={comment.isLocked ? 'Unlock thread' : 'Lock thread'}
+                />
+              </>
+            )}
+            {canModerate && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleModerate(comment._id, { isHidden: !comment.isHidden })}
+                disabled={isBusy}
+                icon={comment.isHidden ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                title={comment.isHidden ? 'Show to students' : 'Hide from students'}
+              />
+            )}
+            {(isAuthor || canModerate) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(comment)}
+                disabled={isBusy}
+                icon={<Trash className="h-4 w-4" />}
+                className="text-error-600 hover:text-error-700"
+                title="Delete"
+              />
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center">
+          <MessageSquare className="h-5 w-5 text-primary-600 mr-2" />
+          <h2 className="text-lg font-semibold text-gray-900">
+            {subsectionId ? 'Comments' : 'Course Discussion'}
+          </h2>
+          {threads.length > 0 && (
+            <span className="ml-2 bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full text-xs">
+              {threads.length}
+            </span>
+          )}
+        </div>
+        {!subsectionId && (
+          <p className="text-sm text-gray-600 mt-1">
+            Questions and conversations about the course as a whole.
+          </p>
+        )}
+      </CardHeader>
+
+      <CardContent>
+        {error && (
+          <div className="bg-error-50 text-error-700 p-3 rounded-md mb-4 flex items-center">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handlePost} className="mb-6">
+          <textarea
+            value={newBody}
+            onChange={(e) => setNewBody(e.target.value)}
+            rows={3}
+            maxLength={5000}
+            placeholder={subsectionId ? 'Ask a question or leave a comment about this lesson' : 'Start a new discussion'}
+            className={textareaClassName}
+          />
+          <div className="flex justify-end mt-2">
+            <Button
+              type="submit"
+              size="sm"
+              isLoading={isPosting}
+              disabled={isPosting || !newBody.trim()}
+              icon={<Send className="h-4 w-4" />}
+            >
+              Post
+            </Button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading comments...</p>
+        ) : threads.length === 0 ? (
+          <p className="text-sm text-gray-500">No comments yet. Be the first to start the conversation.</p>
+        ) : (
+          <div className="space-y-4">
+            {threads.map(thread => (
+              <div
+                key={thread._id}
+                className={`border rounded-lg p-4 ${thread.isPinned ? 'border-primary-200 bg-primary-50' : 'border-gray-200'}`}
+              >
+                {renderComment(thread, thread)}
+
+                {(thread.replies || []).length > 0 && (
+                  <div className="mt-3 ml-4 pl-4 border-l-2 border-gray-200 space-y-3">
+                    {(thread.replies || []).map(reply => (
+                      <div key={reply._id}>{renderComment(reply, thread)}</div>
+                    ))}
+                  </div>
+                )}
+
+                {replyingTo === thread._id && (
+                  <div className="mt-3 ml-4 pl-4">
+                    <textarea
+                      value={replyBody}
+                      onChange={(e) => setReplyBody(e.target.value)}
+                      rows={2}
+                      maxLength={5000}
+                      placeholder="Write a reply"
+                      className={textareaClassName}
+                      autoFocus
+                    />
+                    <div className="flex justify-end space-x-2 mt-2">
+                      <Button variant="outline" size="sm" onClick={() => setReplyingTo(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleReply(thread._id)}
+                        isLoading={busyId === thread._id}
+                        disabled={busyId === thread._id || !replyBody.trim()}
+                        icon={<Send className="h-4 w-4" />}
+                      >
+                        Reply
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CourseDiscussion;
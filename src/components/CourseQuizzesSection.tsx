@@ -3,13 +3,14 @@ import React, { useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { 
   MessageCircle, Clock, Play, Award, BarChart3, 
-  CheckCircle, AlertCircle, Timer, FileText
+  CheckCircle, AlertCircle, Timer, FileText, RefreshCw, CalendarClock, Lock, Users, TrendingUp
 } from 'lucide-react';
 
 import Button from './ui/Button';
 import { Card, CardContent } from './ui/Card';
-import { useQuizStore } from '../stores/quizStore';
+import { useQuizStore, getQuizAvailability, QuizAnalytics } from '../stores/quizStore';
 import { useAuthStore } from '../stores/authStore';
+import { formatDateTime, formatTimeUntil } from '../lib/utils';
 
 interface CourseQuizzesSectionProps {
   courseId: string;
@@ -26,7 +27,6 @@ const CourseQuizzesSection: React.FC<CourseQuizzesSectionProps> = ({
   const { 
     quizzes, 
     fetchQuizzes, 
-    fetchMyQuizAttempt,
     currentAttempt,
     isLoading, 
     error,
@@ -162,59 +162,66 @@ const QuizCard: React.FC<QuizCardProps> = ({
   isFaculty, 
   isOwner
 }) => {
-  const { 
-    currentAttempt, 
-    fetchMyQuizAttempt, 
-    clearCurrentAttempt 
-  } = useQuizStore();
+  const { fetchMyQuizAttempts } = useQuizStore();
   
   const [attemptStatus, setAttemptStatus] = React.useState<{
     hasAttempted: boolean;
     score?: number;
+    attemptsUsed: number;
+    attemptLimit: number;
+    canAttempt: boolean;
+    inProgress: boolean;
     loading: boolean;
-  }>({ hasAttempted: false, loading: false });
+  }>({ hasAttempted: false, attemptsUsed: 0, attemptLimit: 1, canAttempt: true, inProgress: false, loading: false });
 
   // Check attempt status when component mounts (for students only)
   React.useEffect(() => {
     if (!isFaculty && quiz?._id) {
       setAttemptStatus(prev => ({ ...prev, loading: true }));
       
-      fetchMyQuizAttempt(quiz._id)
-        .then(() => {
-          // Check if currentAttempt was updated
+      fetchMyQuizAttempts(quiz._id)
+        .then((history) => {
           setAttemptStatus({
-            hasAttempted: !!currentAttempt,
-            score: currentAttempt?.score,
+            hasAttempted: !!history && history.attempts.length > 0,
+            score: history?.countedScore ?? undefined,
+            attemptsUsed: history?.attemptsUsed || 0,
+            attemptLimit: history?.attemptLimit ?? 1,
+            canAttempt: history ? history.canAttempt : true,
+            inProgress: !!history?.activeAttempt,
             loading: false
           });
         })
         .catch((error) => {
           console.log('No attempt found for quiz:', quiz._id, error.message);
-          setAttemptStatus({
+          setAttemptStatus(prev => ({
+            ...prev,
             hasAttempted: false,
             loading: false
-          });
+          }));
         });
     }
-  }, [quiz?._id, isFaculty, fetchMyQuizAttempt]);
+  }, [quiz?._id, isFaculty, fetchMyQuizAttempts]);
 
-  // Update attempt status when currentAttempt changes
+  // Re-check the availability window every minute so countdowns and open/closed states stay current
+  const [now, setNow] = React.useState(Date.now());
   React.useEffect(() => {
-    if (currentAttempt) {
-      setAttemptStatus({
-        hasAttempted: true,
-        score: currentAttempt.score,
-        loading: false
-      });
-    }
-  }, [currentAttempt]);
+    if (!quiz?.availableFrom && !quiz?.availableUntil) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, [quiz?.availableFrom, quiz?.availableUntil]);
 
   // Safely get quiz properties with defaults
   const quizTitle = quiz?.title || 'Untitled Quiz';
   const quizQuestions = Array.isArray(quiz?.questions) ? quiz.questions : [];
+  // Includes questions drawn per student from the question bank
+  const quizQuestionCount = quiz?.questionCount ?? quizQuestions.length;
   const quizTimeLimit = quiz?.timeLimit || 0;
   const quizCreatedAt = quiz?.createdAt || new Date().toISOString();
   const quizId = quiz?._id || '';
+  const availability = getQuizAvailability(quiz || {}, now);
+  const canStart = availability === 'open' || availability === 'late';
+  const analytics: QuizAnalytics | undefined = quiz?.analytics;
 
   if (!quizId) {
     console.warn('Quiz without ID detected:', quiz);
@@ -231,7 +238,7 @@ const QuizCard: React.FC<QuizCardProps> = ({
             <div className="flex items-center space-x-4 text-sm text-gray-500 mb-4">
               <div className="flex items-center">
                 <MessageCircle className="h-4 w-4 mr-1" />
-                {quizQuestions.length} question{quizQuestions.length !== 1 ? 's' : ''}
+                {quizQuestionCount} question{quizQuestionCount !== 1 ? 's' : ''}
               </div>
               <div className="flex items-center">
                 <Clock className="h-4 w-4 mr-1" />
@@ -243,6 +250,54 @@ const QuizCard: React.FC<QuizCardProps> = ({
               </div>
             </div>
 
+            {/* Class results for faculty, from the analytics the server keeps on the quiz */}
+            {isFaculty && analytics && (
+              <div className="flex items-center space-x-4 text-sm text-gray-600 mb-4">
+                <div className="flex items-center">
+                  <Users className="h-4 w-4 mr-1" />
+                  {analytics.totalAttempts} graded attempt{analytics.totalAttempts !== 1 ? 's' : ''}
+                </div>
+                {analytics.totalAttempts > 0 && (
+                  <>
+                    <div className="flex items-center">
+                      <TrendingUp className="h-4 w-4 mr-1" />
+                      Average {analytics.averageScore}%
+                    </div>
+                    <div>
+                      Range {analytics.lowestScore}–{analytics.highestScore}%
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Availability Window */}
+            {availability === 'upcoming' ? (
+              <div className="flex items-center text-sm text-primary-700 mb-4">
+                <CalendarClock className="h-4 w-4 mr-1" />
+                Opens in {formatTimeUntil(quiz.availableFrom)} ({formatDateTime(quiz.availableFrom)})
+              </div>
+            ) : availability === 'closed' ? (
+              <div className="flex items-center text-sm text-gray-500 mb-4">
+                <Lock className="h-4 w-4 mr-1" />
+                Closed {formatDateTime(quiz.lateSubmission?.allowed && quiz.lateSubmission.until
+                  ? quiz.lateSubmission.until
+                  : quiz.availableUntil)}
+              </div>
+            ) : availability === 'late' ? (
+              <div className="flex items-center text-sm text-accent-700 mb-4">
+                <CalendarClock className="h-4 w-4 mr-1" />
+                Closed {formatDateTime(quiz.availableUntil)} — late submissions accepted
+                {quiz.lateSubmission?.until ? ` for ${formatTimeUntil(quiz.lateSubmission.until)}` : ''}
+                {quiz.lateSubmission?.penalty ? ` (−${quiz.lateSubmission.penalty}%)` : ''}
+              </div>
+            ) : quiz.availableUntil ? (
+              <div className="flex items-center text-sm text-gray-500 mb-4">
+                <CalendarClock className="h-4 w-4 mr-1" />
+                Closes in {formatTimeUntil(quiz.availableUntil)} ({formatDateTime(quiz.availableUntil)})
+              </div>
+            ) : null}
+
             {/* Quiz Status for Students */}
             {!isFaculty && (
               <div className="mb-4">
@@ -257,13 +312,26 @@ const QuizCard: React.FC<QuizCardProps> = ({
                       <CheckCircle className="h-5 w-5 mr-1" />
                       <span className="text-sm font-medium">Completed</span>
                     </div>
-                    <div className={`px-3 py-1 rounded-full text-sm font-medium ${
-                      (attemptStatus.score || 0) >= 80 ? 'bg-success-100 text-success-800' :
-                      (attemptStatus.score || 0) >= 60 ? 'bg-accent-100 text-accent-800' : 
-                      'bg-error-100 text-error-800'
-                    }`}>
-                      Score: {attemptStatus.score || 0}%
-                    </div>
+                    {/* No counted score yet while every attempt awaits essay grading */}
+                    {attemptStatus.score === undefined ? (
+                      <div className="px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-700">
+                        Awaiting grading
+                      </div>
+                    ) : (
+                      <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+                        attemptStatus.score >= 80 ? 'bg-success-100 text-success-800' :
+                        attemptStatus.score >= (quiz.passingScore ?? 60) ? 'bg-accent-100 text-accent-800' : 
+                        'bg-error-100 text-error-800'
+                      }`}>
+                        Score: {attemptStatus.score}%
+                      </div>
+                    )}
+                    {attemptStatus.attemptLimit !== 1 && (
+                      <span className="text-sm text-gray-500">
+                        {attemptStatus.attemptsUsed}
+                        {attemptStatus.attemptLimit > 0 ? ` / ${attemptStatus.attemptLimit}` : ''} attempts
+                      </span>
+                    )}
                   </div>
                 ) : (
                   <div className="flex items-center text-amber-600">
@@ -302,7 +370,17 @@ const QuizCard: React.FC<QuizCardProps> = ({
             ) : (
               // Student Actions
               <div className="flex space-x-2">
-                {attemptStatus.hasAttempted ? (
+                {attemptStatus.inProgress ? (
+                  <Button
+                    as={Link}
+                    to={`/courses/${courseId}/quiz/${quizId}`}
+                    variant="primary"
+                    size="sm"
+                    icon={<Clock className="h-4 w-4" />}
+                  >
+                    Resume Quiz
+                  </Button>
+                ) : attemptStatus.hasAttempted ? (
                   <Button
                     as={Link}
                     to={`/courses/${courseId}/quiz/${quizId}`}
@@ -312,6 +390,15 @@ const QuizCard: React.FC<QuizCardProps> = ({
                   >
                     View Results
                   </Button>
+                ) : !canStart ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled
+                    icon={<Lock className="h-4 w-4" />}
+                  >
+                    {availability === 'upcoming' ? 'Not Open Yet' : 'Closed'}
+                  </Button>
                 ) : (
                   <Button
                     as={Link}
@@ -323,6 +410,17 @@ const QuizCard: React.FC<QuizCardProps> = ({
                     Take Quiz
                   </Button>
                 )}
+                {attemptStatus.hasAttempted && attemptStatus.canAttempt && !attemptStatus.inProgress && canStart && (
+                  <Button
+                    as={Link}
+                    to={`/courses/${courseId}/quiz/${quizId}`}
+                    variant="primary"
+                    size="sm"
+                    icon={<RefreshCw className="h-4 w-4" />}
+                  >
+                    Retake
+                  </Button>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,310 @@
+// src/components/CourseReviews.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, MessageSquare, Save, Star, Trash } from 'lucide-react';
+
+import Button from './ui/Button';
+import StarRating from './ui/StarRating';
+import { Card, CardContent, CardHeader } from './ui/Card';
+import { useAuthStore } from '../stores/authStore';
+import { useReviewStore, CourseReview, CourseReviews as CourseReviewsData } from '../stores/reviewStore';
+import { formatDate } from '../lib/utils';
+
+interface CourseReviewsProps {
+  courseId: string;
+  // Course owner or admin, who can answer reviews
+  canReply: boolean;
+}
+
+const textareaClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500';
+
+// Star ratings and written reviews of a course
+const CourseReviews: React.FC<CourseReviewsProps> = ({ courseId, canReply }) => {
+  const { user } = useAuthStore();
+  const { fetchReviews, saveMyReview, replyToReview, deleteReview } = useReviewStore();
+  const isAdmin = user?.role === 'admin';
+
+  const [data, setData] = useState<CourseReviewsData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rating, setRating] = useState(0);
+  const [body, setBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Start the form from the student's existing review, if they have one
+  const applyReviews = useCallback((result: CourseReviewsData) => {
+    setData(result);
+    setRating(result.myReview?.rating || 0);
+    setBody(result.myReview?.body || '');
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchReviews(courseId)
+      .then(result => {
+        if (!cancelled) applyReviews(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [courseId, fetchReviews, applyReviews]);
+
+  const reload = async () => applyReviews(await fetchReviews(courseId));
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating < 1) {
+      setError('Choose a star rating first');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveMyReview(courseId, rating, body);
+      await reload();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (review: CourseReview) => {
+    const isMine = review._id === data?.myReview?._id;
+    if (!window.confirm(isMine ? 'Delete your review?' : 'Remove this review from the course?')) return;
+
+    setBusyId(review._id);
+    setError(null);
+    try {
+      await deleteReview(courseId, review._id);
+      await reload();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReply = async (reviewId: string, replyText: string) => {
+    setBusyId(reviewId);
+    setError(null);
+    try {
+      await replyToReview(courseId, reviewId, replyText);
+      setReplyingTo(null);
+      setReplyBody('');
+      await reload();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const summary = data?.summary;
+  const reviews = data?.reviews || [];
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-error-50 text-error-700 p-3 rounded-md flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {/* Rating summary */}
+      <Card>
+        <CardContent className="p-6">
+          {!summary ? (
+            <p className="text-sm text-gray-500">Loading reviews...</p>
+          ) : (
+            <div className="flex flex-col md:flex-row md:items-center gap-6">
+              <div className="text-center md:w-48">
+                <div className="text-4xl font-bold text-gray-900">
+                  {summary.totalRatings > 0 ? summary.averageRating.toFixed(1) : '–'}
+                </div>
+                <StarRating value={summary.averageRating} size="md" className="justify-center my-1" />
+                <div className="text-sm text-gray-500">
+                  {summary.totalRatings} rating{summary.totalRatings !== 1 ? 's' : ''}
+                </div>
+              </div>
+              <div className="flex-1 space-y-1">
+                {[5, 4, 3, 2, 1].map(stars => {
+                  const count = summary.distribution[stars] || 0;
+                  const percent = summary.totalRatings > 0 ? (count / summary.totalRatings) * 100 : 0;
+                  return (
+                    <div key={stars} className="flex items-center text-sm">
+                      <span className="w-6 text-gray-600">{stars}</span>
+                      <Star className="h-3 w-3 text-warning-500 fill-current mr-2" />
+                      <div className="flex-1 bg-gray-100 rounded-full h-2 overflow-hidden">
+                        <div className="bg-warning-500 h-2" style={{ width: `${percent}%` }} />
+                      </div>
+                      <span className="w-8 text-right text-gray-500">{count}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* The student's own review */}
+      {data?.canReview && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900">
+              {data.myReview ? 'Your Review' : 'Rate This Course'}
+            </h3>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSave} className="space-y-3">
+              <StarRating value={rating} onChange={setRating} size="lg" />
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={3}
+                maxLength={2000}
+                placeholder="What did you think of the course? (optional)"
+                className={textareaClassName}
+              />
+              <div className="flex justify-end space-x-3">
+                {data.myReview && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => handleDelete(data.myReview!)}
+                    disabled={isSaving || busyId === data.myReview._id}
+                    icon={<Trash className="h-4 w-4" />}
+                    className="text-error-600 hover:text-error-700"
+                  >
+                    Delete
+                  </Button>
+                )}
+                <Button
+                  type="submit"
+                  isLoading={isSaving}
+                  disabled={isSaving || rating < 1}
+                  icon={<Save className="h-4 w-4" />}
+                >
+                  {data.myReview ? 'Update Review' : 'Submit Review'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* All reviews */}
+      {data && (
+        reviews.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No reviews yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map(review => (
+              <Card key={review._id}>
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900">{review.student?.name || 'Former student'}</span>
+                        <StarRating value={review.rating} />
+                      </div>
+                      <div className="text-xs text-gray-500 mt-0.5">{formatDate(review.createdAt)}</div>
+                    </div>
+                    {isAdmin && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(review)}
+                        disabled={busyId === review._id}
+                        icon={<Trash className="h-4 w-4" />}
+                        className="text-error-600 hover:text-error-700"
+                        title="Remove review"
+                      />
+                    )}
+                  </div>
+
+                  {review.body && (
+                    <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">{review.body}</p>
+                  )}
+
+                  {review.reply && replyingTo !== review._id && (
+                    <div className="mt-3 ml-4 pl-4 border-l-2 border-primary-200">
+                      <div className="text-xs font-medium text-primary-700">
+                        Response from {review.reply.author?.name || 'the instructor'}
+                      </div>
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.reply.body}</p>
+                    </div>
+                  )}
+
+                  {canReply && (
+                    replyingTo === review._id ? (
+                      <div className="mt-3 ml-4 pl-4">
+                        <textarea
+                          value={replyBody}
+                          onChange={(e) => setReplyBody(e.target.value)}
+                          rows={2}
+                          maxLength={2000}
+                          placeholder="Write a public response"
+                          className={textareaClassName}
+                          autoFocus
+                        />
+                        <div className="flex justify-end space-x-2 mt-2">
+                          <Button variant="outline" size="sm" onClick={() => setReplyingTo(null)}>
+                            Cancel
+                          </Button>
+                          {review.reply && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleReply(review._id, '')}
+                              disabled={busyId === review._id}
+                            >
+                              Remove Response
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            onClick={() => handleReply(review._id, replyBody)}
+                            isLoading={busyId === review._id}
+                            disabled={busyId === review._id || !replyBody.trim()}
+                          >
+                            Save Response
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setReplyingTo(review._id);
+                          setReplyBody(review.reply?.body || '');
+                        }}
+                        icon={<MessageSquare className="h-4 w-4" />}
+                        className="mt-2 -ml-2"
+                      >
+                        {review.reply ? 'Edit Response' : 'Respond'}
+                      </Button>
+                    )
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default CourseReviews;
@@ -0,0 +1,209 @@
+// src/components/EnrollmentRequestsPanel.tsx
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Check, UserPlus, X } from 'lucide-react';
+
+import Button from './ui/Button';
+import Input from './ui/Input';
+import { Card, CardContent, CardHeader } from './ui/Card';
+import { useCourseStore, EnrollmentRequest } from '../stores/courseStore';
+import { formatDateTime } from '../lib/utils';
+
+interface EnrollmentRequestsPanelProps {
+  courseId: string;
+  requireApproval: boolean;
+}
+
+// The course owner's queue of students asking to join
+const EnrollmentRequestsPanel: React.FC<EnrollmentRequestsPanelProps> = ({ courseId, requireApproval }) => {
+  const { fetchEnrollmentRequests, reviewEnrollmentRequests } = useCourseStore();
+
+  const [requests, setRequests] = useState<EnrollmentRequest[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState('');
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [reviewNotice, setReviewNotice] = useState<string | null>(null);
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchEnrollmentRequests(courseId)
+      .then(pending => {
+        if (!cancelled) setRequests(pending);
+      })
+      .catch((err) => {
+        if (!cancelled) setReviewError((err as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [courseId, fetchEnrollmentRequests]);
+
+  const toggleSelected = (requestId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(requestId)) {
+        next.delete(requestId);
+      } else {
+        next.add(requestId);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = requests.length > 0 && selectedIds.size === requests.length;
+
+  const handleReview = async (requestIds: string[], status: 'approved' | 'rejected') => {
+    setIsReviewing(true);
+    setReviewError(null);
+    setReviewNotice(null);
+    try {
+      const reviewed = await reviewEnrollmentRequests(courseId, requestIds, status, message);
+      // Requests someone else already reviewed leave the queue too
+      setRequests(prev => prev.filter(request => !requestIds.includes(request._id)));
+      setSelectedIds(new Set());
+      setMessage('');
+      // The rest were already reviewed, by someone else or in another tab
+      const skipped = requestIds.length - reviewed.length;
+      setReviewNotice(
+        `${reviewed.length} request${reviewed.length === 1 ? '' : 's'} ${status}` +
+        (skipped > 0 ? `, ${skipped} skipped as already reviewed` : '')
+      );
+    } catch (err) {
+      setReviewError((err as Error).message);
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  // Nothing to show once approval is off and the last requests are dealt with
+  if (!requireApproval && requests.length === 0 && !reviewError) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center">
+          <UserPlus className="h-5 w-5 text-primary-600 mr-2" />
+          <h2 className="text-lg font-semibold text-gray-900">Enrollment Requests</h2>
+          {requests.length > 0 && (
+            <span className="ml-2 bg-primary-100 text-primary-700 px-2 py-0.5 rounded-full text-xs font-medium">
+              {requests.length} pending
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mt-1">
+          Students who join with the access code wait here until you approve them.
+        </p>
+      </CardHeader>
+
+      <CardContent>
+        {reviewError && (
+          <div className="bg-error-50 text-error-700 p-3 rounded-md mb-4 flex items-center">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            {reviewError}
+          </div>
+        )}
+        {reviewNotice && (
+          <div className="bg-success-50 text-success-700 p-3 rounded-md mb-4 text-sm">{reviewNotice}</div>
+        )}
+
+        {requests.length === 0 ? (
+          <p className="text-sm text-gray-500">No requests are waiting for approval.</p>
+        ) : (
+          <>
+            <table className="w-full text-sm mb-4">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-2 w-8">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={() => setSelectedIds(allSelected ? new Set() : new Set(requests.map(request => request._id)))}
+                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                      title="Select all"
+                    />
+                  </th>
+                  <th className="py-2 pr-4 font-medium">Student</th>
+                  <th className="py-2 pr-4 font-medium">Requested</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {requests.map(request => (
+                  <tr key={request._id}>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(request._id)}
+                        onChange={() => toggleSelected(request._id)}
+                        className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="py-2 pr-4">
+                      <div className="text-gray-900">{request.student?.name || 'Unknown student'}</div>
+                      <div className="text-xs text-gray-500">{request.student?.email}</div>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">{formatDateTime(request.updatedAt)}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleReview([request._id], 'approved')}
+                        disabled={isReviewing}
+                        icon={<Check className="h-4 w-4" />}
+                        title="Approve"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleReview([request._id], 'rejected')}
+                        disabled={isReviewing}
+                        icon={<X className="h-4 w-4" />}
+                        className="text-error-600 hover:text-error-700"
+                        title="Reject"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <Input
+              label="Message to students (optional)"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={500}
+              placeholder="e.g. Please register for the course through the registrar first"
+              helperText="Sent with the next approval or rejection"
+              fullWidth
+            />
+
+            <div className="flex justify-end space-x-3">
+              <Button
+                variant="outline"
+                onClick={() => handleReview(Array.from(selectedIds), 'rejected')}
+                disabled={isReviewing || selectedIds.size === 0}
+                icon={<X className="h-4 w-4" />}
+              >
+                Reject Selected
+              </Button>
+              <Button
+                onClick={() => handleReview(Array.from(selectedIds), 'approved')}
+                isLoading={isReviewing}
+                disabled={isReviewing || selectedIds.size === 0}
+                icon={<Check className="h-4 w-4" />}
+              >
+                Approve {selectedIds.size > 0 ? selectedIds.size : ''} Selected
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EnrollmentRequestsPanel;
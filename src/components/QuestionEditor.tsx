@@ -0,0 +1,436 @@
+// src/components/QuestionEditor.tsx
+import React from 'react';
+import { Trash, Plus, X } from 'lucide-react';
+
+import Input from './ui/Input';
+import { QuestionType, QUESTION_TYPE_LABELS } from '../stores/quizStore';
+import {
+  QuestionFormData, OptionFormData, MatchPairFormData, changeQuestionType
+} from '../lib/questionForm';
+
+const QUESTION_TYPE_DESCRIPTIONS: Record<QuestionType, string> = {
+  single: 'Students can select only one correct answer',
+  multiple: 'Students can select multiple correct answers',
+  true_false: 'Students choose whether the statement is true or false',
+  short_answer: 'Students type a short answer that must match one of the accepted answers',
+  numeric: 'Students enter a number that must be within the tolerance of the answer',
+  matching: 'Students pair each prompt with its match',
+  ordering: 'Students put the items into the correct order',
+  essay: 'Students write a response that you grade by hand from the grading queue'
+};
+
+interface QuestionEditorProps {
+  question: QuestionFormData;
+  index: number;
+  title?: string; // defaults to "Question <n>"
+  onChange: (question: QuestionFormData) => void;
+  onRemove?: () => void; // shows a remove button when given
+}
+
+// Form for one question and its answer key, shared by the quiz editor and the question bank
+const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, title, onChange, onRemove }) => {
+  const updateField = (field: keyof QuestionFormData, value: QuestionFormData[keyof QuestionFormData]) => {
+    onChange({ ...question, [field]: value });
+  };
+
+  const updateOption = (optionIndex: number, field: keyof OptionFormData, value: OptionFormData[keyof OptionFormData]) => {
+    onChange({
+      ...question,
+      options: question.options.map((o, j) =>
+        j === optionIndex ? { ...o, [field]: value } : o
+      )
+    });
+  };
+
+  const addOption = () => {
+    onChange({ ...question, options: [...question.options, { text: '', isCorrect: false, feedback: '' }] });
+  };
+
+  const removeOption = (optionIndex: number) => {
+    onChange({ ...question, options: question.options.filter((_, j) => j !== optionIndex) });
+  };
+
+  const updateAcceptedAnswer = (answerIndex: number, value: string | null) => {
+    // Passing null removes the answer; an index past the end adds one
+    const acceptedAnswers = value === null
+      ? question.acceptedAnswers.filter((_, j) => j !== answerIndex)
+      : Object.assign([...question.acceptedAnswers], { [answerIndex]: value });
+    onChange({ ...question, acceptedAnswers });
+  };
+
+  const updatePair = (pairIndex: number, pair: MatchPairFormData | null) => {
+    // Passing null removes the pair; an index past the end adds one
+    const pairs = pair === null
+      ? question.pairs.filter((_, j) => j !== pairIndex)
+      : Object.assign([...question.pairs], { [pairIndex]: pair });
+    onChange({ ...question, pairs });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="font-medium text-gray-900">{title ?? `Question ${index + 1}`}</h4>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="text-error-600 hover:text-error-700"
+            title="Remove question"
+          >
+            <Trash className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <Input
+          label="Question Text"
+          value={question.text}
+          onChange={(e) => updateField('text', e.target.value)}
+          required
+          fullWidth
+          placeholder="Enter your question"
+        />
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Question Type
+          </label>
+          <select
+            value={question.type}
+            onChange={(e) => onChange(changeQuestionType(question, e.target.value as QuestionType))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+          >
+            {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+              <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            {QUESTION_TYPE_DESCRIPTIONS[question.type]}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Points"
+            type="number"
+            step="any"
+            min="0"
+            value={question.points}
+            onChange={(e) => updateField('points', e.target.value)}
+            fullWidth
+          />
+          {(question.type === 'single' || question.type === 'true_false') && (
+            <Input
+              label="Penalty for Wrong Answer"
+              type="number"
+              step="any"
+              min="0"
+              value={question.penalty}
+              onChange={(e) => updateField('penalty', e.target.value)}
+              helperText="Points deducted; unanswered costs nothing"
+              fullWidth
+              placeholder="0"
+            />
+          )}
+          {question.type === 'multiple' && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700 mt-6">
+              <input
+                type="checkbox"
+                checked={question.partialCredit}
+                onChange={(e) => updateField('partialCredit', e.target.checked)}
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              />
+              <span>Partial credit (correct minus incorrect selections)</span>
+            </label>
+          )}
+        </div>
+
+        {/* Options */}
+        {(question.type === 'single' || question.type === 'multiple' || question.type === 'ordering') && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm font-medium text-gray-700">
+              {question.type === 'ordering' ? 'Items in the correct order (minimum 2)' : 'Answer Options (minimum 2)'}
+            </label>
+            <button
+              type="button"
+              onClick={() => addOption()}
+              className="text-primary-600 hover:text-primary-700 text-sm flex items-center"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add Option
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            {question.options.map((option, optionIndex) => (
+              <div key={optionIndex} className="bg-white p-3 rounded border">
+              <div className="flex items-center space-x-2">
+                {question.type === 'ordering' ? (
+                  <span className="w-6 text-sm font-medium text-gray-500">{optionIndex + 1}.</span>
+                ) : (
+                <input
+                  type={question.type === 'single' ? 'radio' : 'checkbox'}
+                  name={`question-${index}`}
+                  checked={option.isCorrect}
+                  onChange={(e) => {
+                    if (question.type === 'single') {
+                      // For single choice, uncheck all others
+                      const updatedOptions = question.options.map((o, i) => ({
+                        ...o,
+                        isCorrect: i === optionIndex
+                      }));
+                      updateField('options', updatedOptions);
+                    } else {
+                      updateOption(optionIndex, 'isCorrect', e.target.checked);
+                    }
+                  }}
+                  className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
+                />
+                )}
+                <input
+                  type="text"
+                  value={option.text}
+                  onChange={(e) => updateOption(optionIndex, 'text', e.target.value)}
+                  placeholder={`Option ${optionIndex + 1}`}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  required
+                />
+                {question.options.length > 2 && (
+                  <button
+                    type="button"
+                    onClick={() => removeOption(optionIndex)}
+                    className="text-error-600 hover:text-error-700"
+                    title="Remove option"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+              {question.type !== 'ordering' && (
+                <input
+                  type="text"
+                  value={option.feedback}
+                  onChange={(e) => updateOption(optionIndex, 'feedback', e.target.value)}
+                  placeholder="Feedback for students who choose this option (optional)"
+                  maxLength={500}
+                  className="mt-2 w-full px-3 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                />
+              )}
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-2 text-xs text-gray-500">
+            {question.type === 'ordering' ? (
+              <p>
+                <strong>Tip:</strong> Students see these items shuffled and must put them back in this order.
+              </p>
+            ) : (
+            <p>
+              <strong>Tip:</strong> Check the {question.type === 'single' ? 'radio button' : 'checkbox'} next to correct answers.
+              {question.type === 'single' 
+                ? ' Only one option can be correct for single choice questions.'
+                : ' Multiple options can be correct for multiple choice questions.'
+              }
+            </p>
+            )}
+          </div>
+        </div>
+        )}
+
+        {question.type === 'true_false' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Correct Answer
+            </label>
+            <div className="flex space-x-4">
+              {question.options.map((option, optionIndex) => (
+                <label key={optionIndex} className="flex items-center space-x-2 bg-white px-4 py-2 rounded border cursor-pointer">
+                  <input
+                    type="radio"
+                    name={`question-${index}`}
+                    checked={option.isCorrect}
+                    onChange={() => updateField('options', question.options.map((o, i) => ({
+                      ...o,
+                      isCorrect: i === optionIndex
+                    })))}
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
+                  />
+                  <span>{option.text}</span>
+                </label>
+              ))}
+            </div>
+            <div className="mt-2 space-y-2">
+              {question.options.map((option, optionIndex) => (
+                <input
+                  key={optionIndex}
+                  type="text"
+                  value={option.feedback}
+                  onChange={(e) => updateOption(optionIndex, 'feedback', e.target.value)}
+                  placeholder={`Feedback for students who answer ${option.text} (optional)`}
+                  maxLength={500}
+                  className="w-full px-3 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {question.type === 'short_answer' && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700">
+                Accepted Answers
+              </label>
+              <button
+                type="button"
+                onClick={() => updateAcceptedAnswer(question.acceptedAnswers.length, '')}
+                className="text-primary-600 hover:text-primary-700 text-sm flex items-center"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add Answer
+              </button>
+            </div>
+            <div className="space-y-2">
+              {question.acceptedAnswers.map((answer, answerIndex) => (
+                <div key={answerIndex} className="flex items-center space-x-2 bg-white p-3 rounded border">
+                  <input
+                    type="text"
+                    value={answer}
+                    onChange={(e) => updateAcceptedAnswer(answerIndex, e.target.value)}
+                    placeholder={`Accepted answer ${answerIndex + 1}`}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  {question.acceptedAnswers.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => updateAcceptedAnswer(answerIndex, null)}
+                      className="text-error-600 hover:text-error-700"
+                      title="Remove answer"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              Answers are compared ignoring capitalisation and extra spaces.
+            </p>
+          </div>
+        )}
+
+        {question.type === 'numeric' && (
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Correct Answer"
+              type="number"
+              step="any"
+              value={question.numericAnswer}
+              onChange={(e) => updateField('numericAnswer', e.target.value)}
+              fullWidth
+            />
+            <Input
+              label="Tolerance (±)"
+              type="number"
+              step="any"
+              min="0"
+              value={question.tolerance}
+              onChange={(e) => updateField('tolerance', e.target.value)}
+              helperText="How far from the answer still counts"
+              fullWidth
+              placeholder="0"
+            />
+          </div>
+        )}
+
+        {question.type === 'matching' && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700">
+                Pairs (minimum 2)
+              </label>
+              <button
+                type="button"
+                onClick={() => updatePair(question.pairs.length, { prompt: '', match: '' })}
+                className="text-primary-600 hover:text-primary-700 text-sm flex items-center"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add Pair
+              </button>
+            </div>
+            <div className="space-y-2">
+              {question.pairs.map((pair, pairIndex) => (
+                <div key={pairIndex} className="flex items-center space-x-2 bg-white p-3 rounded border">
+                  <input
+                    type="text"
+                    value={pair.prompt}
+                    onChange={(e) => updatePair(pairIndex, { ...pair, prompt: e.target.value })}
+                    placeholder={`Prompt ${pairIndex + 1}`}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  <span className="text-gray-400">→</span>
+                  <input
+                    type="text"
+                    value={pair.match}
+                    onChange={(e) => updatePair(pairIndex, { ...pair, match: e.target.value })}
+                    placeholder={`Match ${pairIndex + 1}`}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  {question.pairs.length > 2 && (
+                    <button
+                      type="button"
+                      onClick={() => updatePair(pairIndex, null)}
+                      className="text-error-600 hover:text-error-700"
+                      title="Remove pair"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              Students see the matches shuffled and pick one for each prompt.
+            </p>
+          </div>
+        )}
+
+        {question.type === 'essay' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Grading Rubric
+            </label>
+            <textarea
+              value={question.rubric}
+              onChange={(e) => updateField('rubric', e.target.value)}
+              rows={4}
+              placeholder="What a full-marks answer should cover"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+            />
+            <p className="mt-2 text-xs text-gray-500">
+              Shown to graders only. Attempts stay pending review until every response is graded.
+            </p>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Explanation (optional)
+          </label>
+          <textarea
+            value={question.explanation}
+            onChange={(e) => updateField('explanation', e.target.value)}
+            rows={2}
+            placeholder="Why the correct answer is correct"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionEditor;
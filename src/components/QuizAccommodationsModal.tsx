@@ -0,0 +1,351 @@
+// src/components/QuizAccommodationsModal.tsx
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, CalendarClock, Clock, Edit, RefreshCw, Save, Trash, UserCheck, X } from 'lucide-react';
+
+import Button from './ui/Button';
+import Input from './ui/Input';
+import { useQuizStore, QuizAccommodation } from '../stores/quizStore';
+import { useProgressStore } from '../stores/progressStore';
+import { formatDateTime, toDateTimeLocalValue } from '../lib/utils';
+
+interface QuizAccommodationsModalProps {
+  courseId: string;
+  quiz: {
+    _id: string;
+    title: string;
+    timeLimit: number;
+  };
+  onClose: () => void;
+}
+
+// Dates are datetime-local input values; a blank date keeps the quiz's own
+interface AccommodationFormData {
+  studentId: string;
+  timeMultiplier: string;
+  availableFrom: string;
+  availableUntil: string;
+  extraAttempts: string;
+  note: string;
+}
+
+const emptyAccommodationForm: AccommodationFormData = {
+  studentId: '',
+  timeMultiplier: '1',
+  availableFrom: '',
+  availableUntil: '',
+  extraAttempts: '0',
+  note: ''
+};
+
+const toAccommodationFormData = (accommodation: QuizAccommodation): AccommodationFormData => ({
+  studentId: accommodation.student._id,
+  timeMultiplier: String(accommodation.timeMultiplier),
+  availableFrom: toDateTimeLocalValue(accommodation.availableFrom),
+  availableUntil: toDateTimeLocalValue(accommodation.availableUntil),
+  extraAttempts: String(accommodation.extraAttempts),
+  note: accommodation.note || ''
+});
+
+const getAccommodationFormError = (form: AccommodationFormData): string | null => {
+  const timeMultiplier = Number(form.timeMultiplier);
+  const extraAttempts = Number(form.extraAttempts);
+
+  if (!form.studentId) {
+    return 'Choose a student';
+  }
+  if (!Number.isFinite(timeMultiplier) || timeMultiplier < 1 || timeMultiplier > 5) {
+    return 'Time multiplier must be between 1 and 5';
+  }
+  if (!Number.isInteger(extraAttempts) || extraAttempts < 0 || extraAttempts > 20) {
+    return 'Extra attempts must be a whole number between 0 and 20';
+  }
+  if (form.availableFrom && form.availableUntil && new Date(form.availableUntil) <= new Date(form.availableFrom)) {
+    return 'The window must close after it opens';
+  }
+  return null;
+};
+
+const toDatePayload = (value: string) => value ? new Date(value).toISOString() : null;
+
+// One line describing everything an accommodation changes
+const describeAccommodation = (accommodation: QuizAccommodation, timeLimit: number) => {
+  const parts: string[] = [];
+  if (accommodation.timeMultiplier !== 1) {
+    parts.push(`${accommodation.timeMultiplier}x time (${Math.round(timeLimit * accommodation.timeMultiplier)} minutes)`);
+  }
+  if (accommodation.availableFrom) {
+    parts.push(`opens ${formatDateTime(accommodation.availableFrom)}`);
+  }
+  if (accommodation.availableUntil) {
+    parts.push(`closes ${formatDateTime(accommodation.availableUntil)}`);
+  }
+  if (accommodation.extraAttempts > 0) {
+    parts.push(`${accommodation.extraAttempts} extra attempt${accommodation.extraAttempts === 1 ? '' : 's'}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'No changes from the quiz';
+};
+
+const QuizAccommodationsModal: React.FC<QuizAccommodationsModalProps> = ({ courseId, quiz, onClose }) => {
+  const { accommodations, fetchAccommodations, saveAccommodation, deleteAccommodation, error } = useQuizStore();
+  const { studentsProgress, fetchStudentsProgress } = useProgressStore();
+
+  const [form, setForm] = useState<AccommodationFormData | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchAccommodations(quiz._id);
+    fetchStudentsProgress(courseId);
+  }, [quiz._id, courseId, fetchAccommodations, fetchStudentsProgress]);
+
+  const students = studentsProgress.map(progress => progress.student);
+  const availableStudents = students.filter(student =>
+    !accommodations.some(accommodation => accommodation.student._id === student._id)
+  );
+
+  const openCreateForm = () => {
+    setForm({ ...emptyAccommodationForm });
+    setIsEditing(false);
+    setFormError(null);
+  };
+
+  const openEditForm = (accommodation: QuizAccommodation) => {
+    setForm(toAccommodationFormData(accommodation));
+    setIsEditing(true);
+    setFormError(null);
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setIsEditing(false);
+    setFormError(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    const validationError = getAccommodationFormError(form);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      await saveAccommodation(quiz._id, form.studentId, {
+        timeMultiplier: Number(form.timeMultiplier),
+        availableFrom: toDatePayload(form.availableFrom),
+        availableUntil: toDatePayload(form.availableUntil),
+        extraAttempts: Number(form.extraAttempts),
+        note: form.note.trim()
+      });
+      closeForm();
+    } catch (err) {
+      setFormError((err as Error).message || 'Failed to save accommodation');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (accommodation: QuizAccommodation) => {
+    setFormError(null);
+    try {
+      await deleteAccommodation(quiz._id, accommodation.student._id);
+      if (form?.studentId === accommodation.student._id) {
+        closeForm();
+      }
+    } catch (err) {
+      setFormError((err as Error).message || 'Failed to remove accommodation');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-semibold">Accommodations</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+        <p className="text-gray-600 mb-6">
+          Extra time, an individual window or extra attempts on "{quiz.title}" for individual students.
+          Everyone else takes the quiz as it is set up.
+        </p>
+
+        {(formError || error) && (
+          <div className="bg-error-50 text-error-700 p-3 rounded-md mb-4 flex items-center">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            {formError || error}
+          </div>
+        )}
+
+        {accommodations.length > 0 ? (
+          <div className="space-y-3 mb-6">
+            {accommodations.map(accommodation => (
+              <div key={accommodation._id} className="border border-gray-200 rounded-md p-4 flex items-start justify-between">
+                <div>
+                  <div className="font-medium text-gray-900">{accommodation.student.name}</div>
+                  <div className="text-sm text-gray-500">{accommodation.student.email}</div>
+                  <div className="text-sm text-gray-700 mt-1">
+                    {describeAccommodation(accommodation, quiz.timeLimit)}
+                  </div>
+                  {accommodation.note && (
+                    <div className="text-xs text-gray-500 mt-1 italic">{accommodation.note}</div>
+                  )}
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => openEditForm(accommodation)}
+                    icon={<Edit className="h-4 w-4" />}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(accommodation)}
+                    icon={<Trash className="h-4 w-4" />}
+                    className="text-error-600 hover:text-error-700"
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-6 mb-6 border border-dashed border-gray-300 rounded-md">
+            <UserCheck className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+            <p className="text-gray-600">No accommodations for this quiz yet.</p>
+          </div>
+        )}
+
+        {form ? (
+          <form onSubmit={handleSave} className="border-t pt-4 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Student
+              </label>
+              <select
+                value={form.studentId}
+                onChange={(e) => setForm({ ...form, studentId: e.target.value })}
+                disabled={isEditing}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+              >
+                {isEditing ? (
+                  accommodations
+                    .filter(accommodation => accommodation.student._id === form.studentId)
+                    .map(accommodation => (
+                      <option key={accommodation.student._id} value={accommodation.student._id}>
+                        {accommodation.student.name} ({accommodation.student.email})
+                      </option>
+                    ))
+                ) : (
+                  <>
+                    <option value="">Choose an enrolled student</option>
+                    {availableStudents.map(student => (
+                      <option key={student._id} value={student._id}>
+                        {student.name} ({student.email})
+                      </option>
+                    ))}
+                  </>
+                )}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Time Multiplier"
+                type="number"
+                min="1"
+                max="5"
+                step="0.25"
+                value={form.timeMultiplier}
+                onChange={(e) => setForm({ ...form, timeMultiplier: e.target.value })}
+                helperText={`1.5 gives time and a half (${Math.round(quiz.timeLimit * (Number(form.timeMultiplier) || 1))} minutes)`}
+                leftIcon={<Clock className="h-4 w-4" />}
+                fullWidth
+              />
+              <Input
+                label="Extra Attempts"
+                type="number"
+                min="0"
+                max="20"
+                value={form.extraAttempts}
+                onChange={(e) => setForm({ ...form, extraAttempts: e.target.value })}
+                helperText="On top of the quiz's attempt limit"
+                leftIcon={<RefreshCw className="h-4 w-4" />}
+                fullWidth
+              />
+              <Input
+                label="Opens For This Student"
+                type="datetime-local"
+                value={form.availableFrom}
+                onChange={(e) => setForm({ ...form, availableFrom: e.target.value })}
+                helperText="Leave blank to use the quiz's opening date"
+                leftIcon={<CalendarClock className="h-4 w-4" />}
+                fullWidth
+              />
+              <Input
+                label="Closes For This Student"
+                type="datetime-local"
+                value={form.availableUntil}
+                onChange={(e) => setForm({ ...form, availableUntil: e.target.value })}
+                helperText="Leave blank to use the quiz's closing date"
+                leftIcon={<CalendarClock className="h-4 w-4" />}
+                fullWidth
+              />
+            </div>
+
+            <Input
+              label="Note"
+              value={form.note}
+              onChange={(e) => setForm({ ...form, note: e.target.value })}
+              helperText="Only visible to faculty"
+              maxLength={500}
+              fullWidth
+              placeholder="e.g. Documented accommodation, term 1"
+            />
+
+            <div className="flex space-x-3 justify-end">
+              <Button type="button" variant="outline" onClick={closeForm}>
+                Cancel
+              </Button>
+              <Button type="submit" isLoading={isSaving} icon={<Save className="h-4 w-4" />}>
+                {isEditing ? 'Update Accommodation' : 'Grant Accommodation'}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex justify-between items-center border-t pt-4">
+            <span className="text-sm text-gray-500">
+              {availableStudents.length === 0 && students.length > 0
+                ? 'Every enrolled student already has an accommodation'
+                : `${students.length} enrolled students`}
+            </span>
+            <div className="flex space-x-3">
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button
+                onClick={openCreateForm}
+                disabled={availableStudents.length === 0}
+                icon={<UserCheck className="h-4 w-4" />}
+              >
+                Add Accommodation
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizAccommodationsModal;
@@ -0,0 +1,350 @@
+// src/components/QuizAttemptReviewModal.tsx
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, Clock, Save, ShieldAlert, Undo2, X, XCircle } from 'lucide-react';
+
+import Button from './ui/Button';
+import Input from './ui/Input';
+import {
+  useQuizStore, QuizAttemptAnswer, QuizAttemptDetail, QuizQuestion, INTEGRITY_EVENT_LABELS
+} from '../stores/quizStore';
+import { formatDateTime } from '../lib/utils';
+
+interface QuizAttemptReviewModalProps {
+  quizId: string;
+  attemptId: string;
+  onClose: () => void;
+}
+
+const optionTexts = (question: QuizQuestion, optionIds: string[]) =>
+  optionIds.map(id => question.options.find(option => option._id === id)?.text || 'Removed option');
+
+// What the student answered and what the key expects, as text
+const describeAnswer = (question: QuizQuestion, answer?: QuizAttemptAnswer) => {
+  const noAnswer = 'No answer';
+
+  switch (question.type) {
+    case 'short_answer':
+      return {
+        response: answer?.textAnswer?.trim() || noAnswer,
+        key: (question.acceptedAnswers || []).join(', ')
+      };
+    case 'numeric':
+      return {
+        response: answer?.textAnswer?.trim() || noAnswer,
+        key: `${question.numericAnswer}${question.tolerance ? ` (± ${question.tolerance})` : ''}`
+      };
+    case 'matching': {
+      const pairs = question.pairs || [];
+      const matches = (answer?.matches || []).map(entry => {
+        const prompt = pairs.find(pair => pair._id === entry.prompt)?.prompt;
+        const chosen = pairs.find(pair => pair._id === entry.answer)?.match;
+        return `${prompt} → ${chosen}`;
+      });
+      return {
+        response: matches.length > 0 ? matches.join('; ') : noAnswer,
+        key: pairs.map(pair => `${pair.prompt} → ${pair.match}`).join('; ')
+      };
+    }
+    case 'ordering':
+      return {
+        response: answer?.selectedOptions?.length ? optionTexts(question, answer.selectedOptions).join(' → ') : noAnswer,
+        key: question.options.map(option => option.text).join(' → ')
+      };
+    case 'essay':
+      return {
+        response: answer?.textAnswer?.trim() || noAnswer,
+        key: question.rubric || ''
+      };
+    default:
+      return {
+        response: answer?.selectedOptions?.length ? optionTexts(question, answer.selectedOptions).join(', ') : noAnswer,
+        key: question.options.filter(option => option.isCorrect).map(option => option.text).join(', ')
+      };
+  }
+};
+
+const QuizAttemptReviewModal: React.FC<QuizAttemptReviewModalProps> = ({ quizId, attemptId, onClose }) => {
+  const { fetchAttemptDetail, overrideAttemptScore, removeScoreOverride } = useQuizStore();
+
+  const [attempt, setAttempt] = useState<QuizAttemptDetail | null>(null);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [overrideForm, setOverrideForm] = useState({ score: '', reason: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAttempt(null);
+    setReviewError(null);
+
+    fetchAttemptDetail(quizId, attemptId)
+      .then(detail => {
+        if (!cancelled) setAttempt(detail);
+      })
+      .catch((err) => {
+        if (!cancelled) setReviewError((err as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [quizId, attemptId, fetchAttemptDetail]);
+
+  const handleOverride = async () => {
+    const score = Number(overrideForm.score);
+
+    if (overrideForm.score.trim() === '' || !(score >= 0) || score > 100) {
+      setReviewError('Score must be between 0 and 100');
+      return;
+    }
+    if (!overrideForm.reason.trim()) {
+      setReviewError('Please give a reason for the override');
+      return;
+    }
+
+    setIsSaving(true);
+    setReviewError(null);
+    try {
+      const updated = await overrideAttemptScore(quizId, attemptId, { score, reason: overrideForm.reason });
+      setAttempt(prev => prev && { ...prev, score: updated.score, passed: updated.passed, scoreOverride: updated.scoreOverride });
+      setOverrideForm({ score: '', reason: '' });
+    } catch (err) {
+      setReviewError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveOverride = async () => {
+    setIsSaving(true);
+    setReviewError(null);
+    try {
+      const updated = await removeScoreOverride(quizId, attemptId);
+      setAttempt(prev => prev && { ...prev, score: updated.score, passed: updated.passed, scoreOverride: null });
+    } catch (err) {
+      setReviewError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const student = attempt && typeof attempt.student === 'object' ? attempt.student : null;
+  const override = attempt?.scoreOverride;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-semibold">
+              {student ? student.name : 'Attempt'}
+              {attempt && ` — Attempt ${attempt.attemptNumber}`}
+            </h2>
+            {attempt?.completedAt && (
+              <p className="text-sm text-gray-500">
+                Submitted {formatDateTime(attempt.completedAt)}
+                {attempt.isLate && ` · Late${attempt.latePenalty ? ` (−${attempt.latePenalty}%)` : ''}`}
+                {attempt.regradedAt && ` · Regraded ${formatDateTime(attempt.regradedAt)}`}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {reviewError && (
+          <div className="bg-error-50 text-error-700 p-3 rounded-md mb-4 flex items-center">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            {reviewError}
+          </div>
+        )}
+
+        {!attempt ? (
+          !reviewError && (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-primary-600"></div>
+            </div>
+          )
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              <div className="bg-primary-50 p-4 rounded-lg text-center">
+                <div className="text-2xl font-bold text-primary-600">
+                  {attempt.status === 'pending_review' ? '–' : `${attempt.score}%`}
+                </div>
+                <div className="text-sm text-primary-700">Score</div>
+              </div>
+              <div className="bg-secondary-50 p-4 rounded-lg text-center">
+                <div className="text-2xl font-bold text-secondary-600">
+                  {attempt.pointsEarned ?? 0} / {attempt.pointsPossible ?? 0}
+                </div>
+                <div className="text-sm text-secondary-700">Points</div>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg text-center">
+                <div className="text-2xl font-bold text-gray-700">
+                  {attempt.passed === true ? 'Passed' : attempt.passed === false ? 'Not passed' : '–'}
+                </div>
+                <div className="text-sm text-gray-600">Result</div>
+              </div>
+            </div>
+
+            {/* Score Override */}
+            <div className="border border-gray-200 rounded-lg p-4 mb-6">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Score Override</h3>
+              {override && (
+                <div className="bg-accent-50 border border-accent-200 rounded-md p-3 mb-3 text-sm text-accent-800">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      Overridden to {override.score}% (graded {override.gradedScore}%)
+                      {typeof override.overriddenBy === 'object' && ` by ${override.overriddenBy.name}`}
+                      {' '}on {formatDateTime(override.overriddenAt)}
+                      <div className="mt-1 whitespace-pre-wrap">{override.reason}</div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRemoveOverride}
+                      disabled={isSaving}
+                      icon={<Undo2 className="h-4 w-4" />}
+                    >
+                      Restore Graded Score
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {attempt.status === 'pending_review' ? (
+                <p className="text-sm text-gray-500">
+                  Grade the essay responses of this attempt before overriding its score.
+                </p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <Input
+                    label="New Score (%)"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={overrideForm.score}
+                    onChange={(e) => setOverrideForm(prev => ({ ...prev, score: e.target.value }))}
+                    fullWidth
+                  />
+                  <div className="md:col-span-3">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Reason
+                    </label>
+                    <textarea
+                      value={overrideForm.reason}
+                      onChange={(e) => setOverrideForm(prev => ({ ...prev, reason: e.target.value }))}
+                      rows={2}
+                      maxLength={1000}
+                      placeholder="Why the score is being changed, e.g. a disputed question"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    />
+                  </div>
+                  <div className="md:col-span-4 flex justify-end">
+                    <Button
+                      onClick={handleOverride}
+                      isLoading={isSaving}
+                      icon={<Save className="h-4 w-4" />}
+                    >
+                      {override ? 'Update Override' : 'Override Score'}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Integrity Events */}
+            <div className="border border-gray-200 rounded-lg p-4 mb-6">
+              <h3 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+                <ShieldAlert className="h-4 w-4 mr-1" />
+                Integrity Events
+              </h3>
+              {!attempt.integrityEvents || attempt.integrityEvents.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing was recorded during this attempt.</p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Signals from the student's browser. None of them proves misconduct on its own.
+                  </p>
+                  <ul className="text-sm divide-y divide-gray-100 max-h-48 overflow-y-auto">
+                    {attempt.integrityEvents.map((event, index) => {
+                      const questionIndex = attempt.questions.findIndex(question => question._id === event.question);
+                      return (
+                        <li key={index} className="py-1 flex justify-between">
+                          <span className="text-gray-900">
+                            {INTEGRITY_EVENT_LABELS[event.type]}
+                            {questionIndex >= 0 && <span className="text-gray-500"> · question {questionIndex + 1}</span>}
+                          </span>
+                          <span className="text-gray-500">{new Date(event.at).toLocaleTimeString()}</span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </>
+              )}
+            </div>
+
+            {/* Answers */}
+            <h3 className="text-lg font-medium mb-3">Answers</h3>
+            <div className="space-y-3">
+              {attempt.questions.map((question, index) => {
+                const answer = attempt.answers.find(entry => entry.question === question._id);
+                const { response, key } = describeAnswer(question, answer);
+                const isPending = Boolean(answer?.needsGrading);
+
+                return (
+                  <div
+                    key={question._id}
+                    className={`border-l-4 rounded-md border border-gray-200 p-4 ${
+                      isPending ? 'border-l-gray-300' :
+                      answer?.isCorrect ? 'border-l-success-500' : 'border-l-error-500'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between mb-2">
+                      <h4 className="font-medium text-gray-900">
+                        {index + 1}. {question.text}
+                      </h4>
+                      <span className={`flex items-center text-sm font-medium whitespace-nowrap ml-4 ${
+                        isPending ? 'text-gray-500' :
+                        answer?.isCorrect ? 'text-success-600' : 'text-error-600'
+                      }`}>
+                        {isPending ? '–' : answer?.pointsEarned ?? 0} / {question.points ?? 1} pts
+                        {isPending ? (
+                          <Clock className="h-4 w-4 ml-1" />
+                        ) : answer?.isCorrect ? (
+                          <CheckCircle className="h-4 w-4 ml-1" />
+                        ) : (
+                          <XCircle className="h-4 w-4 ml-1" />
+                        )}
+                      </span>
+                    </div>
+                    <div className="text-sm space-y-1">
+                      <div>
+                        <span className="text-gray-500">Student answered: </span>
+                        <span className="text-gray-900 whitespace-pre-wrap">{response}</span>
+                      </div>
+                      {key && (
+                        <div>
+                          <span className="text-gray-500">{question.type === 'essay' ? 'Rubric: ' : 'Answer key: '}</span>
+                          <span className="text-success-800">{key}</span>
+                        </div>
+                      )}
+                      {answer?.feedback && (
+                        <div>
+                          <span className="text-gray-500">Feedback: </span>
+                          <span className="text-gray-900 whitespace-pre-wrap">{answer.feedback}</span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizAttemptReviewModal;
@@ -0,0 +1,232 @@
+// src/components/QuizImportModal.tsx
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, Eye, Upload, X, XCircle } from 'lucide-react';
+
+import Button from './ui/Button';
+import Input from './ui/Input';
+import {
+  useQuizStore, QuizFileFormat, QuizImportPreview, QuizImportReportItem,
+  QUIZ_FILE_FORMAT_LABELS, QUESTION_TYPE_LABELS
+} from '../stores/quizStore';
+
+interface QuizImportModalProps {
+  courseId: string;
+  onClose: () => void;
+}
+
+const REPORT_STATUS_ICONS: Record<QuizImportReportItem['status'], React.ReactNode> = {
+  ok: <CheckCircle className="h-4 w-4 text-success-600" />,
+  warning: <AlertTriangle className="h-4 w-4 text-amber-500" />,
+  error: <XCircle className="h-4 w-4 text-error-600" />
+};
+
+// What happened to each question of an import file, errors first in red
+export const QuizImportReport: React.FC<{ report: QuizImportReportItem[] }> = ({ report }) => (
+  <div className="border border-gray-200 rounded-md divide-y divide-gray-200 max-h-72 overflow-y-auto mb-4">
+    {report.map((item, index) => (
+      <div key={index} className={`p-3 text-sm ${item.status === 'error' ? 'bg-error-50' : ''}`}>
+        <div className="flex items-start">
+          <span className="mr-2 mt-0.5">{REPORT_STATUS_ICONS[item.status]}</span>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-gray-900">{item.label}</span>
+              {item.type && (
+                <span className="text-xs text-gray-500 ml-2">{QUESTION_TYPE_LABELS[item.type]}</span>
+              )}
+            </div>
+            {item.text && <p className="text-gray-700 truncate">{item.text}</p>}
+            {item.messages.map((message, i) => (
+              <p
+                key={i}
+                className={item.status === 'error' && i === 0 ? 'text-error-700' : 'text-amber-700'}
+              >
+                {message}
+              </p>
+            ))}
+          </div>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+const QuizImportModal: React.FC<QuizImportModalProps> = ({ courseId, onClose }) => {
+  const { previewQuizImport, importQuiz } = useQuizStore();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<QuizFileFormat | ''>('');
+  const [preview, setPreview] = useState<QuizImportPreview | null>(null);
+  const [title, setTitle] = useState('');
+  const [timeLimit, setTimeLimit] = useState(30);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Any change to the file or format needs a fresh preview
+  const resetPreview = () => {
+    setPreview(null);
+    setImportError(null);
+  };
+
+  const handlePreview = async () => {
+    if (!file) {
+      setImportError('Choose a file to import');
+      return;
+    }
+
+    setIsWorking(true);
+    setImportError(null);
+    try {
+      const result = await previewQuizImport(courseId, file, format || undefined);
+      setPreview(result);
+      setTitle(result.title);
+    } catch (err) {
+      setImportError((err as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+
+    if (!title.trim()) {
+      setImportError('Quiz title is required');
+      return;
+    }
+    if (!timeLimit || timeLimit < 1 || timeLimit > 300) {
+      setImportError('Time limit must be between 1 and 300 minutes');
+      return;
+    }
+
+    setIsWorking(true);
+    setImportError(null);
+    try {
+      await importQuiz(courseId, file, { format: preview.format, title: title.trim(), timeLimit });
+      onClose();
+    } catch (err) {
+      setImportError((err as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-semibold">Import Quiz</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+        <p className="text-gray-600 mb-6">
+          Bring in questions exported from Moodle or another LMS as GIFT, Moodle XML or a QTI 2.1 package.
+          Check the preview before importing; questions that can't be read are left out.
+        </p>
+
+        {importError && (
+          <div className="bg-error-50 text-error-700 p-3 rounded-md mb-4 flex items-center">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            {importError}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              File
+            </label>
+            <input
+              type="file"
+              accept=".gift,.txt,.xml,.zip"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                resetPreview();
+              }}
+              className="w-full text-sm text-gray-700 file:mr-3 file:py-2 file:px-3 file:rounded-md file:border-0 file:bg-primary-50 file:text-primary-700"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Format
+            </label>
+            <select
+              value={format}
+              onChange={(e) => {
+                setFormat(e.target.value as QuizFileFormat | '');
+                resetPreview();
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="">Detect from the file</option>
+              {(Object.keys(QUIZ_FILE_FORMAT_LABELS) as QuizFileFormat[]).map(key => (
+                <option key={key} value={key}>{QUIZ_FILE_FORMAT_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {preview && (
+          <div className="border-t pt-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-medium text-gray-900">
+                Preview ({QUIZ_FILE_FORMAT_LABELS[preview.format]})
+              </h3>
+              <span className="text-sm text-gray-600">
+                {preview.questionCount} to import
+                {preview.skippedCount > 0 && `, ${preview.skippedCount} left out`}
+              </span>
+            </div>
+
+            <QuizImportReport report={preview.report} />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Quiz Title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                fullWidth
+              />
+              <Input
+                label="Time Limit (minutes)"
+                type="number"
+                min="1"
+                max="300"
+                value={timeLimit}
+                onChange={(e) => setTimeLimit(parseInt(e.target.value) || 0)}
+                fullWidth
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex space-x-3 justify-end pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button
+              onClick={handleImport}
+              isLoading={isWorking}
+              disabled={preview.questionCount === 0}
+              icon={<Upload className="h-4 w-4" />}
+            >
+              Import {preview.questionCount} Question{preview.questionCount === 1 ? '' : 's'}
+            </Button>
+          ) : (
+            <Button
+              onClick={handlePreview}
+              isLoading={isWorking}
+              disabled={!file}
+              icon={<Eye className="h-4 w-4" />}
+            >
+              Preview
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizImportModal;
@@ -0,0 +1,158 @@
+// src/components/QuizSpreadsheetModal.tsx
+import React, { useState } from 'react';
+import { AlertCircle, Download, Edit, Eye, X } from 'lucide-react';
+
+import Button from './ui/Button';
+import { QuizImportReport } from './QuizImportModal';
+import { useQuizStore, QuizQuestion, QuizSpreadsheetDraft } from '../stores/quizStore';
+
+interface QuizSpreadsheetModalProps {
+  courseId: string;
+  onClose: () => void;
+  onDraft: (title: string, questions: QuizQuestion[]) => void; // opens the questions in the quiz editor
+}
+
+const QuizSpreadsheetModal: React.FC<QuizSpreadsheetModalProps> = ({ courseId, onClose, onDraft }) => {
+  const { draftQuizFromSpreadsheet, downloadQuizSpreadsheetTemplate } = useQuizStore();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [draft, setDraft] = useState<QuizSpreadsheetDraft | null>(null);
+  const [spreadsheetError, setSpreadsheetError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleDownloadTemplate = async () => {
+    setSpreadsheetError(null);
+    try {
+      await downloadQuizSpreadsheetTemplate(courseId);
+    } catch (err) {
+      setSpreadsheetError((err as Error).message);
+    }
+  };
+
+  const handleCheck = async () => {
+    if (!file) {
+      setSpreadsheetError('Choose a spreadsheet to upload');
+      return;
+    }
+
+    setIsWorking(true);
+    setSpreadsheetError(null);
+    try {
+      setDraft(await draftQuizFromSpreadsheet(courseId, file));
+    } catch (err) {
+      setSpreadsheetError((err as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-semibold">Create Quiz from Spreadsheet</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+        <p className="text-gray-600 mb-4">
+          Write one question per row in the template, save it as CSV and upload it here.
+          The questions open in the quiz editor so you can review them before saving.
+        </p>
+
+        <div className="bg-gray-50 border border-gray-200 rounded-md p-3 mb-4 text-sm text-gray-700">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-medium text-gray-900">Columns</span>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleDownloadTemplate}
+              icon={<Download className="h-4 w-4" />}
+            >
+              Download Template
+            </Button>
+          </div>
+          <ul className="space-y-1">
+            <li><strong>question</strong> – the question text (required)</li>
+            <li><strong>type</strong> – single, multiple, true_false, short_answer, numeric, matching, ordering or essay; defaults to single</li>
+            <li><strong>options</strong> – choices separated by |; for matching write prompt = match, for ordering list the items in the correct order</li>
+            <li><strong>correct</strong> – option letters or numbers (A, C), True or False, accepted answers separated by |, a number such as 9.81 +- 0.05, or an essay rubric</li>
+            <li><strong>points</strong> – defaults to 1</li>
+            <li><strong>explanation</strong> – optional, shown with the results</li>
+          </ul>
+        </div>
+
+        {spreadsheetError && (
+          <div className="bg-error-50 text-error-700 p-3 rounded-md mb-4 flex items-center">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            {spreadsheetError}
+          </div>
+        )}
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Spreadsheet (CSV)
+          </label>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] || null);
+              setDraft(null);
+              setSpreadsheetError(null);
+            }}
+            className="w-full text-sm text-gray-700 file:mr-3 file:py-2 file:px-3 file:rounded-md file:border-0 file:bg-primary-50 file:text-primary-700"
+          />
+        </div>
+
+        {draft && (
+          <div className="border-t pt-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-medium text-gray-900">Rows</h3>
+              <span className="text-sm text-gray-600">
+                {draft.questionCount} question{draft.questionCount === 1 ? '' : 's'}
+                {draft.skippedCount > 0 && `, ${draft.skippedCount} row${draft.skippedCount === 1 ? '' : 's'} with errors`}
+              </span>
+            </div>
+
+            <QuizImportReport report={draft.report} />
+
+            {draft.skippedCount > 0 && (
+              <p className="text-sm text-gray-600 mb-4">
+                Rows with errors are left out of the draft. Fix them in the spreadsheet and check it again,
+                or add those questions in the editor.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex space-x-3 justify-end pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {draft ? (
+            <Button
+              onClick={() => onDraft(draft.title, draft.questions)}
+              disabled={draft.questionCount === 0}
+              icon={<Edit className="h-4 w-4" />}
+            >
+              Review {draft.questionCount} Question{draft.questionCount === 1 ? '' : 's'}
+            </Button>
+          ) : (
+            <Button
+              onClick={handleCheck}
+              isLoading={isWorking}
+              disabled={!file}
+              icon={<Eye className="h-4 w-4" />}
+            >
+              Check Spreadsheet
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizSpreadsheetModal;
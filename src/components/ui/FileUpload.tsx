@@ -133,20 +133,25 @@ const FileUpload: React.FC<FileUploadProps> = ({
 
       console.log('Upload response:', response.data);
 
+      // Uploads are only served through signed links, so hand out the signed one;
+      // the server turns it back into the plain upload URL when the course is saved
+      const linkUrl = response.data.data.previewUrl || response.data.data.fileUrl;
+
+      // FIXED: Use SERVER_BASE_URL (without /api/v1) for file access
+      // This ensures cover images work properly
+      const absoluteFileUrl = linkUrl.startsWith('http') 
+        ? linkUrl 
+        : `${SERVER_BASE_URL}${linkUrl}`;
+
       const uploadedFile = {
         ...response.data.data,
+        previewUrl: absoluteFileUrl,
         file,
         type: 'upload'
       };
 
       setUploadedFiles(prev => [...prev, uploadedFile]);
       
-      // FIXED: Use SERVER_BASE_URL (without /api/v1) for file access
-      // This ensures cover images work properly
-      const absoluteFileUrl = uploadedFile.fileUrl.startsWith('http') 
-        ? uploadedFile.fileUrl 
-        : `${SERVER_BASE_URL}${uploadedFile.fileUrl}`;
-      
       console.log('File URL returned:', absoluteFileUrl);
       onFileUpload(absoluteFileUrl, uploadedFile);
       
@@ -420,7 +425,7 @@ const FileUpload: React.FC<FileUploadProps> = ({
                 <div className="flex items-center space-x-2 ml-4">
                   {file.fileUrl && (
                     <a
-                      href={file.fileUrl}
+                      href={file.previewUrl || file.fileUrl}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-primary-600 hover:text-primary-700"
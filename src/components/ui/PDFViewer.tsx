@@ -9,6 +9,8 @@ import { cn } from '../../lib/utils';
 interface PDFViewerProps {
   fileUrl: string;
   fileName?: string;
+  // Type of the file behind a blob: URL, which has no extension to go by
+  mimeType?: string;
   className?: string;
   showControls?: boolean;
   allowDownload?: boolean;
@@ -18,6 +20,7 @@ interface PDFViewerProps {
 const PDFViewer: React.FC<PDFViewerProps> = ({
   fileUrl,
   fileName = 'Document',
+  mimeType,
   className = '',
   showControls = true,
   allowDownload = true,
@@ -46,8 +49,13 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
   // Detect if the file is a PDF
   const isPDF = fileUrl.toLowerCase().includes('.pdf') || 
                fileUrl.includes('application/pdf') ||
+               mimeType === 'application/pdf' ||
                fileName.toLowerCase().endsWith('.pdf');
 
+  // Protected course files arrive as blob: URLs that outside viewers can't fetch,
+  // so they are always shown with the browser's own viewer
+  const isLocalFile = fileUrl.startsWith('blob:');
+
   // Google Drive file ID extraction
   const getGoogleDriveFileId = (url: string) => {
     const patterns = [
@@ -97,7 +105,11 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
 
   // Auto-select best view mode for Edge
   useEffect(() => {
-    if (browserInfo.isEdge) {
+    if (isLocalFile) {
+      // Already in memory, and <object> doesn't reliably report onLoad
+      setViewMode('object');
+      setIsLoading(false);
+    } else if (browserInfo.isEdge) {
       // For Edge, start with Mozilla PDF.js as it's most compatible
       setViewMode('mozilla');
     } else if (browserInfo.isChrome) {
@@ -105,7 +117,7 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
     } else {
       setViewMode('viewer');
     }
-  }, [browserInfo]);
+  }, [browserInfo, isLocalFile]);
 
   // Handle iframe load
   const handleIframeLoad = () => {
@@ -168,13 +180,15 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
           <AlertCircle className="h-12 w-12 text-amber-500 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">PDF Plugin Required</h3>
           <p className="text-gray-600 mb-4">Your browser needs a PDF plugin to display this document.</p>
-          <Button
-            variant="primary"
-            onClick={handleOpenExternal}
-            icon={<ExternalLink className="h-4 w-4" />}
-          >
-            Open in New Tab
-          </Button>
+          {allowDownload && (
+            <Button
+              variant="primary"
+              onClick={handleOpenExternal}
+              icon={<ExternalLink className="h-4 w-4" />}
+            >
+              Open in New Tab
+            </Button>
+          )}
         </div>
       </div>
     </object>
@@ -203,14 +217,16 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
                     Download
                   </Button>
                 )}
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={handleOpenExternal}
-                  icon={<ExternalLink className="h-4 w-4" />}
-                >
-                  Open
-                </Button>
+                {allowDownload && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleOpenExternal}
+                    icon={<ExternalLink className="h-4 w-4" />}
+                  >
+                    Open
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -249,7 +265,7 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
             
             <div className="flex items-center space-x-2">
               {/* View Mode Selector - Edge optimized */}
-              <div className="hidden sm:flex rounded-md border border-gray-300 overflow-hidden">
+              <div className={cn("hidden rounded-md border border-gray-300 overflow-hidden", !isLocalFile && "sm:flex")}>
                 {browserInfo.isEdge ? (
                   <>
                     <button
@@ -339,13 +355,16 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
                 />
               )}
               
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={handleOpenExternal}
-                icon={<ExternalLink className="h-4 w-4" />}
-                title="Open in new tab"
-              />
+              {/* Opening the file on its own hands it to the browser's save button */}
+              {allowDownload && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleOpenExternal}
+                  icon={<ExternalLink className="h-4 w-4" />}
+                  title="Open in new tab"
+                />
+              )}
             </div>
           </div>
         </div>
@@ -384,9 +403,9 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
                 <div className="text-sm text-gray-600 bg-blue-50 p-3 rounded border">
                   <p className="font-medium mb-2">💡 Solutions:</p>
                   <ul className="text-left space-y-1">
-                    <li>• Click "Open in New Tab" below (Recommended)</li>
-                    <li>• Try the "PDF.js" viewer mode</li>
-                    <li>• Download the PDF to view locally</li>
+                    {allowDownload && <li>• Click "Open in New Tab" below (Recommended)</li>}
+                    {!isLocalFile && <li>• Try the "PDF.js" viewer mode</li>}
+                    {allowDownload && <li>• Download the PDF to view locally</li>}
                     {browserInfo.isEdge && (
                       <li>• Switch to Chrome or Firefox for better PDF viewing</li>
                     )}
@@ -394,21 +413,25 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
                 </div>
                 
                 <div className="flex flex-wrap justify-center gap-2">
-                  <Button
-                    variant="primary"
-                    onClick={handleOpenExternal}
-                    icon={<ExternalLink className="h-4 w-4" />}
-                  >
-                    Open in New Tab
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => switchViewMode('mozilla')}
-                    disabled={viewMode === 'mozilla'}
-                  >
-                    Try PDF.js
-                  </Button>
+                  {allowDownload && (
+                    <Button
+                      variant="primary"
+                      onClick={handleOpenExternal}
+                      icon={<ExternalLink className="h-4 w-4" />}
+                    >
+                      Open in New Tab
+                    </Button>
+                  )}
+                  {!isLocalFile && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => switchViewMode('mozilla')}
+                      disabled={viewMode === 'mozilla'}
+                    >
+                      Try PDF.js
+                    </Button>
+                  )}
                 </div>
                 
                 {allowDownload && (
@@ -453,7 +476,7 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
               {browserInfo.isEdge && " (Edge optimized)"}
             </span>
             <span className="hidden sm:inline">
-              {browserInfo.isEdge 
+              {browserInfo.isEdge && allowDownload
                 ? "Edge users: Try 'Open in New Tab' for best results"
                 : "Use Ctrl+Scroll to zoom"
               }
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '../../lib/utils';
+
+interface StarRatingProps {
+  // 0 to 5; fractional averages round to the nearest star
+  value: number;
+  // Makes the stars clickable for picking a rating
+  onChange?: (rating: number) => void;
+  size?: 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+const sizeClasses = {
+  sm: 'h-4 w-4',
+  md: 'h-5 w-5',
+  lg: 'h-7 w-7'
+};
+
+const StarRating: React.FC<StarRatingProps> = ({ value, onChange, size = 'sm', className }) => {
+  const filled = Math.round(value);
+
+  return (
+    <div className={cn('flex items-center', className)} aria-label={`${value} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map(star => {
+        const icon = (
+          <Star
+            className={cn(
+              sizeClasses[size],
+              star <= filled ? 'text-warning-500 fill-current' : 'text-gray-300'
+            )}
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            className="p-0.5 focus:outline-none focus:ring-2 focus:ring-primary-500 rounded"
+            title={`${star} star${star === 1 ? '' : 's'}`}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StarRating;
@@ -0,0 +1,85 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import Course from '../../models/Course.js';
+import { getCourse } from '../courses.js';
+
+const ownerId = new mongoose.Types.ObjectId();
+const studentId = new mongoose.Types.ObjectId();
+
+const fileUrl = 'http://localhost:5000/uploads/notes.pdf';
+const videoUrl = 'http://localhost:5000/uploads/lecture.mp4';
+
+const makeCourse = (settings = {}) => new Course({
+  title: 'Biology',
+  description: 'Cells',
+  accessCode: 'BIO101',
+  createdBy: ownerId,
+  enrolledStudents: [studentId],
+  settings,
+  sections: [{
+    title: 'Week 1',
+    subsections: [
+      { title: 'Notes', content: 'Read these', contentType: 'file', fileUrl },
+      { title: 'Lecture', content: 'Watch this', contentType: 'video', videoUrl }
+    ]
+  }]
+});
+
+// Fetch the course as the given user and return the lessons they were sent
+const fetchLessons = async (course, user) => {
+  jest.spyOn(Course, 'findById').mockReturnValue({
+    populate: () => ({ populate: () => Promise.resolve(course) })
+  });
+  jest.spyOn(course, 'save').mockResolvedValue(course);
+
+  const req = { params: { id: course._id.toString() }, user };
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+  const next = jest.fn();
+
+  await getCourse(req, res, next);
+
+  expect(next).not.toHaveBeenCalled();
+  return res.json.mock.calls[0][0].data.sections[0].subsections;
+};
+
+const isSigned = (url) => url.includes('/api/v1/files/');
+
+describe('getCourse lesson links', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env, FILE_URL_SECRET: 'test-secret' };
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.restoreAllMocks();
+  });
+
+  it('signs lesson files and videos for enrolled students', async () => {
+    const [file, video] = await fetchLessons(makeCourse(), { id: studentId.toString(), role: 'student' });
+
+    expect(isSigned(file.fileUrl)).toBe(true);
+    expect(isSigned(video.videoUrl)).toBe(true);
+  });
+
+  it('keeps lesson files view-only when downloads are off', async () => {
+    const [file, video] = await fetchLessons(
+      makeCourse({ allowDownloads: false }),
+      { id: studentId.toString(), role: 'student' }
+    );
+
+    expect(file.fileUrl).toBe(fileUrl);
+    expect(isSigned(video.videoUrl)).toBe(true);
+  });
+
+  it('does not sign lesson links for faculty without access to the course', async () => {
+    const [file, video] = await fetchLessons(
+      makeCourse(),
+      { id: new mongoose.Types.ObjectId().toString(), role: 'faculty' }
+    );
+
+    expect(file.fileUrl).toBe(fileUrl);
+    expect(video.videoUrl).toBe(videoUrl);
+  });
+});
@@ -0,0 +1,74 @@
+import { jest } from '@jest/globals';
+import Quiz from '../../models/Quiz.js';
+import QuizAttempt from '../../models/QuizAttempt.js';
+import { gradeResponse } from '../quizzes.js';
+
+const facultyId = 'faculty1';
+
+const essay = { _id: 'essay1', type: 'essay', points: 4 };
+const quiz = {
+  _id: 'quiz1',
+  course: { createdBy: facultyId },
+  questions: [essay],
+  isPassingScore: score => score >= 60
+};
+
+const makeAttempt = (status) => ({
+  _id: 'attempt1',
+  status,
+  latePenalty: 0,
+  answers: [{ question: 'essay1', textAnswer: 'My answer', pointsEarned: 0, needsGrading: true }],
+  getAnalyticsScore: () => null,
+  save: jest.fn()
+});
+
+// Run the handler and report what it sent, or the error it passed on
+const grade = async (attempt, points) => {
+  jest.spyOn(Quiz, 'findById').mockReturnValue({ populate: jest.fn().mockResolvedValue(quiz) });
+  jest.spyOn(QuizAttempt, 'findOne').mockResolvedValue(attempt);
+  jest.spyOn(Quiz, 'updateAttemptAnalytics').mockResolvedValue();
+
+  const req = {
+    params: { id: 'quiz1', attemptId: 'attempt1', questionId: 'essay1' },
+    body: { points },
+    user: { id: facultyId, role: 'faculty' }
+  };
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+  const next = jest.fn();
+
+  await gradeResponse(req, res, next);
+  return { res, error: next.mock.calls[0]?.[0] };
+};
+
+describe('gradeResponse', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('refuses to grade an attempt still in progress', async () => {
+    const attempt = makeAttempt('in_progress');
+    const { error } = await grade(attempt, 3);
+
+    expect(error.statusCode).toBe(409);
+    expect(attempt.save).not.toHaveBeenCalled();
+    expect(attempt.status).toBe('in_progress');
+  });
+
+  it('completes an attempt once its last essay is graded', async () => {
+    const attempt = makeAttempt('pending_review');
+    const { res, error } = await grade(attempt, 3);
+
+    expect(error).toBeUndefined();
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(attempt.save).toHaveBeenCalled();
+    expect(attempt.status).toBe('completed');
+    expect(attempt.score).toBe(75);
+    expect(attempt.passed).toBe(true);
+  });
+
+  it('rejects points above the question maximum', async () => {
+    const attempt = makeAttempt('pending_review');
+    const { error } = await grade(attempt, 5);
+
+    expect(error.statusCode).toBe(400);
+    expect(attempt.status).toBe('pending_review');
+  });
+});
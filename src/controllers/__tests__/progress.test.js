@@ -0,0 +1,71 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import Course from '../../models/Course.js';
+import CourseProgress from '../../models/CourseProgress.js';
+import { recordSubsectionView } from '../progress.js';
+
+const studentId = new mongoose.Types.ObjectId();
+
+const course = new Course({
+  title: 'Biology',
+  description: 'Cells',
+  accessCode: 'BIO101',
+  createdBy: new mongoose.Types.ObjectId(),
+  enrolledStudents: [studentId],
+  sections: [{
+    title: 'Week 1',
+    subsections: [{ title: 'Notes', content: 'Read these' }]
+  }]
+});
+
+const subsection = course.sections[0].subsections[0];
+
+// Record a view of the subsection as the enrolled student
+const view = async () => {
+  const req = {
+    params: { id: course._id.toString(), subsectionId: subsection._id.toString() },
+    user: { id: studentId.toString(), role: 'student' }
+  };
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+  const next = jest.fn();
+
+  await recordSubsectionView(req, res, next);
+
+  return { res, next };
+};
+
+describe('recording progress', () => {
+  beforeEach(() => {
+    jest.spyOn(Course, 'findById').mockResolvedValue(course);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('creates the progress document on the first update', async () => {
+    const progress = new CourseProgress({ user: studentId, course: course._id });
+    const upsert = jest.spyOn(CourseProgress, 'findOneAndUpdate').mockResolvedValue(progress);
+    jest.spyOn(progress, 'save').mockResolvedValue(progress);
+
+    const { res, next } = await view();
+
+    expect(next).not.toHaveBeenCalled();
+    expect(upsert.mock.calls[0][2]).toMatchObject({ upsert: true, new: true });
+    expect(res.json.mock.calls[0][0].data.lastViewedSubsection).toEqual(subsection._id);
+  });
+
+  it('loads the document a concurrent first update created', async () => {
+    const duplicate = Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+    const progress = new CourseProgress({ user: studentId, course: course._id });
+    const upsert = jest.spyOn(CourseProgress, 'findOneAndUpdate')
+      .mockRejectedValueOnce(duplicate)
+      .mockResolvedValueOnce(progress);
+    const save = jest.spyOn(progress, 'save').mockResolvedValue(progress);
+
+    const { res, next } = await view();
+
+    expect(next).not.toHaveBeenCalled();
+    expect(upsert).toHaveBeenCalledTimes(2);
+    expect(save).toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+});
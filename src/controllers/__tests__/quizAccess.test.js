@@ -0,0 +1,94 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import Course from '../../models/Course.js';
+import Quiz from '../../models/Quiz.js';
+import QuizAttempt from '../../models/QuizAttempt.js';
+import { saveQuizAnswer, recordIntegrityEvents } from '../quizzes.js';
+
+const studentId = new mongoose.Types.ObjectId();
+
+const course = new Course({
+  title: 'Biology',
+  description: 'Cells',
+  accessCode: 'BIO101',
+  createdBy: new mongoose.Types.ObjectId(),
+  enrolledStudents: [studentId]
+});
+
+const quiz = new Quiz({
+  title: 'Cells',
+  course: course._id,
+  timeLimit: 10,
+  settings: { accessPassword: 'lab-42' },
+  questions: [{
+    type: 'single',
+    text: 'Which organelle makes ATP?',
+    options: [{ text: 'Mitochondrion', isCorrect: true }, { text: 'Ribosome', isCorrect: false }]
+  }]
+});
+quiz.course = course;
+
+const question = quiz.questions[0];
+
+const attempt = new QuizAttempt({
+  quiz: quiz._id,
+  student: studentId,
+  status: 'in_progress',
+  attemptNumber: 1,
+  startedAt: new Date(),
+  deadline: new Date(Date.now() + 10 * 60 * 1000)
+});
+
+// Call a handler on the in-progress attempt as the enrolled student and report the outcome
+const send = async (handler, body) => {
+  jest.spyOn(Quiz, 'findById').mockReturnValue({ populate: jest.fn().mockResolvedValue(quiz) });
+  jest.spyOn(QuizAttempt, 'findOne').mockResolvedValue(attempt);
+  const update = jest.spyOn(QuizAttempt, 'updateOne').mockResolvedValue({ matchedCount: 1 });
+
+  const req = {
+    params: { id: quiz._id.toString() },
+    body,
+    user: { id: studentId.toString(), role: 'student' }
+  };
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+  const next = jest.fn();
+
+  await handler(req, res, next);
+
+  return { updated: update.mock.calls.length > 0, error: next.mock.calls[0]?.[0] };
+};
+
+describe('password-protected quiz attempts', () => {
+  const answer = { question: question._id.toString(), selectedOptions: [question.options[0]._id.toString()] };
+  const events = [{ type: 'tab_hidden', at: new Date().toISOString() }];
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('refuses autosaves without the password', async () => {
+    const { updated, error } = await send(saveQuizAnswer, answer);
+
+    expect(updated).toBe(false);
+    expect(error.statusCode).toBe(403);
+  });
+
+  it('autosaves with the password', async () => {
+    const { updated, error } = await send(saveQuizAnswer, { ...answer, password: 'lab-42' });
+
+    expect(error).toBeUndefined();
+    expect(updated).toBe(true);
+  });
+
+  it('refuses integrity events with the wrong password', async () => {
+    const { updated, error } = await send(recordIntegrityEvents, { events, password: 'guess' });
+
+    expect(updated).toBe(false);
+    expect(error.statusCode).toBe(403);
+  });
+
+  it('records integrity events with the password', async () => {
+    const { updated, error } = await send(recordIntegrityEvents, { events, password: 'lab-42' });
+
+    expect(error).toBeUndefined();
+    expect(updated).toBe(true);
+  });
+});
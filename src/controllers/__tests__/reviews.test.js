@@ -0,0 +1,92 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import Course from '../../models/Course.js';
+import Review from '../../models/Review.js';
+import { saveMyReview, deleteReview } from '../reviews.js';
+
+const studentId = new mongoose.Types.ObjectId();
+
+const course = new Course({
+  title: 'Biology',
+  description: 'Cells',
+  accessCode: 'BIO101',
+  createdBy: new mongoose.Types.ObjectId(),
+  enrolledStudents: [studentId]
+});
+
+const makeReview = (rating) => new Review({ course: course._id, student: studentId, rating });
+
+// Run a handler as the enrolled student and report the rating change it applied
+const run = async (handler, { params = {}, body = {} } = {}) => {
+  jest.spyOn(Course, 'findById').mockResolvedValue(course);
+  const change = jest.spyOn(Review, 'applyRatingChange').mockResolvedValue({ matchedCount: 1 });
+  jest.spyOn(Review, 'findOne').mockImplementation((filter) => {
+    const review = makeReview(4);
+    // Loading a review for deletion awaits the query; the response after a save populates it
+    return Object.assign(Promise.resolve(review), { populate: jest.fn().mockResolvedValue(review) });
+  });
+
+  const req = {
+    params: { id: course._id.toString(), ...params },
+    body,
+    user: { id: studentId.toString(), role: 'student' }
+  };
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+  const next = jest.fn();
+
+  await handler(req, res, next);
+
+  expect(next).not.toHaveBeenCalled();
+  return change.mock.calls;
+};
+
+describe('course rating changes', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('adds a new review to the rating', async () => {
+    jest.spyOn(Review, 'findOneAndUpdate').mockResolvedValue(null);
+
+    expect(await run(saveMyReview, { body: { rating: 5 } })).toEqual([[course._id, 5, 1]]);
+  });
+
+  it('moves the rating by the difference when a review is edited', async () => {
+    jest.spyOn(Review, 'findOneAndUpdate').mockResolvedValue(makeReview(4));
+
+    expect(await run(saveMyReview, { body: { rating: 2 } })).toEqual([[course._id, -2, 0]]);
+  });
+
+  it('updates instead when a concurrent first save created the review', async () => {
+    const duplicate = Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+    jest.spyOn(Review, 'findOneAndUpdate')
+      .mockRejectedValueOnce(duplicate)
+      .mockResolvedValueOnce(makeReview(3));
+
+    expect(await run(saveMyReview, { body: { rating: 5 } })).toEqual([[course._id, 2, 0]]);
+  });
+
+  it('takes a deleted review off the rating once', async () => {
+    const review = makeReview(4);
+    jest.spyOn(Review, 'findOneAndDelete').mockResolvedValueOnce(review).mockResolvedValueOnce(null);
+
+    expect(await run(deleteReview, { params: { reviewId: review._id.toString() } })).toEqual([[course._id, -4, -1]]);
+    // A second delete racing the first finds nothing left to remove, so no further change is applied
+    expect(await run(deleteReview, { params: { reviewId: review._id.toString() } })).toHaveLength(1);
+  });
+});
+
+describe('Review.applyRatingChange', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('updates the sum, count and average in one pipeline update', async () => {
+    const update = jest.spyOn(Course, 'updateOne').mockResolvedValue({ matchedCount: 1 });
+
+    await Review.applyRatingChange(course._id, -2, 0);
+
+    const [filter, pipeline] = update.mock.calls[0];
+    expect(filter).toEqual({ _id: course._id });
+    expect(pipeline).toHaveLength(2);
+    expect(pipeline[0].$set['analytics.ratingSum'].$add[1]).toBe(-2);
+    expect(pipeline[0].$set['analytics.totalRatings'].$add[1]).toBe(0);
+    expect(pipeline[1].$set).toHaveProperty(['analytics.averageRating']);
+  });
+});
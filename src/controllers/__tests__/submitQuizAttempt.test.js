@@ -0,0 +1,139 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import Course from '../../models/Course.js';
+import Quiz from '../../models/Quiz.js';
+import QuizAttempt from '../../models/QuizAttempt.js';
+import QuizAccommodation from '../../models/QuizAccommodation.js';
+import { submitQuizAttempt } from '../quizzes.js';
+
+const studentId = new mongoose.Types.ObjectId();
+
+const course = new Course({
+  title: 'Biology',
+  description: 'Cells',
+  accessCode: 'BIO101',
+  createdBy: new mongoose.Types.ObjectId(),
+  enrolledStudents: [studentId]
+});
+
+const quiz = new Quiz({
+  title: 'Cells',
+  course: course._id,
+  timeLimit: 10,
+  questions: [
+    {
+      type: 'single',
+      text: 'Which organelle makes ATP?',
+      options: [{ text: 'Mitochondrion', isCorrect: true }, { text: 'Ribosome', isCorrect: false }]
+    },
+    {
+      type: 'short_answer',
+      text: 'What process turns light into sugar?',
+      acceptedAnswers: ['photosynthesis']
+    }
+  ]
+});
+quiz.course = course;
+
+const [choiceQuestion, textQuestion] = quiz.questions;
+const correctOption = choiceQuestion.options[0]._id;
+const wrongOption = choiceQuestion.options[1]._id;
+
+// An in-progress attempt with the right answers autosaved, whose deadline is `deadlineOffset` ms from now
+const makeAttempt = (deadlineOffset) => new QuizAttempt({
+  quiz: quiz._id,
+  student: studentId,
+  status: 'in_progress',
+  attemptNumber: 1,
+  startedAt: new Date(Date.now() - 10 * 60 * 1000),
+  deadline: new Date(Date.now() + deadlineOffset),
+  answers: [
+    { question: choiceQuestion._id, selectedOptions: [correctOption] },
+    { question: textQuestion._id, textAnswer: 'photosynthesis' }
+  ]
+});
+
+// Submit the answers and report the update that graded the attempt, or the error passed on
+const submit = async (attempt, answers) => {
+  jest.spyOn(Quiz, 'findById').mockReturnValue({ populate: jest.fn().mockResolvedValue(quiz) });
+  jest.spyOn(Quiz, 'updateAttemptAnalytics').mockResolvedValue();
+  jest.spyOn(QuizAttempt, 'findOne').mockResolvedValue(attempt);
+  jest.spyOn(QuizAccommodation, 'findOne').mockResolvedValue(null);
+  jest.spyOn(attempt, 'save').mockResolvedValue(attempt);
+  const update = jest.spyOn(QuizAttempt, 'findOneAndUpdate').mockImplementation(async (filter, changes) => {
+    attempt.set(changes);
+    attempt.populate = jest.fn();
+    return attempt;
+  });
+
+  const req = {
+    params: { id: quiz._id.toString() },
+    body: { answers },
+    user: { id: studentId.toString(), role: 'student' }
+  };
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+  const next = jest.fn();
+
+  await submitQuizAttempt(req, res, next);
+
+  return { graded: update.mock.calls[0]?.[1], error: next.mock.calls[0]?.[0] };
+};
+
+const wrongChoice = [{ question: choiceQuestion._id.toString(), selectedOptions: [wrongOption.toString()] }];
+
+const blankAnswers = [
+  { question: choiceQuestion._id.toString(), selectedOptions: [], textAnswer: '', matches: [] },
+  { question: textQuestion._id.toString(), selectedOptions: [], textAnswer: '', matches: [] }
+];
+
+describe('submitQuizAttempt', () => {
+  const env = process.env;
+
+  // Answer keys sent back with the attempt are derived from this secret
+  beforeEach(() => {
+    process.env = { ...env, JWT_SECRET: 'test-secret' };
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.restoreAllMocks();
+  });
+
+  it('keeps autosaved answers when the timeout submit carries none', async () => {
+    const { graded, error } = await submit(makeAttempt(60 * 1000), []);
+
+    expect(error).toBeUndefined();
+    expect(graded.score).toBe(100);
+    expect(graded.status).toBe('completed');
+  });
+
+  it('lets answers sent before the deadline replace the saved ones', async () => {
+    const { graded } = await submit(makeAttempt(60 * 1000), wrongChoice);
+
+    expect(graded.score).toBe(50);
+  });
+
+  it('grades answers cleared in the submission as unanswered', async () => {
+    const { graded } = await submit(makeAttempt(60 * 1000), blankAnswers);
+
+    expect(graded.score).toBe(0);
+  });
+
+  it('still grades the submitted answers within the grace window after the deadline', async () => {
+    const { graded, error } = await submit(makeAttempt(-5 * 1000), wrongChoice);
+
+    expect(error).toBeUndefined();
+    expect(graded.score).toBe(50);
+  });
+
+  it('grades only the saved answers once the grace window has passed', async () => {
+    const attempt = makeAttempt(-60 * 1000);
+    const { graded, error } = await submit(attempt, wrongChoice);
+
+    expect(graded).toBeUndefined();
+    expect(error.statusCode).toBe(400);
+    expect(attempt.save).toHaveBeenCalled();
+    expect(attempt.status).toBe('completed');
+    expect(attempt.score).toBe(100);
+  });
+});
@@ -0,0 +1,288 @@
+// src/controllers/comments.js
+import mongoose from 'mongoose';
+import Course from '../models/Course.js';
+import Comment from '../models/Comment.js';
+import ErrorResponse from '../utils/errorResponse.js';
+import asyncHandler from '../middleware/async.js';
+
+const MODERATION_FLAGS = ['isPinned', 'isAnswered', 'isHidden', 'isLocked'];
+
+// Only threads are pinned, marked answered or locked; replies can only be hidden
+const THREAD_ONLY_FLAGS = ['isPinned', 'isAnswered', 'isLocked'];
+
+const canModerate = (course, user) =>
+  course.createdBy.toString() === user.id || user.role === 'admin';
+
+const isEnrolledIn = (course, userId) =>
+  Array.isArray(course.enrolledStudents) &&
+  course.enrolledStudents.some(studentId => studentId.toString() === userId);
+
+const hasSubsection = (course, subsectionId) =>
+  (course.sections || []).some(section => section.subsections.id(subsectionId));
+
+// Why the user can't take part in this course's discussion, if they can't
+const getDiscussionError = (course, user) => {
+  if (course.settings && course.settings.allowComments === false) {
+    return 'Comments are turned off for this course';
+  }
+
+  if (!canModerate(course, user) && !isEnrolledIn(course, user.id)) {
+    return 'Enroll in this course to join the discussion';
+  }
+
+  return null;
+};
+
+// Load the course and check the user may use its discussion; sends the error otherwise
+const loadDiscussionCourse = async (req, next) => {
+  const course = await Course.findById(req.params.id);
+
+  if (!course) {
+    next(new ErrorResponse(`Course not found with id of ${req.params.id}`, 404));
+    return null;
+  }
+
+  const discussionError = getDiscussionError(course, req.user);
+  if (discussionError) {
+    next(new ErrorResponse(discussionError, 403));
+    return null;
+  }
+
+  return course;
+};
+
+const loadComment = async (course, req, next) => {
+  const comment = mongoose.Types.ObjectId.isValid(req.params.commentId)
+    ? await Comment.findOne({ _id: req.params.commentId, course: course._id })
+    : null;
+
+  if (!comment) {
+    next(new ErrorResponse(`Comment not found with id of ${req.params.commentId}`, 404));
+    return null;
+  }
+
+  return comment;
+};
+
+// Deleted comments keep their place in the thread but lose their content
+const presentComment = (comment) => {
+  const data = comment.toObject();
+
+  if (data.deletedAt) {
+    data.body = '';
+    data.author = null;
+  }
+
+  return data;
+};
+
+const readBody = (req) => (typeof req.body.body === 'string' ? req.body.body.trim() : '');
+
+// @desc    Get discussion threads with their replies, for a subsection or the course board
+// @route   GET /api/v1/courses/:id/comments
+// @access  Private (Course owner, admin or enrolled students)
+export const getComments = asyncHandler(async (req, res, next) => {
+  const course = await loadDiscussionCourse(req, next);
+  if (!course) return;
+
+  const subsectionId = req.query.subsection || null;
+  if (subsectionId && (!mongoose.Types.ObjectId.isValid(subsectionId) || !hasSubsection(course, subsectionId))) {
+    return next(new ErrorResponse(`Subsection not found with id of ${subsectionId}`, 404));
+  }
+
+  const moderator = canModerate(course, req.user);
+  const visible = moderator ? {} : { isHidden: false };
+
+  const threads = await Comment.find({ course: course._id, subsection: subsectionId, parent: null, ...visible })
+    .populate('author', 'name role')
+    .sort({ isPinned: -1, createdAt: -1 });
+
+  const replies = await Comment.find({ parent: { $in: threads.map(thread => thread._id) }, ...visible })
+    .populate('author', 'name role')
+    .sort({ createdAt: 1 });
+
+  const data = threads
+    .map(thread => ({
+      ...presentComment(thread),
+      replies: replies
+        .filter(reply => reply.parent.toString() === thread._id.toString())
+        .map(presentComment)
+    }))
+    // A deleted thread is only worth showing for the replies under it
+    .filter(thread => !thread.deletedAt || thread.replies.length > 0);
+
+  res.status(200).json({
+    success: true,
+    count: data.length,
+    canModerate: moderator,
+    data
+  });
+});
+
+// @desc    Start a thread, or reply to one when parent is given
+// @route   POST /api/v1/courses/:id/comments
+// @access  Private (Course owner, admin or enrolled students)
+export const createComment = asyncHandler(async (req, res, next) => {
+  const course = await loadDiscussionCourse(req, next);
+  if (!course) return;
+
+  const body = readBody(req);
+  if (!body) {
+    return next(new ErrorResponse('Comment cannot be empty', 400));
+  }
+
+  const moderator = canModerate(course, req.user);
+  let subsection = req.body.subsection || null;
+  let parent = null;
+
+  if (req.body.parent) {
+    const replyTo = mongoose.Types.ObjectId.isValid(req.body.parent)
+      ? await Comment.findOne({ _id: req.body.parent, course: course._id })
+      : null;
+
+    if (!replyTo || (replyTo.isHidden && !moderator)) {
+      return next(new ErrorResponse(`Comment not found with id of ${req.body.parent}`, 404));
+    }
+
+    // Replies to a reply join the same thread, which keeps threads one level deep
+    const thread = replyTo.parent ? await Comment.findById(replyTo.parent) : replyTo;
+    if (!thread || (thread.isHidden && !moderator)) {
+      return next(new ErrorResponse(`Comment not found with id of ${req.body.parent}`, 404));
+    }
+
+    if (thread.isLocked && !moderator) {
+      return next(new ErrorResponse('This thread is locked and takes no new replies', 403));
+    }
+
+    parent = thread._id;
+    subsection = thread.subsection;
+  } else if (subsection && (!mongoose.Types.ObjectId.isValid(subsection) || !hasSubsection(course, subsection))) {
+    return next(new ErrorResponse(`Subsection not found with id of ${subsection}`, 404));
+  }
+
+  const comment = await Comment.create({
+    course: course._id,
+    subsection,
+    parent,
+    author: req.user.id,
+    body
+  });
+
+  await comment.populate('author', 'name role');
+
+  res.status(201).json({
+    success: true,
+    data: parent ? presentComment(comment) : { ...presentComment(comment), replies: [] }
+  });
+});
+
+// @desc    Edit your own comment
+// @route   PUT /api/v1/courses/:id/comments/:commentId
+// @access  Private (Comment author)
+export const updateComment = asyncHandler(async (req, res, next) => {
+  const course = await loadDiscussionCourse(req, next);
+  if (!course) return;
+
+  const comment = await loadComment(course, req, next);
+  if (!comment) return;
+
+  if (comment.author.toString() !== req.user.id || comment.deletedAt) {
+    return next(new ErrorResponse(`User ${req.user.id} is not authorized to edit this comment`, 403));
+  }
+
+  const thread = comment.parent ? await Comment.findById(comment.parent) : comment;
+  if (thread && thread.isLocked && !canModerate(course, req.user)) {
+    return next(new ErrorResponse('This thread is locked', 403));
+  }
+
+  const body = readBody(req);
+  if (!body) {
+    return next(new ErrorResponse('Comment cannot be empty', 400));
+  }
+
+  comment.body = body;
+  comment.editedAt = new Date();
+
+  await comment.save();
+  await comment.populate('author', 'name role');
+
+  res.status(200).json({
+    success: true,
+    data: presentComment(comment)
+  });
+});
+
+// @desc    Delete a comment. Moderators deleting a thread remove its replies too;
+//          an author deleting a thread that has replies leaves a placeholder.
+// @route   DELETE /api/v1/courses/:id/comments/:commentId
+// @access  Private (Comment author, course owner or admin)
+export const deleteComment = asyncHandler(async (req, res, next) => {
+  const course = await loadDiscussionCourse(req, next);
+  if (!course) return;
+
+  const comment = await loadComment(course, req, next);
+  if (!comment) return;
+
+  const moderator = canModerate(course, req.user);
+  if (comment.author.toString() !== req.user.id && !moderator) {
+    return next(new ErrorResponse(`User ${req.user.id} is not authorized to delete this comment`, 403));
+  }
+
+  if (comment.parent) {
+    await comment.deleteOne();
+
+    // Drop a deleted thread's placeholder once its last reply is gone
+    const thread = await Comment.findById(comment.parent);
+    if (thread && thread.deletedAt && !(await Comment.exists({ parent: thread._id }))) {
+      await thread.deleteOne();
+    }
+  } else if (moderator || !(await Comment.exists({ parent: comment._id }))) {
+    await Comment.deleteMany({ parent: comment._id });
+    await comment.deleteOne();
+  } else {
+    comment.body = '';
+    comment.deletedAt = new Date();
+    await comment.save();
+  }
+
+  res.status(200).json({
+    success: true,
+    data: {}
+  });
+});
+
+// @desc    Pin, mark answered, hide or lock a comment
+// @route   PUT /api/v1/courses/:id/comments/:commentId/moderate
+// @access  Private (Course owner or admin)
+export const moderateComment = asyncHandler(async (req, res, next) => {
+  const course = await loadDiscussionCourse(req, next);
+  if (!course) return;
+
+  if (!canModerate(course, req.user)) {
+    return next(new ErrorResponse(`User ${req.user.id} is not authorized to moderate this discussion`, 403));
+  }
+
+  const comment = await loadComment(course, req, next);
+  if (!comment) return;
+
+  const updates = MODERATION_FLAGS.filter(flag => req.body[flag] !== undefined);
+  if (updates.length === 0) {
+    return next(new ErrorResponse(`Provide at least one of ${MODERATION_FLAGS.join(', ')}`, 400));
+  }
+
+  if (comment.parent && updates.some(flag => THREAD_ONLY_FLAGS.includes(flag))) {
+    return next(new ErrorResponse('Only threads can be pinned, marked answered or locked', 400));
+  }
+
+  updates.forEach(flag => {
+    comment[flag] = Boolean(req.body[flag]);
+  });
+
+  await comment.save();
+  await comment.populate('author', 'name role');
+
+  res.status(200).json({
+    success: true,
+    data: presentComment(comment)
+  });
+});
@@ -1,7 +1,13 @@
 // src/controllers/courses.js - FIXED VERSION
 import Course from '../models/Course.js';
+import CourseProgress from '../models/CourseProgress.js';
+import Comment from '../models/Comment.js';
+import Review from '../models/Review.js';
+import EnrollmentRequest from '../models/EnrollmentRequest.js';
+import BankQuestion from '../models/BankQuestion.js';
 import ErrorResponse from '../utils/errorResponse.js';
 import asyncHandler from '../middleware/async.js';
+import { signFileUrl, toStoredFileUrl } from '../utils/signedFileUrl.js';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
@@ -95,6 +101,8 @@ export const uploadFile = asyncHandler(async (req, res, next) => {
       filename: file.filename,
       originalName: file.originalname,
       fileUrl: fileUrl,
+      // Signed link for previewing the upload before it is saved on a course
+      previewUrl: signFileUrl(fileUrl, req.user.id),
       fileSize: file.size,
       mimeType: file.mimetype,
       uploadedAt: new Date(),
@@ -132,6 +140,108 @@ export const deleteUploadedFile = asyncHandler(async (req, res, next) => {
   }
 });
 
+// Name of a file in public/uploads that a stored URL points at, if it points at one
+const getUploadFilename = (url) => {
+  const match = typeof url === 'string' ? url.match(/\/uploads\/([^/?#]+)$/) : null;
+  return match ? match[1] : null;
+};
+
+// Uploaded files used by the course's lessons
+const getCourseFilenames = (course) => {
+  const filenames = new Set();
+
+  (course.sections || []).forEach(section => {
+    (section.subsections || []).forEach(subsection => {
+      [subsection.fileUrl, subsection.videoUrl].forEach(url => {
+        const filename = getUploadFilename(url);
+        if (filename) filenames.add(filename);
+      });
+    });
+  });
+
+  return filenames;
+};
+
+// @desc    Stream an uploaded course file to the course owner, admins and enrolled students.
+//          With downloads disabled it is only ever sent inline and never as an attachment.
+// @route   GET /api/v1/courses/:id/files/:filename
+// @access  Private
+export const getCourseFile = asyncHandler(async (req, res, next) => {
+  const course = await Course.findById(req.params.id);
+
+  if (!course) {
+    return next(new ErrorResponse(`Course not found with id of ${req.params.id}`, 404));
+  }
+
+  const userId = req.user.id;
+  const canEdit = course.createdBy.toString() === userId || req.user.role === 'admin';
+  const isEnrolled = course.enrolledStudents.some(studentId => studentId.toString() === userId);
+
+  if (!canEdit && !isEnrolled) {
+    return next(new ErrorResponse(`User ${userId} is not authorized to access files for this course`, 403));
+  }
+
+  if (!course.isActive && !canEdit) {
+    return next(new ErrorResponse('Course is not available', 404));
+  }
+
+  // Only files the course actually uses, so one course can't be used to read another's
+  const filename = path.basename(req.params.filename);
+  const filePath = path.join(__dirname, '../public/uploads', filename);
+  if (!getCourseFilenames(course).has(filename) || !fs.existsSync(filePath)) {
+    return next(new ErrorResponse(`File not found with name of ${filename}`, 404));
+  }
+
+  // Owners and admins can always take a copy of their own material
+  const allowDownloads = course.settings.allowDownloads !== false || canEdit;
+  const wantsDownload = req.query.download === 'true';
+
+  if (wantsDownload && !allowDownloads) {
+    return next(new ErrorResponse('Downloads are disabled for this course', 403));
+  }
+
+  res.sendFile(filePath, {
+    headers: {
+      'Content-Disposition': `${wantsDownload ? 'attachment' : 'inline'}; filename="${filename}"`,
+      // Keep view-only files out of shared and on-disk caches
+      'Cache-Control': allowDownloads ? 'private, max-age=3600' : 'private, no-store'
+    }
+  }, (err) => {
+    if (err && !res.headersSent) {
+      next(err);
+    }
+  });
+});
+
+// Swap a course's uploaded files for links signed for this user. Lesson files stay as stored
+// when downloads are off for the user, so they only reach them view-only via getCourseFile.
+// Uploaded videos are signed either way: the lesson player embeds them straight from the
+// link, and allowDownloads covers lesson files, which have the view-only route instead.
+const withSignedFileUrls = (courseData, userId, { lessons = true, allowDownloads = true } = {}) => {
+  courseData.coverImage = signFileUrl(courseData.coverImage, userId);
+
+  if (lessons) {
+    (courseData.sections || []).forEach(section => {
+      (section.subsections || []).forEach(subsection => {
+        subsection.videoUrl = signFileUrl(subsection.videoUrl, userId);
+        if (allowDownloads) {
+          subsection.fileUrl = signFileUrl(subsection.fileUrl, userId);
+        }
+      });
+    });
+  }
+
+  return courseData;
+};
+
+// Where a student's request to join a course stands, as shown to them
+const toEnrollmentStatus = (request) => request ? {
+  status: request.status,
+  message: request.message,
+  requestedAt: request.updatedAt,
+  reviewedAt: request.reviewedAt
+} : null;
+
 // @desc    Get all courses
 // @route   GET /api/v1/courses
 // @access  Private (Different access based on role)
@@ -190,7 +300,11 @@ export const getCourses = asyncHandler(async (req, res, next) => {
 
   // Sort
   let sort = {};
-  if (req.query.sort) {
+  if (req.query.sort === 'rating' || req.query.sort === '-rating') {
+    // -rating puts the best rated first; equal averages are ordered by how many ratings they have
+    const direction = req.query.sort === 'rating' ? 1 : -1;
+    sort = { 'analytics.averageRating': direction, 'analytics.totalRatings': direction, updatedAt: -1 };
+  } else if (req.query.sort) {
     const sortField = req.query.sort.replace('-', '');
     sort[sortField] = req.query.sort.startsWith('-') ? -1 : 1;
   } else {
@@ -205,6 +319,12 @@ export const getCourses = asyncHandler(async (req, res, next) => {
 
   const total = await Course.countDocuments(query);
 
+  // Students see where their requests to join approval-required courses stand
+  const enrollmentRequests = req.user && req.user.role === 'student'
+    ? await EnrollmentRequest.find({ student: req.user.id, course: { $in: courses.map(course => course._id) } })
+    : [];
+  const requestByCourse = new Map(enrollmentRequests.map(request => [request.course.toString(), request]));
+
   // Filter sensitive data based on user role and normalize enrolledStudents
   const filteredCourses = courses.map(course => {
     const courseObj = course.toObject();
@@ -223,6 +343,15 @@ export const getCourses = asyncHandler(async (req, res, next) => {
       // Remove access code for others
       delete courseObj.accessCode;
     }
+
+    if (req.user && req.user.role === 'student') {
+      courseObj.enrollmentRequest = toEnrollmentStatus(requestByCourse.get(course._id.toString()));
+    }
+
+    // Listings only show the cover image
+    if (req.user) {
+      withSignedFileUrls(courseObj, req.user.id, { lessons: false });
+    }
     
     return courseObj;
   });
@@ -276,7 +405,7 @@ export const getCourse = asyncHandler(async (req, res, next) => {
         title: course.title,
         description: course.description,
         shortDescription: course.shortDescription,
-        coverImage: course.coverImage,
+        coverImage: signFileUrl(course.coverImage, userId),
         category: course.category,
         difficulty: course.difficulty,
         createdBy: course.createdBy,
@@ -284,6 +413,10 @@ export const getCourse = asyncHandler(async (req, res, next) => {
         isActive: course.isActive,
         createdAt: course.createdAt,
         updatedAt: course.updatedAt,
+        settings: { requireApproval: course.settings.requireApproval },
+        enrollmentRequest: toEnrollmentStatus(
+          await EnrollmentRequest.findOne({ course: course._id, student: userId })
+        ),
         // Don't include sections, access code, or other sensitive data
         sections: [],
         totalContent: 0
@@ -322,6 +455,15 @@ export const getCourse = asyncHandler(async (req, res, next) => {
     delete courseData.accessCode;
   }
 
+  // Lesson links are only signed for users who can open the course; anyone else
+  // (e.g. other faculty looking it over) gets the stored URLs, which aren't served
+  if (req.user) {
+    withSignedFileUrls(courseData, req.user.id, {
+      lessons: hasAccess,
+      allowDownloads: course.settings.allowDownloads !== false || canEdit
+    });
+  }
+
   res.status(200).json({
     success: true,
     data: courseData
@@ -378,6 +520,7 @@ export const createCourse = asyncHandler(async (req, res, next) => {
 
   // Initialize empty sections array
   req.body.sections = [];
+  req.body.coverImage = toStoredFileUrl(req.body.coverImage);
 
   console.log('Creating course with data:', req.body);
 
@@ -389,7 +532,7 @@ export const createCourse = asyncHandler(async (req, res, next) => {
 
     res.status(201).json({
       success: true,
-      data: course
+      data: withSignedFileUrls(course.toObject(), req.user.id)
     });
   } catch (error) {
     console.error('Course creation error:', error);
@@ -440,6 +583,11 @@ export const updateCourse = asyncHandler(async (req, res, next) => {
     req.body.accessCode = req.body.accessCode.toUpperCase().trim();
   }
 
+  // Links from the edit form go back in their stored form
+  if (req.body.coverImage !== undefined) {
+    req.body.coverImage = toStoredFileUrl(req.body.coverImage);
+  }
+
   // Update slug if title changed
   if (req.body.title && req.body.title !== course.title) {
     req.body.slug = req.body.title.toLowerCase()
@@ -455,7 +603,7 @@ export const updateCourse = asyncHandler(async (req, res, next) => {
 
   res.status(200).json({
     success: true,
-    data: course
+    data: withSignedFileUrls(course.toObject(), req.user.id)
   });
 });
 
@@ -505,6 +653,13 @@ export const deleteCourse = asyncHandler(async (req, res, next) => {
     // Continue with course deletion even if file deletion fails
   }
 
+  // Remove student progress records, enrollment requests, question bank, comments and reviews for this course
+  await CourseProgress.deleteMany({ course: course._id });
+  await BankQuestion.deleteMany({ course: course._id });
+  await EnrollmentRequest.deleteMany({ course: course._id });
+  await Comment.deleteMany({ course: course._id });
+  await Review.deleteMany({ course: course._id });
+
   await course.deleteOne();
 
   res.status(200).json({
@@ -543,6 +698,35 @@ export const joinCourse = asyncHandler(async (req, res, next) => {
     return next(new ErrorResponse('Cannot join your own course', 400));
   }
 
+  // Courses that require approval get a request for the owner to review instead
+  if (course.settings && course.settings.requireApproval) {
+    const existingRequest = await EnrollmentRequest.findOne({ course: course._id, student: req.user.id });
+
+    if (existingRequest && existingRequest.status === 'pending') {
+      return next(new ErrorResponse('Your request to join this course is already waiting for approval', 400));
+    }
+
+    // Asking again after a rejection, or after leaving, reopens the request
+    const request = await EnrollmentRequest.findOneAndUpdate(
+      { course: course._id, student: req.user.id },
+      { status: 'pending', message: '', reviewedBy: null, reviewedAt: null },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    await course.populate('createdBy', 'name email');
+
+    return res.status(202).json({
+      success: true,
+      message: 'Your request to join the course was sent to the instructor for approval',
+      data: {
+        _id: course._id,
+        title: course.title,
+        createdBy: course.createdBy,
+        enrollmentRequest: toEnrollmentStatus(request)
+      }
+    });
+  }
+
   // Add student to course
   course.enrolledStudents.push(req.user.id);
   await course.save();
@@ -612,7 +796,7 @@ export const addSection = asyncHandler(async (req, res, next) => {
 
   res.status(200).json({
     success: true,
-    data: course
+    data: withSignedFileUrls(course.toObject(), req.user.id)
   });
 });
 
@@ -647,7 +831,7 @@ export const updateSection = asyncHandler(async (req, res, next) => {
 
   res.status(200).json({
     success: true,
-    data: course
+    data: withSignedFileUrls(course.toObject(), req.user.id)
   });
 });
 
@@ -686,13 +870,19 @@ export const deleteSection = asyncHandler(async (req, res, next) => {
     console.log('Error deleting section files:', error);
   }
 
+  // Comments on the section's subsections go with it
+  await Comment.deleteMany({
+    course: course._id,
+    subsection: { $in: section.subsections.map(subsection => subsection._id) }
+  });
+
   course.sections.pull(req.params.sectionId);
   await course.save();
   await course.populate('createdBy', 'name email');
 
   res.status(200).json({
     success: true,
-    data: course
+    data: withSignedFileUrls(course.toObject(), req.user.id)
   });
 });
 
@@ -717,8 +907,8 @@ export const addSubsection = asyncHandler(async (req, res, next) => {
   }
 
   // Process different URL types
-  let processedVideoUrl = req.body.videoUrl;
-  let processedFileUrl = req.body.fileUrl;
+  let processedVideoUrl = toStoredFileUrl(req.body.videoUrl);
+  let processedFileUrl = toStoredFileUrl(req.body.fileUrl);
 
   // Process YouTube URL to embed format
   if (processedVideoUrl) {
@@ -764,7 +954,7 @@ export const addSubsection = asyncHandler(async (req, res, next) => {
 
   res.status(200).json({
     success: true,
-    data: course
+    data: withSignedFileUrls(course.toObject(), req.user.id)
   });
 });
 
@@ -794,8 +984,8 @@ export const updateSubsection = asyncHandler(async (req, res, next) => {
   }
 
   // Process URLs similar to add subsection
-  let processedVideoUrl = req.body.videoUrl;
-  let processedFileUrl = req.body.fileUrl;
+  let processedVideoUrl = toStoredFileUrl(req.body.videoUrl);
+  let processedFileUrl = toStoredFileUrl(req.body.fileUrl);
 
   if (processedVideoUrl) {
     if (processedVideoUrl.includes('youtube.com/watch')) {
@@ -837,7 +1027,7 @@ export const updateSubsection = asyncHandler(async (req, res, next) => {
 
   res.status(200).json({
     success: true,
-    data: course
+    data: withSignedFileUrls(course.toObject(), req.user.id)
   });
 });
 
@@ -879,13 +1069,15 @@ export const deleteSubsection = asyncHandler(async (req, res, next) => {
     console.log('Error deleting subsection file:', error);
   }
 
+  await Comment.deleteMany({ course: course._id, subsection: subsection._id });
+
   section.subsections.pull(req.params.subsectionId);
   await course.save();
   await course.populate('createdBy', 'name email');
 
   res.status(200).json({
     success: true,
-    data: course
+    data: withSignedFileUrls(course.toObject(), req.user.id)
   });
 });
 
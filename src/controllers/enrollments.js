@@ -0,0 +1,127 @@
+// src/controllers/enrollments.js
+import mongoose from 'mongoose';
+import Course from '../models/Course.js';
+import EnrollmentRequest, { ENROLLMENT_REQUEST_STATUSES } from '../models/EnrollmentRequest.js';
+import ErrorResponse from '../utils/errorResponse.js';
+import asyncHandler from '../middleware/async.js';
+
+// Requests reviewed in one go, e.g. a whole class approved at the start of term
+const MAX_REVIEW_BATCH = 500;
+
+const canManage = (course, user) =>
+  course.createdBy.toString() === user.id || user.role === 'admin';
+
+// @desc    Get enrollment requests for a course, pending ones unless a status is given
+// @route   GET /api/v1/courses/:id/enrollment-requests
+// @access  Private (Faculty/Admin - course owner)
+export const getEnrollmentRequests = asyncHandler(async (req, res, next) => {
+  const course = await Course.findById(req.params.id);
+
+  if (!course) {
+    return next(new ErrorResponse(`Course not found with id of ${req.params.id}`, 404));
+  }
+
+  if (!canManage(course, req.user)) {
+    return next(new ErrorResponse(`User ${req.user.id} is not authorized to review enrollment for this course`, 401));
+  }
+
+  const status = req.query.status || 'pending';
+  if (status !== 'all' && !ENROLLMENT_REQUEST_STATUSES.includes(status)) {
+    return next(new ErrorResponse(`Status must be one of ${ENROLLMENT_REQUEST_STATUSES.join(', ')} or all`, 400));
+  }
+
+  const requests = await EnrollmentRequest.find({
+    course: course._id,
+    ...(status !== 'all' ? { status } : {})
+  })
+    .populate('student', 'name email')
+    .populate('reviewedBy', 'name')
+    .sort({ createdAt: 1 });
+
+  res.status(200).json({
+    success: true,
+    count: requests.length,
+    data: requests
+  });
+});
+
+// @desc    Approve or reject enrollment requests, one or many at a time
+// @route   PUT /api/v1/courses/:id/enrollment-requests
+// @access  Private (Faculty/Admin - course owner)
+export const reviewEnrollmentRequests = asyncHandler(async (req, res, next) => {
+  const course = await Course.findById(req.params.id);
+
+  if (!course) {
+    return next(new ErrorResponse(`Course not found with id of ${req.params.id}`, 404));
+  }
+
+  if (!canManage(course, req.user)) {
+    return next(new ErrorResponse(`User ${req.user.id} is not authorized to review enrollment for this course`, 401));
+  }
+
+  const { requestIds, status } = req.body;
+  const message = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+
+  if (!['approved', 'rejected'].includes(status)) {
+    return next(new ErrorResponse('Status must be approved or rejected', 400));
+  }
+
+  if (!Array.isArray(requestIds) || requestIds.length === 0) {
+    return next(new ErrorResponse('Choose at least one request to review', 400));
+  }
+
+  if (requestIds.length > MAX_REVIEW_BATCH) {
+    return next(new ErrorResponse(`At most ${MAX_REVIEW_BATCH} requests can be reviewed at once`, 400));
+  }
+
+  if (requestIds.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+    return next(new ErrorResponse('Request ids must be valid ids', 400));
+  }
+
+  if (message.length > 500) {
+    return next(new ErrorResponse('Message cannot be more than 500 characters', 400));
+  }
+
+  // Requests already reviewed, or from another course, are left alone
+  const requests = await EnrollmentRequest.find({
+    _id: { $in: requestIds },
+    course: course._id,
+    status: 'pending'
+  });
+
+  if (requests.length === 0) {
+    return next(new ErrorResponse('None of these requests are waiting for review', 400));
+  }
+
+  // Only requests still pending are updated, so a concurrent review can't decide them again.
+  // The reviewedAt stamp picks out the ones this review decided.
+  const reviewedAt = new Date();
+  await EnrollmentRequest.updateMany(
+    { _id: { $in: requests.map(request => request._id) }, status: 'pending' },
+    { status, message, reviewedBy: req.user.id, reviewedAt }
+  );
+
+  const reviewed = await EnrollmentRequest.find({
+    _id: { $in: requests.map(request => request._id) },
+    status,
+    reviewedBy: req.user.id,
+    reviewedAt
+  })
+    .populate('student', 'name email')
+    .populate('reviewedBy', 'name');
+
+  if (status === 'approved' && reviewed.length > 0) {
+    await Course.updateOne(
+      { _id: course._id },
+      { $addToSet: { enrolledStudents: { $each: reviewed.map(request => request.student._id) } } }
+    );
+  }
+
+  res.status(200).json({
+    success: true,
+    count: reviewed.length,
+    // Ids that were not pending, or were decided by someone else meanwhile, for the queue to drop
+    skipped: requestIds.filter(id => !reviewed.some(request => request._id.toString() === id)),
+    data: reviewed
+  });
+});
@@ -0,0 +1,38 @@
+// src/controllers/files.js
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import ErrorResponse from '../utils/errorResponse.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// @desc    Serve an uploaded file through a signed link, with range requests for media seeking
+// @route   GET /api/v1/files/:filename
+// @access  Signed link
+export const getSignedFile = (req, res, next) => {
+  const { filename, expiresAt } = req.fileAccess;
+  const filePath = path.join(__dirname, '../public/uploads', filename);
+
+  if (!fs.existsSync(filePath)) {
+    return next(new ErrorResponse(`File not found with name of ${filename}`, 404));
+  }
+
+  const secondsLeft = Math.max(0, expiresAt - Math.floor(Date.now() / 1000));
+
+  // sendFile answers Range and If-Range itself with 206 and 416 responses
+  res.sendFile(filePath, {
+    acceptRanges: true,
+    headers: {
+      'Content-Disposition': `inline; filename="${filename}"`,
+      // Never cached past the link's own expiry
+      'Cache-Control': `private, max-age=${secondsLeft}`,
+      // The signature is the access check, so the client app may embed it from its own origin
+      'Cross-Origin-Resource-Policy': 'cross-origin'
+    }
+  }, (err) => {
+    if (err && !res.headersSent) {
+      next(err);
+    }
+  });
+};
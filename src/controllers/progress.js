@@ -0,0 +1,273 @@
+// src/controllers/progress.js
+import Course from '../models/Course.js';
+import CourseProgress from '../models/CourseProgress.js';
+import ErrorResponse from '../utils/errorResponse.js';
+import asyncHandler from '../middleware/async.js';
+
+// Collect the ids of every subsection a student is expected to complete
+const getActiveSubsectionIds = (course) => {
+  const ids = [];
+
+  (course.sections || []).forEach(section => {
+    if (!section || section.isActive === false) return;
+
+    (section.subsections || []).forEach(subsection => {
+      if (subsection && subsection.isActive !== false) {
+        ids.push(subsection._id.toString());
+      }
+    });
+  });
+
+  return ids;
+};
+
+// Locate a subsection and its parent section inside a course
+const findSubsection = (course, subsectionId) => {
+  for (const section of course.sections || []) {
+    const subsection = section.subsections.id(subsectionId);
+    if (subsection) {
+      return { section, subsection };
+    }
+  }
+  return null;
+};
+
+const isEnrolledIn = (course, userId) =>
+  Array.isArray(course.enrolledStudents) &&
+  course.enrolledStudents.some(studentId => studentId.toString() === userId);
+
+// Shape a progress document for the client
+const buildProgressSummary = (course, progress) => {
+  const activeIds = getActiveSubsectionIds(course);
+  const entries = progress ? progress.subsections : [];
+  const completedIds = entries
+    .filter(entry => entry.completed && activeIds.includes(entry.subsection.toString()))
+    .map(entry => entry.subsection.toString());
+
+  return {
+    course: course._id,
+    totalSubsections: activeIds.length,
+    completedSubsections: completedIds.length,
+    percentComplete: activeIds.length > 0
+      ? Math.round((completedIds.length / activeIds.length) * 100)
+      : 0,
+    isCompleted: Boolean(progress && progress.completedAt),
+    completedAt: progress ? progress.completedAt : null,
+    lastViewedSubsection: progress ? progress.lastViewedSubsection : null,
+    lastViewedAt: progress ? progress.lastViewedAt : null,
+    subsections: entries.map(entry => ({
+      section: entry.section,
+      subsection: entry.subsection,
+      completed: entry.completed,
+      completedAt: entry.completedAt,
+      lastViewedAt: entry.lastViewedAt
+    }))
+  };
+};
+
+// Record the course as completed the first time every active subsection is done.
+// The conditional update guarantees totalCompletions is incremented only once.
+const recordCourseCompletion = async (course, progress) => {
+  if (progress.completedAt) return;
+
+  const activeIds = getActiveSubsectionIds(course);
+  if (activeIds.length === 0) return;
+
+  const allCompleted = activeIds.every(id => {
+    const entry = progress.getSubsection(id);
+    return entry && entry.completed;
+  });
+
+  if (!allCompleted) return;
+
+  const completedAt = new Date();
+  const result = await CourseProgress.updateOne(
+    { _id: progress._id, completedAt: null },
+    { $set: { completedAt } }
+  );
+
+  if (result.modifiedCount === 1) {
+    progress.completedAt = completedAt;
+    await Course.updateOne(
+      { _id: course._id },
+      { $inc: { 'analytics.totalCompletions': 1 } }
+    );
+  }
+};
+
+// Load a student's progress document for a course, creating it on their first update. Two first
+// updates at once make one upsert hit the unique index; it then loads the one the other created.
+const findOrCreateProgress = async (userId, courseId) => {
+  const filter = { user: userId, course: courseId };
+  const options = { new: true, upsert: true, setDefaultsOnInsert: true };
+
+  try {
+    return await CourseProgress.findOneAndUpdate(filter, { $setOnInsert: filter }, options);
+  } catch (error) {
+    if (error.code !== 11000) throw error;
+    return CourseProgress.findOneAndUpdate(filter, { $setOnInsert: filter }, options);
+  }
+};
+
+// Load the course and subsection for a student progress update
+const loadProgressContext = async (req, next) => {
+  const course = await Course.findById(req.params.id);
+
+  if (!course) {
+    next(new ErrorResponse(`Course not found with id of ${req.params.id}`, 404));
+    return null;
+  }
+
+  if (!isEnrolledIn(course, req.user.id)) {
+    next(new ErrorResponse('Only enrolled students can track progress in this course', 401));
+    return null;
+  }
+
+  const location = findSubsection(course, req.params.subsectionId);
+  if (!location) {
+    next(new ErrorResponse(`Subsection not found with id of ${req.params.subsectionId}`, 404));
+    return null;
+  }
+
+  const progress = await findOrCreateProgress(req.user.id, course._id);
+
+  return { course, progress, ...location };
+};
+
+// @desc    Get current student's progress for a course
+// @route   GET /api/v1/courses/:id/progress
+// @access  Private (Enrolled students)
+export const getCourseProgress = asyncHandler(async (req, res, next) => {
+  const course = await Course.findById(req.params.id);
+
+  if (!course) {
+    return next(new ErrorResponse(`Course not found with id of ${req.params.id}`, 404));
+  }
+
+  if (!isEnrolledIn(course, req.user.id)) {
+    return next(new ErrorResponse('Only enrolled students can track progress in this course', 401));
+  }
+
+  const progress = await CourseProgress.findOne({ user: req.user.id, course: course._id });
+
+  res.status(200).json({
+    success: true,
+    data: buildProgressSummary(course, progress)
+  });
+});
+
+// @desc    Record that the current student viewed a subsection
+// @route   POST /api/v1/courses/:id/progress/:subsectionId/view
+// @access  Private (Enrolled students)
+export const recordSubsectionView = asyncHandler(async (req, res, next) => {
+  const context = await loadProgressContext(req, next);
+  if (!context) return;
+
+  const { course, progress, section, subsection } = context;
+  const now = new Date();
+
+  const entry = progress.touchSubsection(section._id, subsection._id);
+  entry.lastViewedAt = now;
+  progress.lastViewedSubsection = subsection._id;
+  progress.lastViewedAt = now;
+
+  await progress.save();
+
+  res.status(200).json({
+    success: true,
+    data: buildProgressSummary(course, progress)
+  });
+});
+
+// @desc    Mark a subsection as complete or incomplete for the current student
+// @route   PUT /api/v1/courses/:id/progress/:subsectionId
+// @access  Private (Enrolled students)
+export const updateSubsectionProgress = asyncHandler(async (req, res, next) => {
+  if (typeof req.body.completed !== 'boolean') {
+    return next(new ErrorResponse('Please specify whether the subsection is completed', 400));
+  }
+
+  const context = await loadProgressContext(req, next);
+  if (!context) return;
+
+  const { course, progress, section, subsection } = context;
+  const now = new Date();
+
+  const entry = progress.touchSubsection(section._id, subsection._id);
+  entry.completed = req.body.completed;
+  entry.completedAt = req.body.completed ? (entry.completedAt || now) : null;
+  entry.lastViewedAt = now;
+  progress.lastViewedSubsection = subsection._id;
+  progress.lastViewedAt = now;
+
+  await progress.save();
+  await recordCourseCompletion(course, progress);
+
+  res.status(200).json({
+    success: true,
+    data: buildProgressSummary(course, progress)
+  });
+});
+
+// @desc    Get progress of every enrolled student in a course
+// @route   GET /api/v1/courses/:id/progress/students
+// @access  Private (Faculty/Admin - course owner)
+export const getStudentsProgress = asyncHandler(async (req, res, next) => {
+  const course = await Course.findById(req.params.id)
+    .populate('enrolledStudents', 'name email');
+
+  if (!course) {
+    return next(new ErrorResponse(`Course not found with id of ${req.params.id}`, 404));
+  }
+
+  if (course.createdBy.toString() !== req.user.id && req.user.role !== 'admin') {
+    return next(new ErrorResponse(`User ${req.user.id} is not authorized to view progress for this course`, 401));
+  }
+
+  const progressDocs = await CourseProgress.find({ course: course._id });
+  const progressByUser = new Map(progressDocs.map(doc => [doc.user.toString(), doc]));
+
+  const students = course.enrolledStudents.map(student => {
+    const summary = buildProgressSummary(course, progressByUser.get(student._id.toString()));
+    return {
+      student: { _id: student._id, name: student.name, email: student.email },
+      totalSubsections: summary.totalSubsections,
+      completedSubsections: summary.completedSubsections,
+      percentComplete: summary.percentComplete,
+      isCompleted: summary.isCompleted,
+      completedAt: summary.completedAt,
+      lastViewedAt: summary.lastViewedAt
+    };
+  });
+
+  res.status(200).json({
+    success: true,
+    count: students.length,
+    data: students
+  });
+});
+
+// @desc    Get current student's progress across all enrolled courses
+// @route   GET /api/v1/courses/progress
+// @access  Private
+export const getMyProgress = asyncHandler(async (req, res, next) => {
+  const courses = await Course.find({ enrolledStudents: req.user.id });
+  const progressDocs = await CourseProgress.find({
+    user: req.user.id,
+    course: { $in: courses.map(course => course._id) }
+  });
+  const progressByCourse = new Map(progressDocs.map(doc => [doc.course.toString(), doc]));
+
+  const summaries = courses.map(course => {
+    const summary = buildProgressSummary(course, progressByCourse.get(course._id.toString()));
+    // The dashboard only needs the totals, not per-subsection detail
+    delete summary.subsections;
+    return summary;
+  });
+
+  res.status(200).json({
+    success: true,
+    count: summaries.length,
+    data: summaries
+  });
+});
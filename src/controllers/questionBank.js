@@ -0,0 +1,192 @@
+// src/controllers/questionBank.js
+import BankQuestion from '../models/BankQuestion.js';
+import Course from '../models/Course.js';
+import Quiz from '../models/Quiz.js';
+import ErrorResponse from '../utils/errorResponse.js';
+import asyncHandler from '../middleware/async.js';
+
+// Fields a request may set on a bank question
+const BANK_QUESTION_FIELDS = [
+  'text', 'type', 'options', 'acceptedAnswers', 'numericAnswer', 'tolerance',
+  'pairs', 'rubric', 'points', 'partialCredit', 'penalty', 'explanation', 'tags', 'difficulty'
+];
+
+const pickBankQuestionFields = (body) => {
+  const fields = {};
+  BANK_QUESTION_FIELDS.forEach(field => {
+    if (body[field] !== undefined) {
+      fields[field] = body[field];
+    }
+  });
+  return fields;
+};
+
+// Describe what is wrong with a bank question in a request body, or return null
+const getBankQuestionError = (question) => {
+  if (!question.text || !question.text.trim()) {
+    return 'Question text is required';
+  }
+
+  if (question.tags !== undefined &&
+      (!Array.isArray(question.tags) || !question.tags.every(tag => typeof tag === 'string'))) {
+    return 'Tags must be a list of words';
+  }
+
+  return Quiz.getQuestionError(question);
+};
+
+const formatValidationError = (error) =>
+  Object.values(error.errors).map(val => val.message).join(', ');
+
+// @desc    Get the question bank of a course
+// @route   GET /api/v1/courses/:courseId/question-bank
+// @access  Private (Faculty/Admin - course owner)
+export const getBankQuestions = asyncHandler(async (req, res, next) => {
+  try {
+    const course = await Course.findById(req.params.courseId);
+    if (!course) {
+      return next(new ErrorResponse(`Course not found with id of ${req.params.courseId}`, 404));
+    }
+
+    const isOwner = course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to view this question bank', 401));
+    }
+
+    // Optional ?tag= and ?difficulty= filters, matched the same way quiz rules are
+    const filter = BankQuestion.ruleFilter(course._id, {
+      tag: typeof req.query.tag === 'string' ? req.query.tag : undefined,
+      difficulty: typeof req.query.difficulty === 'string' ? req.query.difficulty : undefined
+    });
+
+    const questions = await BankQuestion.find(filter).sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      count: questions.length,
+      data: questions
+    });
+  } catch (error) {
+    console.error('Get question bank error:', error);
+    return next(new ErrorResponse('Failed to fetch question bank', 500));
+  }
+});
+
+// @desc    Add a question to the question bank of a course
+// @route   POST /api/v1/courses/:courseId/question-bank
+// @access  Private (Faculty/Admin - course owner)
+export const createBankQuestion = asyncHandler(async (req, res, next) => {
+  try {
+    const course = await Course.findById(req.params.courseId);
+    if (!course) {
+      return next(new ErrorResponse(`Course not found with id of ${req.params.courseId}`, 404));
+    }
+
+    const isOwner = course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to add questions to this question bank', 401));
+    }
+
+    const questionError = getBankQuestionError(req.body);
+    if (questionError) {
+      return next(new ErrorResponse(questionError, 400));
+    }
+
+    const question = await BankQuestion.create({
+      ...pickBankQuestionFields(req.body),
+      course: course._id,
+      createdBy: req.user.id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: question
+    });
+  } catch (error) {
+    console.error('Create bank question error:', error);
+
+    if (error.name === 'ValidationError') {
+      return next(new ErrorResponse(formatValidationError(error), 400));
+    }
+
+    return next(new ErrorResponse('Failed to add question to the question bank', 500));
+  }
+});
+
+// @desc    Update a question bank question
+// @route   PUT /api/v1/question-bank/:id
+// @access  Private (Faculty/Admin - course owner)
+export const updateBankQuestion = asyncHandler(async (req, res, next) => {
+  try {
+    const question = await BankQuestion.findById(req.params.id).populate('course');
+
+    if (!question) {
+      return next(new ErrorResponse(`Question not found with id of ${req.params.id}`, 404));
+    }
+
+    const isOwner = question.course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to update this question', 401));
+    }
+
+    // Validate the question as it will be once the changes are applied
+    const updates = pickBankQuestionFields(req.body);
+    const questionError = getBankQuestionError({ ...question.toObject(), ...updates });
+    if (questionError) {
+      return next(new ErrorResponse(questionError, 400));
+    }
+
+    question.set(updates);
+    await question.save();
+
+    res.status(200).json({
+      success: true,
+      data: question.depopulate('course')
+    });
+  } catch (error) {
+    console.error('Update bank question error:', error);
+
+    if (error.name === 'ValidationError') {
+      return next(new ErrorResponse(formatValidationError(error), 400));
+    }
+
+    return next(new ErrorResponse('Failed to update question', 500));
+  }
+});
+
+// @desc    Remove a question from the question bank
+// @route   DELETE /api/v1/question-bank/:id
+// @access  Private (Faculty/Admin - course owner)
+export const deleteBankQuestion = asyncHandler(async (req, res, next) => {
+  try {
+    const question = await BankQuestion.findById(req.params.id).populate('course');
+
+    if (!question) {
+      return next(new ErrorResponse(`Question not found with id of ${req.params.id}`, 404));
+    }
+
+    const isOwner = question.course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to delete this question', 401));
+    }
+
+    // Attempts keep their own copy of drawn questions, so past results are unaffected
+    await question.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      data: {}
+    });
+  } catch (error) {
+    console.error('Delete bank question error:', error);
+    return next(new ErrorResponse('Failed to delete question', 500));
+  }
+});
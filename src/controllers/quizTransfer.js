@@ -0,0 +1,206 @@
+// src/controllers/quizTransfer.js
+import path from 'path';
+import multer from 'multer';
+import slugify from 'slugify';
+import Quiz from '../models/Quiz.js';
+import Course from '../models/Course.js';
+import ErrorResponse from '../utils/errorResponse.js';
+import asyncHandler from '../middleware/async.js';
+import { isZip } from '../utils/zip.js';
+import {
+  QUIZ_FORMATS, getQuizFormat, detectQuizFormat, readQuizFile, readQuizSpreadsheet, writeQuizFile
+} from '../utils/quizFormats/index.js';
+import { QUIZ_SPREADSHEET_TEMPLATE } from '../utils/quizFormats/spreadsheet.js';
+
+// Import files are parsed straight from memory and never stored
+export const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+    files: 1
+  }
+});
+
+const FORMAT_NAMES = Object.values(QUIZ_FORMATS).map(format => format.label).join(', ');
+
+// @desc    Preview or import a quiz from a GIFT, Moodle XML or QTI 2.1 file
+// @route   POST /api/v1/courses/:courseId/quizzes/import
+// @access  Private (Faculty/Admin - course owner)
+export const importQuiz = asyncHandler(async (req, res, next) => {
+  try {
+    const course = await Course.findById(req.params.courseId);
+    if (!course) {
+      return next(new ErrorResponse(`Course not found with id of ${req.params.courseId}`, 404));
+    }
+
+    // Check if user is owner or admin
+    const isOwner = course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to import quizzes into this course', 401));
+    }
+
+    if (!req.file) {
+      return next(new ErrorResponse('Please upload a file', 400));
+    }
+
+    const format = req.body.format || detectQuizFormat(req.file.originalname, req.file.buffer);
+    if (!getQuizFormat(format)) {
+      return next(new ErrorResponse(`Could not tell the format of this file; choose one of ${FORMAT_NAMES}`, 400));
+    }
+
+    let parsed;
+    try {
+      parsed = readQuizFile(req.file.buffer, format);
+    } catch (parseError) {
+      return next(new ErrorResponse(`Could not read this ${getQuizFormat(format).label} file. ${parseError.message}`, 400));
+    }
+
+    const summary = {
+      format,
+      title: parsed.title || path.parse(req.file.originalname).name,
+      questionCount: parsed.questions.length,
+      skippedCount: parsed.report.length - parsed.questions.length,
+      report: parsed.report
+    };
+
+    // A preview reports what would be imported without creating anything
+    if (req.body.preview === 'true') {
+      return res.status(200).json({
+        success: true,
+        data: summary
+      });
+    }
+
+    if (parsed.questions.length === 0) {
+      return next(new ErrorResponse('The file has no questions that can be imported', 400));
+    }
+
+    const quiz = await Quiz.create({
+      title: (req.body.title || '').trim() || summary.title,
+      timeLimit: req.body.timeLimit ? Number(req.body.timeLimit) : undefined,
+      questions: parsed.questions,
+      course: course._id
+    });
+    await quiz.populate('course', 'title');
+
+    res.status(201).json({
+      success: true,
+      data: { ...summary, quiz }
+    });
+  } catch (error) {
+    console.error('Quiz import error:', error);
+
+    if (error.name === 'ValidationError') {
+      const message = Object.values(error.errors).map(val => val.message).join(', ');
+      return next(new ErrorResponse(message, 400));
+    }
+
+    return next(new ErrorResponse('Failed to import quiz', 500));
+  }
+});
+
+// @desc    Download a quiz as a GIFT, Moodle XML or QTI 2.1 file
+// @route   GET /api/v1/quizzes/:id/export?format=gift|moodle_xml|qti
+// @access  Private (Faculty/Admin - quiz course owner)
+export const exportQuiz = asyncHandler(async (req, res, next) => {
+  try {
+    const quiz = await Quiz.findById(req.params.id).populate('course');
+
+    if (!quiz) {
+      return next(new ErrorResponse(`Quiz not found with id of ${req.params.id}`, 404));
+    }
+
+    // Check if user is course owner or admin
+    const isOwner = quiz.course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to export this quiz', 401));
+    }
+
+    const format = getQuizFormat(req.query.format);
+    if (!format) {
+      return next(new ErrorResponse(`Export format must be one of ${Object.keys(QUIZ_FORMATS).join(', ')}`, 400));
+    }
+
+    // Questions drawn from the question bank differ per attempt, so only fixed questions are exported
+    if (quiz.questions.length === 0) {
+      return next(new ErrorResponse('This quiz draws all of its questions from the question bank, so there is nothing to export', 400));
+    }
+
+    const { content, skipped } = writeQuizFile(quiz, req.query.format);
+    const filename = `${slugify(quiz.title, { lower: true, strict: true }) || 'quiz'}.${format.extension}`;
+
+    res.set({
+      'Content-Type': format.contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'X-Skipped-Questions': String(skipped.length)
+    });
+    res.status(200).send(content);
+  } catch (error) {
+    console.error('Quiz export error:', error);
+    return next(new ErrorResponse('Failed to export quiz', 500));
+  }
+});
+
+// @desc    Read a CSV question spreadsheet into a draft quiz for review; nothing is saved
+// @route   POST /api/v1/courses/:courseId/quizzes/spreadsheet
+// @access  Private (Faculty/Admin - course owner)
+export const draftQuizFromSpreadsheet = asyncHandler(async (req, res, next) => {
+  try {
+    const course = await Course.findById(req.params.courseId);
+    if (!course) {
+      return next(new ErrorResponse(`Course not found with id of ${req.params.courseId}`, 404));
+    }
+
+    // Check if user is owner or admin
+    const isOwner = course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to create quizzes in this course', 401));
+    }
+
+    if (!req.file) {
+      return next(new ErrorResponse('Please upload a file', 400));
+    }
+
+    if (isZip(req.file.buffer)) {
+      return next(new ErrorResponse('Save the spreadsheet as CSV (comma or semicolon separated) and upload that', 400));
+    }
+
+    let parsed;
+    try {
+      parsed = readQuizSpreadsheet(req.file.buffer);
+    } catch (parseError) {
+      return next(new ErrorResponse(`Could not read this spreadsheet. ${parseError.message}`, 400));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        title: path.parse(req.file.originalname).name,
+        questionCount: parsed.questions.length,
+        skippedCount: parsed.report.length - parsed.questions.length,
+        report: parsed.report,
+        questions: parsed.questions
+      }
+    });
+  } catch (error) {
+    console.error('Quiz spreadsheet error:', error);
+    return next(new ErrorResponse('Failed to read spreadsheet', 500));
+  }
+});
+
+// @desc    Download the CSV template for question spreadsheets
+// @route   GET /api/v1/courses/:courseId/quizzes/spreadsheet/template
+// @access  Private (Faculty/Admin)
+export const getQuizSpreadsheetTemplate = asyncHandler(async (req, res) => {
+  res.set({
+    'Content-Type': 'text/csv; charset=utf-8',
+    'Content-Disposition': 'attachment; filename="quiz-questions-template.csv"'
+  });
+  res.status(200).send(QUIZ_SPREADSHEET_TEMPLATE);
+});
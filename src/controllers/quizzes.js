@@ -1,9 +1,867 @@
 // src/controllers/quizzes.js - FIXED VERSION
+import crypto from 'crypto';
+import mongoose from 'mongoose';
 import Quiz from '../models/Quiz.js';
-import QuizAttempt from '../models/QuizAttempt.js';
+import QuizAttempt, { INTEGRITY_EVENT_TYPES, MAX_INTEGRITY_EVENTS } from '../models/QuizAttempt.js';
 import Course from '../models/Course.js';
+import BankQuestion from '../models/BankQuestion.js';
+import QuizAccommodation from '../models/QuizAccommodation.js';
 import ErrorResponse from '../utils/errorResponse.js';
 import asyncHandler from '../middleware/async.js';
+import seededShuffle from '../utils/seededShuffle.js';
+import { isAddressInRanges } from '../utils/ipRange.js';
+import { toStoredAnswer, hasResponse, mergeSubmittedAnswers } from '../utils/attemptAnswers.js';
+
+// Submissions arriving this long after the deadline are still accepted, to allow for network latency
+const SUBMISSION_GRACE_SECONDS = 30;
+
+// Question types whose options are shown in a per-attempt order when the quiz shuffles options.
+// True/false keeps its usual order; ordering and matching items are always mixed up in the browser.
+const SHUFFLED_OPTION_TYPES = ['single', 'multiple'];
+
+// Attempts created before start/submit sessions have no status, so match on "not in progress"
+const FINISHED_ATTEMPT = { $ne: 'in_progress' };
+
+// Finished attempts whose score is final, i.e. no essay responses still waiting to be graded
+const GRADED_ATTEMPT = { $nin: ['in_progress', 'pending_review'] };
+
+// Score that counts towards the student's grade under the quiz grading policy
+const getCountedScore = (attempts, gradingPolicy) => {
+  if (!attempts || attempts.length === 0) {
+    return null;
+  }
+
+  const scores = attempts.map(attempt => attempt.score);
+
+  switch (gradingPolicy) {
+    case 'latest': {
+      const latest = attempts.reduce((last, attempt) =>
+        (attempt.attemptNumber || 1) > (last.attemptNumber || 1) ? attempt : last
+      );
+      return latest.score;
+    }
+    case 'average':
+      return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+    case 'highest':
+    default:
+      return Math.max(...scores);
+  }
+};
+
+// Work out how many attempts a student has left and when the next one opens,
+// counting any extra attempts their accommodation grants. An attempt in progress
+// uses one up, but the cooldown only runs from finished ones.
+const getRetakeStatus = (quiz, attempts, accommodation) => {
+  const attemptLimit = quiz.attemptLimit === 0 ? 0 : quiz.attemptLimit + (accommodation?.extraAttempts || 0);
+  const attemptsUsed = attempts.length;
+  const attemptsRemaining = attemptLimit === 0 ? null : Math.max(0, attemptLimit - attemptsUsed);
+
+  let nextAttemptAvailableAt = null;
+  const cooldown = quiz.settings?.retakeCooldown || 0;
+  const finishedAttempts = attempts.filter(attempt => attempt.status !== 'in_progress');
+
+  if (finishedAttempts.length > 0 && cooldown > 0) {
+    const lastFinished = Math.max(...finishedAttempts.map(attempt =>
+      new Date(attempt.completedAt || attempt.startedAt).getTime()
+    ));
+    const availableAt = new Date(lastFinished + cooldown * 60 * 1000);
+
+    if (availableAt > new Date()) {
+      nextAttemptAvailableAt = availableAt;
+    }
+  }
+
+  return {
+    attemptLimit,
+    attemptsUsed,
+    attemptsRemaining,
+    nextAttemptAvailableAt,
+    canAttempt: (attemptsRemaining === null || attemptsRemaining > 0) && !nextAttemptAvailableAt
+  };
+};
+
+// Message explaining why a student can't start another attempt, or null if they can
+const getRetakeError = (retakeStatus) => {
+  if (retakeStatus.canAttempt) {
+    return null;
+  }
+
+  if (retakeStatus.attemptsRemaining === 0) {
+    return retakeStatus.attemptLimit === 1
+      ? 'You have already attempted this quiz'
+      : `You have used all ${retakeStatus.attemptLimit} attempts for this quiz`;
+  }
+
+  return `You can retake this quiz after ${retakeStatus.nextAttemptAvailableAt.toISOString()}`;
+};
+
+// Compare short answers without regard to case or spacing
+const normalizeTextAnswer = (text) => String(text || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const isAnswerCorrect = (question, answer) => {
+  const selectedOptionIds = (answer.selectedOptions || []).map(opt => opt.toString());
+
+  switch (question.type) {
+    case 'short_answer': {
+      const response = normalizeTextAnswer(answer.textAnswer);
+      return response !== '' &&
+             question.acceptedAnswers.some(accepted => normalizeTextAnswer(accepted) === response);
+    }
+    case 'numeric': {
+      const raw = String(answer.textAnswer ?? '').trim();
+      const value = Number(raw);
+      return raw !== '' && Number.isFinite(value) &&
+             Math.abs(value - question.numericAnswer) <= (question.tolerance || 0);
+    }
+    case 'matching':
+      // Every prompt must be paired with its own match
+      return question.pairs.every(pair => (answer.matches || []).some(entry =>
+        entry.prompt.toString() === pair._id.toString() &&
+        entry.answer.toString() === pair._id.toString()
+      ));
+    case 'essay':
+      // Essays are graded by hand
+      return false;
+    case 'ordering': {
+      // Options are stored in their correct order
+      const correctOrder = question.options.map(opt => opt._id.toString());
+      return correctOrder.length === selectedOptionIds.length &&
+             correctOrder.every((id, index) => selectedOptionIds[index] === id);
+    }
+    default: {
+      const correctOptionIds = question.options
+        .filter(opt => opt.isCorrect)
+        .map(opt => opt._id.toString());
+
+      if (question.type === 'multiple') {
+        // For multiple choice, all correct options must be selected and no incorrect ones
+        return correctOptionIds.length === selectedOptionIds.length &&
+               correctOptionIds.every(id => selectedOptionIds.includes(id)) &&
+               selectedOptionIds.every(id => correctOptionIds.includes(id));
+      }
+
+      // For single choice and true/false, check if the one selected option is correct
+      return selectedOptionIds.length === 1 &&
+             correctOptionIds.includes(selectedOptionIds[0]);
+    }
+  }
+};
+
+const roundPoints = (points) => Math.round(points * 100) / 100;
+
+// Points an answer earns under the question's scoring rules
+const getPointsEarned = (question, answer, isCorrect) => {
+  const points = question.points ?? 1;
+
+  if (isCorrect) {
+    return points;
+  }
+
+  const selectedOptionIds = (answer.selectedOptions || []).map(opt => opt.toString());
+
+  if (question.type === 'multiple' && question.partialCredit) {
+    const correctOptionIds = question.options
+      .filter(opt => opt.isCorrect)
+      .map(opt => opt._id.toString());
+    const correctSelections = selectedOptionIds.filter(id => correctOptionIds.includes(id)).length;
+    const incorrectSelections = selectedOptionIds.length - correctSelections;
+
+    return roundPoints(
+      Math.max(0, (correctSelections - incorrectSelections) / correctOptionIds.length) * points
+    );
+  }
+
+  // Negative marking only applies to answered questions
+  if (['single', 'true_false'].includes(question.type) && selectedOptionIds.length > 0 && question.penalty) {
+    return -question.penalty;
+  }
+
+  return 0;
+};
+
+// The questions an attempt is graded against: those drawn for the student, or else the quiz's own
+const getAttemptQuestions = (quiz, attempt) =>
+  attempt && attempt.questions && attempt.questions.length > 0 ? attempt.questions : quiz.questions;
+
+const findQuestion = (questions, questionId) =>
+  questions.find(q => q._id.toString() === questionId.toString());
+
+// Secret value the hidden parts of a student's questions are derived from, e.g. per attempt
+const getAnswerKeySeed = (id) =>
+  crypto.createHmac('sha256', process.env.JWT_SECRET).update(id.toString()).digest('hex');
+
+// Opaque id for a matching answer choice, so students can't pair it with its prompt by id
+const getMatchChoiceId = (keySeed, pairId) =>
+  crypto.createHash('sha256').update(`${keySeed}:${pairId}`).digest('hex').slice(0, 24);
+
+// A question without its answer key, as shown to students. Ordering items and matching
+// choices are mixed up with the secret seed, since their stored order gives the answer away.
+const toStudentQuestion = (question, keySeed) => {
+  const { _id, text, type, points, penalty, options = [], pairs = [] } = question;
+  const studentQuestion = {
+    _id,
+    text,
+    type,
+    points,
+    penalty,
+    options: options.map(option => ({ _id: option._id, text: option.text }))
+  };
+
+  if (type === 'ordering') {
+    studentQuestion.options = seededShuffle(studentQuestion.options, `${keySeed}:${_id}`);
+  }
+
+  if (type === 'matching') {
+    studentQuestion.pairs = pairs.map(pair => ({ _id: pair._id, prompt: pair.prompt }));
+    studentQuestion.matchChoices = seededShuffle(
+      pairs.map(pair => ({ _id: getMatchChoiceId(keySeed, pair._id), text: pair.match })),
+      `${keySeed}:${_id}`
+    );
+  }
+
+  return studentQuestion;
+};
+
+// A quiz as shown to the given user: course owners and admins see the answer keys,
+// students see no questions at all until the quiz opens. Students see the window and
+// time limit that apply to them once their accommodation, if any, is taken into account.
+const presentQuiz = (quiz, user, canManage, accommodation) => {
+  if (canManage) {
+    return quiz;
+  }
+
+  const keySeed = getAnswerKeySeed(`${quiz._id}:${user.id}`);
+  const availability = quiz.getAvailability(new Date(), accommodation);
+  const { settings, ...details } = quiz.toJSON();
+  return {
+    ...details,
+    ...quiz.getWindow(accommodation),
+    timeLimit: quiz.timeLimit * (accommodation?.timeMultiplier || 1),
+    availability,
+    // Students are told a password or network is needed, not what it is
+    settings: { ...settings, accessPassword: undefined, allowedNetworks: undefined },
+    requiresPassword: Boolean(settings.accessPassword),
+    networkRestricted: settings.allowedNetworks.length > 0,
+    // Class results are for faculty
+    analytics: undefined,
+    // Restricted quizzes show their questions only with an attempt, once the start checks pass
+    questions: availability === 'upcoming' || settings.accessPassword || settings.allowedNetworks.length > 0
+      ? []
+      : quiz.questions.map(question => toStudentQuestion(question.toJSON(), keySeed))
+  };
+};
+
+const findAccommodation = (quiz, studentId) =>
+  QuizAccommodation.findOne({ quiz: quiz._id, student: studentId });
+
+// Why a student can't start the quiz right now, or null if they can
+const getUnavailableError = (quiz, accommodation) => {
+  switch (quiz.getAvailability(new Date(), accommodation)) {
+    case 'upcoming':
+      return `This quiz opens on ${quiz.getWindow(accommodation).availableFrom.toISOString()}`;
+    case 'closed':
+      return `This quiz closed on ${quiz.getClosingTime(accommodation).toISOString()}`;
+    default:
+      return null;
+  }
+};
+
+// Why the request can't start or submit an attempt, as a message, or null if it can: students
+// must be on one of the quiz's allowed networks and send the proctor's password, when set
+const getAccessError = (quiz, req) => {
+  const { accessPassword, allowedNetworks } = quiz.settings || {};
+
+  if (allowedNetworks && allowedNetworks.length > 0 && !isAddressInRanges(req.ip, allowedNetworks)) {
+    return 'This quiz can only be taken from an approved network, such as a campus lab';
+  }
+
+  if (accessPassword && String(req.body.password ?? '').trim() !== accessPassword) {
+    return req.body.password ? 'The quiz password is incorrect' : 'This quiz requires a password';
+  }
+
+  return null;
+};
+
+// Whether the quiz stopped accepting submissions, allowing the same grace as attempt deadlines
+const isPastClosingTime = (quiz, accommodation) => {
+  const closingTime = quiz.getClosingTime(accommodation);
+  return Boolean(closingTime) && Date.now() > closingTime.getTime() + SUBMISSION_GRACE_SECONDS * 1000;
+};
+
+// The questions in the order a student sees them in an attempt, without answer keys. When the
+// quiz shuffles questions or options the order is seeded by the attempt id, so it survives a
+// reload and results review. Answers refer to question and option ids, so grading doesn't
+// depend on this order.
+const getPresentedQuestions = (quiz, attempt) => {
+  const { shuffleQuestions, shuffleOptions } = quiz.settings || {};
+  const seed = attempt._id.toString();
+  const keySeed = getAnswerKeySeed(attempt._id);
+  let questions = getAttemptQuestions(quiz, attempt)
+    .map(question => toStudentQuestion(question.toJSON(), keySeed));
+
+  if (shuffleOptions) {
+    questions = questions.map(question => SHUFFLED_OPTION_TYPES.includes(question.type)
+      ? { ...question, options: seededShuffle(question.options, `${seed}:${question._id}`) }
+      : question);
+  }
+
+  return shuffleQuestions ? seededShuffle(questions, seed) : questions;
+};
+
+// Swap the opaque matching choice ids a student sends back for the pairs they stand for
+const resolveMatchChoices = (questions, attempt, answer) => {
+  if (!answer || !answer.question || !Array.isArray(answer.matches)) {
+    return answer;
+  }
+
+  const question = findQuestion(questions, answer.question);
+  if (!question || question.type !== 'matching') {
+    return answer;
+  }
+
+  const keySeed = getAnswerKeySeed(attempt._id);
+  return {
+    ...answer,
+    matches: answer.matches.map(entry => {
+      const pair = entry && question.pairs.find(p => getMatchChoiceId(keySeed, p._id) === entry.answer);
+      return pair ? { ...entry, answer: pair._id.toString() } : entry;
+    })
+  };
+};
+
+// A saved answer as sent back to the student: their response only, with matching choices
+// under the ids they were shown. How it was marked goes in the attempt's results.
+const toStudentAnswer = (answer, keySeed) => ({
+  question: answer.question,
+  selectedOptions: answer.selectedOptions,
+  textAnswer: answer.textAnswer,
+  matches: (answer.matches || []).map(entry => ({
+    prompt: entry.prompt,
+    answer: getMatchChoiceId(keySeed, entry.answer)
+  })),
+  timeSpent: answer.timeSpent
+});
+
+// How each question of a finished attempt was marked, with its answer key. Only given out
+// once the attempt is submitted, and only if the quiz shows results to students.
+const getAttemptResults = (quiz, attempt) => {
+  if (attempt.status === 'in_progress' || quiz.settings?.showResults === false) {
+    return null;
+  }
+
+  return getAttemptQuestions(quiz, attempt).map(question => {
+    const answer = attempt.answers.find(a => a.question.toString() === question._id.toString());
+    const selectedOptionIds = answer ? answer.selectedOptions.map(option => option.toString()) : [];
+    const result = {
+      question: question._id,
+      // Attempts graded before question types were added don't record correctness
+      isCorrect: Boolean(answer && (answer.isCorrect ?? isAnswerCorrect(question, answer))),
+      pointsEarned: (answer && answer.pointsEarned) || 0,
+      needsGrading: Boolean(answer && answer.needsGrading),
+      feedback: (answer && answer.feedback) || null,
+      explanation: question.explanation || null,
+      // Feedback written for the options the student chose
+      optionFeedback: (question.options || [])
+        .filter(option => option.feedback && selectedOptionIds.includes(option._id.toString()))
+        .map(option => ({ option: option._id, feedback: option.feedback }))
+    };
+
+    switch (question.type) {
+      case 'short_answer':
+        return { ...result, acceptedAnswers: question.acceptedAnswers };
+      case 'numeric':
+        return { ...result, numericAnswer: question.numericAnswer, tolerance: question.tolerance };
+      case 'matching':
+        return {
+          ...result,
+          correctMatches: question.pairs.map(pair => ({ prompt: pair._id, match: pair.match }))
+        };
+      case 'ordering':
+        return { ...result, correctOptions: question.options.map(option => option._id) };
+      case 'essay':
+        return result;
+      default:
+        return {
+          ...result,
+          correctOptions: question.options.filter(option => option.isCorrect).map(option => option._id)
+        };
+    }
+  });
+};
+
+// An attempt as sent to the student who took it
+const presentAttempt = (quiz, attempt) => {
+  const keySeed = getAnswerKeySeed(attempt._id);
+
+  return {
+    ...attempt.toJSON(),
+    questions: getPresentedQuestions(quiz, attempt),
+    answers: attempt.answers.map(answer => toStudentAnswer(answer, keySeed)),
+    results: getAttemptResults(quiz, attempt),
+    // Integrity signals are for faculty
+    integrityEvents: undefined,
+    // The quiz's message for the band the final score falls in
+    scoreFeedback: attempt.status === 'completed' ? quiz.getScoreFeedback(attempt.score) : null
+  };
+};
+
+// Attempt totals from the points recorded on each answer. A late penalty comes off the
+// percentage score; the points stay as earned.
+const summarizePoints = (questions, answers, latePenalty = 0) => {
+  const totalEarned = answers.reduce((sum, answer) => sum + (answer.pointsEarned || 0), 0);
+  const pointsPossible = questions.reduce((total, question) => total + (question.points ?? 1), 0);
+  const pointsEarned = roundPoints(Math.max(0, totalEarned));
+
+  return {
+    pointsEarned,
+    pointsPossible,
+    score: pointsPossible > 0
+      ? Math.round((pointsEarned / pointsPossible) * 100 * (1 - latePenalty / 100))
+      : 0,
+    // The attempt stays in review until no answer needs grading
+    status: answers.some(answer => answer.needsGrading) ? 'pending_review' : 'completed'
+  };
+};
+
+// Mark each answer, award its points and work out the percentage score.
+// Answers to unknown questions earn nothing; written essay responses are left for manual grading.
+const gradeAnswers = (questions, answers, latePenalty = 0) => {
+  const gradedAnswers = (answers || []).map(answer => {
+    const question = findQuestion(questions, answer.question);
+    const storedAnswer = toStoredAnswer(answer);
+
+    if (question && question.type === 'essay' && storedAnswer.textAnswer && storedAnswer.textAnswer.trim()) {
+      return { ...storedAnswer, pointsEarned: 0, needsGrading: true };
+    }
+
+    const isCorrect = Boolean(question && isAnswerCorrect(question, answer));
+    const pointsEarned = question ? getPointsEarned(question, answer, isCorrect) : 0;
+
+    return { ...storedAnswer, isCorrect, pointsEarned, needsGrading: false };
+  });
+
+  return {
+    answers: gradedAnswers,
+    ...summarizePoints(questions, gradedAnswers, latePenalty)
+  };
+};
+
+// Whether an attempt completed at the given time is late, and the score penalty it carries
+const getLateStatus = (quiz, completedAt, accommodation) => {
+  const isLate = quiz.isLateSubmission(completedAt, accommodation);
+  return {
+    isLate,
+    latePenalty: isLate ? (quiz.lateSubmission && quiz.lateSubmission.penalty) || 0 : 0
+  };
+};
+
+const isPastGraceWindow = (attempt) =>
+  Boolean(attempt.deadline) &&
+  Date.now() > attempt.deadline.getTime() + SUBMISSION_GRACE_SECONDS * 1000;
+
+// Close an attempt whose time ran out, grading whatever answers were saved on it
+const closeExpiredAttempt = async (quiz, attempt) => {
+  const accommodation = await findAccommodation(quiz, attempt.student);
+  const { isLate, latePenalty } = getLateStatus(quiz, attempt.deadline, accommodation);
+  const graded = gradeAnswers(getAttemptQuestions(quiz, attempt), attempt.answers, latePenalty);
+  attempt.answers = graded.answers;
+  attempt.score = graded.score;
+  attempt.pointsEarned = graded.pointsEarned;
+  attempt.pointsPossible = graded.pointsPossible;
+  attempt.status = graded.status;
+  attempt.passed = getPassed(quiz, graded);
+  attempt.completedAt = attempt.deadline;
+  attempt.isLate = isLate;
+  attempt.latePenalty = latePenalty;
+  await attempt.save();
+  await Quiz.updateAttemptAnalytics(quiz._id, null, attempt.getAnalyticsScore());
+};
+
+// Find the student's in-progress attempt, closing it first if its time has run out
+const findActiveAttempt = async (quiz, studentId) => {
+  const attempt = await QuizAttempt.findOne({
+    quiz: quiz._id,
+    student: studentId,
+    status: 'in_progress'
+  });
+
+  if (attempt && isPastGraceWindow(attempt)) {
+    await closeExpiredAttempt(quiz, attempt);
+    return null;
+  }
+
+  return attempt;
+};
+
+// Grade and close every attempt on a quiz whose time ran out while the student was away
+const closeExpiredAttempts = async (quiz) => {
+  const cutoff = new Date(Date.now() - SUBMISSION_GRACE_SECONDS * 1000);
+  const expired = await QuizAttempt.find({
+    quiz: quiz._id,
+    status: 'in_progress',
+    deadline: { $lt: cutoff }
+  });
+
+  for (const attempt of expired) {
+    await closeExpiredAttempt(quiz, attempt);
+  }
+};
+
+// Store one answer on an in-progress attempt. Uses positional updates so concurrent
+// saves for different questions don't overwrite each other. Returns false if the
+// attempt is no longer in progress.
+const saveAnswer = async (attemptId, answer) => {
+  const { question: questionId, ...fields } = toStoredAnswer(answer);
+  const positionalUpdate = {
+    $set: {
+      'answers.$.selectedOptions': fields.selectedOptions,
+      'answers.$.textAnswer': fields.textAnswer,
+      'answers.$.matches': fields.matches,
+      // Saves that don't report time keep what was recorded before
+      ...(fields.timeSpent !== null && { 'answers.$.timeSpent': fields.timeSpent })
+    }
+  };
+
+  const updated = await QuizAttempt.updateOne(
+    { _id: attemptId, status: 'in_progress', 'answers.question': questionId },
+    positionalUpdate
+  );
+
+  if (updated.matchedCount > 0) {
+    return true;
+  }
+
+  const pushed = await QuizAttempt.updateOne(
+    { _id: attemptId, status: 'in_progress', 'answers.question': { $ne: questionId } },
+    { $push: { answers: { question: questionId, ...fields } } }
+  );
+
+  if (pushed.matchedCount > 0) {
+    return true;
+  }
+
+  // Another save may have added the question in between; try the positional update once more
+  const retried = await QuizAttempt.updateOne(
+    { _id: attemptId, status: 'in_progress', 'answers.question': questionId },
+    positionalUpdate
+  );
+
+  return retried.matchedCount > 0;
+};
+
+// Share of attempts at each end of the score ranking compared by the discrimination index
+const DISCRIMINATION_GROUP_SHARE = 0.27;
+
+// Most common typed responses listed for short answer and numeric questions
+const TOP_RESPONSE_COUNT = 5;
+
+// Share correct among the top-scoring attempts minus the share among the bottom-scoring
+// ones, from -1 to 1. Low or negative values mean strong students miss the question as
+// often as weak ones, which usually points to a flawed question or answer key.
+const getDiscriminationIndex = (results) => {
+  const groupSize = Math.round(results.length * DISCRIMINATION_GROUP_SHARE);
+  if (groupSize === 0) {
+    return null;
+  }
+
+  const ranked = [...results].sort((a, b) => b.score - a.score);
+  const correctShare = (group) => group.filter(result => result.isCorrect).length / groupSize;
+  return roundPoints(correctShare(ranked.slice(0, groupSize)) - correctShare(ranked.slice(-groupSize)));
+};
+
+// How a typed response is counted, so answers marked the same are grouped together
+const getResponseKey = (question, answer) => {
+  const raw = String(answer.textAnswer).trim();
+  if (question.type === 'numeric' && Number.isFinite(Number(raw))) {
+    return String(Number(raw));
+  }
+  return normalizeTextAnswer(raw);
+};
+
+// Item analysis per question, keyed by question id so a bank question is aggregated
+// across every attempt that drew it: how often it was answered correctly, how well it
+// separates strong from weak students, which options and responses were chosen, and
+// how long students spent on it
+const getQuestionStats = (quiz, attempts) => {
+  const byQuestion = new Map();
+
+  attempts.forEach(attempt => {
+    getAttemptQuestions(quiz, attempt).forEach(question => {
+      const questionId = question._id.toString();
+
+      if (!byQuestion.has(questionId)) {
+        const isChoice = ['single', 'multiple', 'true_false'].includes(question.type);
+        byQuestion.set(questionId, {
+          question: question._id,
+          text: question.text,
+          type: question.type,
+          points: question.points ?? 1,
+          timesServed: 0,
+          timesCorrect: 0,
+          timesSkipped: 0,
+          pointsEarned: 0,
+          results: [],
+          times: [],
+          options: new Map((isChoice ? question.options : []).map(option => [option._id.toString(), {
+            option: option._id,
+            text: option.text,
+            isCorrect: Boolean(option.isCorrect),
+            count: 0
+          }])),
+          responses: new Map()
+        });
+      }
+
+      const entry = byQuestion.get(questionId);
+      const answer = attempt.answers.find(a => a.question.toString() === questionId);
+      const isCorrect = Boolean(answer && answer.isCorrect);
+
+      entry.timesServed++;
+      if (isCorrect) entry.timesCorrect++;
+      entry.pointsEarned += (answer && answer.pointsEarned) || 0;
+      entry.results.push({ score: attempt.score, isCorrect });
+
+      if (!hasResponse(answer)) {
+        entry.timesSkipped++;
+        return;
+      }
+
+      if (typeof answer.timeSpent === 'number') {
+        entry.times.push(answer.timeSpent);
+      }
+
+      answer.selectedOptions.forEach(optionId => {
+        const option = entry.options.get(optionId.toString());
+        if (option) option.count++;
+      });
+
+      if (['short_answer', 'numeric'].includes(question.type)) {
+        const key = getResponseKey(question, answer);
+        if (!entry.responses.has(key)) {
+          entry.responses.set(key, { response: String(answer.textAnswer).trim(), isCorrect, count: 0 });
+        }
+        entry.responses.get(key).count++;
+      }
+    });
+  });
+
+  return Array.from(byQuestion.values()).map(({ pointsEarned, results, times, options, responses, ...entry }) => ({
+    ...entry,
+    correctRate: Math.round((entry.timesCorrect / entry.timesServed) * 100),
+    averagePoints: roundPoints(pointsEarned / entry.timesServed),
+    discrimination: getDiscriminationIndex(results),
+    // Attempts made before time was tracked don't count towards the average
+    averageTime: times.length > 0 ? Math.round(times.reduce((sum, time) => sum + time, 0) / times.length) : null,
+    options: Array.from(options.values()).map(option => ({
+      ...option,
+      rate: Math.round((option.count / entry.timesServed) * 100)
+    })),
+    responses: Array.from(responses.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_RESPONSE_COUNT)
+  }));
+};
+
+// Check the pass mark and score feedback of a create or update request, where given
+const getResultSettingsError = (body) => {
+  if (body.passingScore !== undefined &&
+      (typeof body.passingScore !== 'number' || !(body.passingScore >= 0 && body.passingScore <= 100))) {
+    return 'Passing score must be between 0 and 100 percent';
+  }
+
+  return body.scoreFeedback !== undefined ? Quiz.getScoreFeedbackError(body.scoreFeedback) : null;
+};
+
+// Whether a graded attempt passed; unknown while essay responses wait for grading
+const getPassed = (quiz, { status, score }) =>
+  status === 'pending_review' || status === 'in_progress' ? null : quiz.isPassingScore(score);
+
+// Mark every graded attempt on the quiz as passed or failed against its current pass mark
+const updatePassedStatus = async (quiz) => {
+  const graded = { quiz: quiz._id, status: GRADED_ATTEMPT };
+  await QuizAttempt.updateMany({ ...graded, score: { $gte: quiz.passingScore } }, { passed: true });
+  await QuizAttempt.updateMany({ ...graded, score: { $lt: quiz.passingScore } }, { passed: false });
+};
+
+// Record the outcome of grading a finished attempt. An overridden score stands, with the
+// graded score kept alongside it for when the override is removed.
+const setAttemptGrade = (quiz, attempt, summary) => {
+  attempt.pointsEarned = summary.pointsEarned;
+  attempt.pointsPossible = summary.pointsPossible;
+  attempt.status = summary.status;
+
+  if (attempt.scoreOverride) {
+    attempt.scoreOverride.gradedScore = summary.score;
+  } else {
+    attempt.score = summary.score;
+  }
+  attempt.passed = getPassed(quiz, attempt);
+};
+
+// The questions an attempt is regraded against: the quiz's current ones, or for attempts drawn
+// from the question bank, each drawn question as it now stands in the quiz or the bank
+const getRegradeQuestions = (quiz, attempt, bankQuestions) => {
+  if (!attempt.questions || attempt.questions.length === 0) {
+    return quiz.questions;
+  }
+
+  return attempt.questions.map(question =>
+    findQuestion(quiz.questions, question._id) || findQuestion(bankQuestions, question._id) || question);
+};
+
+// Mark a finished attempt's answers again. Essay responses keep the points faculty awarded,
+// up to what the question is now worth, or stay waiting for grading.
+const regradeAnswers = (questions, answers) => answers.map(answer => {
+  const question = findQuestion(questions, answer.question);
+
+  if (question && question.type === 'essay' && (answer.needsGrading || answer.gradedAt)) {
+    return { ...answer, pointsEarned: Math.min(answer.pointsEarned || 0, question.points ?? 1) };
+  }
+
+  const [regraded] = gradeAnswers(questions, [answer]).answers;
+  return { ...answer, ...regraded };
+});
+
+// Give a new attempt its own questions when the quiz draws from the question bank:
+// the fixed questions followed by each rule's random picks. Quizzes without rules
+// return no questions, so their attempts keep using the quiz's own.
+const drawAttemptQuestions = async (quiz) => {
+  if (!quiz.questionRules || quiz.questionRules.length === 0) {
+    return [];
+  }
+
+  const questions = quiz.questions.map(question => question.toObject());
+  const courseId = quiz.course._id || quiz.course;
+
+  for (const rule of quiz.questionRules) {
+    // A question matching several rules is only drawn once
+    const drawnIds = questions.map(question => question._id);
+    const drawn = await BankQuestion.drawForRule(courseId, rule, drawnIds);
+    questions.push(...drawn);
+  }
+
+  return questions;
+};
+
+const describeRule = (rule) =>
+  [rule.difficulty, rule.tag ? `tagged "${rule.tag}"` : null].filter(Boolean).join(' ') || 'in the bank';
+
+// Check question rules are well formed and that the bank can supply each of them
+const getQuestionRulesError = async (courseId, rules) => {
+  if (!Array.isArray(rules)) {
+    return 'Question rules must be an array';
+  }
+
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i] || {};
+    const count = Number(rule.count);
+
+    if (!Number.isInteger(count) || count < 1) {
+      return `Rule ${i + 1} must draw a whole number of questions`;
+    }
+
+    const available = await BankQuestion.countDocuments(BankQuestion.ruleFilter(courseId, rule));
+    if (available < count) {
+      return `Rule ${i + 1} draws ${count} questions but the question bank only has ${available} ${describeRule(rule)}`;
+    }
+  }
+
+  return null;
+};
+
+// Check an answer refers to a question, options and pairs that belong to the quiz
+const validateAnswer = (questions, answer) => {
+  if (!answer || !answer.question) {
+    return 'Question ID is required';
+  }
+
+  const question = findQuestion(questions, answer.question);
+  if (!question) {
+    return `Invalid question ID ${answer.question}`;
+  }
+
+  if (answer.selectedOptions !== undefined) {
+    if (!Array.isArray(answer.selectedOptions)) {
+      return 'Selected options must be an array';
+    }
+
+    const optionIds = question.options.map(opt => opt._id.toString());
+    if (!answer.selectedOptions.every(opt => optionIds.includes(opt.toString()))) {
+      return 'Selected options must belong to the question';
+    }
+  }
+
+  if (answer.textAnswer !== undefined && answer.textAnswer !== null &&
+      !['string', 'number'].includes(typeof answer.textAnswer)) {
+    return 'Text answer must be a string';
+  }
+
+  if (answer.timeSpent !== undefined && answer.timeSpent !== null &&
+      (typeof answer.timeSpent !== 'number' || !Number.isFinite(answer.timeSpent) || answer.timeSpent < 0)) {
+    return 'Time spent must be a non-negative number of seconds';
+  }
+
+  if (answer.matches !== undefined) {
+    if (!Array.isArray(answer.matches)) {
+      return 'Matches must be an array';
+    }
+
+    const pairIds = question.pairs.map(pair => pair._id.toString());
+    const isValidMatch = entry => entry && entry.prompt && entry.answer &&
+      pairIds.includes(entry.prompt.toString()) && pairIds.includes(entry.answer.toString());
+
+    if (!answer.matches.every(isValidMatch)) {
+      return 'Matches must refer to the question\'s pairs';
+    }
+  }
+
+  return null;
+};
+
+// Most integrity events accepted in one report; the quiz page sends them in small batches
+const INTEGRITY_EVENT_BATCH_SIZE = 50;
+
+// Check a batch of integrity events reported by the quiz page
+const getIntegrityEventsError = (questions, events) => {
+  if (!Array.isArray(events) || events.length === 0) {
+    return 'Events must be a non-empty array';
+  }
+  if (events.length > INTEGRITY_EVENT_BATCH_SIZE) {
+    return `Report at most ${INTEGRITY_EVENT_BATCH_SIZE} events at a time`;
+  }
+
+  for (const event of events) {
+    if (!event || !INTEGRITY_EVENT_TYPES.includes(event.type)) {
+      return `Event type must be one of ${INTEGRITY_EVENT_TYPES.join(', ')}`;
+    }
+    if (event.question && !findQuestion(questions, event.question)) {
+      return `Invalid question ID ${event.question}`;
+    }
+  }
+
+  return null;
+};
+
+// An event as stored on the attempt. Times come from the student's browser, so they are kept
+// within the attempt: no earlier than its start and no later than the report.
+const toIntegrityEvent = (attempt, event) => {
+  const reportedAt = new Date(event.at);
+  const time = Number.isNaN(reportedAt.getTime())
+    ? Date.now()
+    : Math.min(Date.now(), Math.max(attempt.startedAt.getTime(), reportedAt.getTime()));
+
+  return {
+    type: event.type,
+    at: new Date(time),
+    ...(event.question && { question: event.question })
+  };
+};
+
+// A finished attempt as listed for faculty: the integrity events are summed up, not listed
+const toAttemptListing = (attempt) => {
+  const { integrityEvents, ...listing } = attempt.toJSON();
+  return { ...listing, integrity: attempt.getIntegritySummary() };
+};
 
 // @desc    Get all quizzes for a course
 // @route   GET /api/v1/courses/:courseId/quizzes
@@ -29,10 +887,24 @@ export const getQuizzes = asyncHandler(async (req, res, next) => {
       .populate('course', 'title')
       .sort({ createdAt: -1 });
 
+    // Students see each quiz as adjusted by their own accommodations
+    const accommodations = isOwner || isAdmin ? [] : await QuizAccommodation.find({
+      student: req.user.id,
+      quiz: { $in: quizzes.map(quiz => quiz._id) }
+    });
+    const accommodationsByQuiz = new Map(
+      accommodations.map(accommodation => [accommodation.quiz.toString(), accommodation])
+    );
+
     res.status(200).json({
       success: true,
       count: quizzes.length,
-      data: quizzes
+      data: quizzes.map(quiz => presentQuiz(
+        quiz,
+        req.user,
+        isOwner || isAdmin,
+        accommodationsByQuiz.get(quiz._id.toString())
+      ))
     });
   } catch (error) {
     console.error('Get quizzes error:', error);
@@ -62,9 +934,11 @@ export const getQuiz = asyncHandler(async (req, res, next) => {
       return next(new ErrorResponse('Not authorized to access this quiz', 401));
     }
 
+    const accommodation = isOwner || isAdmin ? null : await findAccommodation(quiz, req.user.id);
+
     res.status(200).json({
       success: true,
-      data: quiz
+      data: presentQuiz(quiz, req.user, isOwner || isAdmin, accommodation)
     });
   } catch (error) {
     console.error('Get quiz error:', error);
@@ -92,13 +966,15 @@ export const createQuiz = asyncHandler(async (req, res, next) => {
     }
 
     // Validate quiz data
-    const { title, questions, timeLimit } = req.body;
+    const { title, timeLimit, questionRules = [] } = req.body;
+    // Quizzes drawn entirely from the question bank may leave out fixed questions
+    const questions = req.body.questions === undefined && questionRules.length > 0 ? [] : req.body.questions;
     
     if (!title || !title.trim()) {
       return next(new ErrorResponse('Quiz title is required', 400));
     }
     
-    if (!questions || !Array.isArray(questions) || questions.length === 0) {
+    if (!questions || !Array.isArray(questions) || (questions.length === 0 && questionRules.length === 0)) {
       return next(new ErrorResponse('At least one question is required', 400));
     }
     
@@ -106,6 +982,16 @@ export const createQuiz = asyncHandler(async (req, res, next) => {
       return next(new ErrorResponse('Time limit must be at least 1 minute', 400));
     }
 
+    const availabilityError = Quiz.getAvailabilityError(req.body);
+    if (availabilityError) {
+      return next(new ErrorResponse(availabilityError, 400));
+    }
+
+    const resultSettingsError = getResultSettingsError(req.body);
+    if (resultSettingsError) {
+      return next(new ErrorResponse(resultSettingsError, 400));
+    }
+
     // Validate questions
     for (let i = 0; i < questions.length; i++) {
       const question = questions[i];
@@ -114,30 +1000,22 @@ export const createQuiz = asyncHandler(async (req, res, next) => {
         return next(new ErrorResponse(`Question ${i + 1} text is required`, 400));
       }
       
-      if (!question.options || !Array.isArray(question.options) || question.options.length < 2) {
-        return next(new ErrorResponse(`Question ${i + 1} must have at least 2 options`, 400));
-      }
-      
-      const correctOptions = question.options.filter(opt => opt.isCorrect);
-      if (correctOptions.length === 0) {
-        return next(new ErrorResponse(`Question ${i + 1} must have at least one correct answer`, 400));
-      }
-      
-      if (question.type === 'single' && correctOptions.length > 1) {
-        return next(new ErrorResponse(`Single choice question ${i + 1} can only have one correct answer`, 400));
-      }
-      
-      // Validate options
-      for (let j = 0; j < question.options.length; j++) {
-        const option = question.options[j];
-        if (!option.text || !option.text.trim()) {
-          return next(new ErrorResponse(`Question ${i + 1}, option ${j + 1} text is required`, 400));
-        }
+      // Validate the answer key for the question type
+      const questionError = Quiz.getQuestionError(question, `Question ${i + 1}`);
+      if (questionError) {
+        return next(new ErrorResponse(questionError, 400));
       }
     }
 
+    const rulesError = await getQuestionRulesError(req.params.courseId, questionRules);
+    if (rulesError) {
+      return next(new ErrorResponse(rulesError, 400));
+    }
+
     // Set course ID
     req.body.course = req.params.courseId;
+    // Analytics are kept by the server as attempts are graded
+    delete req.body.analytics;
 
     const quiz = await Quiz.create(req.body);
     await quiz.populate('course', 'title');
@@ -179,15 +1057,30 @@ export const updateQuiz = asyncHandler(async (req, res, next) => {
     }
 
     // Validate update data if provided
-    const { title, questions, timeLimit } = req.body;
+    const { title, questions, timeLimit, questionRules } = req.body;
     
     if (title !== undefined && (!title || !title.trim())) {
       return next(new ErrorResponse('Quiz title cannot be empty', 400));
     }
+
+    if (questionRules !== undefined) {
+      const rulesError = await getQuestionRulesError(quiz.course._id, questionRules);
+      if (rulesError) {
+        return next(new ErrorResponse(rulesError, 400));
+      }
+    }
+
+    // The quiz needs fixed questions or question bank rules once the update is applied
+    const updatedQuestions = questions !== undefined ? questions : quiz.questions;
+    const updatedRules = questionRules !== undefined ? questionRules : quiz.questionRules;
+
+    if (Array.isArray(updatedQuestions) && updatedQuestions.length === 0 && updatedRules.length === 0) {
+      return next(new ErrorResponse('At least one question is required', 400));
+    }
     
     if (questions !== undefined) {
-      if (!Array.isArray(questions) || questions.length === 0) {
-        return next(new ErrorResponse('At least one question is required', 400));
+      if (!Array.isArray(questions)) {
+        return next(new ErrorResponse('Questions must be an array', 400));
       }
       
       // Validate questions (same validation as create)
@@ -198,25 +1091,10 @@ export const updateQuiz = asyncHandler(async (req, res, next) => {
           return next(new ErrorResponse(`Question ${i + 1} text is required`, 400));
         }
         
-        if (!question.options || !Array.isArray(question.options) || question.options.length < 2) {
-          return next(new ErrorResponse(`Question ${i + 1} must have at least 2 options`, 400));
-        }
-        
-        const correctOptions = question.options.filter(opt => opt.isCorrect);
-        if (correctOptions.length === 0) {
-          return next(new ErrorResponse(`Question ${i + 1} must have at least one correct answer`, 400));
-        }
-        
-        if (question.type === 'single' && correctOptions.length > 1) {
-          return next(new ErrorResponse(`Single choice question ${i + 1} can only have one correct answer`, 400));
-        }
-        
-        // Validate options
-        for (let j = 0; j < question.options.length; j++) {
-          const option = question.options[j];
-          if (!option.text || !option.text.trim()) {
-            return next(new ErrorResponse(`Question ${i + 1}, option ${j + 1} text is required`, 400));
-          }
+        // Validate the answer key for the question type
+        const questionError = Quiz.getQuestionError(question, `Question ${i + 1}`);
+        if (questionError) {
+          return next(new ErrorResponse(questionError, 400));
         }
       }
     }
@@ -225,11 +1103,36 @@ export const updateQuiz = asyncHandler(async (req, res, next) => {
       return next(new ErrorResponse('Time limit must be at least 1 minute', 400));
     }
 
+    // Check the availability window as it will be once the update is applied
+    const availabilityError = Quiz.getAvailabilityError({
+      availableFrom: req.body.availableFrom !== undefined ? req.body.availableFrom : quiz.availableFrom,
+      availableUntil: req.body.availableUntil !== undefined ? req.body.availableUntil : quiz.availableUntil,
+      lateSubmission: req.body.lateSubmission !== undefined ? req.body.lateSubmission : quiz.lateSubmission
+    });
+    if (availabilityError) {
+      return next(new ErrorResponse(availabilityError, 400));
+    }
+
+    const resultSettingsError = getResultSettingsError(req.body);
+    if (resultSettingsError) {
+      return next(new ErrorResponse(resultSettingsError, 400));
+    }
+
+    // Analytics are kept by the server as attempts are graded
+    delete req.body.analytics;
+
+    const previousPassingScore = quiz.passingScore;
+
     quiz = await Quiz.findByIdAndUpdate(req.params.id, req.body, {
       new: true,
       runValidators: true
     }).populate('course', 'title');
 
+    // Graded attempts pass or fail against the new pass mark
+    if (quiz.passingScore !== previousPassingScore) {
+      await updatePassedStatus(quiz);
+    }
+
     res.status(200).json({
       success: true,
       data: quiz
@@ -266,8 +1169,9 @@ export const deleteQuiz = asyncHandler(async (req, res, next) => {
       return next(new ErrorResponse('Not authorized to delete this quiz', 401));
     }
 
-    // Delete all quiz attempts first
+    // Delete all quiz attempts and accommodations first
     await QuizAttempt.deleteMany({ quiz: req.params.id });
+    await QuizAccommodation.deleteMany({ quiz: req.params.id });
 
     await quiz.deleteOne();
 
@@ -281,10 +1185,10 @@ export const deleteQuiz = asyncHandler(async (req, res, next) => {
   }
 });
 
-// @desc    Submit quiz attempt
-// @route   POST /api/v1/quizzes/:id/attempt
+// @desc    Start a quiz attempt, or resume the one already in progress
+// @route   POST /api/v1/quizzes/:id/start
 // @access  Private (Student/Faculty/Admin - enrolled or owner)
-export const submitQuizAttempt = asyncHandler(async (req, res, next) => {
+export const startQuizAttempt = asyncHandler(async (req, res, next) => {
   try {
     const quiz = await Quiz.findById(req.params.id).populate('course');
 
@@ -302,86 +1206,332 @@ export const submitQuizAttempt = asyncHandler(async (req, res, next) => {
       return next(new ErrorResponse('Not authorized to take this quiz', 401));
     }
 
-    // Check if student has already attempted this quiz
-    const existingAttempt = await QuizAttempt.findOne({
-      quiz: req.params.id,
-      student: req.user.id
-    });
-
-    if (existingAttempt) {
-      return next(new ErrorResponse('You have already attempted this quiz', 400));
+    // Checked before resuming too, so a reload outside the lab doesn't bring the questions back
+    const accessError = !isOwner && !isAdmin && getAccessError(quiz, req);
+    if (accessError) {
+      return next(new ErrorResponse(accessError, 403));
     }
 
-    // Validate answers
-    const { answers } = req.body;
-    
-    if (!answers || !Array.isArray(answers)) {
-      return next(new ErrorResponse('Answers are required', 400));
+    const activeAttempt = await findActiveAttempt(quiz, req.user.id);
+
+    if (activeAttempt) {
+      return res.status(200).json({
+        success: true,
+        data: {
+          attempt: presentAttempt(quiz, activeAttempt),
+          remainingSeconds: activeAttempt.getRemainingSeconds(),
+          resumed: true
+        }
+      });
     }
 
-    if (answers.length !== quiz.questions.length) {
-      return next(new ErrorResponse('All questions must be answered', 400));
+    // Check the student still has an attempt available
+    const previousAttempts = await QuizAttempt.find({
+      quiz: req.params.id,
+      student: req.user.id
+    });
+    const accommodation = await findAccommodation(quiz, req.user.id);
+    const retakeError = getRetakeError(getRetakeStatus(quiz, previousAttempts, accommodation));
+
+    if (retakeError) {
+      return next(new ErrorResponse(retakeError, 400));
     }
 
-    // Calculate score
-    let correctAnswers = 0;
-    
-    for (let i = 0; i < answers.length; i++) {
-      const answer = answers[i];
-      const question = quiz.questions.find(q => q._id.toString() === answer.question);
-      
-      if (!question) {
-        return next(new ErrorResponse(`Invalid question ID in answer ${i + 1}`, 400));
+    // Course owners and admins may preview a quiz outside its availability window
+    const unavailableError = !isOwner && !isAdmin && getUnavailableError(quiz, accommodation);
+    if (unavailableError) {
+      return next(new ErrorResponse(unavailableError, 400));
+    }
+
+    const questions = await drawAttemptQuestions(quiz);
+
+    if (quiz.questionRules.length > 0 && questions.length === 0) {
+      return next(new ErrorResponse('The question bank has no questions for this quiz yet', 400));
+    }
+
+    // The time limit, stretched by any accommodation, is cut short if the quiz closes first
+    const startedAt = new Date();
+    const timeLimit = quiz.timeLimit * (accommodation?.timeMultiplier || 1);
+    const timeLimitDeadline = new Date(startedAt.getTime() + timeLimit * 60 * 1000);
+    const closingTime = !isOwner && !isAdmin ? quiz.getClosingTime(accommodation) : null;
+    const attempt = await QuizAttempt.create({
+      quiz: req.params.id,
+      student: req.user.id,
+      questions,
+      status: 'in_progress',
+      attemptNumber: previousAttempts.length + 1,
+      startedAt,
+      deadline: closingTime && closingTime < timeLimitDeadline ? closingTime : timeLimitDeadline
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        attempt: presentAttempt(quiz, attempt),
+        remainingSeconds: attempt.getRemainingSeconds(),
+        resumed: false
       }
+    });
+  } catch (error) {
+    // The unique attempt number index rejects a concurrent second start
+    if (error.code === 11000) {
+      return next(new ErrorResponse('This attempt has already been started', 409));
+    }
+    console.error('Start quiz attempt error:', error);
+    return next(new ErrorResponse('Failed to start quiz attempt', 500));
+  }
+});
+
+// @desc    Autosave the answer to one question of the in-progress attempt
+// @route   PUT /api/v1/quizzes/:id/attempt/answers
+// @access  Private (Student/Faculty/Admin - enrolled or owner)
+export const saveQuizAnswer = asyncHandler(async (req, res, next) => {
+  try {
+    const quiz = await Quiz.findById(req.params.id).populate('course');
+
+    if (!quiz) {
+      return next(new ErrorResponse(`Quiz not found with id of ${req.params.id}`, 404));
+    }
+
+    // Check access permissions
+    const course = quiz.course;
+    const isOwner = course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+    const isEnrolled = course.enrolledStudents && course.enrolledStudents.includes(req.user.id);
+    
+    if (!isOwner && !isAdmin && !isEnrolled) {
+      return next(new ErrorResponse('Not authorized to take this quiz', 401));
+    }
+
+    const accessError = !isOwner && !isAdmin && getAccessError(quiz, req);
+    if (accessError) {
+      return next(new ErrorResponse(accessError, 403));
+    }
 
-      if (!answer.selectedOptions || !Array.isArray(answer.selectedOptions)) {
-        return next(new ErrorResponse(`Invalid selected options for answer ${i + 1}`, 400));
+    const activeAttempt = await QuizAttempt.findOne({
+      quiz: req.params.id,
+      student: req.user.id,
+      status: 'in_progress'
+    });
+
+    if (!activeAttempt) {
+      return next(new ErrorResponse('There is no attempt in progress for this quiz', 400));
+    }
+
+    const questions = getAttemptQuestions(quiz, activeAttempt);
+    const answer = resolveMatchChoices(questions, activeAttempt, req.body);
+    const answerError = validateAnswer(questions, answer);
+    if (answerError) {
+      return next(new ErrorResponse(answerError, 400));
+    }
+
+    if (isPastGraceWindow(activeAttempt)) {
+      await closeExpiredAttempt(quiz, activeAttempt);
+      return next(new ErrorResponse('The time limit for this attempt has passed', 400));
+    }
+
+    const saved = await saveAnswer(activeAttempt._id, answer);
+
+    if (!saved) {
+      return next(new ErrorResponse('This attempt has already been submitted', 400));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        question: req.body.question,
+        savedAt: new Date(),
+        remainingSeconds: activeAttempt.getRemainingSeconds()
       }
+    });
+  } catch (error) {
+    console.error('Save quiz answer error:', error);
+    return next(new ErrorResponse('Failed to save answer', 500));
+  }
+});
 
-      // Get correct option IDs
-      const correctOptionIds = question.options
-        .filter(opt => opt.isCorrect)
-        .map(opt => opt._id.toString());
-      
-      const selectedOptionIds = answer.selectedOptions.map(opt => opt.toString());
-      
-      // Check if answer is correct
-      let isCorrect = false;
-      
-      if (question.type === 'single') {
-        // For single choice, check if the one selected option is correct
-        isCorrect = selectedOptionIds.length === 1 && 
-                    correctOptionIds.includes(selectedOptionIds[0]);
-      } else {
-        // For multiple choice, all correct options must be selected and no incorrect ones
-        isCorrect = correctOptionIds.length === selectedOptionIds.length &&
-                    correctOptionIds.every(id => selectedOptionIds.includes(id)) &&
-                    selectedOptionIds.every(id => correctOptionIds.includes(id));
+// @desc    Record integrity events, such as leaving the tab or fullscreen, on the attempt in progress
+// @route   POST /api/v1/quizzes/:id/attempt/events
+// @access  Private (Student/Faculty/Admin - enrolled or owner)
+export const recordIntegrityEvents = asyncHandler(async (req, res, next) => {
+  try {
+    const quiz = await Quiz.findById(req.params.id).populate('course');
+
+    if (!quiz) {
+      return next(new ErrorResponse(`Quiz not found with id of ${req.params.id}`, 404));
+    }
+
+    // Check access permissions
+    const course = quiz.course;
+    const isOwner = course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+    const isEnrolled = course.enrolledStudents && course.enrolledStudents.includes(req.user.id);
+
+    if (!isOwner && !isAdmin && !isEnrolled) {
+      return next(new ErrorResponse('Not authorized to take this quiz', 401));
+    }
+
+    const accessError = !isOwner && !isAdmin && getAccessError(quiz, req);
+    if (accessError) {
+      return next(new ErrorResponse(accessError, 403));
+    }
+
+    const activeAttempt = await QuizAttempt.findOne({
+      quiz: req.params.id,
+      student: req.user.id,
+      status: 'in_progress'
+    });
+
+    if (!activeAttempt) {
+      return next(new ErrorResponse('There is no attempt in progress for this quiz', 400));
+    }
+
+    const { events } = req.body;
+    const eventsError = getIntegrityEventsError(getAttemptQuestions(quiz, activeAttempt), events);
+    if (eventsError) {
+      return next(new ErrorResponse(eventsError, 400));
+    }
+
+    // Events beyond the per-attempt limit are dropped; the earliest ones are kept
+    const updated = await QuizAttempt.updateOne(
+      { _id: activeAttempt._id, status: 'in_progress' },
+      {
+        $push: {
+          integrityEvents: {
+            $each: events.map(event => toIntegrityEvent(activeAttempt, event)),
+            $slice: MAX_INTEGRITY_EVENTS
+          }
+        }
       }
-      
-      if (isCorrect) {
-        correctAnswers++;
+    );
+
+    if (updated.matchedCount === 0) {
+      return next(new ErrorResponse('This attempt has already been submitted', 400));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        recorded: events.length
       }
+    });
+  } catch (error) {
+    console.error('Record integrity events error:', error);
+    return next(new ErrorResponse('Failed to record integrity events', 500));
+  }
+});
+
+// @desc    Submit quiz attempt
+// @route   POST /api/v1/quizzes/:id/attempt
+// @access  Private (Student/Faculty/Admin - enrolled or owner)
+export const submitQuizAttempt = asyncHandler(async (req, res, next) => {
+  try {
+    const quiz = await Quiz.findById(req.params.id).populate('course');
+
+    if (!quiz) {
+      return next(new ErrorResponse(`Quiz not found with id of ${req.params.id}`, 404));
     }
 
-    const score = Math.round((correctAnswers / quiz.questions.length) * 100);
+    // Check access permissions
+    const course = quiz.course;
+    const isOwner = course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+    const isEnrolled = course.enrolledStudents && course.enrolledStudents.includes(req.user.id);
+    
+    if (!isOwner && !isAdmin && !isEnrolled) {
+      return next(new ErrorResponse('Not authorized to take this quiz', 401));
+    }
 
-    const attempt = await QuizAttempt.create({
+    // Answers can only be submitted against an attempt started on the server
+    const activeAttempt = await QuizAttempt.findOne({
       quiz: req.params.id,
       student: req.user.id,
-      answers: answers,
-      score: score,
-      completedAt: Date.now()
+      status: 'in_progress'
     });
 
+    if (!activeAttempt) {
+      return next(new ErrorResponse('Please start the quiz before submitting answers', 400));
+    }
+
+    const accessError = !isOwner && !isAdmin && getAccessError(quiz, req);
+    if (accessError) {
+      return next(new ErrorResponse(accessError, 403));
+    }
+
+    if (isPastGraceWindow(activeAttempt)) {
+      await closeExpiredAttempt(quiz, activeAttempt);
+      return next(new ErrorResponse(
+        'The time limit for this attempt has passed. It was graded using the answers saved before the deadline',
+        400
+      ));
+    }
+
+    // Attempts started before the closing date was moved earlier are graded when their time runs out
+    const accommodation = await findAccommodation(quiz, req.user.id);
+    if (!isOwner && !isAdmin && isPastClosingTime(quiz, accommodation)) {
+      return next(new ErrorResponse(
+        `This quiz closed on ${quiz.getClosingTime(accommodation).toISOString()}. Your attempt will be graded using the answers already saved`,
+        400
+      ));
+    }
+
+    // Answers sent with the submission are optional; anything autosaved earlier still counts
+    if (req.body.answers && !Array.isArray(req.body.answers)) {
+      return next(new ErrorResponse('Answers must be an array', 400));
+    }
+
+    const questions = getAttemptQuestions(quiz, activeAttempt);
+    const submittedAnswers = (req.body.answers || [])
+      .map(answer => resolveMatchChoices(questions, activeAttempt, answer));
+
+    for (let i = 0; i < submittedAnswers.length; i++) {
+      const answerError = validateAnswer(questions, submittedAnswers[i]);
+      if (answerError) {
+        return next(new ErrorResponse(`${answerError} in answer ${i + 1}`, 400));
+      }
+    }
+
+    // Submissions arriving within the grace window still count; answers to questions left out
+    // of the submission fall back to what was autosaved
+    const completedAt = new Date();
+    const { isLate, latePenalty } = getLateStatus(quiz, completedAt, accommodation);
+    const { answers, score, pointsEarned, pointsPossible, status } = gradeAnswers(
+      questions,
+      mergeSubmittedAnswers(activeAttempt.answers, submittedAnswers),
+      latePenalty
+    );
+
+    // Only the request that moves the attempt out of progress gets to grade it
+    const attempt = await QuizAttempt.findOneAndUpdate(
+      { _id: activeAttempt._id, status: 'in_progress' },
+      {
+        answers: answers,
+        score: score,
+        pointsEarned,
+        pointsPossible,
+        status,
+        passed: getPassed(quiz, { status, score }),
+        completedAt,
+        isLate,
+        latePenalty
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!attempt) {
+      return next(new ErrorResponse('This attempt has already been submitted', 400));
+    }
+
+    await Quiz.updateAttemptAnalytics(quiz._id, null, attempt.getAnalyticsScore());
+
     await attempt.populate([
       { path: 'quiz', select: 'title' },
       { path: 'student', select: 'name email' }
     ]);
 
-    res.status(201).json({
+    res.status(200).json({
       success: true,
-      data: attempt
+      data: presentAttempt(quiz, attempt)
     });
   } catch (error) {
     console.error('Quiz attempt submission error:', error);
@@ -408,15 +1558,17 @@ export const getQuizAttempts = asyncHandler(async (req, res, next) => {
       return next(new ErrorResponse('Not authorized to view quiz attempts', 401));
     }
 
-    const attempts = await QuizAttempt.find({ quiz: req.params.id })
+    await closeExpiredAttempts(quiz);
+
+    const attempts = await QuizAttempt.find({ quiz: req.params.id, status: FINISHED_ATTEMPT })
       .populate('student', 'name email')
       .populate('quiz', 'title')
-      .sort({ completedAt: -1 });
+      .sort({ completedAt: -1, attemptNumber: -1 });
 
     res.status(200).json({
       success: true,
       count: attempts.length,
-      data: attempts
+      data: attempts.map(toAttemptListing)
     });
   } catch (error) {
     console.error('Get quiz attempts error:', error);
@@ -424,10 +1576,56 @@ export const getQuizAttempts = asyncHandler(async (req, res, next) => {
   }
 });
 
-// @desc    Get user's quiz attempt
-// @route   GET /api/v1/quizzes/:id/my-attempt
-// @access  Private (Student - own attempt)
-export const getMyQuizAttempt = asyncHandler(async (req, res, next) => {
+// @desc    Get one finished attempt with the student's answers and the answer key
+// @route   GET /api/v1/quizzes/:id/attempts/:attemptId
+// @access  Private (Faculty/Admin - quiz course owner)
+export const getQuizAttempt = asyncHandler(async (req, res, next) => {
+  try {
+    const quiz = await Quiz.findById(req.params.id).populate('course');
+
+    if (!quiz) {
+      return next(new ErrorResponse(`Quiz not found with id of ${req.params.id}`, 404));
+    }
+
+    // Check if user is course owner or admin
+    const isOwner = quiz.course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to view quiz attempts', 401));
+    }
+
+    const attempt = await QuizAttempt.findOne({
+      _id: req.params.attemptId,
+      quiz: quiz._id,
+      status: FINISHED_ATTEMPT
+    })
+      .populate('student', 'name email')
+      .populate('scoreOverride.overriddenBy', 'name');
+
+    if (!attempt) {
+      return next(new ErrorResponse(`Attempt not found with id of ${req.params.attemptId}`, 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...attempt.toJSON(),
+        // What the attempt was graded against, answer keys included
+        questions: getAttemptQuestions(quiz, attempt),
+        integrity: attempt.getIntegritySummary()
+      }
+    });
+  } catch (error) {
+    console.error('Get quiz attempt error:', error);
+    return next(new ErrorResponse('Failed to fetch quiz attempt', 500));
+  }
+});
+
+// @desc    Get user's attempt history for a quiz
+// @route   GET /api/v1/quizzes/:id/my-attempts
+// @access  Private (Student - own attempts)
+export const getMyQuizAttempts = asyncHandler(async (req, res, next) => {
   try {
     const quiz = await Quiz.findById(req.params.id).populate('course');
 
@@ -445,24 +1643,550 @@ export const getMyQuizAttempt = asyncHandler(async (req, res, next) => {
       return next(new ErrorResponse('Not authorized to access this quiz', 401));
     }
 
-    const attempt = await QuizAttempt.findOne({
+    const activeAttempt = await findActiveAttempt(quiz, req.user.id);
+    const accommodation = await findAccommodation(quiz, req.user.id);
+    // An attempt on a password or network restricted quiz is resumed through the start
+    // endpoint, which checks them again, so its questions aren't sent here
+    const isLocked = !isOwner && !isAdmin && Boolean(getAccessError(quiz, req));
+    const attempts = await QuizAttempt.find({
       quiz: req.params.id,
-      student: req.user.id
-    })
-      .populate('quiz', 'title questions')
-      .populate('student', 'name email');
+      student: req.user.id,
+      status: FINISHED_ATTEMPT
+    }).sort({ attemptNumber: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        attempts: attempts.map(attempt => presentAttempt(quiz, attempt)),
+        activeAttempt: activeAttempt ? {
+          _id: activeAttempt._id,
+          attemptNumber: activeAttempt.attemptNumber,
+          startedAt: activeAttempt.startedAt,
+          deadline: activeAttempt.deadline,
+          remainingSeconds: activeAttempt.getRemainingSeconds(),
+          questions: isLocked ? [] : getPresentedQuestions(quiz, activeAttempt),
+          answers: isLocked ? [] : activeAttempt.answers.map(answer =>
+            toStudentAnswer(answer, getAnswerKeySeed(activeAttempt._id))),
+          locked: isLocked
+        } : null,
+        gradingPolicy: quiz.settings?.gradingPolicy || 'highest',
+        // Provisional scores of attempts awaiting grading don't count yet
+        countedScore: getCountedScore(
+          attempts.filter(attempt => attempt.status !== 'pending_review'),
+          quiz.settings?.gradingPolicy
+        ),
+        ...getRetakeStatus(quiz, activeAttempt ? [...attempts, activeAttempt] : attempts, accommodation)
+      }
+    });
+  } catch (error) {
+    console.error('Get my quiz attempts error:', error);
+    return next(new ErrorResponse('Failed to fetch quiz attempts', 500));
+  }
+});
+
+// @desc    Get essay responses waiting to be graded
+// @route   GET /api/v1/quizzes/:id/grading-queue
+// @access  Private (Faculty/Admin)
+export const getGradingQueue = asyncHandler(async (req, res, next) => {
+  try {
+    const quiz = await Quiz.findById(req.params.id).populate('course');
+
+    if (!quiz) {
+      return next(new ErrorResponse(`Quiz not found with id of ${req.params.id}`, 404));
+    }
+
+    // Check if user is course owner or admin
+    const isOwner = quiz.course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to grade this quiz', 401));
+    }
+
+    await closeExpiredAttempts(quiz);
+
+    const attempts = await QuizAttempt.find({ quiz: req.params.id, status: 'pending_review' })
+      .populate('student', 'name email')
+      .sort({ completedAt: 1 });
+
+    // One entry per ungraded response, oldest submissions first
+    const responses = [];
+    attempts.forEach(attempt => {
+      const questions = getAttemptQuestions(quiz, attempt);
+
+      attempt.answers
+        .filter(answer => answer.needsGrading)
+        .forEach(answer => {
+          const question = findQuestion(questions, answer.question);
+          if (!question) return;
+
+          responses.push({
+            attemptId: attempt._id,
+            attemptNumber: attempt.attemptNumber,
+            student: attempt.student,
+            completedAt: attempt.completedAt,
+            questionId: question._id,
+            questionText: question.text,
+            rubric: question.rubric || '',
+            points: question.points ?? 1,
+            textAnswer: answer.textAnswer || ''
+          });
+        });
+    });
+
+    res.status(200).json({
+      success: true,
+      count: responses.length,
+      data: responses
+    });
+  } catch (error) {
+    console.error('Get grading queue error:', error);
+    return next(new ErrorResponse('Failed to fetch grading queue', 500));
+  }
+});
+
+// @desc    Grade an essay response and rescore its attempt
+// @route   PUT /api/v1/quizzes/:id/attempts/:attemptId/answers/:questionId/grade
+// @access  Private (Faculty/Admin)
+export const gradeResponse = asyncHandler(async (req, res, next) => {
+  try {
+    const quiz = await Quiz.findById(req.params.id).populate('course');
+
+    if (!quiz) {
+      return next(new ErrorResponse(`Quiz not found with id of ${req.params.id}`, 404));
+    }
+
+    // Check if user is course owner or admin
+    const isOwner = quiz.course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to grade this quiz', 401));
+    }
+
+    const attempt = await QuizAttempt.findOne({ _id: req.params.attemptId, quiz: quiz._id });
 
     if (!attempt) {
-      return next(new ErrorResponse('No attempt found for this quiz', 404));
+      return next(new ErrorResponse(`Attempt not found with id of ${req.params.attemptId}`, 404));
+    }
+
+    // Grading would complete the attempt while the student is still answering it
+    if (attempt.status === 'in_progress') {
+      return next(new ErrorResponse('This attempt is still in progress and cannot be graded yet', 409));
+    }
+
+    const questions = getAttemptQuestions(quiz, attempt);
+    const question = findQuestion(questions, req.params.questionId);
+    const answer = attempt.answers.find(a => a.question.toString() === req.params.questionId);
+
+    if (!question || question.type !== 'essay' || !answer) {
+      return next(new ErrorResponse('No essay response found for this question', 404));
+    }
+
+    const maxPoints = question.points ?? 1;
+    const points = Number(req.body.points);
+
+    if (req.body.points === undefined || req.body.points === '' || !Number.isFinite(points) || points < 0 || points > maxPoints) {
+      return next(new ErrorResponse(`Points must be between 0 and ${maxPoints}`, 400));
     }
 
+    const feedback = typeof req.body.feedback === 'string' ? req.body.feedback.trim() : '';
+
+    answer.pointsEarned = roundPoints(points);
+    answer.isCorrect = points >= maxPoints;
+    answer.feedback = feedback;
+    answer.needsGrading = false;
+    answer.gradedBy = req.user.id;
+    answer.gradedAt = Date.now();
+
+    // Rescore the attempt; it completes once the last manual item is graded
+    const previousScore = attempt.getAnalyticsScore();
+    setAttemptGrade(quiz, attempt, summarizePoints(questions, attempt.answers, attempt.latePenalty || 0));
+
+    await attempt.save();
+    await Quiz.updateAttemptAnalytics(quiz._id, previousScore, attempt.getAnalyticsScore());
+
     res.status(200).json({
       success: true,
       data: attempt
     });
   } catch (error) {
-    console.error('Get my quiz attempt error:', error);
-    return next(new ErrorResponse('Failed to fetch quiz attempt', 500));
+    console.error('Grade response error:', error);
+    return next(new ErrorResponse('Failed to grade response', 500));
+  }
+});
+
+// @desc    Re-score finished attempts against the quiz's current answer key, or preview the changes
+// @route   POST /api/v1/quizzes/:id/regrade
+// @access  Private (Faculty/Admin - quiz course owner)
+export const regradeQuiz = asyncHandler(async (req, res, next) => {
+  try {
+    const quiz = await Quiz.findById(req.params.id).populate('course');
+
+    if (!quiz) {
+      return next(new ErrorResponse(`Quiz not found with id of ${req.params.id}`, 404));
+    }
+
+    // Check if user is course owner or admin
+    const isOwner = quiz.course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to regrade this quiz', 401));
+    }
+
+    const dryRun = req.body.dryRun === true || req.query.dryRun === 'true';
+
+    await closeExpiredAttempts(quiz);
+
+    const attempts = await QuizAttempt.find({ quiz: quiz._id, status: FINISHED_ATTEMPT })
+      .populate('student', 'name email')
+      .sort({ completedAt: 1, attemptNumber: 1 });
+
+    // Bank questions drawn into attempts, as they now stand
+    const drawnIds = attempts.flatMap(attempt => (attempt.questions || []).map(question => question._id));
+    const bankQuestions = drawnIds.length > 0
+      ? await BankQuestion.find({ _id: { $in: drawnIds } })
+      : [];
+
+    const changes = [];
+    for (const attempt of attempts) {
+      const questions = getRegradeQuestions(quiz, attempt, bankQuestions);
+      const answers = regradeAnswers(questions, attempt.answers.map(answer => answer.toObject()));
+      const summary = summarizePoints(questions, answers, attempt.latePenalty || 0);
+      const gradedScore = attempt.scoreOverride ? attempt.scoreOverride.gradedScore : attempt.score;
+
+      if (summary.score === gradedScore &&
+          summary.pointsEarned === attempt.pointsEarned &&
+          summary.pointsPossible === attempt.pointsPossible &&
+          summary.status === attempt.status) {
+        continue;
+      }
+
+      const change = {
+        attemptId: attempt._id,
+        attemptNumber: attempt.attemptNumber,
+        student: attempt.student,
+        previousScore: attempt.score,
+        previousPoints: attempt.pointsEarned,
+        previousPassed: attempt.passed,
+        // An overridden score stands; only the graded score behind it changes
+        overridden: Boolean(attempt.scoreOverride),
+        gradedScore: summary.score
+      };
+
+      const previousAnalyticsScore = attempt.getAnalyticsScore();
+      setAttemptGrade(quiz, attempt, summary);
+      changes.push({
+        ...change,
+        newScore: attempt.score,
+        newPoints: attempt.pointsEarned,
+        pointsPossible: attempt.pointsPossible,
+        passed: attempt.passed
+      });
+
+      if (!dryRun) {
+        attempt.answers = answers;
+        if (attempt.questions && attempt.questions.length > 0) {
+          attempt.questions = questions.map(question => (question.toObject ? question.toObject() : question));
+        }
+        attempt.regradedAt = Date.now();
+        await attempt.save();
+        await Quiz.updateAttemptAnalytics(quiz._id, previousAnalyticsScore, attempt.getAnalyticsScore());
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        dryRun,
+        attemptsChecked: attempts.length,
+        attemptsChanged: changes.length,
+        changes
+      }
+    });
+  } catch (error) {
+    console.error('Regrade quiz error:', error);
+
+    if (error.name === 'ValidationError') {
+      const message = Object.values(error.errors).map(val => val.message).join(', ');
+      return next(new ErrorResponse(message, 400));
+    }
+
+    return next(new ErrorResponse('Failed to regrade quiz', 500));
+  }
+});
+
+// @desc    Override the score of one attempt, with a reason
+// @route   PUT /api/v1/quizzes/:id/attempts/:attemptId/score
+// @access  Private (Faculty/Admin - quiz course owner)
+export const overrideAttemptScore = asyncHandler(async (req, res, next) => {
+  try {
+    const quiz = await Quiz.findById(req.params.id).populate('course');
+
+    if (!quiz) {
+      return next(new ErrorResponse(`Quiz not found with id of ${req.params.id}`, 404));
+    }
+
+    // Check if user is course owner or admin
+    const isOwner = quiz.course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to change scores for this quiz', 401));
+    }
+
+    const attempt = await QuizAttempt.findOne({
+      _id: req.params.attemptId,
+      quiz: quiz._id,
+      status: FINISHED_ATTEMPT
+    });
+
+    if (!attempt) {
+      return next(new ErrorResponse(`Attempt not found with id of ${req.params.attemptId}`, 404));
+    }
+
+    // Essay grading would rescore the attempt from under the override
+    if (attempt.status === 'pending_review') {
+      return next(new ErrorResponse('Grade the essay responses of this attempt before overriding its score', 400));
+    }
+
+    const score = Number(req.body.score);
+    if (req.body.score === undefined || req.body.score === '' || !Number.isFinite(score) || score < 0 || score > 100) {
+      return next(new ErrorResponse('Score must be between 0 and 100', 400));
+    }
+
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+    if (!reason) {
+      return next(new ErrorResponse('Please give a reason for the override', 400));
+    }
+
+    const previousScore = attempt.getAnalyticsScore();
+    attempt.scoreOverride = {
+      score: Math.round(score),
+      gradedScore: attempt.scoreOverride ? attempt.scoreOverride.gradedScore : attempt.score,
+      reason,
+      overriddenBy: req.user.id,
+      overriddenAt: Date.now()
+    };
+    attempt.score = attempt.scoreOverride.score;
+    attempt.passed = getPassed(quiz, attempt);
+
+    await attempt.save();
+    await Quiz.updateAttemptAnalytics(quiz._id, previousScore, attempt.getAnalyticsScore());
+
+    res.status(200).json({
+      success: true,
+      data: attempt
+    });
+  } catch (error) {
+    console.error('Override attempt score error:', error);
+
+    if (error.name === 'ValidationError') {
+      const message = Object.values(error.errors).map(val => val.message).join(', ');
+      return next(new ErrorResponse(message, 400));
+    }
+
+    return next(new ErrorResponse('Failed to override score', 500));
+  }
+});
+
+// @desc    Remove a score override, restoring the graded score
+// @route   DELETE /api/v1/quizzes/:id/attempts/:attemptId/score
+// @access  Private (Faculty/Admin - quiz course owner)
+export const removeScoreOverride = asyncHandler(async (req, res, next) => {
+  try {
+    const quiz = await Quiz.findById(req.params.id).populate('course');
+
+    if (!quiz) {
+      return next(new ErrorResponse(`Quiz not found with id of ${req.params.id}`, 404));
+    }
+
+    // Check if user is course owner or admin
+    const isOwner = quiz.course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to change scores for this quiz', 401));
+    }
+
+    const attempt = await QuizAttempt.findOne({
+      _id: req.params.attemptId,
+      quiz: quiz._id,
+      status: FINISHED_ATTEMPT
+    });
+
+    if (!attempt) {
+      return next(new ErrorResponse(`Attempt not found with id of ${req.params.attemptId}`, 404));
+    }
+
+    if (!attempt.scoreOverride) {
+      return next(new ErrorResponse('This attempt\'s score has not been overridden', 400));
+    }
+
+    const previousScore = attempt.getAnalyticsScore();
+    attempt.score = attempt.scoreOverride.gradedScore;
+    attempt.scoreOverride = null;
+    attempt.passed = getPassed(quiz, attempt);
+
+    await attempt.save();
+    await Quiz.updateAttemptAnalytics(quiz._id, previousScore, attempt.getAnalyticsScore());
+
+    res.status(200).json({
+      success: true,
+      data: attempt
+    });
+  } catch (error) {
+    console.error('Remove score override error:', error);
+    return next(new ErrorResponse('Failed to remove score override', 500));
+  }
+});
+
+// @desc    Get the student accommodations of a quiz
+// @route   GET /api/v1/quizzes/:id/accommodations
+// @access  Private (Faculty/Admin - quiz course owner)
+export const getQuizAccommodations = asyncHandler(async (req, res, next) => {
+  try {
+    const quiz = await Quiz.findById(req.params.id).populate('course');
+
+    if (!quiz) {
+      return next(new ErrorResponse(`Quiz not found with id of ${req.params.id}`, 404));
+    }
+
+    // Check if user is course owner or admin
+    const isOwner = quiz.course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to view accommodations for this quiz', 401));
+    }
+
+    const accommodations = await QuizAccommodation.find({ quiz: quiz._id })
+      .populate('student', 'name email')
+      .sort({ createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: accommodations.length,
+      data: accommodations
+    });
+  } catch (error) {
+    console.error('Get quiz accommodations error:', error);
+    return next(new ErrorResponse('Failed to fetch accommodations', 500));
+  }
+});
+
+// @desc    Grant or update a student's accommodation for a quiz
+// @route   PUT /api/v1/quizzes/:id/accommodations/:studentId
+// @access  Private (Faculty/Admin - quiz course owner)
+export const saveQuizAccommodation = asyncHandler(async (req, res, next) => {
+  try {
+    const quiz = await Quiz.findById(req.params.id).populate('course');
+
+    if (!quiz) {
+      return next(new ErrorResponse(`Quiz not found with id of ${req.params.id}`, 404));
+    }
+
+    // Check if user is course owner or admin
+    const isOwner = quiz.course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to manage accommodations for this quiz', 401));
+    }
+
+    const enrolledStudents = quiz.course.enrolledStudents || [];
+    if (!enrolledStudents.some(student => student.toString() === req.params.studentId)) {
+      return next(new ErrorResponse('Accommodations can only be granted to students enrolled in the course', 400));
+    }
+
+    const timeMultiplier = req.body.timeMultiplier === undefined ? 1 : Number(req.body.timeMultiplier);
+    if (!Number.isFinite(timeMultiplier) || timeMultiplier < 1) {
+      return next(new ErrorResponse('Time multiplier must be a number of at least 1', 400));
+    }
+
+    const extraAttempts = req.body.extraAttempts === undefined ? 0 : Number(req.body.extraAttempts);
+    if (!Number.isInteger(extraAttempts) || extraAttempts < 0) {
+      return next(new ErrorResponse('Extra attempts must be a whole number of at least 0', 400));
+    }
+
+    const availableFrom = req.body.availableFrom || null;
+    const availableUntil = req.body.availableUntil || null;
+
+    // Check the window the student ends up with, since unset dates fall back to the quiz's
+    const windowError = Quiz.getAvailabilityError({
+      availableFrom: availableFrom || quiz.availableFrom,
+      availableUntil: availableUntil || quiz.availableUntil
+    });
+    if (windowError) {
+      return next(new ErrorResponse(windowError, 400));
+    }
+
+    const accommodation = await QuizAccommodation.findOneAndUpdate(
+      { quiz: quiz._id, student: req.params.studentId },
+      {
+        timeMultiplier,
+        extraAttempts,
+        availableFrom,
+        availableUntil,
+        note: typeof req.body.note === 'string' ? req.body.note : '',
+        grantedBy: req.user.id
+      },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    ).populate('student', 'name email');
+
+    res.status(200).json({
+      success: true,
+      data: accommodation
+    });
+  } catch (error) {
+    console.error('Save quiz accommodation error:', error);
+
+    if (error.name === 'ValidationError') {
+      const message = Object.values(error.errors).map(val => val.message).join(', ');
+      return next(new ErrorResponse(message, 400));
+    }
+
+    return next(new ErrorResponse('Failed to save accommodation', 500));
+  }
+});
+
+// @desc    Remove a student's accommodation for a quiz
+// @route   DELETE /api/v1/quizzes/:id/accommodations/:studentId
+// @access  Private (Faculty/Admin - quiz course owner)
+export const deleteQuizAccommodation = asyncHandler(async (req, res, next) => {
+  try {
+    const quiz = await Quiz.findById(req.params.id).populate('course');
+
+    if (!quiz) {
+      return next(new ErrorResponse(`Quiz not found with id of ${req.params.id}`, 404));
+    }
+
+    // Check if user is course owner or admin
+    const isOwner = quiz.course.createdBy.toString() === req.user.id;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      return next(new ErrorResponse('Not authorized to manage accommodations for this quiz', 401));
+    }
+
+    // Attempts already started keep the deadline they were given
+    const accommodation = await QuizAccommodation.findOneAndDelete({
+      quiz: quiz._id,
+      student: req.params.studentId
+    });
+
+    if (!accommodation) {
+      return next(new ErrorResponse('This student has no accommodation for this quiz', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {}
+    });
+  } catch (error) {
+    console.error('Delete quiz accommodation error:', error);
+    return next(new ErrorResponse('Failed to remove accommodation', 500));
   }
 });
 
@@ -485,30 +2209,55 @@ export const getQuizStats = asyncHandler(async (req, res, next) => {
       return next(new ErrorResponse('Not authorized to view quiz statistics', 401));
     }
 
-    const attempts = await QuizAttempt.find({ quiz: req.params.id });
+    await closeExpiredAttempts(quiz);
+
+    const attempts = await QuizAttempt.find({ quiz: req.params.id, status: GRADED_ATTEMPT });
     
     const totalAttempts = attempts.length;
     const scores = attempts.map(attempt => attempt.score);
     
+    // Attempts drawn from the question bank can be worth different totals
+    const drawnTotals = attempts
+      .filter(attempt => attempt.questions && attempt.questions.length > 0)
+      .map(attempt => attempt.pointsPossible);
+
     let stats = {
       totalAttempts,
+      totalPoints: drawnTotals.length > 0
+        ? roundPoints(drawnTotals.reduce((sum, points) => sum + points, 0) / drawnTotals.length)
+        : quiz.totalScore,
+      averagePoints: 0,
       averageScore: 0,
       highestScore: 0,
       lowestScore: 0,
-      passRate: 0, // Assuming 60% is passing
+      passingScore: quiz.passingScore,
+      passedCount: 0,
+      passRate: 0, // Share of attempts that reached the passing score
       scoreDistribution: {
         excellent: 0, // 90-100%
         good: 0,      // 80-89%
         average: 0,   // 70-79%
         poor: 0       // below 70%
-      }
+      },
+      questionStats: getQuestionStats(quiz, attempts)
     };
 
     if (totalAttempts > 0) {
       stats.averageScore = Math.round(scores.reduce((sum, score) => sum + score, 0) / totalAttempts);
+      // Attempts graded before point weights only recorded a percentage
+      const earnedPoints = attempts.map(attempt => attempt.pointsPossible
+        ? attempt.pointsEarned
+        : (attempt.score / 100) * quiz.totalScore);
+      stats.averagePoints = roundPoints(
+        earnedPoints.reduce((sum, points) => sum + points, 0) / totalAttempts
+      );
       stats.highestScore = Math.max(...scores);
       stats.lowestScore = Math.min(...scores);
-      stats.passRate = Math.round((scores.filter(score => score >= 60).length / totalAttempts) * 100);
+      // Attempts graded before pass marks were recorded are judged against the current one
+      stats.passedCount = attempts
+        .filter(attempt => attempt.passed ?? quiz.isPassingScore(attempt.score))
+        .length;
+      stats.passRate = Math.round((stats.passedCount / totalAttempts) * 100);
       
       // Score distribution
       scores.forEach(score => {
@@ -527,4 +2276,35 @@ export const getQuizStats = asyncHandler(async (req, res, next) => {
     console.error('Get quiz stats error:', error);
     return next(new ErrorResponse('Failed to fetch quiz statistics', 500));
   }
-});
\ No newline at end of file
+});
+
+// @desc    Rebuild quiz analytics from the attempts, for every quiz or those of one course
+// @route   POST /api/v1/quizzes/analytics/recompute
+// @access  Private (Admin)
+export const recomputeQuizAnalytics = asyncHandler(async (req, res, next) => {
+  try {
+    const courseId = req.body.course || req.query.course;
+    const filter = {};
+
+    if (courseId) {
+      if (!mongoose.Types.ObjectId.isValid(courseId)) {
+        return next(new ErrorResponse(`Course not found with id of ${courseId}`, 404));
+      }
+      filter.course = courseId;
+    }
+
+    const quizzes = await Quiz.find(filter).select('_id');
+
+    for (const quiz of quizzes) {
+      await Quiz.recomputeAnalytics(quiz._id);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { quizzesUpdated: quizzes.length }
+    });
+  } catch (error) {
+    console.error('Recompute quiz analytics error:', error);
+    return next(new ErrorResponse('Failed to recompute quiz analytics', 500));
+  }
+});
@@ -0,0 +1,184 @@
+// src/controllers/reviews.js
+import mongoose from 'mongoose';
+import Course from '../models/Course.js';
+import Review from '../models/Review.js';
+import ErrorResponse from '../utils/errorResponse.js';
+import asyncHandler from '../middleware/async.js';
+
+const canManage = (course, user) =>
+  course.createdBy.toString() === user.id || user.role === 'admin';
+
+const isEnrolledIn = (course, userId) =>
+  Array.isArray(course.enrolledStudents) &&
+  course.enrolledStudents.some(studentId => studentId.toString() === userId);
+
+const REVIEW_POPULATE = [
+  { path: 'student', select: 'name' },
+  { path: 'reply.author', select: 'name' }
+];
+
+// A review without an empty reply placeholder
+const presentReview = (review) => {
+  const data = review.toObject();
+
+  if (!data.reply || !data.reply.body) {
+    data.reply = null;
+  }
+
+  return data;
+};
+
+// Create or update a student's review, returning the review as it was before, or null if this
+// created it. Two first saves at once make one hit the unique index; it then updates instead.
+const upsertReview = async (filter, changes) => {
+  const options = { new: false, upsert: true, runValidators: true, setDefaultsOnInsert: true };
+
+  try {
+    return await Review.findOneAndUpdate(filter, changes, options);
+  } catch (error) {
+    if (error.code !== 11000) throw error;
+    return Review.findOneAndUpdate(filter, changes, options);
+  }
+};
+
+const loadCourse = async (req, next) => {
+  const course = await Course.findById(req.params.id);
+
+  if (!course) {
+    next(new ErrorResponse(`Course not found with id of ${req.params.id}`, 404));
+    return null;
+  }
+
+  return course;
+};
+
+// @desc    Get a course's reviews with its rating summary
+// @route   GET /api/v1/courses/:id/reviews
+// @access  Private
+export const getReviews = asyncHandler(async (req, res, next) => {
+  const course = await loadCourse(req, next);
+  if (!course) return;
+
+  if (!course.isActive && !canManage(course, req.user)) {
+    return next(new ErrorResponse('Course is not available', 404));
+  }
+
+  const reviews = await Review.find({ course: course._id })
+    .populate(REVIEW_POPULATE)
+    .sort({ createdAt: -1 });
+
+  // How many reviews gave each number of stars
+  const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  reviews.forEach(review => {
+    distribution[review.rating] += 1;
+  });
+
+  const myReview = reviews.find(review => review.student && review.student._id.toString() === req.user.id);
+
+  res.status(200).json({
+    success: true,
+    count: reviews.length,
+    summary: {
+      averageRating: course.analytics.averageRating,
+      totalRatings: course.analytics.totalRatings,
+      distribution
+    },
+    myReview: myReview ? presentReview(myReview) : null,
+    canReview: req.user.role === 'student' && isEnrolledIn(course, req.user.id),
+    data: reviews.map(presentReview)
+  });
+});
+
+// @desc    Rate and review a course, or edit your existing review
+// @route   PUT /api/v1/courses/:id/reviews/me
+// @access  Private (Enrolled students)
+export const saveMyReview = asyncHandler(async (req, res, next) => {
+  const course = await loadCourse(req, next);
+  if (!course) return;
+
+  if (req.user.role !== 'student' || !isEnrolledIn(course, req.user.id)) {
+    return next(new ErrorResponse('Only students enrolled in this course can review it', 403));
+  }
+
+  const rating = Number(req.body.rating);
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    return next(new ErrorResponse('Rating must be a whole number from 1 to 5', 400));
+  }
+
+  const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+
+  const filter = { course: course._id, student: req.user.id };
+  const previous = await upsertReview(filter, { rating, body });
+  await Review.applyRatingChange(course._id, rating - (previous ? previous.rating : 0), previous ? 0 : 1);
+
+  const review = await Review.findOne(filter).populate(REVIEW_POPULATE);
+
+  res.status(200).json({
+    success: true,
+    data: presentReview(review)
+  });
+});
+
+// @desc    Reply to a review, or remove the reply by sending an empty one
+// @route   PUT /api/v1/courses/:id/reviews/:reviewId/reply
+// @access  Private (Faculty/Admin - course owner)
+export const replyToReview = asyncHandler(async (req, res, next) => {
+  const course = await loadCourse(req, next);
+  if (!course) return;
+
+  if (!canManage(course, req.user)) {
+    return next(new ErrorResponse(`User ${req.user.id} is not authorized to reply to reviews of this course`, 403));
+  }
+
+  const review = mongoose.Types.ObjectId.isValid(req.params.reviewId)
+    ? await Review.findOne({ _id: req.params.reviewId, course: course._id })
+    : null;
+
+  if (!review) {
+    return next(new ErrorResponse(`Review not found with id of ${req.params.reviewId}`, 404));
+  }
+
+  const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+  review.reply = body
+    ? { body, author: req.user.id, repliedAt: new Date() }
+    : undefined;
+
+  await review.save();
+  await review.populate(REVIEW_POPULATE);
+
+  res.status(200).json({
+    success: true,
+    data: presentReview(review)
+  });
+});
+
+// @desc    Delete a review. Admins use this to remove abusive reviews.
+// @route   DELETE /api/v1/courses/:id/reviews/:reviewId
+// @access  Private (Review author or admin)
+export const deleteReview = asyncHandler(async (req, res, next) => {
+  const course = await loadCourse(req, next);
+  if (!course) return;
+
+  const review = mongoose.Types.ObjectId.isValid(req.params.reviewId)
+    ? await Review.findOne({ _id: req.params.reviewId, course: course._id })
+    : null;
+
+  if (!review) {
+    return next(new ErrorResponse(`Review not found with id of ${req.params.reviewId}`, 404));
+  }
+
+  if (review.student.toString() !== req.user.id && req.user.role !== 'admin') {
+    return next(new ErrorResponse(`User ${req.user.id} is not authorized to delete this review`, 403));
+  }
+
+  // Only the request that actually removes the review takes it off the course rating
+  const removed = await Review.findOneAndDelete({ _id: review._id });
+  if (removed) {
+    await Review.applyRatingChange(course._id, -removed.rating, -1);
+  }
+
+  res.status(200).json({
+    success: true,
+    data: {}
+  });
+});
@@ -0,0 +1,221 @@
+import { QuestionType, QuizQuestion } from '../stores/quizStore';
+
+// Saved questions, options and pairs keep their ids, so edits don't cut existing answers
+// off from the questions and options they refer to
+export interface QuestionFormData {
+  _id?: string;
+  text: string;
+  type: QuestionType;
+  options: OptionFormData[];
+  acceptedAnswers: string[];
+  // Kept as text while editing so the inputs can be cleared
+  numericAnswer: string;
+  tolerance: string;
+  pairs: MatchPairFormData[];
+  rubric: string;
+  points: string;
+  partialCredit: boolean;
+  penalty: string;
+  explanation: string;
+}
+
+export interface OptionFormData {
+  _id?: string;
+  text: string;
+  isCorrect: boolean;
+  feedback: string; // shown to students who pick this option
+}
+
+export interface MatchPairFormData {
+  _id?: string;
+  prompt: string;
+  match: string;
+}
+
+export const CHOICE_TYPES: QuestionType[] = ['single', 'multiple', 'true_false'];
+
+const blankOptions = (): OptionFormData[] => [
+  { text: '', isCorrect: false, feedback: '' },
+  { text: '', isCorrect: false, feedback: '' },
+  { text: '', isCorrect: false, feedback: '' },
+  { text: '', isCorrect: false, feedback: '' }
+];
+
+const trueFalseOptions = (): OptionFormData[] => [
+  { text: 'True', isCorrect: true, feedback: '' },
+  { text: 'False', isCorrect: false, feedback: '' }
+];
+
+// Describe the first problem with a question's answer key, or return null if it is valid
+export const getQuestionFormError = (question: QuestionFormData, questionIndex: number): string | null => {
+  const label = `Question ${questionIndex + 1}`;
+
+  if (!question.text.trim()) {
+    return `${label} text is required`;
+  }
+
+  if (question.points.trim() === '' || !(Number(question.points) >= 0)) {
+    return `${label} points must be a non-negative number`;
+  }
+
+  if (question.penalty.trim() !== '' && !(Number(question.penalty) >= 0)) {
+    return `${label} penalty must be a non-negative number`;
+  }
+
+  if (CHOICE_TYPES.includes(question.type) || question.type === 'ordering') {
+    if (question.options.length < 2) {
+      return `${label} must have at least 2 options`;
+    }
+
+    const emptyIndex = question.options.findIndex(opt => !opt.text.trim());
+    if (emptyIndex >= 0) {
+      return `${label}, option ${emptyIndex + 1} text is required`;
+    }
+  }
+
+  if (CHOICE_TYPES.includes(question.type)) {
+    const correctOptions = question.options.filter(opt => opt.isCorrect);
+
+    if (correctOptions.length === 0) {
+      return `${label} must have at least one correct answer`;
+    }
+
+    if (question.type !== 'multiple' && correctOptions.length > 1) {
+      return `${label} can only have one correct answer`;
+    }
+  }
+
+  if (question.type === 'short_answer' && !question.acceptedAnswers.some(answer => answer.trim())) {
+    return `${label} must have at least one accepted answer`;
+  }
+
+  if (question.type === 'numeric') {
+    if (question.numericAnswer.trim() === '' || !Number.isFinite(Number(question.numericAnswer))) {
+      return `${label} must have a numeric answer`;
+    }
+
+    if (question.tolerance.trim() !== '' && !(Number(question.tolerance) >= 0)) {
+      return `${label} tolerance must be a non-negative number`;
+    }
+  }
+
+  if (question.type === 'matching') {
+    if (question.pairs.length < 2) {
+      return `${label} must have at least 2 pairs to match`;
+    }
+
+    const incompleteIndex = question.pairs.findIndex(pair => !pair.prompt.trim() || !pair.match.trim());
+    if (incompleteIndex >= 0) {
+      return `${label}, pair ${incompleteIndex + 1} needs both a prompt and a match`;
+    }
+  }
+
+  return null;
+};
+
+// Send only the fields that belong to the question type
+export const toQuestionPayload = (question: QuestionFormData) => {
+  const base = {
+    ...(question._id && { _id: question._id }),
+    text: question.text,
+    type: question.type,
+    options: [] as OptionFormData[],
+    points: Number(question.points),
+    partialCredit: question.type === 'multiple' && question.partialCredit,
+    penalty: ['single', 'true_false'].includes(question.type) && question.penalty.trim() !== ''
+      ? Number(question.penalty)
+      : 0,
+    explanation: question.explanation.trim()
+  };
+
+  switch (question.type) {
+    case 'short_answer':
+      return { ...base, acceptedAnswers: question.acceptedAnswers.filter(answer => answer.trim()) };
+    case 'numeric':
+      return {
+        ...base,
+        numericAnswer: Number(question.numericAnswer),
+        tolerance: question.tolerance.trim() === '' ? 0 : Number(question.tolerance)
+      };
+    case 'matching':
+      return { ...base, pairs: question.pairs };
+    case 'essay':
+      return { ...base, rubric: question.rubric.trim() };
+    case 'ordering':
+      return { ...base, options: question.options.map(({ _id, text, isCorrect }) => ({ _id, text, isCorrect })) };
+    default:
+      return {
+        ...base,
+        options: question.options.map(option => ({ ...option, feedback: option.feedback.trim() }))
+      };
+  }
+};
+
+// A blank single choice question, as added by the "Add Question" buttons
+export const emptyQuestion = (): QuestionFormData => ({
+  text: '',
+  type: 'single',
+  options: blankOptions(),
+  acceptedAnswers: [],
+  numericAnswer: '',
+  tolerance: '',
+  pairs: [],
+  rubric: '',
+  points: '1',
+  partialCredit: false,
+  penalty: '',
+  explanation: ''
+});
+
+// Turn a saved question into editable form data
+export const toQuestionFormData = (q: QuizQuestion): QuestionFormData => ({
+  _id: q._id,
+  text: q.text || '',
+  type: q.type || 'single',
+  options: (q.options || []).map(o => ({
+    _id: o._id,
+    text: o.text || '',
+    isCorrect: Boolean(o.isCorrect),
+    feedback: o.feedback || ''
+  })),
+  acceptedAnswers: q.acceptedAnswers || [],
+  numericAnswer: q.numericAnswer !== undefined && q.numericAnswer !== null ? String(q.numericAnswer) : '',
+  tolerance: q.tolerance ? String(q.tolerance) : '',
+  pairs: (q.pairs || []).map(pair => ({
+    _id: pair._id,
+    prompt: pair.prompt || '',
+    match: pair.match || ''
+  })),
+  rubric: q.rubric || '',
+  points: String(q.points ?? 1),
+  partialCredit: Boolean(q.partialCredit),
+  penalty: q.penalty ? String(q.penalty) : '',
+  explanation: q.explanation || ''
+});
+
+// Switch a question's type, filling in what the new type needs to be editable
+export const changeQuestionType = (q: QuestionFormData, newType: QuestionType): QuestionFormData => {
+  const updated: QuestionFormData = { ...q, type: newType };
+
+  if (newType === 'true_false') {
+    updated.options = q.type === 'true_false' ? q.options : trueFalseOptions();
+  } else if (CHOICE_TYPES.includes(newType) || newType === 'ordering') {
+    const reusable = q.type !== 'true_false' && q.options.length >= 2;
+    updated.options = reusable ? q.options : blankOptions();
+
+    // If changing to single choice, ensure only one option is correct
+    if (newType === 'single') {
+      const correctIndex = updated.options.findIndex(opt => opt.isCorrect);
+      updated.options = updated.options.map((opt, j) => ({
+        ...opt,
+        isCorrect: j === (correctIndex >= 0 ? correctIndex : 0)
+      }));
+    }
+  } else if (newType === 'short_answer' && q.acceptedAnswers.length === 0) {
+    updated.acceptedAnswers = [''];
+  } else if (newType === 'matching' && q.pairs.length < 2) {
+    updated.pairs = [...q.pairs, { prompt: '', match: '' }, { prompt: '', match: '' }].slice(0, 2);
+  }
+
+  return updated;
+};
@@ -1,3 +1,4 @@
+import axios from 'axios';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 
@@ -6,6 +7,11 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// The error message the API sent back for a failed request, or the fallback if there is none
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  return (axios.isAxiosError(error) && error.response?.data?.error) || fallback;
+}
+
 // Format date to readable string
 export function formatDate(dateString: string): string {
   const date = new Date(dateString);
@@ -16,6 +22,43 @@ export function formatDate(dateString: string): string {
   }).format(date);
 }
 
+// Format date and time to readable string
+export function formatDateTime(dateString: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(new Date(dateString));
+}
+
+// Rough time left until a date, e.g. "2d 3h" or "45m"
+export function formatTimeUntil(dateString: string): string {
+  const minutes = Math.max(0, Math.ceil((new Date(dateString).getTime() - Date.now()) / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+// Short duration from seconds, e.g. "45s" or "2m 05s"
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  if (minutes === 0) return `${seconds}s`;
+  return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+// Date in the local-time format used by datetime-local inputs
+export function toDateTimeLocalValue(dateString?: string | null): string {
+  if (!dateString) return '';
+  const date = new Date(dateString);
+  const offsetDate = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return offsetDate.toISOString().slice(0, 16);
+}
+
 // Generate a random access code
 export function generateAccessCode(): string {
   const characters = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
@@ -26,6 +69,12 @@ export function generateAccessCode(): string {
   return result;
 }
 
+// Name of a file uploaded to this server, from a lesson's stored or signed file URL
+export function getUploadFilename(url?: string | null): string | null {
+  const match = url ? url.match(/\/(?:uploads|api\/v1\/files)\/([^/?#]+)(?:\?[^#]*)?$/) : null;
+  return match ? match[1] : null;
+}
+
 // Truncate text to specific length with ellipsis
 export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
@@ -0,0 +1,18 @@
+// src/middleware/signedFile.js
+import path from 'path';
+import ErrorResponse from '../utils/errorResponse.js';
+import { verifyFileSignature } from '../utils/signedFileUrl.js';
+
+// Let a request through only with a valid, unexpired link to the file it asks for.
+// Used instead of protect on file routes, since media tags can't send a bearer token.
+export const verifySignedFile = (req, res, next) => {
+  const { user, expires, signature } = req.query;
+  const filename = path.basename(req.params.filename);
+
+  if (!verifyFileSignature(filename, user, expires, signature)) {
+    return next(new ErrorResponse('This file link is invalid or has expired', 403));
+  }
+
+  req.fileAccess = { filename, userId: user, expiresAt: Number(expires) };
+  next();
+};
@@ -0,0 +1,61 @@
+// src/models/BankQuestion.js
+import mongoose from 'mongoose';
+import { questionSchema, DIFFICULTY_LEVELS } from './Quiz.js';
+
+// A reusable question in a course's question bank. It has the same fields and
+// answer key validation as a quiz question, plus what quizzes draw it by.
+const bankQuestionSchema = questionSchema.clone();
+
+bankQuestionSchema.add({
+  course: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Course',
+    required: [true, 'Question must belong to a course']
+  },
+  createdBy: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Topics, stored lowercase so rules match regardless of how they were typed
+  tags: [{
+    type: String,
+    trim: true,
+    lowercase: true,
+    maxlength: [50, 'Tag cannot be more than 50 characters']
+  }],
+  difficulty: {
+    type: String,
+    enum: DIFFICULTY_LEVELS,
+    default: 'medium'
+  }
+});
+
+bankQuestionSchema.set('timestamps', true);
+
+// Query matching the bank questions a quiz rule may draw from
+bankQuestionSchema.statics.ruleFilter = function(courseId, rule) {
+  const filter = { course: new mongoose.Types.ObjectId(courseId.toString()) };
+
+  if (rule.tag) {
+    filter.tags = rule.tag.toLowerCase();
+  }
+  if (rule.difficulty) {
+    filter.difficulty = rule.difficulty;
+  }
+
+  return filter;
+};
+
+// Pick up to `count` random questions for a rule, skipping ones already drawn
+bankQuestionSchema.statics.drawForRule = function(courseId, rule, excludeIds = []) {
+  return this.aggregate([
+    { $match: { ...this.ruleFilter(courseId, rule), _id: { $nin: excludeIds } } },
+    { $sample: { size: rule.count } }
+  ]);
+};
+
+bankQuestionSchema.index({ course: 1, tags: 1 });
+bankQuestionSchema.index({ course: 1, difficulty: 1 });
+
+export default mongoose.model('BankQuestion', bankQuestionSchema);
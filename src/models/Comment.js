@@ -0,0 +1,70 @@
+// src/models/Comment.js
+import mongoose from 'mongoose';
+
+// A discussion comment on a course. Threads are top-level comments, either on a
+// subsection or, with no subsection, on the course-level discussion board; replies
+// point at their thread through parent. Pinning, answered, hidden and locked are
+// set by the course owner or an admin.
+const commentSchema = new mongoose.Schema({
+  course: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+  // Embedded subsection id; null for the course discussion board
+  subsection: {
+    type: mongoose.Schema.ObjectId,
+    default: null
+  },
+  // The thread a reply belongs to; null for the thread itself
+  parent: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Comment',
+    default: null
+  },
+  author: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  body: {
+    type: String,
+    trim: true,
+    maxlength: [5000, 'Comment cannot be more than 5000 characters'],
+    default: ''
+  },
+  isPinned: {
+    type: Boolean,
+    default: false
+  },
+  isAnswered: {
+    type: Boolean,
+    default: false
+  },
+  // Hidden comments are only shown to moderators
+  isHidden: {
+    type: Boolean,
+    default: false
+  },
+  // Locked threads take no new replies
+  isLocked: {
+    type: Boolean,
+    default: false
+  },
+  editedAt: {
+    type: Date,
+    default: null
+  },
+  // Deleted comments that still have replies keep their place in the thread
+  deletedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+commentSchema.index({ course: 1, subsection: 1, parent: 1 });
+commentSchema.index({ parent: 1 });
+
+export default mongoose.model('Comment', commentSchema);
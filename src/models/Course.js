@@ -178,6 +178,11 @@ const courseSchema = new mongoose.Schema({
     totalRatings: {
       type: Number,
       default: 0
+    },
+    // Sum of all review ratings, which the average is worked out from
+    ratingSum: {
+      type: Number,
+      default: 0
     }
   }
 }, {
@@ -0,0 +1,84 @@
+// src/models/CourseProgress.js
+import mongoose from 'mongoose';
+
+const subsectionProgressSchema = new mongoose.Schema({
+  section: {
+    type: mongoose.Schema.ObjectId,
+    required: true
+  },
+  subsection: {
+    type: mongoose.Schema.ObjectId,
+    required: true
+  },
+  completed: {
+    type: Boolean,
+    default: false
+  },
+  completedAt: {
+    type: Date,
+    default: null
+  },
+  firstViewedAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastViewedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
+const courseProgressSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  course: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+  subsections: [subsectionProgressSchema],
+  lastViewedSubsection: {
+    type: mongoose.Schema.ObjectId,
+    default: null
+  },
+  lastViewedAt: {
+    type: Date,
+    default: null
+  },
+  // Set the first time every active subsection is completed; kept afterwards
+  // so a course completion is only ever counted once
+  completedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Find the progress entry for a subsection
+courseProgressSchema.methods.getSubsection = function(subsectionId) {
+  return this.subsections.find(entry => entry.subsection.toString() === subsectionId.toString());
+};
+
+// Get or create the progress entry for a subsection
+courseProgressSchema.methods.touchSubsection = function(sectionId, subsectionId) {
+  let entry = this.getSubsection(subsectionId);
+
+  if (!entry) {
+    this.subsections.push({ section: sectionId, subsection: subsectionId });
+    entry = this.subsections[this.subsections.length - 1];
+  }
+
+  return entry;
+};
+
+// One progress document per student per course
+courseProgressSchema.index({ user: 1, course: 1 }, { unique: true });
+courseProgressSchema.index({ course: 1, completedAt: 1 });
+
+export default mongoose.model('CourseProgress', courseProgressSchema);
@@ -0,0 +1,48 @@
+// src/models/EnrollmentRequest.js
+import mongoose from 'mongoose';
+
+export const ENROLLMENT_REQUEST_STATUSES = ['pending', 'approved', 'rejected'];
+
+// A student's request to join a course that requires approval. Approving it adds the
+// student to the course's enrolledStudents; asking again after a rejection reopens it.
+const enrollmentRequestSchema = new mongoose.Schema({
+  course: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+  student: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ENROLLMENT_REQUEST_STATUSES,
+    default: 'pending'
+  },
+  // From the reviewer to the student, e.g. why the request was rejected
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Message cannot be more than 500 characters'],
+    default: ''
+  },
+  reviewedBy: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  reviewedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+enrollmentRequestSchema.index({ course: 1, student: 1 }, { unique: true });
+enrollmentRequestSchema.index({ course: 1, status: 1 });
+enrollmentRequestSchema.index({ student: 1 });
+
+export default mongoose.model('EnrollmentRequest', enrollmentRequestSchema);
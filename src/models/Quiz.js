@@ -1,5 +1,6 @@
 // src/models/Quiz.js - FIXED VERSION
 import mongoose from 'mongoose';
+import { parseCidr } from '../utils/ipRange.js';
 
 const optionSchema = new mongoose.Schema({
   text: {
@@ -12,11 +13,40 @@ const optionSchema = new mongoose.Schema({
     type: Boolean,
     required: true,
     default: false
+  },
+  // Shown after submission to students who chose this option, e.g. why a distractor is wrong
+  feedback: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Option feedback cannot be more than 500 characters']
   }
 }, {
   _id: true // Ensure options have _id
 });
 
+// Question types answered by picking from `options`
+const CHOICE_TYPES = ['single', 'multiple', 'true_false'];
+
+// Difficulty levels question bank entries are tagged with
+export const DIFFICULTY_LEVELS = ['easy', 'medium', 'hard'];
+
+const matchPairSchema = new mongoose.Schema({
+  prompt: {
+    type: String,
+    required: [true, 'Matching prompt is required'],
+    trim: true,
+    maxlength: [500, 'Matching prompt cannot be more than 500 characters']
+  },
+  match: {
+    type: String,
+    required: [true, 'Matching answer is required'],
+    trim: true,
+    maxlength: [500, 'Matching answer cannot be more than 500 characters']
+  }
+}, {
+  _id: true // Students answer by pairing prompt ids with match ids
+});
+
 const questionSchema = new mongoose.Schema({
   text: {
     type: String,
@@ -24,42 +54,238 @@ const questionSchema = new mongoose.Schema({
     trim: true,
     maxlength: [2000, 'Question text cannot be more than 2000 characters']
   },
+  // Choices for single/multiple/true_false; for ordering, the items in their correct order
   options: {
     type: [optionSchema],
-    required: true,
-    validate: {
-      validator: function(options) {
-        return options && options.length >= 2;
-      },
-      message: 'Each question must have at least 2 options'
-    }
+    default: []
   },
   type: {
     type: String,
-    enum: ['single', 'multiple'],
+    enum: ['single', 'multiple', 'true_false', 'short_answer', 'numeric', 'matching', 'ordering', 'essay'],
     default: 'single',
     required: true
+  },
+  // short_answer: responses equal to any of these, ignoring case and spacing, are correct
+  acceptedAnswers: [{
+    type: String,
+    trim: true,
+    maxlength: [500, 'Accepted answer cannot be more than 500 characters']
+  }],
+  // numeric: the correct value and how far a response may be from it
+  numericAnswer: {
+    type: Number
+  },
+  tolerance: {
+    type: Number,
+    min: [0, 'Tolerance cannot be negative'],
+    default: 0
+  },
+  // matching: each prompt must be paired with its own match
+  pairs: {
+    type: [matchPairSchema],
+    default: []
+  },
+  // essay: guidance shown to whoever grades the response by hand
+  rubric: {
+    type: String,
+    trim: true,
+    maxlength: [5000, 'Rubric cannot be more than 5000 characters']
+  },
+  // Weight of the question in the quiz score
+  points: {
+    type: Number,
+    min: [0, 'Points cannot be negative'],
+    default: 1
+  },
+  // multiple: award a share of the points for (correct - incorrect) selections, floored at zero
+  partialCredit: {
+    type: Boolean,
+    default: false
+  },
+  // single/true_false: points deducted for a wrong answer (unanswered questions cost nothing)
+  penalty: {
+    type: Number,
+    min: [0, 'Penalty cannot be negative'],
+    default: 0
+  },
+  // Why the answer is what it is, for students reviewing their results
+  explanation: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Explanation cannot be more than 2000 characters']
   }
 }, {
   _id: true // Ensure questions have _id
 });
 
-// Add validation for correct answers
-questionSchema.pre('validate', function(next) {
-  if (this.options && this.options.length > 0) {
-    const correctOptions = this.options.filter(option => option.isCorrect);
-    
+// Describe what is wrong with a question's answer key, or return null if it is valid.
+// `label` names the question in the message, e.g. "Question 3".
+const getQuestionError = (question, label = 'Question') => {
+  const options = question.options || [];
+  const type = question.type || 'single';
+
+  if (CHOICE_TYPES.includes(type) || type === 'ordering') {
+    if (options.length < 2) {
+      return `${label} must have at least 2 options`;
+    }
+
+    for (let j = 0; j < options.length; j++) {
+      if (!options[j].text || !options[j].text.trim()) {
+        return `${label}, option ${j + 1} text is required`;
+      }
+    }
+  }
+
+  if (CHOICE_TYPES.includes(type)) {
+    const correctOptions = options.filter(option => option.isCorrect);
+
     if (correctOptions.length === 0) {
-      return next(new Error('Each question must have at least one correct answer'));
+      return `${label} must have at least one correct answer`;
+    }
+
+    if (type !== 'multiple' && correctOptions.length > 1) {
+      return `${label} can only have one correct answer`;
+    }
+
+    if (type === 'true_false' && options.length !== 2) {
+      return `${label} must have exactly 2 options (True and False)`;
+    }
+  }
+
+  if (type === 'short_answer') {
+    const accepted = (question.acceptedAnswers || []).filter(answer => answer && answer.trim());
+    if (accepted.length === 0) {
+      return `${label} must have at least one accepted answer`;
+    }
+  }
+
+  if (type === 'numeric') {
+    if (typeof question.numericAnswer !== 'number' || !Number.isFinite(question.numericAnswer)) {
+      return `${label} must have a numeric answer`;
+    }
+
+    if (question.tolerance !== undefined && (typeof question.tolerance !== 'number' || question.tolerance < 0)) {
+      return `${label} tolerance must be a non-negative number`;
+    }
+  }
+
+  if (type === 'matching') {
+    const pairs = question.pairs || [];
+
+    if (pairs.length < 2) {
+      return `${label} must have at least 2 pairs to match`;
     }
-    
-    if (this.type === 'single' && correctOptions.length > 1) {
-      return next(new Error('Single choice questions can only have one correct answer'));
+
+    for (let j = 0; j < pairs.length; j++) {
+      if (!pairs[j].prompt || !pairs[j].prompt.trim() || !pairs[j].match || !pairs[j].match.trim()) {
+        return `${label}, pair ${j + 1} needs both a prompt and a match`;
+      }
     }
   }
+
+  return null;
+};
+
+// Add validation for the answer key of each question type
+questionSchema.pre('validate', function(next) {
+  const error = getQuestionError(this);
+  if (error) {
+    return next(new Error(error));
+  }
   next();
 });
 
+// Describe what is wrong with a quiz's availability window, or return null if it is valid
+const getAvailabilityError = ({ availableFrom, availableUntil, lateSubmission }) => {
+  const opens = availableFrom ? new Date(availableFrom) : null;
+  const closes = availableUntil ? new Date(availableUntil) : null;
+  const lateUntil = lateSubmission && lateSubmission.until ? new Date(lateSubmission.until) : null;
+
+  if ([opens, closes, lateUntil].some(date => date && isNaN(date.getTime()))) {
+    return 'Availability dates must be valid dates';
+  }
+
+  if (opens && closes && closes <= opens) {
+    return 'The quiz must close after it opens';
+  }
+
+  if (lateSubmission && lateSubmission.allowed) {
+    if (!closes) {
+      return 'Late submissions need a closing date';
+    }
+    if (lateUntil && lateUntil <= closes) {
+      return 'Late submissions must end after the quiz closes';
+    }
+  }
+
+  const penalty = lateSubmission && lateSubmission.penalty;
+  if (penalty !== undefined && penalty !== null && !(penalty >= 0 && penalty <= 100)) {
+    return 'Late penalty must be between 0 and 100 percent';
+  }
+
+  return null;
+};
+
+// Describe what is wrong with a quiz's score feedback bands, or return null if they are valid
+const getScoreFeedbackError = (bands) => {
+  if (!Array.isArray(bands)) {
+    return 'Score feedback must be a list';
+  }
+
+  const seen = new Set();
+  for (let i = 0; i < bands.length; i++) {
+    const minScore = bands[i] && bands[i].minScore;
+    if (typeof minScore !== 'number' || !(minScore >= 0 && minScore <= 100)) {
+      return `Score feedback ${i + 1} must start at a score between 0 and 100`;
+    }
+    if (seen.has(minScore)) {
+      return `More than one score feedback message starts at ${minScore}%`;
+    }
+    if (!bands[i].message || !String(bands[i].message).trim()) {
+      return `Score feedback ${i + 1} needs a message`;
+    }
+    seen.add(minScore);
+  }
+
+  return null;
+};
+
+const questionRuleSchema = new mongoose.Schema({
+  tag: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    maxlength: [50, 'Tag cannot be more than 50 characters']
+  },
+  difficulty: {
+    type: String,
+    enum: DIFFICULTY_LEVELS
+  },
+  count: {
+    type: Number,
+    required: [true, 'Please add how many questions to draw'],
+    min: [1, 'A rule must draw at least 1 question']
+  }
+});
+
+// A message shown with results scoring at least `minScore` percent, up to the next band
+const scoreFeedbackSchema = new mongoose.Schema({
+  minScore: {
+    type: Number,
+    required: [true, 'Please add the lowest score for the feedback'],
+    min: [0, 'Feedback scores cannot be negative'],
+    max: [100, 'Feedback scores cannot exceed 100 percent']
+  },
+  message: {
+    type: String,
+    required: [true, 'Please add a feedback message'],
+    trim: true,
+    maxlength: [1000, 'Feedback message cannot be more than 1000 characters']
+  }
+}, {
+  _id: false
+});
+
 const quizSchema = new mongoose.Schema({
   title: {
     type: String,
@@ -77,11 +303,21 @@ const quizSchema = new mongoose.Schema({
     required: true,
     validate: {
       validator: function(questions) {
-        return questions && questions.length > 0;
+        if (questions && questions.length > 0) {
+          return true;
+        }
+        // Quizzes drawn from the question bank need no fixed questions. Update validators
+        // don't run against the document, so the controller checks that case itself.
+        return !(this instanceof mongoose.Document) || (this.questionRules && this.questionRules.length > 0);
       },
       message: 'Quiz must have at least one question'
     }
   },
+  // Questions drawn per student from the course question bank, on top of the fixed questions
+  questionRules: {
+    type: [questionRuleSchema],
+    default: []
+  },
   timeLimit: {
     type: Number,
     required: [true, 'Please add a time limit'],
@@ -93,6 +329,45 @@ const quizSchema = new mongoose.Schema({
     type: Boolean,
     default: true
   },
+  // Percentage score an attempt needs to pass
+  passingScore: {
+    type: Number,
+    min: [0, 'Passing score cannot be negative'],
+    max: [100, 'Passing score cannot exceed 100 percent'],
+    default: 60
+  },
+  // Messages for score ranges, e.g. "review section 2" below 50%
+  scoreFeedback: {
+    type: [scoreFeedbackSchema],
+    default: []
+  },
+  // Window in which students can take the quiz; either end may be left open
+  availableFrom: {
+    type: Date,
+    default: null
+  },
+  availableUntil: {
+    type: Date,
+    default: null
+  },
+  // Attempts after availableUntil, accepted until `until` (or indefinitely) with a score penalty
+  lateSubmission: {
+    allowed: {
+      type: Boolean,
+      default: false
+    },
+    until: {
+      type: Date,
+      default: null
+    },
+    // Percentage of the score deducted from attempts submitted late
+    penalty: {
+      type: Number,
+      min: [0, 'Late penalty cannot be negative'],
+      max: [100, 'Late penalty cannot exceed 100 percent'],
+      default: 0
+    }
+  },
   settings: {
     shuffleQuestions: {
       type: Boolean,
@@ -109,8 +384,52 @@ const quizSchema = new mongoose.Schema({
     allowRetake: {
       type: Boolean,
       default: false
+    },
+    // Only used when allowRetake is on; 0 means unlimited attempts
+    maxAttempts: {
+      type: Number,
+      min: [0, 'Max attempts cannot be negative'],
+      default: 0
+    },
+    // Minutes a student must wait between attempts
+    retakeCooldown: {
+      type: Number,
+      min: [0, 'Retake cooldown cannot be negative'],
+      default: 0
+    },
+    // Which attempt score counts when a student has several
+    gradingPolicy: {
+      type: String,
+      enum: ['highest', 'latest', 'average'],
+      default: 'highest'
+    },
+    // Ask the browser to keep the quiz fullscreen; leaving it is recorded on the attempt
+    requireFullscreen: {
+      type: Boolean,
+      default: false
+    },
+    // Announced by the proctor; students must enter it to start or submit. Empty means none.
+    accessPassword: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Access password cannot be more than 100 characters'],
+      default: ''
+    },
+    // CIDR ranges, e.g. the campus lab subnets, students must take the quiz from. Empty means anywhere.
+    allowedNetworks: {
+      type: [{
+        type: String,
+        trim: true,
+        validate: {
+          validator: (range) => parseCidr(range) !== null,
+          message: props => `${props.value} is not a valid IP address or CIDR range`
+        }
+      }],
+      default: []
     }
   },
+  // Aggregates over graded attempts, kept up to date as attempts are graded, regraded
+  // and deleted so listings don't need to load the attempts
   analytics: {
     totalAttempts: {
       type: Number,
@@ -127,6 +446,15 @@ const quizSchema = new mongoose.Schema({
     lowestScore: {
       type: Number,
       default: 0
+    },
+    // Sum of the counted scores, so the average can be updated without the attempts
+    scoreSum: {
+      type: Number,
+      default: 0
+    },
+    // Unset on quizzes whose analytics have never been computed
+    updatedAt: {
+      type: Date
     }
   }
 }, {
@@ -135,50 +463,225 @@ const quizSchema = new mongoose.Schema({
   toObject: { virtuals: true }
 });
 
-// Virtual for question count
+// Virtual for question count, including questions drawn from the question bank
 quizSchema.virtual('questionCount').get(function() {
-  return this.questions ? this.questions.length : 0;
+  const fixedCount = this.questions ? this.questions.length : 0;
+  const drawnCount = (this.questionRules || []).reduce((total, rule) => total + rule.count, 0);
+  return fixedCount + drawnCount;
 });
 
-// Virtual for total possible score
+// Virtual for the number of attempts a student may make (0 = unlimited)
+quizSchema.virtual('attemptLimit').get(function() {
+  if (!this.settings || !this.settings.allowRetake) {
+    return 1;
+  }
+  return this.settings.maxAttempts || 0;
+});
+
+// Virtual for whether students can take the quiz right now:
+// upcoming, open, late (past availableUntil but accepting late attempts) or closed
+quizSchema.virtual('availability').get(function() {
+  return this.getAvailability();
+});
+
+// The window a student can take the quiz in. A student's accommodation, if given,
+// replaces whichever dates it sets.
+quizSchema.methods.getWindow = function(accommodation) {
+  return {
+    availableFrom: (accommodation && accommodation.availableFrom) || this.availableFrom,
+    availableUntil: (accommodation && accommodation.availableUntil) || this.availableUntil
+  };
+};
+
+// When the quiz stops accepting attempts, or null if it never does
+quizSchema.methods.getClosingTime = function(accommodation) {
+  const { availableUntil } = this.getWindow(accommodation);
+
+  if (!availableUntil) {
+    return null;
+  }
+  if (this.lateSubmission && this.lateSubmission.allowed) {
+    const lateUntil = this.lateSubmission.until;
+    // A window extended past the end of late submissions closes with the window
+    return lateUntil && lateUntil < availableUntil ? availableUntil : lateUntil || null;
+  }
+  return availableUntil;
+};
+
+quizSchema.methods.getAvailability = function(now = new Date(), accommodation) {
+  const { availableFrom, availableUntil } = this.getWindow(accommodation);
+
+  if (availableFrom && now < availableFrom) {
+    return 'upcoming';
+  }
+  if (!availableUntil || now <= availableUntil) {
+    return 'open';
+  }
+
+  const closingTime = this.getClosingTime(accommodation);
+  return !closingTime || now <= closingTime ? 'late' : 'closed';
+};
+
+// Whether an attempt completed at the given time counts as late
+quizSchema.methods.isLateSubmission = function(completedAt, accommodation) {
+  const { availableUntil } = this.getWindow(accommodation);
+  return Boolean(availableUntil && completedAt > availableUntil);
+};
+
+// Virtual for total possible score, the sum of every question's points.
+// Attempts with questions drawn from the bank record their own total as pointsPossible.
 quizSchema.virtual('totalScore').get(function() {
-  return this.questions ? this.questions.length * 100 : 0;
+  return this.questions
+    ? this.questions.reduce((total, question) => total + (question.points ?? 1), 0)
+    : 0;
 });
 
-// Ensure at least one correct answer per question before saving
+// Ensure every question has a valid answer key and the availability window and feedback bands make sense before saving
 quizSchema.pre('save', function(next) {
+  const availabilityError = getAvailabilityError(this);
+  if (availabilityError) {
+    return next(new Error(availabilityError));
+  }
+
+  const scoreFeedbackError = getScoreFeedbackError(this.scoreFeedback || []);
+  if (scoreFeedbackError) {
+    return next(new Error(scoreFeedbackError));
+  }
+
   if (this.questions && this.questions.length > 0) {
     for (let i = 0; i < this.questions.length; i++) {
-      const question = this.questions[i];
-      
-      if (!question.options || question.options.length < 2) {
-        return next(new Error(`Question ${i + 1} must have at least 2 options`));
-      }
-      
-      const correctOptions = question.options.filter(option => option.isCorrect);
-      
-      if (correctOptions.length === 0) {
-        return next(new Error(`Question ${i + 1} must have at least one correct answer`));
-      }
-      
-      if (question.type === 'single' && correctOptions.length > 1) {
-        return next(new Error(`Single choice question ${i + 1} can only have one correct answer`));
-      }
-      
-      // Validate option texts
-      for (let j = 0; j < question.options.length; j++) {
-        if (!question.options[j].text || !question.options[j].text.trim()) {
-          return next(new Error(`Question ${i + 1}, option ${j + 1} text is required`));
-        }
+      const error = getQuestionError(this.questions[i], `Question ${i + 1}`);
+      if (error) {
+        return next(new Error(error));
       }
     }
   }
   next();
 });
 
+// Whether a percentage score passes the quiz
+quizSchema.methods.isPassingScore = function(score) {
+  return score >= (this.passingScore ?? 60);
+};
+
+// The feedback message for a percentage score: the band with the highest start at or below it
+quizSchema.methods.getScoreFeedback = function(score) {
+  const band = (this.scoreFeedback || [])
+    .filter(entry => score >= entry.minScore)
+    .sort((a, b) => b.minScore - a.minScore)[0];
+  return band ? band.message : null;
+};
+
+// Attempts counted in the analytics: finished and fully graded
+const COUNTED_ATTEMPT_STATUS = { $nin: ['in_progress', 'pending_review'] };
+
+// Rebuild the analytics of a quiz from its attempts
+quizSchema.statics.recomputeAnalytics = async function(quizId) {
+  // Looked up by name since attempts import the question schema from this module
+  const QuizAttempt = mongoose.model('QuizAttempt');
+  const [totals] = await QuizAttempt.aggregate([
+    { $match: { quiz: new mongoose.Types.ObjectId(quizId), status: COUNTED_ATTEMPT_STATUS } },
+    {
+      $group: {
+        _id: null,
+        totalAttempts: { $sum: 1 },
+        scoreSum: { $sum: '$score' },
+        highestScore: { $max: '$score' },
+        lowestScore: { $min: '$score' }
+      }
+    }
+  ]);
+
+  const analytics = totals
+    ? {
+        totalAttempts: totals.totalAttempts,
+        averageScore: Math.round(totals.scoreSum / totals.totalAttempts),
+        highestScore: totals.highestScore,
+        lowestScore: totals.lowestScore,
+        scoreSum: totals.scoreSum
+      }
+    : { totalAttempts: 0, averageScore: 0, highestScore: 0, lowestScore: 0, scoreSum: 0 };
+
+  return this.findByIdAndUpdate(
+    quizId,
+    { analytics: { ...analytics, updatedAt: new Date() } },
+    { new: true }
+  );
+};
+
+// Apply a change in what one attempt contributes to the analytics. `previousScore` and
+// `score` are null when the attempt didn't count before, or doesn't count any more.
+// Counts, sums and new extremes are applied in place; losing the highest or lowest score,
+// or analytics that were never computed, fall back to a full recompute.
+quizSchema.statics.updateAttemptAnalytics = async function(quizId, previousScore, score) {
+  const hadScore = typeof previousScore === 'number';
+  const hasScore = typeof score === 'number';
+
+  if ((!hadScore && !hasScore) || previousScore === score) {
+    return;
+  }
+
+  const quiz = await this.findById(quizId).select('analytics');
+  if (!quiz) {
+    return;
+  }
+
+  const { analytics } = quiz;
+  const losesExtreme = hadScore &&
+    (previousScore >= analytics.highestScore || previousScore <= analytics.lowestScore);
+
+  if (!analytics.updatedAt || losesExtreme) {
+    await this.recomputeAnalytics(quizId);
+    return;
+  }
+
+  const filter = { _id: quizId };
+  const update = {
+    $inc: {
+      'analytics.totalAttempts': (hasScore ? 1 : 0) - (hadScore ? 1 : 0),
+      'analytics.scoreSum': (hasScore ? score : 0) - (hadScore ? previousScore : 0)
+    },
+    $set: { 'analytics.updatedAt': new Date() }
+  };
+
+  if (hasScore && analytics.totalAttempts === 0) {
+    // The first counted attempt sets both extremes, unless another got in first
+    filter['analytics.totalAttempts'] = 0;
+    update.$set['analytics.highestScore'] = score;
+    update.$set['analytics.lowestScore'] = score;
+  } else if (hasScore) {
+    filter['analytics.totalAttempts'] = { $gt: 0 };
+    update.$max = { 'analytics.highestScore': score };
+    update.$min = { 'analytics.lowestScore': score };
+  }
+
+  const updated = await this.findOneAndUpdate(filter, update, { new: true }).select('analytics');
+  if (!updated) {
+    // The attempt count changed under us; start again from the current analytics
+    await this.updateAttemptAnalytics(quizId, previousScore, score);
+    return;
+  }
+
+  // Only set the average if nothing else changed the totals in between; the update that did sets its own
+  const { totalAttempts, scoreSum } = updated.analytics;
+  await this.updateOne(
+    { _id: quizId, 'analytics.totalAttempts': totalAttempts, 'analytics.scoreSum': scoreSum },
+    { $set: { 'analytics.averageScore': totalAttempts > 0 ? Math.round(scoreSum / totalAttempts) : 0 } }
+  );
+};
+
+// Shared with the controllers, which validate request bodies before updates
+quizSchema.statics.getQuestionError = getQuestionError;
+quizSchema.statics.getAvailabilityError = getAvailabilityError;
+quizSchema.statics.getScoreFeedbackError = getScoreFeedbackError;
+
+// Shared with the question bank and with attempts, which keep the questions a student was given
+export { questionSchema };
+
 // Index for better performance
 quizSchema.index({ course: 1, createdAt: -1 });
 quizSchema.index({ course: 1, isActive: 1 });
+quizSchema.index({ course: 1, availableFrom: 1 });
 quizSchema.index({ title: 'text' });
 
 export default mongoose.model('Quiz', quizSchema);
\ No newline at end of file
@@ -0,0 +1,61 @@
+// src/models/QuizAccommodation.js
+import mongoose from 'mongoose';
+
+// Adjustments to one quiz for one student, e.g. for a documented accommodation.
+// Anything left at its default behaves exactly as the quiz does for everyone else.
+const quizAccommodationSchema = new mongoose.Schema({
+  quiz: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Quiz',
+    required: true
+  },
+  student: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Multiplies the quiz time limit, e.g. 1.5 for time and a half
+  timeMultiplier: {
+    type: Number,
+    min: [1, 'Time multiplier cannot be less than 1'],
+    max: [5, 'Time multiplier cannot be more than 5'],
+    default: 1
+  },
+  // The student's own availability window; an unset date falls back to the quiz's
+  availableFrom: {
+    type: Date,
+    default: null
+  },
+  availableUntil: {
+    type: Date,
+    default: null
+  },
+  // Attempts on top of the quiz's attempt limit
+  extraAttempts: {
+    type: Number,
+    min: [0, 'Extra attempts cannot be negative'],
+    max: [20, 'Extra attempts cannot be more than 20'],
+    validate: {
+      validator: Number.isInteger,
+      message: 'Extra attempts must be a whole number'
+    },
+    default: 0
+  },
+  // Why the accommodation was granted; only shown to faculty
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot be more than 500 characters']
+  },
+  grantedBy: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+quizAccommodationSchema.index({ quiz: 1, student: 1 }, { unique: true });
+quizAccommodationSchema.index({ student: 1 });
+
+export default mongoose.model('QuizAccommodation', quizAccommodationSchema);
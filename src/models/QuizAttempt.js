@@ -1,5 +1,58 @@
 // src/models/QuizAttempt.js
 import mongoose from 'mongoose';
+import Quiz, { questionSchema } from './Quiz.js';
+
+// A score set by faculty in place of the graded one. While it stands the attempt's score is the
+// override; gradedScore keeps what grading gave, so removing the override restores it.
+const scoreOverrideSchema = new mongoose.Schema({
+  score: {
+    type: Number,
+    required: [true, 'Please add the new score'],
+    min: [0, 'Score cannot be less than 0'],
+    max: [100, 'Score cannot be more than 100']
+  },
+  gradedScore: {
+    type: Number,
+    required: true
+  },
+  reason: {
+    type: String,
+    required: [true, 'Please give a reason for the override'],
+    trim: true,
+    maxlength: [1000, 'Reason cannot be more than 1000 characters']
+  },
+  overriddenBy: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User'
+  },
+  overriddenAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Browser signals recorded while an attempt is in progress, for faculty to judge; none of
+// them is proof of cheating on its own
+export const INTEGRITY_EVENT_TYPES = ['tab_hidden', 'window_blur', 'copy', 'paste', 'fullscreen_exit'];
+
+// Most events kept per attempt, so a misbehaving page can't grow the document without bound
+export const MAX_INTEGRITY_EVENTS = 500;
+
+const integrityEventSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: INTEGRITY_EVENT_TYPES,
+    required: true
+  },
+  at: {
+    type: Date,
+    required: true
+  },
+  // The question the student was on, when known
+  question: {
+    type: mongoose.Schema.ObjectId
+  }
+}, { _id: false });
 
 const quizAttemptSchema = new mongoose.Schema({
   quiz: {
@@ -12,27 +65,176 @@ const quizAttemptSchema = new mongoose.Schema({
     ref: 'User',
     required: true
   },
+  // The questions this student received, when drawn from the question bank.
+  // Empty for quizzes without question rules, whose attempts use the quiz's own questions.
+  questions: {
+    type: [questionSchema],
+    default: []
+  },
   answers: [{
     question: {
       type: mongoose.Schema.ObjectId,
       required: true
     },
+    // Chosen options; for ordering questions, the options in the order the student placed them
     selectedOptions: [{
       type: mongoose.Schema.ObjectId,
       required: true
-    }]
+    }],
+    // Response to short answer, numeric and essay questions
+    textAnswer: {
+      type: String,
+      trim: true,
+      maxlength: [20000, 'Answer cannot be more than 20000 characters']
+    },
+    // Matching questions: the pair whose match the student chose for each prompt
+    matches: [{
+      prompt: {
+        type: mongoose.Schema.ObjectId,
+        required: true
+      },
+      answer: {
+        type: mongoose.Schema.ObjectId,
+        required: true
+      },
+      _id: false
+    }],
+    // Set when the attempt is graded
+    isCorrect: {
+      type: Boolean
+    },
+    // Negative when a wrong answer is penalised
+    pointsEarned: {
+      type: Number
+    },
+    // Essay responses wait for faculty to award points
+    needsGrading: {
+      type: Boolean,
+      default: false
+    },
+    feedback: {
+      type: String,
+      trim: true,
+      maxlength: [5000, 'Feedback cannot be more than 5000 characters']
+    },
+    gradedBy: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User'
+    },
+    gradedAt: {
+      type: Date
+    },
+    // Seconds the student spent working on the question, as measured by the quiz page
+    timeSpent: {
+      type: Number,
+      min: 0
+    }
   }],
+  // Percentage of pointsPossible earned
   score: {
     type: Number,
-    required: true
+    default: 0
+  },
+  // Total points, floored at zero, and the quiz total at grading time
+  pointsEarned: {
+    type: Number,
+    default: 0
+  },
+  pointsPossible: {
+    type: Number,
+    default: 0
+  },
+  // Attempts are created in progress when the student starts the quiz, and wait in
+  // pending_review after submission until every essay response has been graded
+  status: {
+    type: String,
+    enum: ['in_progress', 'pending_review', 'completed'],
+    default: 'completed'
+  },
+  attemptNumber: {
+    type: Number,
+    default: 1
   },
   startedAt: {
     type: Date,
     default: Date.now
   },
+  // Server-side time limit; submissions after this (plus a grace window) are closed
+  deadline: {
+    type: Date
+  },
   completedAt: {
     type: Date
+  },
+  // Whether the score reached the quiz's passing score; null until the attempt is fully graded
+  passed: {
+    type: Boolean,
+    default: null
+  },
+  // Completed after the quiz closed, under its late submission rules
+  isLate: {
+    type: Boolean,
+    default: false
+  },
+  // Percentage deducted from the score for being late
+  latePenalty: {
+    type: Number,
+    default: 0
+  },
+  scoreOverride: {
+    type: scoreOverrideSchema,
+    default: null
+  },
+  // Last re-scored against a corrected answer key
+  regradedAt: {
+    type: Date
+  },
+  integrityEvents: {
+    type: [integrityEventSchema],
+    default: []
+  }
+});
+
+// Attempt numbers are unique per student so concurrent submissions can't both count
+quizAttemptSchema.index({ quiz: 1, student: 1, attemptNumber: 1 }, { unique: true });
+quizAttemptSchema.index({ quiz: 1, student: 1, status: 1 });
+quizAttemptSchema.index({ quiz: 1, status: 1 });
+
+// Seconds left before the deadline, never negative
+quizAttemptSchema.methods.getRemainingSeconds = function() {
+  if (!this.deadline) {
+    return 0;
+  }
+  return Math.max(0, Math.round((this.deadline.getTime() - Date.now()) / 1000));
+};
+
+// How many integrity events of each type were recorded, for listings that leave out the events
+quizAttemptSchema.methods.getIntegritySummary = function() {
+  const counts = Object.fromEntries(INTEGRITY_EVENT_TYPES.map(type => [type, 0]));
+  (this.integrityEvents || []).forEach(event => {
+    counts[event.type]++;
+  });
+
+  return {
+    total: (this.integrityEvents || []).length,
+    counts
+  };
+};
+
+// What the attempt contributes to the quiz analytics: its score once fully graded, otherwise nothing
+quizAttemptSchema.methods.getAnalyticsScore = function() {
+  return ['in_progress', 'pending_review'].includes(this.status) ? null : this.score;
+};
+
+// Take a deleted attempt's score out of the quiz analytics
+const removeFromAnalytics = async function(attempt) {
+  if (attempt) {
+    await Quiz.updateAttemptAnalytics(attempt.quiz, attempt.getAnalyticsScore(), null);
   }
+};
+quizAttemptSchema.post('findOneAndDelete', removeFromAnalytics);
+quizAttemptSchema.post('deleteOne', { document: true, query: false }, function() {
+  return removeFromAnalytics(this);
 });
 
 export default mongoose.model('QuizAttempt', quizAttemptSchema);
\ No newline at end of file
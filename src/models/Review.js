@@ -0,0 +1,84 @@
+// src/models/Review.js
+import mongoose from 'mongoose';
+
+// A student's star rating and review of a course, one per student and course. Saving or
+// removing one updates Course.analytics.averageRating, totalRatings and ratingSum.
+const reviewSchema = new mongoose.Schema({
+  course: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+  student: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  rating: {
+    type: Number,
+    required: [true, 'Please add a rating'],
+    min: [1, 'Rating must be between 1 and 5'],
+    max: [5, 'Rating must be between 1 and 5'],
+    validate: {
+      validator: Number.isInteger,
+      message: 'Rating must be a whole number of stars'
+    }
+  },
+  body: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Review cannot be more than 2000 characters'],
+    default: ''
+  },
+  // The course owner's public answer to the review
+  reply: {
+    body: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Reply cannot be more than 2000 characters']
+    },
+    author: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User'
+    },
+    repliedAt: Date
+  }
+}, {
+  timestamps: true
+});
+
+reviewSchema.index({ course: 1, student: 1 }, { unique: true });
+reviewSchema.index({ course: 1, createdAt: -1 });
+
+// Apply one review's change to a course's rating in a single atomic update: the rating sum and
+// count move by the given amounts and the average is worked out from them, so concurrent review
+// changes can't overwrite each other's totals. Courses rated before the sum was stored start
+// from their average times their count.
+reviewSchema.statics.applyRatingChange = function(courseId, ratingDelta, countDelta) {
+  const totalRatings = { $ifNull: ['$analytics.totalRatings', 0] };
+  const ratingSum = {
+    $ifNull: ['$analytics.ratingSum', { $multiply: [{ $ifNull: ['$analytics.averageRating', 0] }, totalRatings] }]
+  };
+
+  return mongoose.model('Course').updateOne({ _id: courseId }, [
+    {
+      $set: {
+        'analytics.ratingSum': { $add: [ratingSum, ratingDelta] },
+        'analytics.totalRatings': { $add: [totalRatings, countDelta] }
+      }
+    },
+    {
+      $set: {
+        'analytics.averageRating': {
+          $cond: [
+            { $gt: ['$analytics.totalRatings', 0] },
+            { $round: [{ $divide: ['$analytics.ratingSum', '$analytics.totalRatings'] }, 2] },
+            0
+          ]
+        }
+      }
+    }
+  ]);
+};
+
+export default mongoose.model('Review', reviewSchema);
@@ -5,7 +5,7 @@ import {
   Play, FileText, Video, Upload, ExternalLink, ChevronDown, 
   ChevronRight, Clock, BookOpen, AlertCircle, Save, X, 
   Image as ImageIcon, Link2, Code, Type, Eye, EyeOff, MessageCircle,
-  Lock, Shield
+  Lock, Shield, CheckCircle, Circle, TrendingUp, MessageSquare, Star
 } from 'lucide-react';
 
 import Button from '../../components/ui/Button';
@@ -14,9 +14,13 @@ import { Card, CardContent, CardHeader } from '../../components/ui/Card';
 import RichTextEditor from '../../components/ui/RichTextEditor';
 import FileUpload from '../../components/ui/FileUpload';
 import CourseQuizzesSection from '../../components/CourseQuizzesSection';
+import EnrollmentRequestsPanel from '../../components/EnrollmentRequestsPanel';
+import CourseDiscussion from '../../components/CourseDiscussion';
+import CourseReviews from '../../components/CourseReviews';
 import { useAuthStore } from '../../stores/authStore';
-import { useCourseStore, Section, Subsection } from '../../stores/courseStore';
-import { formatDate } from '../../lib/utils';
+import { useCourseStore, Course, Section, Subsection } from '../../stores/courseStore';
+import { useProgressStore } from '../../stores/progressStore';
+import { formatDate, getUploadFilename, getApiErrorMessage } from '../../lib/utils';
 import PDFViewer from '../../components/ui/PDFViewer';
 
 // Add this utility function if it doesn't exist
@@ -44,15 +48,27 @@ const CourseDetailsPage: React.FC = () => {
     updateCourse,
     deleteCourse,
     joinCourse,
+    fetchCourseFile,
     isLoading, 
     error,
     clearError
   } = useCourseStore();
+  const {
+    courseProgress,
+    studentsProgress,
+    fetchCourseProgress,
+    fetchStudentsProgress,
+    recordSubsectionView,
+    setSubsectionCompleted,
+    isSubsectionCompleted
+  } = useProgressStore();
 
   // UI State
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set());
   const [selectedSubsection, setSelectedSubsection] = useState<Subsection | null>(null);
-  const [activeTab, setActiveTab] = useState<'content' | 'quizzes'>('content');
+  const [lessonFile, setLessonFile] = useState<{ url: string; mimeType: string } | null>(null);
+  const [lessonFileError, setLessonFileError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'content' | 'quizzes' | 'discussion' | 'reviews'>('content');
   const [showAddSection, setShowAddSection] = useState(false);
   const [showAddSubsection, setShowAddSubsection] = useState<string | null>(null);
   const [editingSection, setEditingSection] = useState<string | null>(null);
@@ -62,6 +78,8 @@ const CourseDetailsPage: React.FC = () => {
   const [accessCodeInput, setAccessCodeInput] = useState('');
   const [joinError, setJoinError] = useState<string | null>(null);
   const [isJoining, setIsJoining] = useState(false);
+  const [showStudentProgress, setShowStudentProgress] = useState(false);
+  const [isUpdatingProgress, setIsUpdatingProgress] = useState(false);
 
   // Form state
   const [sectionForm, setSectionForm] = useState({ title: '', description: '', order: 1 });
@@ -83,7 +101,8 @@ const CourseDetailsPage: React.FC = () => {
     accessCode: '',
     coverImage: '',
     category: '',
-    difficulty: ''
+    difficulty: '',
+    settings: { allowComments: true, allowDownloads: true, requireApproval: false } as Course['settings']
   });
 
   // Permission checks
@@ -93,6 +112,18 @@ const CourseDetailsPage: React.FC = () => {
   const isOwner = isFaculty && userId === courseCreatedById;
   const isEnrolled = currentCourse?.enrolledStudents?.includes(userId || '') || false;
   const hasAccess = isOwner || isEnrolled;
+  const canReviewEnrollment = isOwner || user?.role === 'admin';
+  // Owners and admins keep download actions even when students only get to view
+  const canDownload = currentCourse?.settings?.allowDownloads !== false || isOwner || user?.role === 'admin';
+  const selectedFilename = getUploadFilename(selectedSubsection?.fileUrl);
+  // Uploaded files are shown from the copy fetched below; other links are used as they are
+  const viewerFileUrl = selectedFilename ? lessonFile?.url : selectedSubsection?.fileUrl;
+  // Comments are for the course's members, and only when the owner allows them
+  const canDiscuss = currentCourse?.settings?.allowComments !== false && (hasAccess || user?.role === 'admin');
+  const enrollmentRequest = currentCourse?.enrollmentRequest;
+  // Progress is only tracked for enrolled students
+  const tracksProgress = !isFaculty && isEnrolled;
+  const progress = courseId ? courseProgress[courseId] : undefined;
 
   useEffect(() => {
     if (courseId) {
@@ -110,7 +141,8 @@ const CourseDetailsPage: React.FC = () => {
         accessCode: currentCourse.accessCode,
         coverImage: currentCourse.coverImage || '',
         category: currentCourse.category,
-        difficulty: currentCourse.difficulty
+        difficulty: currentCourse.difficulty,
+        settings: { ...currentCourse.settings }
       });
       
       // Auto-expand first section if user has access and we're on content tab
@@ -125,6 +157,70 @@ const CourseDetailsPage: React.FC = () => {
     }
   }, [currentCourse, activeTab, hasAccess]);
 
+  // Uploaded lesson files need the user's credentials, so they are fetched and shown from memory
+  useEffect(() => {
+    setLessonFile(null);
+    setLessonFileError(null);
+    if (!courseId || !selectedFilename) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    fetchCourseFile(courseId, selectedFilename)
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setLessonFile({ url: objectUrl, mimeType: blob.type });
+      })
+      .catch((err) => {
+        if (!cancelled) setLessonFileError((err as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [courseId, selectedFilename, fetchCourseFile]);
+
+  // Leave the discussion tab once comments are turned off
+  useEffect(() => {
+    if (activeTab === 'discussion' && currentCourse && !canDiscuss) {
+      setActiveTab('content');
+    }
+  }, [activeTab, currentCourse, canDiscuss]);
+
+  useEffect(() => {
+    if (courseId && tracksProgress) {
+      fetchCourseProgress(courseId);
+    }
+  }, [courseId, tracksProgress, fetchCourseProgress]);
+
+  // Record a view whenever a student opens a subsection
+  useEffect(() => {
+    if (courseId && tracksProgress && selectedSubsection) {
+      recordSubsectionView(courseId, selectedSubsection.id);
+    }
+  }, [courseId, tracksProgress, selectedSubsection, recordSubsectionView]);
+
+  const handleToggleSubsectionComplete = async (subsectionId: string) => {
+    if (!courseId) return;
+
+    setIsUpdatingProgress(true);
+    try {
+      await setSubsectionCompleted(courseId, subsectionId, !isSubsectionCompleted(courseId, subsectionId));
+    } catch (error) {
+      console.error('Failed to update progress:', error);
+    } finally {
+      setIsUpdatingProgress(false);
+    }
+  };
+
+  const handleShowStudentProgress = async () => {
+    if (!courseId) return;
+    setShowStudentProgress(true);
+    await fetchStudentsProgress(courseId);
+  };
+
   const handleJoinCourse = async () => {
     if (!accessCodeInput.trim()) {
       setJoinError('Please enter an access code');
@@ -138,12 +234,12 @@ const CourseDetailsPage: React.FC = () => {
       await joinCourse(accessCodeInput.trim());
       setShowJoinModal(false);
       setAccessCodeInput('');
-      // Refresh course data to show updated enrollment
+      // Refresh course data to show updated enrollment, or the pending request
       if (courseId) {
         fetchCourseById(courseId);
       }
     } catch (error) {
-      setJoinError('Invalid access code. Please check with your instructor.');
+      setJoinError(getApiErrorMessage(error, 'Invalid access code. Please check with your instructor.'));
     } finally {
       setIsJoining(false);
     }
@@ -373,13 +469,33 @@ const CourseDetailsPage: React.FC = () => {
               </div>
             </div>
 
-            <Button
-              onClick={() => setShowJoinModal(true)}
-              size="lg"
-              icon={<BookOpen className="h-5 w-5" />}
-            >
-              Join This Course
-            </Button>
+            {enrollmentRequest?.status === 'pending' ? (
+              <div className="bg-primary-50 border border-primary-200 rounded-md p-4 text-primary-800">
+                <div className="flex items-center justify-center font-medium">
+                  <Clock className="h-5 w-5 mr-2" />
+                  Your request to join is pending approval
+                </div>
+                <p className="text-sm text-primary-700 mt-1">
+                  Requested {formatDate(enrollmentRequest.requestedAt)}. The course opens once your instructor approves it.
+                </p>
+              </div>
+            ) : (
+              <>
+                {enrollmentRequest?.status === 'rejected' && (
+                  <div className="bg-error-50 border border-error-200 rounded-md p-4 mb-4 text-error-700 text-sm">
+                    Your instructor declined your request to join
+                    {enrollmentRequest.message ? `: ${enrollmentRequest.message}` : '.'} You can ask again.
+                  </div>
+                )}
+                <Button
+                  onClick={() => setShowJoinModal(true)}
+                  size="lg"
+                  icon={<BookOpen className="h-5 w-5" />}
+                >
+                  {enrollmentRequest?.status === 'rejected' ? 'Request to Join Again' : 'Join This Course'}
+                </Button>
+              </>
+            )}
           </CardContent>
         </Card>
 
@@ -390,6 +506,7 @@ const CourseDetailsPage: React.FC = () => {
               <h3 className="text-lg font-semibold mb-4">Join Course</h3>
               <p className="text-gray-600 mb-4">
                 Enter the access code provided by your instructor to join "{currentCourse.title}".
+                {currentCourse.settings?.requireApproval && ' Your instructor approves requests to join this course.'}
               </p>
               
               <div className="space-y-4">
@@ -466,6 +583,15 @@ const CourseDetailsPage: React.FC = () => {
             >
               Manage Quizzes
             </Button>
+            <Button
+              variant="outline"
+              onClick={handleShowStudentProgress}
+              icon={<TrendingUp className="h-5 w-5" />}
+              disabled={!isOwner && user?.role !== 'admin'}
+              title="Student Progress"
+            >
+              Student Progress
+            </Button>
           </div>
         )}
       </div>
@@ -489,6 +615,13 @@ const CourseDetailsPage: React.FC = () => {
         </div>
       )}
 
+      {canReviewEnrollment && courseId && (
+        <EnrollmentRequestsPanel
+          courseId={courseId}
+          requireApproval={Boolean(currentCourse.settings?.requireApproval)}
+        />
+      )}
+
       {/* Course Info Header */}
       <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
         <div className="flex items-start space-x-6">
@@ -528,6 +661,27 @@ const CourseDetailsPage: React.FC = () => {
                 </span>
               </div>
             </div>
+
+            {/* Student progress */}
+            {tracksProgress && progress && (
+              <div className="mt-4">
+                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                  <span className="flex items-center">
+                    {progress.isCompleted && <CheckCircle className="h-4 w-4 mr-1 text-success-600" />}
+                    {progress.isCompleted ? 'Course completed' : 'Your progress'}
+                  </span>
+                  <span>
+                    {progress.percentComplete}% complete ({progress.completedSubsections}/{progress.totalSubsections})
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-success-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${progress.percentComplete}%` }}
+                  />
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -565,6 +719,34 @@ const CourseDetailsPage: React.FC = () => {
                 Quizzes
               </div>
             </button>
+            {canDiscuss && (
+              <button
+                onClick={() => setActiveTab('discussion')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'discussion'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <div className="flex items-center">
+                  <MessageSquare className="h-5 w-5 mr-2" />
+                  Discussion
+                </div>
+              </button>
+            )}
+            <button
+              onClick={() => setActiveTab('reviews')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'reviews'
+                  ? 'border-primary-500 text-primary-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <div className="flex items-center">
+                <Star className="h-5 w-5 mr-2" />
+                Reviews
+              </div>
+            </button>
           </nav>
         </div>
 
@@ -671,6 +853,13 @@ const CourseDetailsPage: React.FC = () => {
                                     }`}
                                   >
                                     <div className="flex items-center">
+                                      {tracksProgress && (
+                                        isSubsectionCompleted(courseId!, subsection.id) ? (
+                                          <CheckCircle className="h-4 w-4 mr-2 text-success-600 flex-shrink-0" />
+                                        ) : (
+                                          <Circle className="h-4 w-4 mr-2 text-gray-300 flex-shrink-0" />
+                                        )
+                                      )}
                                       {subsection.contentType === 'video' && <Play className="h-4 w-4 mr-2" />}
                                       {subsection.contentType === 'file' && <FileText className="h-4 w-4 mr-2" />}
                                       {subsection.contentType === 'text' && <Type className="h-4 w-4 mr-2" />}
@@ -734,177 +923,206 @@ const CourseDetailsPage: React.FC = () => {
               {/* Main Content Area */}
               <div className="lg:col-span-2">
                 {selectedSubsection ? (
-                  <Card>
-                    <CardHeader>
-                      <div className="flex items-center justify-between">
-                        <h3 className="text-xl font-semibold">{selectedSubsection.title}</h3>
-                        <div className="flex items-center space-x-2">
-                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                            selectedSubsection.contentType === 'video' ? 'bg-purple-100 text-purple-800' :
-                            selectedSubsection.contentType === 'file' ? 'bg-blue-100 text-blue-800' :
-                            selectedSubsection.contentType === 'quiz' ? 'bg-yellow-100 text-yellow-800' :
-                            selectedSubsection.contentType === 'embed' ? 'bg-green-100 text-green-800' :
-                            selectedSubsection.contentType === 'link' ? 'bg-indigo-100 text-indigo-800' :
-                            'bg-gray-100 text-gray-800'
-                          }`}>
-                            {selectedSubsection.contentType}
-                          </span>
-                          {selectedSubsection.fileUrl && (
-                            <Button
-                              as="a"
-                              href={selectedSubsection.fileUrl}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              variant="ghost"
-                              size="sm"
-                              icon={<ExternalLink className="h-4 w-4" />}
-                              title="Open in new tab"
-                            />
-                          )}
+                  <>
+                    <Card>
+                      <CardHeader>
+                        <div className="flex items-center justify-between">
+                          <h3 className="text-xl font-semibold">{selectedSubsection.title}</h3>
+                          <div className="flex items-center space-x-2">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                              selectedSubsection.contentType === 'video' ? 'bg-purple-100 text-purple-800' :
+                              selectedSubsection.contentType === 'file' ? 'bg-blue-100 text-blue-800' :
+                              selectedSubsection.contentType === 'quiz' ? 'bg-yellow-100 text-yellow-800' :
+                              selectedSubsection.contentType === 'embed' ? 'bg-green-100 text-green-800' :
+                              selectedSubsection.contentType === 'link' ? 'bg-indigo-100 text-indigo-800' :
+                              'bg-gray-100 text-gray-800'
+                            }`}>
+                              {selectedSubsection.contentType}
+                            </span>
+                            {tracksProgress && (
+                              <Button
+                                variant={isSubsectionCompleted(courseId!, selectedSubsection.id) ? 'outline' : 'primary'}
+                                size="sm"
+                                onClick={() => handleToggleSubsectionComplete(selectedSubsection.id)}
+                                isLoading={isUpdatingProgress}
+                                icon={isSubsectionCompleted(courseId!, selectedSubsection.id)
+                                  ? <CheckCircle className="h-4 w-4 text-success-600" />
+                                  : <Circle className="h-4 w-4" />}
+                              >
+                                {isSubsectionCompleted(courseId!, selectedSubsection.id) ? 'Completed' : 'Mark as complete'}
+                              </Button>
+                            )}
+                            {viewerFileUrl && canDownload && (
+                              <Button
+                                as="a"
+                                href={viewerFileUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                variant="ghost"
+                                size="sm"
+                                icon={<ExternalLink className="h-4 w-4" />}
+                                title="Open in new tab"
+                              />
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    </CardHeader>
+                      </CardHeader>
                     
-                    <CardContent>
-                      {/* Video Content */}
-                      {selectedSubsection.contentType === 'video' && selectedSubsection.videoUrl && (
-                        <div className="mb-6">
-                          <div className="relative rounded-lg overflow-hidden bg-black">
-                            <iframe
-                              src={selectedSubsection.videoUrl}
-                              className="w-full h-64 md:h-96"
-                              allowFullScreen
-                              title={selectedSubsection.title}
-                              allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                            />
+                      <CardContent>
+                        {/* Video Content */}
+                        {selectedSubsection.contentType === 'video' && selectedSubsection.videoUrl && (
+                          <div className="mb-6">
+                            <div className="relative rounded-lg overflow-hidden bg-black">
+                              <iframe
+                                src={selectedSubsection.videoUrl}
+                                className="w-full h-64 md:h-96"
+                                allowFullScreen
+                                title={selectedSubsection.title}
+                                allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                              />
+                            </div>
                           </div>
-                        </div>
-                      )}
+                        )}
                       
-                      {/* Enhanced File Content with PDF Viewer */}
-                      {selectedSubsection.contentType === 'file' && selectedSubsection.fileUrl && (
-                        <div className="mb-6">
-                          <PDFViewer 
-                            fileUrl={selectedSubsection.fileUrl}
-                            fileName={selectedSubsection.metadata?.fileName || selectedSubsection.title}
-                            height="600px"
-                            showControls={true}
-                            allowDownload={true}
-                            className="shadow-sm"
-                          />
-                        </div>
-                      )}
-
-                      {/* Embed Content */}
-                      {selectedSubsection.contentType === 'embed' && selectedSubsection.embedUrl && (
-                        <div className="mb-6">
-                          <div className="border border-gray-200 rounded-lg overflow-hidden">
-                            <iframe
-                              src={selectedSubsection.embedUrl}
-                              className="w-full h-96"
-                              title={selectedSubsection.title}
-                              allow="fullscreen"
-                            />
+                        {/* Enhanced File Content with PDF Viewer */}
+                        {selectedSubsection.contentType === 'file' && selectedSubsection.fileUrl && (
+                          <div className="mb-6">
+                            {viewerFileUrl ? (
+                              <PDFViewer 
+                                fileUrl={viewerFileUrl}
+                                fileName={selectedSubsection.metadata?.fileName || selectedSubsection.title}
+                                mimeType={lessonFile?.mimeType || selectedSubsection.metadata?.mimeType}
+                                height="600px"
+                                showControls={true}
+                                allowDownload={canDownload}
+                                className="shadow-sm"
+                              />
+                            ) : lessonFileError ? (
+                              <div className="bg-error-50 text-error-700 p-3 rounded-md flex items-center">
+                                <AlertCircle className="h-5 w-5 mr-2" />
+                                {lessonFileError}
+                              </div>
+                            ) : (
+                              <p className="text-sm text-gray-500">Loading file...</p>
+                            )}
                           </div>
-                        </div>
-                      )}
+                        )}
 
-                      {/* Link Content */}
-                      {selectedSubsection.contentType === 'link' && selectedSubsection.linkUrl && (
-                        <div className="mb-6">
-                          <div className="border border-gray-200 rounded-lg p-6 text-center">
-                            <ExternalLink className="h-12 w-12 text-primary-600 mx-auto mb-4" />
-                            <h4 className="text-lg font-medium text-gray-900 mb-2">External Resource</h4>
-                            <p className="text-gray-600 mb-4">Click the button below to access this resource</p>
-                            <Button
-                              as="a"
-                              href={selectedSubsection.linkUrl}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              variant="primary"
-                              icon={<ExternalLink className="h-4 w-4" />}
-                            >
-                              Open Resource
-                            </Button>
+                        {/* Embed Content */}
+                        {selectedSubsection.contentType === 'embed' && selectedSubsection.embedUrl && (
+                          <div className="mb-6">
+                            <div className="border border-gray-200 rounded-lg overflow-hidden">
+                              <iframe
+                                src={selectedSubsection.embedUrl}
+                                className="w-full h-96"
+                                title={selectedSubsection.title}
+                                allow="fullscreen"
+                              />
+                            </div>
                           </div>
-                        </div>
-                      )}
+                        )}
 
-                      {/* Quiz Content Display */}
-                      {selectedSubsection.contentType === 'quiz' && (
-                        <div className="mb-6">
-                          <div className="border border-blue-200 rounded-lg p-6 text-center bg-blue-50">
-                            <MessageCircle className="h-12 w-12 text-blue-600 mx-auto mb-4" />
-                            <h4 className="text-lg font-medium text-gray-900 mb-2">Interactive Quiz</h4>
-                            <p className="text-gray-600 mb-4">
-                              Test your knowledge with this interactive quiz
-                            </p>
-                            <div className="flex justify-center space-x-2">
+                        {/* Link Content */}
+                        {selectedSubsection.contentType === 'link' && selectedSubsection.linkUrl && (
+                          <div className="mb-6">
+                            <div className="border border-gray-200 rounded-lg p-6 text-center">
+                              <ExternalLink className="h-12 w-12 text-primary-600 mx-auto mb-4" />
+                              <h4 className="text-lg font-medium text-gray-900 mb-2">External Resource</h4>
+                              <p className="text-gray-600 mb-4">Click the button below to access this resource</p>
                               <Button
-                                as={Link}
-                                to={`/courses/${courseId}/quizzes`}
-                                variant="outline"
-                                icon={<MessageCircle className="h-4 w-4" />}
+                                as="a"
+                                href={selectedSubsection.linkUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                variant="primary"
+                                icon={<ExternalLink className="h-4 w-4" />}
                               >
-                                View All Quizzes
+                                Open Resource
                               </Button>
-                              {isOwner && (
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Quiz Content Display */}
+                        {selectedSubsection.contentType === 'quiz' && (
+                          <div className="mb-6">
+                            <div className="border border-blue-200 rounded-lg p-6 text-center bg-blue-50">
+                              <MessageCircle className="h-12 w-12 text-blue-600 mx-auto mb-4" />
+                              <h4 className="text-lg font-medium text-gray-900 mb-2">Interactive Quiz</h4>
+                              <p className="text-gray-600 mb-4">
+                                Test your knowledge with this interactive quiz
+                              </p>
+                              <div className="flex justify-center space-x-2">
                                 <Button
                                   as={Link}
                                   to={`/courses/${courseId}/quizzes`}
-                                  variant="primary"
-                                  icon={<Plus className="h-4 w-4" />}
+                                  variant="outline"
+                                  icon={<MessageCircle className="h-4 w-4" />}
                                 >
-                                  Create Quiz
+                                  View All Quizzes
                                 </Button>
-                              )}
+                                {isOwner && (
+                                  <Button
+                                    as={Link}
+                                    to={`/courses/${courseId}/quizzes`}
+                                    variant="primary"
+                                    icon={<Plus className="h-4 w-4" />}
+                                  >
+                                    Create Quiz
+                                  </Button>
+                                )}
+                              </div>
                             </div>
                           </div>
-                        </div>
-                      )}
+                        )}
                       
-                      {/* Text Content */}
-                      {selectedSubsection.content && (
-                        <div 
-                          className="prose prose-sm max-w-none"
-                          dangerouslySetInnerHTML={{ __html: selectedSubsection.content }}
-                        />
-                      )}
+                        {/* Text Content */}
+                        {selectedSubsection.content && (
+                          <div 
+                            className="prose prose-sm max-w-none"
+                            dangerouslySetInnerHTML={{ __html: selectedSubsection.content }}
+                          />
+                        )}
 
-                      {/* File Metadata */}
-                      {selectedSubsection.metadata && (
-                        <div className="mt-6 pt-6 border-t border-gray-200">
-                          <h4 className="text-sm font-medium text-gray-700 mb-3">File Information</h4>
-                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                            {selectedSubsection.metadata.fileName && (
-                              <div>
-                                <span className="text-gray-500">File Name:</span>
-                                <p className="font-medium truncate">{selectedSubsection.metadata.fileName}</p>
-                              </div>
-                            )}
-                            {selectedSubsection.metadata.fileSize && (
-                              <div>
-                                <span className="text-gray-500">Size:</span>
-                                <p className="font-medium">{formatFileSize(selectedSubsection.metadata.fileSize)}</p>
-                              </div>
-                            )}
-                            {selectedSubsection.metadata.mimeType && (
-                              <div>
-                                <span className="text-gray-500">Type:</span>
-                                <p className="font-medium">{selectedSubsection.metadata.mimeType}</p>
-                              </div>
-                            )}
-                            {selectedSubsection.metadata.duration && (
-                              <div>
-                                <span className="text-gray-500">Duration:</span>
-                                <p className="font-medium">{selectedSubsection.metadata.duration} min</p>
-                              </div>
-                            )}
+                        {/* File Metadata */}
+                        {selectedSubsection.metadata && (
+                          <div className="mt-6 pt-6 border-t border-gray-200">
+                            <h4 className="text-sm font-medium text-gray-700 mb-3">File Information</h4>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                              {selectedSubsection.metadata.fileName && (
+                                <div>
+                                  <span className="text-gray-500">File Name:</span>
+                                  <p className="font-medium truncate">{selectedSubsection.metadata.fileName}</p>
+                                </div>
+                              )}
+                              {selectedSubsection.metadata.fileSize && (
+                                <div>
+                                  <span className="text-gray-500">Size:</span>
+                                  <p className="font-medium">{formatFileSize(selectedSubsection.metadata.fileSize)}</p>
+                                </div>
+                              )}
+                              {selectedSubsection.metadata.mimeType && (
+                                <div>
+                                  <span className="text-gray-500">Type:</span>
+                                  <p className="font-medium">{selectedSubsection.metadata.mimeType}</p>
+                                </div>
+                              )}
+                              {selectedSubsection.metadata.duration && (
+                                <div>
+                                  <span className="text-gray-500">Duration:</span>
+                                  <p className="font-medium">{selectedSubsection.metadata.duration} min</p>
+                                </div>
+                              )}
+                            </div>
                           </div>
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
+                        )}
+                      </CardContent>
+                    </Card>
+
+                    {canDiscuss && (
+                      <CourseDiscussion courseId={courseId!} subsectionId={selectedSubsection.id} />
+                    )}
+                  </>
                 ) : (
                   <Card>
                     <CardContent className="text-center py-12">
@@ -934,6 +1152,11 @@ const CourseDetailsPage: React.FC = () => {
                 )}
               </div>
             </div>
+          ) : activeTab === 'discussion' ? (
+            /* Course-level discussion board */
+            <CourseDiscussion courseId={courseId!} subsectionId={null} />
+          ) : activeTab === 'reviews' ? (
+            <CourseReviews courseId={courseId!} canReply={isOwner || user?.role === 'admin'} />
           ) : (
             /* Quizzes Tab Content */
             <CourseQuizzesSection 
@@ -1191,6 +1414,61 @@ const CourseDetailsPage: React.FC = () => {
         </div>
       )}
 
+      {/* Student Progress Modal */}
+      {showStudentProgress && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-semibold flex items-center">
+                <TrendingUp className="h-5 w-5 mr-2" />
+                Student Progress
+              </h3>
+              <button
+                onClick={() => setShowStudentProgress(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            {studentsProgress.length === 0 ? (
+              <div className="text-center text-gray-500 py-8">
+                <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p>No students are enrolled in this course yet.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {studentsProgress.map(entry => (
+                  <div key={entry.student._id}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <div>
+                        <span className="font-medium text-gray-900">{entry.student.name}</span>
+                        <span className="text-gray-500 ml-2">{entry.student.email}</span>
+                      </div>
+                      <span className="flex items-center text-gray-600">
+                        {entry.isCompleted && <CheckCircle className="h-4 w-4 mr-1 text-success-600" />}
+                        {entry.percentComplete}%
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-success-600 h-2 rounded-full"
+                        style={{ width: `${entry.percentComplete}%` }}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {entry.lastViewedAt
+                        ? `Last active ${formatDate(entry.lastViewedAt)}`
+                        : 'Not started'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Course Settings Modal */}
       {showCourseSettings && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -1280,6 +1558,60 @@ const CourseDetailsPage: React.FC = () => {
                 </div>
               </div>
               
+              <label className="flex items-start">
+                <input
+                  type="checkbox"
+                  checked={courseForm.settings.allowComments}
+                  onChange={(e) => setCourseForm(prev => ({
+                    ...prev,
+                    settings: { ...prev.settings, allowComments: e.target.checked }
+                  }))}
+                  className="h-4 w-4 mt-0.5 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm text-gray-700">
+                  <span className="font-medium">Allow comments</span>
+                  <span className="block text-gray-500">
+                    Members can discuss each lesson and post on the course discussion board
+                  </span>
+                </span>
+              </label>
+
+              <label className="flex items-start">
+                <input
+                  type="checkbox"
+                  checked={courseForm.settings.allowDownloads}
+                  onChange={(e) => setCourseForm(prev => ({
+                    ...prev,
+                    settings: { ...prev.settings, allowDownloads: e.target.checked }
+                  }))}
+                  className="h-4 w-4 mt-0.5 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm text-gray-700">
+                  <span className="font-medium">Allow downloads</span>
+                  <span className="block text-gray-500">
+                    When off, students can view uploaded lesson files but not download them
+                  </span>
+                </span>
+              </label>
+
+              <label className="flex items-start">
+                <input
+                  type="checkbox"
+                  checked={courseForm.settings.requireApproval}
+                  onChange={(e) => setCourseForm(prev => ({
+                    ...prev,
+                    settings: { ...prev.settings, requireApproval: e.target.checked }
+                  }))}
+                  className="h-4 w-4 mt-0.5 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm text-gray-700">
+                  <span className="font-medium">Require approval to join</span>
+                  <span className="block text-gray-500">
+                    Students who enter the access code wait for you to approve them on the course page
+                  </span>
+                </span>
+              </label>
+              
               <div className="flex space-x-3 justify-between">
                 <Button 
                   type="button" 
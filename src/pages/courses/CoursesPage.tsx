@@ -1,13 +1,34 @@
 import React, { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Search, PlusCircle, BookmarkPlus, Edit, Trash, Eye, Users, Calendar, Filter, Grid, List, AlertCircle } from 'lucide-react';
+import { Search, PlusCircle, BookmarkPlus, Edit, Trash, Eye, Users, Calendar, Filter, Grid, List, AlertCircle, Star } from 'lucide-react';
 
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
 import { Card, CardContent } from '../../components/ui/Card';
 import { useAuthStore } from '../../stores/authStore';
 import { useCourseStore, Course } from '../../stores/courseStore';
-import { formatDate } from '../../lib/utils';
+import { formatDate, getApiErrorMessage } from '../../lib/utils';
+
+// Average star rating with its count, e.g. "4.5 (12)"
+const formatRating = (course: Course) =>
+  course.analytics?.totalRatings
+    ? `${course.analytics.averageRating.toFixed(1)} (${course.analytics.totalRatings})`
+    : 'No ratings';
+
+// A student's standing in a course, for the badge on its card
+const getEnrollmentBadge = (course: Course, isEnrolled: boolean, notEnrolledLabel: string) => {
+  if (isEnrolled) {
+    return { label: 'Enrolled', className: 'bg-success-100 text-success-700' };
+  }
+  switch (course.enrollmentRequest?.status) {
+    case 'pending':
+      return { label: 'Pending Approval', className: 'bg-primary-100 text-primary-700' };
+    case 'rejected':
+      return { label: 'Request Declined', className: 'bg-error-100 text-error-700' };
+    default:
+      return { label: notEnrolledLabel, className: 'bg-amber-100 text-amber-700' };
+  }
+};
 
 const CoursesPage: React.FC = () => {
   const navigate = useNavigate();
@@ -19,12 +40,14 @@ const CoursesPage: React.FC = () => {
   const [accessCode, setAccessCode] = useState('');
   const [isJoining, setIsJoining] = useState(false);
   const [joinError, setJoinError] = useState<string | null>(null);
+  const [joinNotice, setJoinNotice] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<{ id: string; title: string } | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   
   // Filter State
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [selectedDifficulty, setSelectedDifficulty] = useState('all');
+  const [sortBy, setSortBy] = useState<'newest' | 'rating'>('newest');
   const [showFilters, setShowFilters] = useState(false);
   
   const isFaculty = user?.role === 'faculty' || user?.role === 'admin';
@@ -41,9 +64,10 @@ const CoursesPage: React.FC = () => {
     fetchCourses({
       search: searchTerm || undefined,
       category: selectedCategory !== 'all' ? selectedCategory : undefined,
-      difficulty: selectedDifficulty !== 'all' ? selectedDifficulty : undefined
+      difficulty: selectedDifficulty !== 'all' ? selectedDifficulty : undefined,
+      sort: sortBy === 'rating' ? '-rating' : undefined
     });
-  }, [fetchCourses, searchTerm, selectedCategory, selectedDifficulty]);
+  }, [fetchCourses, searchTerm, selectedCategory, selectedDifficulty, sortBy]);
 
   // Debug logging to understand the data structure
   useEffect(() => {
@@ -138,14 +162,18 @@ const CoursesPage: React.FC = () => {
     
     setIsJoining(true);
     setJoinError(null);
+    setJoinNotice(null);
     
     try {
-      await joinCourse(accessCode.trim());
+      const result = await joinCourse(accessCode.trim());
       setAccessCode('');
+      if (result.pending) {
+        setJoinNotice(result.message);
+      }
       // Refresh the courses to show updated enrollment status
       fetchCourses();
     } catch (error) {
-      setJoinError('Invalid access code. Please check with your instructor.');
+      setJoinError(getApiErrorMessage(error, 'Invalid access code. Please check with your instructor.'));
     } finally {
       setIsJoining(false);
     }
@@ -175,6 +203,7 @@ const CoursesPage: React.FC = () => {
   const clearFilters = () => {
     setSelectedCategory('all');
     setSelectedDifficulty('all');
+    setSortBy('newest');
     setSearchTerm('');
   };
   
@@ -260,8 +289,12 @@ const CoursesPage: React.FC = () => {
                   Join Course
                 </Button>
               </form>
+              {joinNotice && (
+                <p className="text-sm text-success-700 mt-2">{joinNotice}</p>
+              )}
               <p className="text-xs text-gray-500 mt-2">
                 Get the access code from your instructor to join their course.
+                Some courses need the instructor to approve your request first.
               </p>
             </div>
           )}
@@ -285,7 +318,7 @@ const CoursesPage: React.FC = () => {
         {/* Filters Panel */}
         {showFilters && (
           <div className="mt-4 pt-4 border-t border-gray-200">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Category
@@ -317,6 +350,20 @@ const CoursesPage: React.FC = () => {
                   ))}
                 </select>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Sort By
+                </label>
+                <select
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as 'newest' | 'rating')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="newest">Recently Updated</option>
+                  <option value="rating">Highest Rated</option>
+                </select>
+              </div>
               
               <div className="flex items-end">
                 <Button
@@ -438,6 +485,9 @@ const CourseCard: React.FC<CourseCardProps> = ({
   viewMode 
 }) => {
   const isOwner = isFaculty && (course.createdBy.id === currentUserId || course.createdBy._id === currentUserId);
+  const isPending = !isEnrolled && course.enrollmentRequest?.status === 'pending';
+  const studentAction = isEnrolled ? 'View' : isPending ? 'Pending Approval' : 'Join Required';
+  const enrollmentBadge = getEnrollmentBadge(course, isEnrolled, viewMode === 'list' ? 'Not Enrolled' : 'Join Required');
 
   const handleMainAction = () => {
     if (isFaculty || isEnrolled) {
@@ -446,6 +496,8 @@ const CourseCard: React.FC<CourseCardProps> = ({
       } else {
         onView(course.id);
       }
+    } else if (isPending) {
+      alert('Your request to join this course is waiting for the instructor to approve it.');
     } else {
       // Student not enrolled - show info but don't navigate
       alert('Please join this course using the access code to view its content.');
@@ -479,12 +531,11 @@ const CourseCard: React.FC<CourseCardProps> = ({
                   <div className="flex items-center gap-2 mb-1">
                     <h3 className="font-semibold text-lg text-gray-900">{course.title}</h3>
                     {!isFaculty && (
-                      <span className={`text-xs px-2 py-1 rounded-full ${
-                        isEnrolled 
-                          ? 'bg-success-100 text-success-700' 
-                          : 'bg-amber-100 text-amber-700'
-                      }`}>
-                        {isEnrolled ? 'Enrolled' : 'Not Enrolled'}
+                      <span
+                        className={`text-xs px-2 py-1 rounded-full ${enrollmentBadge.className}`}
+                        title={course.enrollmentRequest?.message || undefined}
+                      >
+                        {enrollmentBadge.label}
                       </span>
                     )}
                   </div>
@@ -495,6 +546,10 @@ const CourseCard: React.FC<CourseCardProps> = ({
                       <Users className="h-4 w-4 mr-1" />
                       {course.enrolledStudentsCount} students
                     </div>
+                    <div className="flex items-center">
+                      <Star className="h-4 w-4 mr-1 text-warning-500 fill-current" />
+                      {formatRating(course)}
+                    </div>
                     <div className="flex items-center">
                       <Calendar className="h-4 w-4 mr-1" />
                       {formatDate(course.updatedAt)}
@@ -528,7 +583,7 @@ const CourseCard: React.FC<CourseCardProps> = ({
                     size="sm"
                     icon={<Eye className="h-4 w-4" />}
                   >
-                    {isFaculty ? 'Manage' : isEnrolled ? 'View' : 'Join Required'}
+                    {isFaculty ? 'Manage' : studentAction}
                   </Button>
                   
                   {isOwner && (
@@ -572,12 +627,11 @@ const CourseCard: React.FC<CourseCardProps> = ({
           <div className="flex items-start justify-between mb-2">
             <h3 className="font-semibold text-lg text-gray-900 line-clamp-2 flex-1">{course.title}</h3>
             {!isFaculty && (
-              <span className={`text-xs px-2 py-1 rounded-full ml-2 flex-shrink-0 ${
-                isEnrolled 
-                  ? 'bg-success-100 text-success-700' 
-                  : 'bg-amber-100 text-amber-700'
-              }`}>
-                {isEnrolled ? 'Enrolled' : 'Join Required'}
+              <span
+                className={`text-xs px-2 py-1 rounded-full ml-2 flex-shrink-0 ${enrollmentBadge.className}`}
+                title={course.enrollmentRequest?.message || undefined}
+              >
+                {enrollmentBadge.label}
               </span>
             )}
           </div>
@@ -591,6 +645,10 @@ const CourseCard: React.FC<CourseCardProps> = ({
               <Users className="h-4 w-4 mr-1" />
               <span>{course.enrolledStudentsCount} students</span>
             </div>
+            <div className="flex items-center">
+              <Star className="h-4 w-4 mr-1 text-warning-500 fill-current" />
+              <span>{formatRating(course)}</span>
+            </div>
             <div className="flex items-center">
               <Calendar className="h-4 w-4 mr-1" />
               <span>{formatDate(course.updatedAt)}</span>
@@ -632,7 +690,7 @@ const CourseCard: React.FC<CourseCardProps> = ({
               className="flex-1"
               icon={<Eye className="h-4 w-4" />}
             >
-              {isFaculty ? 'Manage' : isEnrolled ? 'View' : 'Join Required'}
+              {isFaculty ? 'Manage' : studentAction}
             </Button>
             
             {isOwner && (
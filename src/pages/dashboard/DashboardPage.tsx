@@ -5,18 +5,28 @@ import { PlusCircle, BookOpen, Users, Award, Calendar, Clock, TrendingUp, Shield
 import Button from '../../components/ui/Button';
 import { Card, CardContent } from '../../components/ui/Card';
 import { useAuthStore } from '../../stores/authStore';
-import { useCourseStore } from '../../stores/courseStore';
+import { useCourseStore, Course } from '../../stores/courseStore';
+import { useProgressStore } from '../../stores/progressStore';
 import { formatDate } from '../../lib/utils';
 
 const DashboardPage: React.FC = () => {
   const { user } = useAuthStore();
   const { courses, fetchCourses, isLoading } = useCourseStore();
+  const { courseProgress, fetchMyProgress } = useProgressStore();
   
+  const isFaculty = user?.role === 'faculty' || user?.role === 'admin';
+
   useEffect(() => {
     fetchCourses();
   }, [fetchCourses]);
+
+  // Students see their completion progress on enrolled course cards
+  useEffect(() => {
+    if (!isFaculty) {
+      fetchMyProgress();
+    }
+  }, [isFaculty, fetchMyProgress]);
   
-  const isFaculty = user?.role === 'faculty' || user?.role === 'admin';
   const isAdmin = user?.role === 'admin';
   
   // Helper function to check if user is owner of a course
@@ -42,6 +52,9 @@ const DashboardPage: React.FC = () => {
     });
   };
   
+  // Students waiting for an instructor to approve their request to join
+  const isPending = (course: Course) => !isEnrolled(course) && course.enrollmentRequest?.status === 'pending';
+  
   // Get courses based on user role - FIXED LOGIC
   const getDashboardCourses = () => {
     if (isAdmin) {
@@ -100,15 +113,17 @@ const DashboardPage: React.FC = () => {
         })
         .slice(0, 3);
     } else {
-      // For students, prioritize enrolled courses, then show other available courses
+      // For students, prioritize enrolled courses, then requests awaiting approval, then other available courses
       const enrolledCourses = courseData.enrolledCourses || [];
+      const pendingCourses = (courseData.displayCourses || []).filter(course => isPending(course));
       const availableCourses = (courseData.displayCourses || []).filter(course => 
-        !isEnrolled(course)
+        !isEnrolled(course) && !isPending(course)
       );
       
       const prioritizedCourses = [
         ...enrolledCourses.map(course => ({ ...course, priority: 1 })),
-        ...availableCourses.map(course => ({ ...course, priority: 2 }))
+        ...pendingCourses.map(course => ({ ...course, priority: 2 })),
+        ...availableCourses.map(course => ({ ...course, priority: 3 }))
       ];
       
       return prioritizedCourses
@@ -123,6 +138,7 @@ const DashboardPage: React.FC = () => {
   };
   
   const recentCourses = getRecentCourses();
+  const pendingCourses = isFaculty ? [] : courses.filter(course => isPending(course));
 
   // Calculate stats based on user role - FIXED CALCULATIONS
   const getStatsForRole = () => {
@@ -302,6 +318,24 @@ const DashboardPage: React.FC = () => {
         </Card>
       </div>
       
+      {/* Requests to join waiting for approval */}
+      {pendingCourses.length > 0 && (
+        <div className="bg-primary-50 border border-primary-200 rounded-md p-4 mb-8">
+          <div className="flex">
+            <Clock className="h-5 w-5 text-primary-600 mr-2 mt-0.5" />
+            <div>
+              <h3 className="text-sm font-medium text-primary-800">
+                {pendingCourses.length === 1 ? 'Enrollment pending approval' : `${pendingCourses.length} enrollments pending approval`}
+              </h3>
+              <p className="text-sm text-primary-700 mt-1">
+                Your instructor has to approve your request to join {pendingCourses.map(course => course.title).join(', ')}.
+                The course opens here once they do.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+      
       {/* Recent/Priority Courses */}
       <div className="mb-8">
         <div className="flex justify-between items-center mb-4">
@@ -323,6 +357,9 @@ const DashboardPage: React.FC = () => {
               const userIsOwner = isOwner(course);
               const userIsEnrolled = isEnrolled(course);
               const canAccessContent = isFaculty || userIsEnrolled;
+              const progress = !isFaculty && userIsEnrolled
+                ? courseProgress[course.id || course._id]
+                : undefined;
               
               return (
                 <Card 
@@ -357,11 +394,15 @@ const DashboardPage: React.FC = () => {
                             {isFaculty ? 'Access' : 'Enrolled'}
                           </span>
                         )}
-                        {!canAccessContent && (
+                        {!canAccessContent && (isPending(course) ? (
+                          <span className="text-xs px-2 py-1 rounded-full bg-primary-100 text-primary-700 font-medium">
+                            Pending Approval
+                          </span>
+                        ) : (
                           <span className="text-xs px-2 py-1 rounded-full bg-amber-100 text-amber-700 font-medium">
                             Join Required
                           </span>
-                        )}
+                        ))}
                       </div>
                     </div>
                     
@@ -391,6 +432,21 @@ const DashboardPage: React.FC = () => {
                       </div>
                     </div>
                     
+                    {progress && (
+                      <div className="mt-3">
+                        <div className="flex justify-between text-xs text-gray-500 mb-1">
+                          <span>{progress.isCompleted ? 'Completed' : 'Progress'}</span>
+                          <span>{progress.percentComplete}%</span>
+                        </div>
+                        <div className="w-full bg-gray-200 rounded-full h-1.5">
+                          <div
+                            className="bg-success-600 h-1.5 rounded-full"
+                            style={{ width: `${progress.percentComplete}%` }}
+                          />
+                        </div>
+                      </div>
+                    )}
+                    
                     {/* Show access code only to course owners */}
                     {userIsOwner && (
                       <div className="mt-3 pt-3 border-t border-gray-200">
@@ -0,0 +1,367 @@
+// src/pages/quizzes/QuestionBankPage.tsx
+import React, { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { ArrowLeft, AlertCircle, Edit, Library, PlusCircle, Save, Tag, Trash, X } from 'lucide-react';
+
+import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import { Card, CardContent } from '../../components/ui/Card';
+import QuestionEditor from '../../components/QuestionEditor';
+import {
+  QuestionFormData, emptyQuestion, toQuestionFormData, getQuestionFormError, toQuestionPayload
+} from '../../lib/questionForm';
+import { Difficulty, DIFFICULTY_LABELS, QUESTION_TYPE_LABELS } from '../../stores/quizStore';
+import { useQuestionBankStore, BankQuestion } from '../../stores/questionBankStore';
+import { useCourseStore } from '../../stores/courseStore';
+import { getApiErrorMessage } from '../../lib/utils';
+
+const DIFFICULTY_BADGE_CLASSES: Record<Difficulty, string> = {
+  easy: 'bg-success-100 text-success-800',
+  medium: 'bg-accent-100 text-accent-800',
+  hard: 'bg-error-100 text-error-800'
+};
+
+interface BankQuestionFormData {
+  question: QuestionFormData;
+  // Comma separated while editing
+  tags: string;
+  difficulty: Difficulty;
+}
+
+const emptyBankQuestionForm = (): BankQuestionFormData => ({
+  question: emptyQuestion(),
+  tags: '',
+  difficulty: 'medium'
+});
+
+const parseTags = (tags: string) =>
+  Array.from(new Set(tags.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+const QuestionBankPage: React.FC = () => {
+  const { courseId } = useParams<{ courseId: string }>();
+  const {
+    questions,
+    fetchQuestions,
+    createQuestion,
+    updateQuestion,
+    deleteQuestion,
+    getTags,
+    isLoading,
+    error,
+    clearError
+  } = useQuestionBankStore();
+  const { currentCourse, fetchCourseById } = useCourseStore();
+
+  const [tagFilter, setTagFilter] = useState('');
+  const [difficultyFilter, setDifficultyFilter] = useState<Difficulty | ''>('');
+  const [form, setForm] = useState<BankQuestionFormData | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState<BankQuestion | null>(null);
+
+  useEffect(() => {
+    if (courseId) {
+      clearError();
+      fetchCourseById(courseId);
+      fetchQuestions(courseId);
+    }
+  }, [courseId, fetchCourseById, fetchQuestions, clearError]);
+
+  const filteredQuestions = questions.filter(question =>
+    (!tagFilter || question.tags.includes(tagFilter)) &&
+    (!difficultyFilter || question.difficulty === difficultyFilter)
+  );
+
+  const openCreateForm = () => {
+    setForm(emptyBankQuestionForm());
+    setEditingId(null);
+    setFormError(null);
+  };
+
+  const openEditForm = (question: BankQuestion) => {
+    setForm({
+      question: toQuestionFormData(question),
+      tags: question.tags.join(', '),
+      difficulty: question.difficulty
+    });
+    setEditingId(question._id);
+    setFormError(null);
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setEditingId(null);
+    setFormError(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!courseId || !form) return;
+
+    const questionError = getQuestionFormError(form.question, 0);
+    if (questionError) {
+      setFormError(questionError.replace('Question 1', 'Question'));
+      return;
+    }
+
+    const data = {
+      ...toQuestionPayload(form.question),
+      tags: parseTags(form.tags),
+      difficulty: form.difficulty
+    };
+
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      if (editingId) {
+        await updateQuestion(editingId, data);
+      } else {
+        await createQuestion(courseId, data);
+      }
+      closeForm();
+    } catch (err) {
+      setFormError(getApiErrorMessage(err, 'Failed to save question'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteQuestion(id);
+      setShowDeleteConfirm(null);
+    } catch (err) {
+      console.error('Failed to delete question:', err);
+      // Error is already set in the store
+      setShowDeleteConfirm(null);
+    }
+  };
+
+  return (
+    <div className="animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Question Bank</h1>
+          <p className="text-gray-600 mt-1">
+            {currentCourse
+              ? `Reusable questions for ${currentCourse.title}, drawn into quizzes by tag and difficulty`
+              : 'Loading course...'}
+          </p>
+        </div>
+
+        <div className="mt-4 md:mt-0 flex space-x-2">
+          <Button
+            as={Link}
+            to={`/courses/${courseId}/quizzes`}
+            variant="outline"
+            icon={<ArrowLeft className="h-5 w-5" />}
+          >
+            Back to Quizzes
+          </Button>
+          <Button
+            onClick={openCreateForm}
+            icon={<PlusCircle className="h-5 w-5" />}
+          >
+            Add Question
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-error-50 text-error-700 p-3 rounded-md mb-4 flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row md:items-center gap-4 mb-6">
+        <select
+          value={tagFilter}
+          onChange={(e) => setTagFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+        >
+          <option value="">All tags</option>
+          {getTags().map(tag => (
+            <option key={tag} value={tag}>{tag}</option>
+          ))}
+        </select>
+        <select
+          value={difficultyFilter}
+          onChange={(e) => setDifficultyFilter(e.target.value as Difficulty | '')}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+        >
+          <option value="">All difficulties</option>
+          {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map(level => (
+            <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+          ))}
+        </select>
+        <span className="text-sm text-gray-500">
+          {filteredQuestions.length} of {questions.length} questions
+        </span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
+        </div>
+      ) : filteredQuestions.length > 0 ? (
+        <div className="grid gap-4">
+          {filteredQuestions.map(question => (
+            <Card key={question._id}>
+              <CardContent className="p-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="font-medium text-gray-900">{question.text}</h3>
+                    <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                      <span className="text-gray-500">
+                        {QUESTION_TYPE_LABELS[question.type] || question.type} · {question.points ?? 1} pts
+                      </span>
+                      <span className={`px-2 py-0.5 rounded-full font-medium ${DIFFICULTY_BADGE_CLASSES[question.difficulty]}`}>
+                        {DIFFICULTY_LABELS[question.difficulty]}
+                      </span>
+                      {question.tags.map(tag => (
+                        <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                          <Tag className="h-3 w-3 mr-1" />
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openEditForm(question)}
+                      icon={<Edit className="h-4 w-4" />}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setShowDeleteConfirm(question)}
+                      icon={<Trash className="h-4 w-4" />}
+                      className="text-error-600 hover:text-error-700"
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Library className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {questions.length > 0 ? 'No questions match these filters' : 'The question bank is empty'}
+            </h3>
+            <p className="text-gray-600">
+              Add questions once, tag them by topic and difficulty, then let quizzes draw from them.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {showDeleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full">
+            <div className="flex items-center mb-4">
+              <AlertCircle className="h-6 w-6 text-error-500 mr-2" />
+              <h3 className="text-lg font-semibold">Confirm Deletion</h3>
+            </div>
+            <p className="text-gray-600 mb-6">
+              Delete "{showDeleteConfirm.text}" from the question bank? Quizzes will stop drawing it;
+              attempts that already received it keep their copy.
+            </p>
+            <div className="flex space-x-3 justify-end">
+              <Button variant="outline" onClick={() => setShowDeleteConfirm(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="danger"
+                onClick={() => handleDelete(showDeleteConfirm._id)}
+                icon={<Trash className="h-4 w-4" />}
+              >
+                Delete Question
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Create/Edit Question Modal */}
+      {form && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-semibold">
+                {editingId ? 'Edit Bank Question' : 'Add Bank Question'}
+              </h2>
+              <button onClick={closeForm} className="text-gray-400 hover:text-gray-600">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            {formError && (
+              <div className="bg-error-50 text-error-700 p-3 rounded-md mb-4 flex items-center">
+                <AlertCircle className="h-5 w-5 mr-2" />
+                {formError}
+              </div>
+            )}
+
+            <form onSubmit={handleSave} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Input
+                  label="Tags"
+                  value={form.tags}
+                  onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                  helperText="Topics, separated by commas"
+                  fullWidth
+                  placeholder="algebra, fractions"
+                />
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Difficulty
+                  </label>
+                  <select
+                    value={form.difficulty}
+                    onChange={(e) => setForm({ ...form, difficulty: e.target.value as Difficulty })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map(level => (
+                      <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <QuestionEditor
+                question={form.question}
+                index={0}
+                title="Question"
+                onChange={(question) => setForm({ ...form, question })}
+              />
+
+              <div className="flex space-x-3 justify-end pt-4 border-t">
+                <Button type="button" variant="outline" onClick={closeForm}>
+                  Cancel
+                </Button>
+                <Button type="submit" isLoading={isSaving} icon={<Save className="h-4 w-4" />}>
+                  {editingId ? 'Update Question' : 'Add Question'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionBankPage;
@@ -0,0 +1,286 @@
+// src/pages/quizzes/QuizAttemptsPage.tsx
+import React, { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { ArrowLeft, AlertCircle, CheckCircle, Eye, FileText, RefreshCw, ShieldAlert, X } from 'lucide-react';
+
+import Button from '../../components/ui/Button';
+import { Card, CardContent, CardHeader } from '../../components/ui/Card';
+import QuizAttemptReviewModal from '../../components/QuizAttemptReviewModal';
+import {
+  useQuizStore, QuizAttempt, QuizRegradeReport, IntegrityEventType, IntegritySummary, INTEGRITY_EVENT_LABELS
+} from '../../stores/quizStore';
+import { formatDateTime } from '../../lib/utils';
+
+const describePassed = (passed: boolean | null | undefined) =>
+  passed === true ? 'Passed' : passed === false ? 'Not passed' : 'Awaiting grading';
+
+// The recorded event types of an attempt with their counts, e.g. "Left the tab ×3"
+const describeIntegrity = (integrity: IntegritySummary) =>
+  (Object.keys(integrity.counts) as IntegrityEventType[])
+    .filter(type => integrity.counts[type] > 0)
+    .map(type => `${INTEGRITY_EVENT_LABELS[type]} ×${integrity.counts[type]}`)
+    .join(', ');
+
+const QuizAttemptsPage: React.FC = () => {
+  const { courseId, quizId } = useParams<{ courseId: string; quizId: string }>();
+  const {
+    currentQuiz,
+    fetchQuizById,
+    quizAttempts,
+    fetchQuizAttempts,
+    regradeQuiz,
+    isLoading,
+    error,
+    clearError
+  } = useQuizStore();
+
+  const [regradeReport, setRegradeReport] = useState<QuizRegradeReport | null>(null);
+  const [regradeError, setRegradeError] = useState<string | null>(null);
+  const [isRegrading, setIsRegrading] = useState(false);
+  const [reviewAttemptId, setReviewAttemptId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (quizId) {
+      clearError();
+      fetchQuizById(quizId);
+      fetchQuizAttempts(quizId);
+    }
+  }, [quizId, fetchQuizById, fetchQuizAttempts, clearError]);
+
+  // A dry run first, so the score changes can be checked before they are saved
+  const handleRegrade = async (dryRun: boolean) => {
+    if (!quizId) return;
+
+    setIsRegrading(true);
+    setRegradeError(null);
+    try {
+      setRegradeReport(await regradeQuiz(quizId, dryRun));
+    } catch (err) {
+      setRegradeError((err as Error).message);
+    } finally {
+      setIsRegrading(false);
+    }
+  };
+
+  const handleCloseReview = () => {
+    setReviewAttemptId(null);
+    // Overrides change the scores shown in the list
+    if (quizId) fetchQuizAttempts(quizId);
+  };
+
+  const studentName = (attempt: QuizAttempt) =>
+    typeof attempt.student === 'object' ? attempt.student.name : 'Unknown student';
+
+  return (
+    <div className="animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Attempts</h1>
+          <p className="text-gray-600 mt-1">
+            {currentQuiz ? `Submitted attempts for ${currentQuiz.title}` : 'Loading quiz...'}
+          </p>
+        </div>
+
+        <div className="mt-4 md:mt-0 flex space-x-3">
+          <Button
+            variant="outline"
+            onClick={() => handleRegrade(true)}
+            isLoading={isRegrading && !regradeReport}
+            disabled={isRegrading || quizAttempts.length === 0}
+            icon={<RefreshCw className="h-5 w-5" />}
+            title="Re-score every attempt against the current answer key"
+          >
+            Regrade
+          </Button>
+          <Button
+            as={Link}
+            to={`/courses/${courseId}/quizzes`}
+            variant="outline"
+            icon={<ArrowLeft className="h-5 w-5" />}
+          >
+            Back to Quizzes
+          </Button>
+        </div>
+      </div>
+
+      {(error || regradeError) && (
+        <div className="bg-error-50 text-error-700 p-3 rounded-md mb-4 flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {regradeError || error}
+        </div>
+      )}
+
+      {regradeReport && (
+        <Card className="mb-6">
+          <CardHeader className="flex justify-between items-start">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">
+                {regradeReport.dryRun ? 'Regrade Preview' : 'Regrade Applied'}
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {regradeReport.attemptsChanged === 0
+                  ? `All ${regradeReport.attemptsChecked} attempts already match the current answer key.`
+                  : regradeReport.dryRun
+                  ? `${regradeReport.attemptsChanged} of ${regradeReport.attemptsChecked} attempts would change. Nothing is saved until you apply the regrade.`
+                  : `${regradeReport.attemptsChanged} of ${regradeReport.attemptsChecked} attempts were rescored.`}
+              </p>
+            </div>
+            <button onClick={() => setRegradeReport(null)} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </CardHeader>
+
+          {regradeReport.changes.length > 0 && (
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-4 font-medium">Student</th>
+                      <th className="py-2 pr-4 font-medium">Attempt</th>
+                      <th className="py-2 pr-4 font-medium">Score</th>
+                      <th className="py-2 pr-4 font-medium">Points</th>
+                      <th className="py-2 font-medium">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {regradeReport.changes.map(change => (
+                      <tr key={change.attemptId}>
+                        <td className="py-2 pr-4 text-gray-900">{change.student?.name || 'Unknown student'}</td>
+                        <td className="py-2 pr-4 text-gray-600">{change.attemptNumber}</td>
+                        <td className="py-2 pr-4">
+                          {change.overridden ? (
+                            <span className="text-gray-600">
+                              {change.previousScore}% (overridden; graded score becomes {change.gradedScore}%)
+                            </span>
+                          ) : (
+                            <span className={change.newScore > change.previousScore ? 'text-success-700' : 'text-error-700'}>
+                              {change.previousScore}% → {change.newScore}%
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-600">
+                          {change.previousPoints} → {change.newPoints} / {change.pointsPossible}
+                        </td>
+                        <td className="py-2 text-gray-600">
+                          {change.previousPassed === change.passed
+                            ? describePassed(change.passed)
+                            : `${describePassed(change.previousPassed)} → ${describePassed(change.passed)}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {regradeReport.dryRun && (
+                <div className="flex justify-end mt-4">
+                  <Button
+                    onClick={() => handleRegrade(false)}
+                    isLoading={isRegrading}
+                    icon={<CheckCircle className="h-4 w-4" />}
+                  >
+                    Apply Regrade
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
+        </div>
+      ) : quizAttempts.length > 0 ? (
+        <Card>
+          <CardContent className="p-0">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-3 px-4 font-medium">Student</th>
+                  <th className="py-3 px-4 font-medium">Attempt</th>
+                  <th className="py-3 px-4 font-medium">Submitted</th>
+                  <th className="py-3 px-4 font-medium">Score</th>
+                  <th className="py-3 px-4 font-medium">Result</th>
+                  <th className="py-3 px-4 font-medium">Integrity</th>
+                  <th className="py-3 px-4"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {quizAttempts.map(attempt => (
+                  <tr key={attempt._id}>
+                    <td className="py-3 px-4 text-gray-900">{studentName(attempt)}</td>
+                    <td className="py-3 px-4 text-gray-600">{attempt.attemptNumber}</td>
+                    <td className="py-3 px-4 text-gray-600">
+                      {attempt.completedAt ? formatDateTime(attempt.completedAt) : '–'}
+                      {attempt.isLate && ' (late)'}
+                    </td>
+                    <td className="py-3 px-4">
+                      {attempt.status === 'pending_review' ? (
+                        <span className="text-gray-500">–</span>
+                      ) : (
+                        <span className="font-medium text-gray-900">{attempt.score}%</span>
+                      )}
+                      {attempt.scoreOverride && (
+                        <span
+                          className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-accent-100 text-accent-800"
+                          title={attempt.scoreOverride.reason}
+                        >
+                          Overridden
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-gray-600">{describePassed(attempt.passed)}</td>
+                    <td className="py-3 px-4">
+                      {!attempt.integrity || attempt.integrity.total === 0 ? (
+                        <span className="text-gray-400">No events</span>
+                      ) : (
+                        <span
+                          className="inline-flex items-center text-accent-700"
+                          title={describeIntegrity(attempt.integrity)}
+                        >
+                          <ShieldAlert className="h-4 w-4 mr-1" />
+                          {attempt.integrity.total} event{attempt.integrity.total === 1 ? '' : 's'}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setReviewAttemptId(attempt._id)}
+                        icon={<Eye className="h-4 w-4" />}
+                      >
+                        Review
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="text-center py-12">
+            <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No attempts yet</h3>
+            <p className="text-gray-600">Submitted attempts will appear here.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {quizId && reviewAttemptId && (
+        <QuizAttemptReviewModal
+          quizId={quizId}
+          attemptId={reviewAttemptId}
+          onClose={handleCloseReview}
+        />
+      )}
+    </div>
+  );
+};
+
+export default QuizAttemptsPage;
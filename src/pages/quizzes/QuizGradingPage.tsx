@@ -0,0 +1,212 @@
+// src/pages/quizzes/QuizGradingPage.tsx
+import React, { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { ArrowLeft, AlertCircle, CheckCircle, ClipboardCheck, Save } from 'lucide-react';
+
+import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import { Card, CardContent, CardHeader } from '../../components/ui/Card';
+import { useQuizStore, GradingQueueItem } from '../../stores/quizStore';
+
+interface GradeFormData {
+  points: string;
+  feedback: string;
+}
+
+const itemKey = (item: GradingQueueItem) => `${item.attemptId}:${item.questionId}`;
+
+const QuizGradingPage: React.FC = () => {
+  const { courseId, quizId } = useParams<{ courseId: string; quizId: string }>();
+  const {
+    currentQuiz,
+    fetchQuizById,
+    gradingQueue,
+    fetchGradingQueue,
+    gradeResponse,
+    isLoading,
+    error,
+    clearError
+  } = useQuizStore();
+
+  const [grades, setGrades] = useState<Record<string, GradeFormData>>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [gradeError, setGradeError] = useState<{ key: string; message: string } | null>(null);
+  const [gradedCount, setGradedCount] = useState(0);
+
+  useEffect(() => {
+    if (quizId) {
+      clearError();
+      fetchQuizById(quizId);
+      fetchGradingQueue(quizId);
+    }
+  }, [quizId, fetchQuizById, fetchGradingQueue, clearError]);
+
+  const getGrade = (item: GradingQueueItem): GradeFormData =>
+    grades[itemKey(item)] || { points: '', feedback: '' };
+
+  const updateGrade = (item: GradingQueueItem, changes: Partial<GradeFormData>) => {
+    setGrades(prev => ({ ...prev, [itemKey(item)]: { ...getGrade(item), ...changes } }));
+  };
+
+  const handleSaveGrade = async (item: GradingQueueItem) => {
+    if (!quizId) return;
+
+    const key = itemKey(item);
+    const grade = getGrade(item);
+    const points = Number(grade.points);
+
+    if (grade.points.trim() === '' || !(points >= 0) || points > item.points) {
+      setGradeError({ key, message: `Points must be between 0 and ${item.points}` });
+      return;
+    }
+
+    setSavingKey(key);
+    setGradeError(null);
+    try {
+      await gradeResponse(quizId, item, { points, feedback: grade.feedback });
+      setGradedCount(count => count + 1);
+    } catch (err) {
+      setGradeError({ key, message: (err as Error).message || 'Failed to save grade' });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <div className="animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Grading Queue</h1>
+          <p className="text-gray-600 mt-1">
+            {currentQuiz ? `Essay responses awaiting grading for ${currentQuiz.title}` : 'Loading quiz...'}
+          </p>
+        </div>
+
+        <div className="mt-4 md:mt-0">
+          <Button
+            as={Link}
+            to={`/courses/${courseId}/quizzes`}
+            variant="outline"
+            icon={<ArrowLeft className="h-5 w-5" />}
+          >
+            Back to Quizzes
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-error-50 text-error-700 p-3 rounded-md mb-4 flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {gradedCount > 0 && (
+        <div className="bg-success-50 text-success-700 p-3 rounded-md mb-4 flex items-center">
+          <CheckCircle className="h-5 w-5 mr-2" />
+          {gradedCount} {gradedCount === 1 ? 'response' : 'responses'} graded
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
+        </div>
+      ) : gradingQueue.length > 0 ? (
+        <div className="grid gap-6">
+          {gradingQueue.map(item => {
+            const key = itemKey(item);
+            const grade = getGrade(item);
+
+            return (
+              <Card key={key}>
+                <CardHeader className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{item.questionText}</h3>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {item.student?.name || 'Unknown student'}
+                      {item.student?.email ? ` (${item.student.email})` : ''}
+                      {' · '}Attempt {item.attemptNumber}
+                      {item.completedAt ? ` · Submitted ${new Date(item.completedAt).toLocaleString()}` : ''}
+                    </p>
+                  </div>
+                  <span className="text-sm font-medium text-gray-600 whitespace-nowrap">
+                    {item.points} pts
+                  </span>
+                </CardHeader>
+
+                <CardContent>
+                  <div className="space-y-4">
+                    {item.rubric && (
+                      <div className="bg-gray-50 border border-gray-200 rounded-md p-3 text-sm text-gray-700">
+                        <span className="font-medium">Rubric: </span>
+                        <span className="whitespace-pre-wrap">{item.rubric}</span>
+                      </div>
+                    )}
+
+                    <div className="border border-gray-200 rounded-md p-4 text-gray-900 whitespace-pre-wrap">
+                      {item.textAnswer}
+                    </div>
+
+                    {gradeError?.key === key && (
+                      <div className="bg-error-50 text-error-700 p-3 rounded-md flex items-center">
+                        <AlertCircle className="h-5 w-5 mr-2" />
+                        {gradeError.message}
+                      </div>
+                    )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                      <Input
+                        label={`Points (out of ${item.points})`}
+                        type="number"
+                        step="any"
+                        min="0"
+                        max={item.points}
+                        value={grade.points}
+                        onChange={(e) => updateGrade(item, { points: e.target.value })}
+                        fullWidth
+                      />
+                      <div className="md:col-span-3">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Feedback
+                        </label>
+                        <textarea
+                          value={grade.feedback}
+                          onChange={(e) => updateGrade(item, { feedback: e.target.value })}
+                          rows={3}
+                          placeholder="Comments shown to the student"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="flex justify-end">
+                      <Button
+                        onClick={() => handleSaveGrade(item)}
+                        isLoading={savingKey === key}
+                        disabled={savingKey !== null}
+                        icon={<Save className="h-4 w-4" />}
+                      >
+                        Save Grade
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="text-center py-12">
+            <ClipboardCheck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing to grade</h3>
+            <p className="text-gray-600">All essay responses for this quiz have been graded.</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default QuizGradingPage;
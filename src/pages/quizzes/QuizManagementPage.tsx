@@ -4,33 +4,167 @@ import { useParams, Link } from 'react-router-dom';
 import { 
   PlusCircle, Edit, Trash, MessageCircle, Clock, Users, 
   CheckCircle, XCircle, AlertCircle, Save, X, Plus, 
-  ArrowLeft, BarChart3, Eye, TrendingUp
+  ArrowLeft, BarChart3, Eye, TrendingUp, Award, ClipboardCheck, Library, CalendarClock, UserCheck,
+  Upload, Download, FileSpreadsheet
 } from 'lucide-react';
 
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
 import { Card, CardContent, CardHeader } from '../../components/ui/Card';
+import QuizAccommodationsModal from '../../components/QuizAccommodationsModal';
+import QuizImportModal from '../../components/QuizImportModal';
+import QuizSpreadsheetModal from '../../components/QuizSpreadsheetModal';
+import QuestionEditor from '../../components/QuestionEditor';
+import {
+  QuestionFormData, emptyQuestion, toQuestionFormData, getQuestionFormError, toQuestionPayload
+} from '../../lib/questionForm';
 import { useAuthStore } from '../../stores/authStore';
-import { useQuizStore } from '../../stores/quizStore';
+import {
+  useQuizStore, GradingPolicy, QuestionRule, Difficulty, DIFFICULTY_LABELS, QUESTION_TYPE_LABELS,
+  QuizFileFormat, QUIZ_FILE_FORMAT_LABELS, QuizQuestion, ScoreFeedbackBand
+} from '../../stores/quizStore';
+import { useQuestionBankStore } from '../../stores/questionBankStore';
 import { useCourseStore } from '../../stores/courseStore';
+import { formatDateTime, formatDuration, toDateTimeLocalValue } from '../../lib/utils';
 
 interface QuizFormData {
   title: string;
   timeLimit: number;
   questions: QuestionFormData[];
+  questionRules: QuestionRuleFormData[];
+  availability: QuizAvailabilityFormData;
+  results: QuizResultsFormData;
+  settings: QuizSettingsFormData;
 }
 
-interface QuestionFormData {
-  text: string;
-  type: 'single' | 'multiple';
-  options: OptionFormData[];
+// Dates are datetime-local input values; a blank date leaves that end of the window open
+interface QuizAvailabilityFormData {
+  availableFrom: string;
+  availableUntil: string;
+  allowLate: boolean;
+  lateUntil: string;
+  latePenalty: number;
 }
 
-interface OptionFormData {
-  text: string;
-  isCorrect: boolean;
+const defaultQuizAvailability: QuizAvailabilityFormData = {
+  availableFrom: '',
+  availableUntil: '',
+  allowLate: false,
+  lateUntil: '',
+  latePenalty: 0
+};
+
+const getAvailabilityFormError = (availability: QuizAvailabilityFormData): string | null => {
+  const { availableFrom, availableUntil, allowLate, lateUntil } = availability;
+
+  if (availableFrom && availableUntil && new Date(availableUntil) <= new Date(availableFrom)) {
+    return 'The quiz must close after it opens';
+  }
+  if (allowLate && !availableUntil) {
+    return 'Set a closing date to accept late submissions';
+  }
+  if (allowLate && lateUntil && new Date(lateUntil) <= new Date(availableUntil)) {
+    return 'Late submissions must end after the quiz closes';
+  }
+  return null;
+};
+
+const toDatePayload = (value: string) => value ? new Date(value).toISOString() : null;
+
+const toAvailabilityPayload = (availability: QuizAvailabilityFormData) => ({
+  availableFrom: toDatePayload(availability.availableFrom),
+  availableUntil: toDatePayload(availability.availableUntil),
+  lateSubmission: {
+    allowed: availability.allowLate,
+    until: availability.allowLate ? toDatePayload(availability.lateUntil) : null,
+    penalty: availability.allowLate ? availability.latePenalty : 0
+  }
+});
+
+// Pass mark and the messages shown with results, each from its minimum score up to the next band
+interface QuizResultsFormData {
+  passingScore: number;
+  scoreFeedback: ScoreFeedbackBand[];
+}
+
+const defaultQuizResults: QuizResultsFormData = {
+  passingScore: 60,
+  scoreFeedback: []
+};
+
+const getResultsFormError = (results: QuizResultsFormData): string | null => {
+  const minScores = results.scoreFeedback.map(band => band.minScore);
+  const emptyIndex = results.scoreFeedback.findIndex(band => !band.message.trim());
+
+  if (emptyIndex >= 0) {
+    return `Score feedback ${emptyIndex + 1} needs a message`;
+  }
+  if (new Set(minScores).size !== minScores.length) {
+    return 'Each score feedback message must start at a different score';
+  }
+  return null;
+};
+
+const toResultsPayload = (results: QuizResultsFormData) => ({
+  passingScore: results.passingScore,
+  scoreFeedback: [...results.scoreFeedback]
+    .sort((a, b) => a.minScore - b.minScore)
+    .map(band => ({ minScore: band.minScore, message: band.message.trim() }))
+});
+
+const clampPercentage = (value: string) => Math.min(100, Math.max(0, parseInt(value) || 0));
+
+// Draw `count` random question bank questions; a blank tag or difficulty matches any
+interface QuestionRuleFormData {
+  tag: string;
+  difficulty: Difficulty | '';
+  count: string;
+}
+
+const getQuestionRulesFormError = (rules: QuestionRuleFormData[]): string | null => {
+  const invalidIndex = rules.findIndex(rule => !Number.isInteger(Number(rule.count)) || Number(rule.count) < 1);
+  return invalidIndex >= 0 ? `Rule ${invalidIndex + 1} must draw at least 1 question` : null;
+};
+
+const toQuestionRulePayload = (rule: QuestionRuleFormData): QuestionRule => ({
+  ...(rule.tag.trim() ? { tag: rule.tag.trim().toLowerCase() } : {}),
+  ...(rule.difficulty ? { difficulty: rule.difficulty } : {}),
+  count: Number(rule.count)
+});
+
+interface QuizSettingsFormData {
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  allowRetake: boolean;
+  maxAttempts: number;
+  retakeCooldown: number;
+  gradingPolicy: GradingPolicy;
+  requireFullscreen: boolean;
+  accessPassword: string;
+  allowedNetworks: string; // one CIDR range per line
 }
 
+const defaultQuizSettings: QuizSettingsFormData = {
+  shuffleQuestions: false,
+  shuffleOptions: false,
+  allowRetake: false,
+  maxAttempts: 0,
+  retakeCooldown: 0,
+  gradingPolicy: 'highest',
+  requireFullscreen: false,
+  accessPassword: '',
+  allowedNetworks: ''
+};
+
+const toSettingsPayload = (settings: QuizSettingsFormData) => ({
+  ...settings,
+  accessPassword: settings.accessPassword.trim(),
+  allowedNetworks: settings.allowedNetworks.split(/[\n,]+/).map(range => range.trim()).filter(Boolean)
+});
+
+// Discrimination index below which a question is flagged for review in the statistics
+const LOW_DISCRIMINATION = 0.2;
+
 const QuizManagementPage: React.FC = () => {
   const { courseId } = useParams<{ courseId: string }>();
   const { user } = useAuthStore();
@@ -40,6 +174,7 @@ const QuizManagementPage: React.FC = () => {
     createQuiz, 
     updateQuiz, 
     deleteQuiz,
+    exportQuiz,
     fetchQuizStats,
     quizStats,
     isLoading, 
@@ -48,16 +183,28 @@ const QuizManagementPage: React.FC = () => {
     clearQuizStats
   } = useQuizStore();
   const { currentCourse, fetchCourseById } = useCourseStore();
+  const { questions: bankQuestions, fetchQuestions: fetchBankQuestions, getTags } = useQuestionBankStore();
+  const bankTags = getTags();
   
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingQuiz, setEditingQuiz] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<{ id: string; title: string } | null>(null);
   const [showStatsModal, setShowStatsModal] = useState<string | null>(null);
+  const [expandedQuestionStat, setExpandedQuestionStat] = useState<string | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showSpreadsheetModal, setShowSpreadsheetModal] = useState(false);
+  const [exportMenuQuiz, setExportMenuQuiz] = useState<string | null>(null);
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+  const [accommodationsQuiz, setAccommodationsQuiz] = useState<{ _id: string; title: string; timeLimit: number } | null>(null);
   
   const [quizForm, setQuizForm] = useState<QuizFormData>({
     title: '',
     timeLimit: 30,
-    questions: []
+    questions: [],
+    questionRules: [],
+    availability: { ...defaultQuizAvailability },
+    results: { ...defaultQuizResults },
+    settings: { ...defaultQuizSettings }
   });
 
   useEffect(() => {
@@ -74,6 +221,13 @@ const QuizManagementPage: React.FC = () => {
   const courseCreatedById = currentCourse?.createdBy?._id || currentCourse?.createdBy?.id;
   const isOwner = isFaculty && userId === courseCreatedById;
 
+  // The question bank backs the rule editor's tag suggestions and availability counts
+  useEffect(() => {
+    if (courseId && isOwner) {
+      fetchBankQuestions(courseId);
+    }
+  }, [courseId, isOwner, fetchBankQuestions]);
+
   const handleCreateQuiz = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!courseId) return;
@@ -85,46 +239,46 @@ const QuizManagementPage: React.FC = () => {
         return;
       }
       
-      if (!quizForm.questions || quizForm.questions.length === 0) {
+      if (quizForm.questions.length === 0 && quizForm.questionRules.length === 0) {
         alert('At least one question is required');
         return;
       }
+
+      const ruleError = getQuestionRulesFormError(quizForm.questionRules);
+      if (ruleError) {
+        alert(ruleError);
+        return;
+      }
+
+      const availabilityError = getAvailabilityFormError(quizForm.availability);
+      if (availabilityError) {
+        alert(availabilityError);
+        return;
+      }
+
+      const resultsError = getResultsFormError(quizForm.results);
+      if (resultsError) {
+        alert(resultsError);
+        return;
+      }
       
       // Validate all questions
       for (let i = 0; i < quizForm.questions.length; i++) {
-        const question = quizForm.questions[i];
-        if (!question.text.trim()) {
-          alert(`Question ${i + 1} text is required`);
+        const questionError = getQuestionFormError(quizForm.questions[i], i);
+        if (questionError) {
+          alert(questionError);
           return;
         }
-        
-        if (!question.options || question.options.length < 2) {
-          alert(`Question ${i + 1} must have at least 2 options`);
-          return;
-        }
-        
-        const correctOptions = question.options.filter(opt => opt.isCorrect);
-        if (correctOptions.length === 0) {
-          alert(`Question ${i + 1} must have at least one correct answer`);
-          return;
-        }
-        
-        if (question.type === 'single' && correctOptions.length > 1) {
-          alert(`Single choice question ${i + 1} can only have one correct answer`);
-          return;
-        }
-        
-        // Check if all options have text
-        for (let j = 0; j < question.options.length; j++) {
-          if (!question.options[j].text.trim()) {
-            alert(`Question ${i + 1}, option ${j + 1} text is required`);
-            return;
-          }
-        }
       }
 
+      const { availability, results, settings, ...quizData } = quizForm;
       await createQuiz(courseId, {
-        ...quizForm,
+        ...quizData,
+        ...toAvailabilityPayload(availability),
+        ...toResultsPayload(results),
+        settings: toSettingsPayload(settings),
+        questions: quizForm.questions.map(toQuestionPayload),
+        questionRules: quizForm.questionRules.map(toQuestionRulePayload),
         course: courseId
       });
       setShowCreateModal(false);
@@ -146,12 +300,46 @@ const QuizManagementPage: React.FC = () => {
         return;
       }
       
-      if (!quizForm.questions || quizForm.questions.length === 0) {
+      if (quizForm.questions.length === 0 && quizForm.questionRules.length === 0) {
         alert('At least one question is required');
         return;
       }
+
+      const ruleError = getQuestionRulesFormError(quizForm.questionRules);
+      if (ruleError) {
+        alert(ruleError);
+        return;
+      }
+
+      const availabilityError = getAvailabilityFormError(quizForm.availability);
+      if (availabilityError) {
+        alert(availabilityError);
+        return;
+      }
+
+      const resultsError = getResultsFormError(quizForm.results);
+      if (resultsError) {
+        alert(resultsError);
+        return;
+      }
+
+      for (let i = 0; i < quizForm.questions.length; i++) {
+        const questionError = getQuestionFormError(quizForm.questions[i], i);
+        if (questionError) {
+          alert(questionError);
+          return;
+        }
+      }
       
-      await updateQuiz(editingQuiz, quizForm);
+      const { availability, results, settings, ...quizData } = quizForm;
+      await updateQuiz(editingQuiz, {
+        ...quizData,
+        ...toAvailabilityPayload(availability),
+        ...toResultsPayload(results),
+        settings: toSettingsPayload(settings),
+        questions: quizForm.questions.map(toQuestionPayload),
+        questionRules: quizForm.questionRules.map(toQuestionRulePayload)
+      });
       setEditingQuiz(null);
       resetForm();
     } catch (error: any) {
@@ -170,6 +358,21 @@ const QuizManagementPage: React.FC = () => {
     }
   };
 
+  const handleExportQuiz = async (quizId: string, format: QuizFileFormat) => {
+    setExportMenuQuiz(null);
+    setExportMessage(null);
+    try {
+      const { skipped } = await exportQuiz(quizId, format);
+      if (skipped > 0) {
+        setExportMessage(
+          `${skipped} question${skipped === 1 ? ' has' : 's have'} no ${QUIZ_FILE_FORMAT_LABELS[format]} equivalent and ${skipped === 1 ? 'was' : 'were'} left out of the export`
+        );
+      }
+    } catch (error) {
+      setExportMessage((error as Error).message);
+    }
+  };
+
   const handleShowStats = async (quizId: string) => {
     setShowStatsModal(quizId);
     await fetchQuizStats(quizId);
@@ -177,98 +380,137 @@ const QuizManagementPage: React.FC = () => {
 
   const startEditingQuiz = (quiz: any) => {
     // Safely handle quiz data structure
-    const questions = (quiz.questions || []).map((q: any) => ({
-      text: q.text || '',
-      type: q.type || 'single',
-      options: (q.options || []).map((o: any) => ({
-        text: o.text || '',
-        isCorrect: Boolean(o.isCorrect)
-      }))
-    }));
+    const questions = (quiz.questions || []).map(toQuestionFormData);
 
     setQuizForm({
       title: quiz.title || '',
       timeLimit: quiz.timeLimit || 30,
-      questions: questions
+      questions: questions,
+      questionRules: (quiz.questionRules || []).map((rule: QuestionRule) => ({
+        tag: rule.tag || '',
+        difficulty: rule.difficulty || '',
+        count: String(rule.count)
+      })),
+      availability: {
+        availableFrom: toDateTimeLocalValue(quiz.availableFrom),
+        availableUntil: toDateTimeLocalValue(quiz.availableUntil),
+        allowLate: Boolean(quiz.lateSubmission?.allowed),
+        lateUntil: toDateTimeLocalValue(quiz.lateSubmission?.until),
+        latePenalty: quiz.lateSubmission?.penalty || 0
+      },
+      results: {
+        passingScore: quiz.passingScore ?? 60,
+        scoreFeedback: (quiz.scoreFeedback || []).map((band: ScoreFeedbackBand) => ({
+          minScore: band.minScore,
+          message: band.message
+        }))
+      },
+      settings: {
+        shuffleQuestions: Boolean(quiz.settings?.shuffleQuestions),
+        shuffleOptions: Boolean(quiz.settings?.shuffleOptions),
+        allowRetake: Boolean(quiz.settings?.allowRetake),
+        maxAttempts: quiz.settings?.maxAttempts || 0,
+        retakeCooldown: quiz.settings?.retakeCooldown || 0,
+        gradingPolicy: quiz.settings?.gradingPolicy || 'highest',
+        requireFullscreen: Boolean(quiz.settings?.requireFullscreen),
+        accessPassword: quiz.settings?.accessPassword || '',
+        allowedNetworks: (quiz.settings?.allowedNetworks || []).join('\n')
+      }
     });
     setEditingQuiz(quiz._id);
   };
 
+  // Open questions read from a spreadsheet in the create form, unsaved, for review
+  const startSpreadsheetDraft = (title: string, questions: QuizQuestion[]) => {
+    setQuizForm({
+      title,
+      timeLimit: 30,
+      questions: questions.map(toQuestionFormData),
+      questionRules: [],
+      availability: { ...defaultQuizAvailability },
+      results: { ...defaultQuizResults },
+      settings: { ...defaultQuizSettings }
+    });
+    setShowSpreadsheetModal(false);
+    setShowCreateModal(true);
+  };
+
   const resetForm = () => {
     setQuizForm({
       title: '',
       timeLimit: 30,
-      questions: []
+      questions: [],
+      questionRules: [],
+      availability: { ...defaultQuizAvailability },
+      results: { ...defaultQuizResults },
+      settings: { ...defaultQuizSettings }
     });
   };
 
   const addQuestion = () => {
     setQuizForm(prev => ({
       ...prev,
-      questions: [...prev.questions, {
-        text: '',
-        type: 'single',
-        options: [
-          { text: '', isCorrect: false },
-          { text: '', isCorrect: false },
-          { text: '', isCorrect: false },
-          { text: '', isCorrect: false }
-        ]
-      }]
+      questions: [...prev.questions, emptyQuestion()]
     }));
   };
 
-  const updateQuestion = (questionIndex: number, field: keyof QuestionFormData, value: any) => {
+  const updateQuestionRule = (ruleIndex: number, changes: Partial<QuestionRuleFormData>) => {
     setQuizForm(prev => ({
       ...prev,
-      questions: prev.questions.map((q, i) => 
-        i === questionIndex ? { ...q, [field]: value } : q
-      )
+      questionRules: prev.questionRules.map((rule, i) => i === ruleIndex ? { ...rule, ...changes } : rule)
     }));
   };
 
-  const updateOption = (questionIndex: number, optionIndex: number, field: keyof OptionFormData, value: any) => {
+  // How many bank questions a rule can draw from, matched the way the server matches them
+  const countBankQuestionsForRule = (rule: QuestionRuleFormData) => {
+    const tag = rule.tag.trim().toLowerCase();
+    return bankQuestions.filter(question =>
+      (!tag || question.tags.includes(tag)) &&
+      (!rule.difficulty || question.difficulty === rule.difficulty)
+    ).length;
+  };
+
+  const replaceQuestion = (questionIndex: number, question: QuestionFormData) => {
     setQuizForm(prev => ({
       ...prev,
-      questions: prev.questions.map((q, i) => 
-        i === questionIndex ? {
-          ...q,
-          options: q.options.map((o, j) => 
-            j === optionIndex ? { ...o, [field]: value } : o
-          )
-        } : q
-      )
+      questions: prev.questions.map((q, i) => i === questionIndex ? question : q)
     }));
   };
 
-  const removeQuestion = (questionIndex: number) => {
+  const updateAvailability = (changes: Partial<QuizAvailabilityFormData>) => {
     setQuizForm(prev => ({
       ...prev,
-      questions: prev.questions.filter((_, i) => i !== questionIndex)
+      availability: { ...prev.availability, ...changes }
+    }));
+  };
+
+  const updateResults = (changes: Partial<QuizResultsFormData>) => {
+    setQuizForm(prev => ({
+      ...prev,
+      results: { ...prev.results, ...changes }
     }));
   };
 
-  const addOption = (questionIndex: number) => {
+  // Change or, with null, remove one score feedback band
+  const updateScoreFeedback = (bandIndex: number, band: ScoreFeedbackBand | null) => {
+    updateResults({
+      scoreFeedback: band === null
+        ? quizForm.results.scoreFeedback.filter((_, i) => i !== bandIndex)
+        : quizForm.results.scoreFeedback.map((existing, i) => (i === bandIndex ? band : existing))
+    });
+  };
+
+  const updateSettings = (field: keyof QuizSettingsFormData, value: QuizSettingsFormData[keyof QuizSettingsFormData]) => {
     setQuizForm(prev => ({
       ...prev,
-      questions: prev.questions.map((q, i) => 
-        i === questionIndex ? {
-          ...q,
-          options: [...q.options, { text: '', isCorrect: false }]
-        } : q
-      )
+      settings: { ...prev.settings, [field]: value }
     }));
   };
 
-  const removeOption = (questionIndex: number, optionIndex: number) => {
+  const removeQuestion = (questionIndex: number) => {
     setQuizForm(prev => ({
       ...prev,
-      questions: prev.questions.map((q, i) => 
-        i === questionIndex ? {
-          ...q,
-          options: q.options.filter((_, j) => j !== optionIndex)
-        } : q
-      )
+      questions: prev.questions.filter((_, i) => i !== questionIndex)
     }));
   };
 
@@ -304,6 +546,34 @@ const QuizManagementPage: React.FC = () => {
           >
             Back to Course
           </Button>
+          {isOwner && (
+            <Button
+              as={Link}
+              to={`/courses/${courseId}/question-bank`}
+              variant="outline"
+              icon={<Library className="h-5 w-5" />}
+            >
+              Question Bank
+            </Button>
+          )}
+          {isOwner && (
+            <Button
+              variant="outline"
+              onClick={() => setShowImportModal(true)}
+              icon={<Upload className="h-5 w-5" />}
+            >
+              Import
+            </Button>
+          )}
+          {isOwner && (
+            <Button
+              variant="outline"
+              onClick={() => setShowSpreadsheetModal(true)}
+              icon={<FileSpreadsheet className="h-5 w-5" />}
+            >
+              From Spreadsheet
+            </Button>
+          )}
           {isOwner && (
             <Button
               onClick={() => setShowCreateModal(true)}
@@ -322,6 +592,18 @@ const QuizManagementPage: React.FC = () => {
         </div>
       )}
 
+      {exportMessage && (
+        <div className="bg-amber-50 text-amber-700 p-3 rounded-md mb-4 flex items-center justify-between">
+          <div className="flex items-center">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            {exportMessage}
+          </div>
+          <button onClick={() => setExportMessage(null)} className="text-amber-500 hover:text-amber-700">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
       {!isOwner && (
         <div className="bg-amber-50 border border-amber-200 rounded-md p-4 mb-6">
           <div className="flex">
@@ -351,12 +633,28 @@ const QuizManagementPage: React.FC = () => {
                   <div className="flex items-center space-x-4 mt-2 text-sm text-gray-500">
                     <div className="flex items-center">
                       <MessageCircle className="h-4 w-4 mr-1" />
-                      {quiz.questions?.length || 0} questions
+                      {quiz.questionCount ?? quiz.questions?.length ?? 0} questions
+                      {(quiz.questionRules || []).length > 0 && ' (drawn from the question bank)'}
                     </div>
                     <div className="flex items-center">
                       <Clock className="h-4 w-4 mr-1" />
                       {quiz.timeLimit} minutes
                     </div>
+                    <div className="flex items-center">
+                      <Award className="h-4 w-4 mr-1" />
+                      {quiz.settings?.allowRetake
+                        ? `${quiz.settings.maxAttempts ? quiz.settings.maxAttempts : 'Unlimited'} attempts (${quiz.settings.gradingPolicy || 'highest'} counts)`
+                        : 'Single attempt'}
+                    </div>
+                    {(quiz.availableFrom || quiz.availableUntil) && (
+                      <div className="flex items-center">
+                        <CalendarClock className="h-4 w-4 mr-1" />
+                        {quiz.availableFrom ? formatDateTime(quiz.availableFrom) : 'Now'}
+                        {' – '}
+                        {quiz.availableUntil ? formatDateTime(quiz.availableUntil) : 'no close date'}
+                        {quiz.lateSubmission?.allowed && ' (late allowed)'}
+                      </div>
+                    )}
                     <div className="text-xs text-gray-400">
                       Created {new Date(quiz.createdAt).toLocaleDateString()}
                     </div>
@@ -373,8 +671,63 @@ const QuizManagementPage: React.FC = () => {
                   >
                     Stats
                   </Button>
+                  <Button
+                    as={Link}
+                    to={`/courses/${courseId}/quizzes/${quiz._id}/attempts`}
+                    variant="ghost"
+                    size="sm"
+                    icon={<Users className="h-4 w-4" />}
+                    title="Review, regrade and override attempts"
+                  >
+                    Attempts
+                  </Button>
+                  {((quiz.questions || []).some(question => question.type === 'essay') || (quiz.questionRules?.length ?? 0) > 0) && (
+                    <Button
+                      as={Link}
+                      to={`/courses/${courseId}/quizzes/${quiz._id}/grading`}
+                      variant="ghost"
+                      size="sm"
+                      icon={<ClipboardCheck className="h-4 w-4" />}
+                      title="Grade essay responses"
+                    >
+                      Grade
+                    </Button>
+                  )}
                   {isOwner && (
                     <>
+                      <div className="relative">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExportMenuQuiz(exportMenuQuiz === quiz._id ? null : quiz._id)}
+                          icon={<Download className="h-4 w-4" />}
+                          title="Download for Moodle or another LMS"
+                        >
+                          Export
+                        </Button>
+                        {exportMenuQuiz === quiz._id && (
+                          <div className="absolute right-0 mt-1 w-40 bg-white border border-gray-200 rounded-md shadow-lg z-10">
+                            {(Object.keys(QUIZ_FILE_FORMAT_LABELS) as QuizFileFormat[]).map(format => (
+                              <button
+                                key={format}
+                                onClick={() => handleExportQuiz(quiz._id, format)}
+                                className="block w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                              >
+                                {QUIZ_FILE_FORMAT_LABELS[format]}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setAccommodationsQuiz(quiz)}
+                        icon={<UserCheck className="h-4 w-4" />}
+                        title="Extra time, windows and attempts for individual students"
+                      >
+                        Accommodations
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -404,6 +757,31 @@ const QuizManagementPage: React.FC = () => {
                       <h4 className="font-medium text-gray-900 mb-2">
                         Q{index + 1}: {question.text}
                       </h4>
+                      {question.type === 'short_answer' && (
+                        <div className="text-sm text-success-700">
+                          Accepted: {(question.acceptedAnswers || []).join(', ')}
+                        </div>
+                      )}
+                      {question.type === 'numeric' && (
+                        <div className="text-sm text-success-700">
+                          Answer: {question.numericAnswer}
+                          {question.tolerance ? ` ± ${question.tolerance}` : ''}
+                        </div>
+                      )}
+                      {question.type === 'essay' && (
+                        <div className="text-sm text-gray-600">
+                          {question.rubric ? `Rubric: ${question.rubric}` : 'Graded by hand'}
+                        </div>
+                      )}
+                      {question.type === 'matching' && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                          {(question.pairs || []).map((pair, pairIndex) => (
+                            <div key={pairIndex} className="p-2 rounded text-sm bg-gray-50 text-gray-700">
+                              {pair.prompt} → {pair.match}
+                            </div>
+                          ))}
+                        </div>
+                      )}
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
                         {(question.options || []).map((option, optionIndex) => (
                           <div 
@@ -414,7 +792,9 @@ const QuizManagementPage: React.FC = () => {
                                 : 'bg-gray-50 text-gray-700'
                             }`}
                           >
-                            {option.isCorrect ? (
+                            {question.type === 'ordering' ? (
+                              <span className="mr-2 text-gray-400">{optionIndex + 1}.</span>
+                            ) : option.isCorrect ? (
                               <CheckCircle className="h-4 w-4 mr-2 text-success-600" />
                             ) : (
                               <XCircle className="h-4 w-4 mr-2 text-gray-400" />
@@ -424,7 +804,7 @@ const QuizManagementPage: React.FC = () => {
                         ))}
                       </div>
                       <div className="mt-2 text-xs text-gray-500">
-                        Type: {question.type === 'single' ? 'Single Choice' : 'Multiple Choice'}
+                        Type: {QUESTION_TYPE_LABELS[question.type] || question.type}
                       </div>
                     </div>
                   ))}
@@ -465,7 +845,7 @@ const QuizManagementPage: React.FC = () => {
       {/* Quiz Statistics Modal */}
       {showStatsModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-lg p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+          <div className="bg-white rounded-lg p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto">
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-xl font-semibold flex items-center">
                 <BarChart3 className="h-5 w-5 mr-2" />
@@ -493,6 +873,9 @@ const QuizManagementPage: React.FC = () => {
                   <div className="bg-secondary-50 p-4 rounded-lg text-center">
                     <div className="text-2xl font-bold text-secondary-600">{quizStats.averageScore}%</div>
                     <div className="text-sm text-secondary-700">Average Score</div>
+                    <div className="text-xs text-secondary-600 mt-1">
+                      {quizStats.averagePoints} / {quizStats.totalPoints} points
+                    </div>
                   </div>
                   <div className="bg-success-50 p-4 rounded-lg text-center">
                     <div className="text-2xl font-bold text-success-600">{quizStats.highestScore}%</div>
@@ -501,6 +884,9 @@ const QuizManagementPage: React.FC = () => {
                   <div className="bg-accent-50 p-4 rounded-lg text-center">
                     <div className="text-2xl font-bold text-accent-600">{quizStats.passRate}%</div>
                     <div className="text-sm text-accent-700">Pass Rate</div>
+                    <div className="text-xs text-accent-600 mt-1">
+                      {quizStats.passedCount} passed at {quizStats.passingScore}% or more
+                    </div>
                   </div>
                 </div>
 
@@ -554,6 +940,122 @@ const QuizManagementPage: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Item analysis per question, including questions drawn from the question bank */}
+                {quizStats.questionStats?.length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-medium mb-1">By Question</h3>
+                    <p className="text-xs text-gray-500 mb-4">
+                      Discrimination compares the top and bottom 27% of attempts; below {LOW_DISCRIMINATION} the
+                      question barely separates strong from weak students and is worth reviewing. Click a question
+                      to see how often each answer was chosen.
+                    </p>
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500 border-b">
+                            <th className="py-2 pr-4 font-medium">Question</th>
+                            <th className="py-2 pr-4 font-medium">Attempts</th>
+                            <th className="py-2 pr-4 font-medium">Correct</th>
+                            <th className="py-2 pr-4 font-medium">Discrimination</th>
+                            <th className="py-2 pr-4 font-medium">Avg. Time</th>
+                            <th className="py-2 font-medium">Avg. Points</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {quizStats.questionStats.map(entry => (
+                            <React.Fragment key={entry.question}>
+                              <tr
+                                className="cursor-pointer hover:bg-gray-50"
+                                onClick={() => setExpandedQuestionStat(
+                                  expandedQuestionStat === entry.question ? null : entry.question
+                                )}
+                              >
+                                <td className="py-2 pr-4 text-gray-900">{entry.text}</td>
+                                <td className="py-2 pr-4 text-gray-600">{entry.timesServed}</td>
+                                <td className="py-2 pr-4 text-gray-600">{entry.correctRate}%</td>
+                                <td className="py-2 pr-4">
+                                  {entry.discrimination === null ? (
+                                    <span className="text-gray-400">–</span>
+                                  ) : (
+                                    <span
+                                      className={
+                                        entry.discrimination < 0
+                                          ? 'text-error-600 font-medium'
+                                          : entry.discrimination < LOW_DISCRIMINATION
+                                            ? 'text-amber-600 font-medium'
+                                            : 'text-gray-600'
+                                      }
+                                      title={entry.discrimination < LOW_DISCRIMINATION ? 'Worth reviewing' : undefined}
+                                    >
+                                      {entry.discrimination.toFixed(2)}
+                                    </span>
+                                  )}
+                                </td>
+                                <td className="py-2 pr-4 text-gray-600">
+                                  {entry.averageTime === null ? '–' : formatDuration(entry.averageTime)}
+                                </td>
+                                <td className="py-2 text-gray-600">{entry.averagePoints} / {entry.points}</td>
+                              </tr>
+                              {expandedQuestionStat === entry.question && (
+                                <tr>
+                                  <td colSpan={6} className="pb-4 pt-1">
+                                    <div className="bg-gray-50 rounded-md p-3 space-y-2">
+                                      {entry.options.map(option => (
+                                        <div key={option.option}>
+                                          <div className="flex items-center justify-between text-xs mb-1">
+                                            <span className={`flex items-center ${option.isCorrect ? 'text-success-700 font-medium' : 'text-gray-700'}`}>
+                                              {option.isCorrect && <CheckCircle className="h-3 w-3 mr-1" />}
+                                              {option.text}
+                                            </span>
+                                            <span className="text-gray-500">
+                                              {option.count} ({option.rate}%)
+                                              {!option.isCorrect && option.count === 0 && ' · never chosen'}
+                                            </span>
+                                          </div>
+                                          <div className="w-full bg-gray-200 rounded-full h-1.5">
+                                            <div
+                                              className={`${option.isCorrect ? 'bg-success-500' : 'bg-gray-400'} h-1.5 rounded-full`}
+                                              style={{ width: `${option.rate}%` }}
+                                            ></div>
+                                          </div>
+                                        </div>
+                                      ))}
+                                      {entry.responses.length > 0 && (
+                                        <div>
+                                          <div className="text-xs font-medium text-gray-700 mb-1">Most common answers</div>
+                                          {entry.responses.map(response => (
+                                            <div key={response.response} className="flex items-center justify-between text-xs">
+                                              <span className={`flex items-center ${response.isCorrect ? 'text-success-700' : 'text-gray-700'}`}>
+                                                {response.isCorrect
+                                                  ? <CheckCircle className="h-3 w-3 mr-1" />
+                                                  : <XCircle className="h-3 w-3 mr-1 text-error-500" />}
+                                                {response.response}
+                                              </span>
+                                              <span className="text-gray-500">{response.count}</span>
+                                            </div>
+                                          ))}
+                                        </div>
+                                      )}
+                                      {entry.options.length === 0 && entry.responses.length === 0 && (
+                                        <p className="text-xs text-gray-500">
+                                          Answer breakdowns are shown for choice, short answer and numeric questions.
+                                        </p>
+                                      )}
+                                      <p className="text-xs text-gray-500">
+                                        Left unanswered in {entry.timesSkipped} of {entry.timesServed} attempts
+                                      </p>
+                                    </div>
+                                  </td>
+                                </tr>
+                              )}
+                            </React.Fragment>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
                 {quizStats.totalAttempts === 0 && (
                   <div className="text-center text-gray-500 py-8">
                     <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -612,7 +1114,318 @@ const QuizManagementPage: React.FC = () => {
                   placeholder="30"
                 />
               </div>
+
+              {/* Availability Window */}
+              <div className="border border-gray-200 rounded-lg p-4">
+                <h3 className="text-sm font-medium text-gray-700 mb-3">Availability</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Input
+                    label="Opens"
+                    type="datetime-local"
+                    value={quizForm.availability.availableFrom}
+                    onChange={(e) => updateAvailability({ availableFrom: e.target.value })}
+                    helperText="Leave blank to open immediately"
+                    fullWidth
+                  />
+                  <Input
+                    label="Closes"
+                    type="datetime-local"
+                    value={quizForm.availability.availableUntil}
+                    onChange={(e) => updateAvailability({ availableUntil: e.target.value })}
+                    helperText="Leave blank to keep the quiz open"
+                    fullWidth
+                  />
+                </div>
+
+                <label className="flex items-center mt-4">
+                  <input
+                    type="checkbox"
+                    checked={quizForm.availability.allowLate}
+                    onChange={(e) => updateAvailability({ allowLate: e.target.checked })}
+                    disabled={!quizForm.availability.availableUntil}
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-2 text-sm font-medium text-gray-700">Accept late submissions after the quiz closes</span>
+                </label>
+
+                {quizForm.availability.allowLate && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                    <Input
+                      label="Late submissions until"
+                      type="datetime-local"
+                      value={quizForm.availability.lateUntil}
+                      onChange={(e) => updateAvailability({ lateUntil: e.target.value })}
+                      helperText="Leave blank to accept late submissions indefinitely"
+                      fullWidth
+                    />
+                    <Input
+                      label="Late penalty (%)"
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={quizForm.availability.latePenalty}
+                      onChange={(e) => updateAvailability({
+                        latePenalty: Math.min(100, Math.max(0, parseInt(e.target.value) || 0))
+                      })}
+                      helperText="Taken off the score of late attempts"
+                      fullWidth
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Result Settings */}
+              <div className="border border-gray-200 rounded-lg p-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Input
+                    label="Passing Score (%)"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={quizForm.results.passingScore}
+                    onChange={(e) => updateResults({ passingScore: clampPercentage(e.target.value) })}
+                    helperText="Attempts scoring at least this much pass"
+                    fullWidth
+                  />
+                </div>
+
+                <div className="flex items-center justify-between mt-4 mb-2">
+                  <h3 className="text-sm font-medium text-gray-700">Score Feedback</h3>
+                  <button
+                    type="button"
+                    onClick={() => updateResults({
+                      scoreFeedback: [...quizForm.results.scoreFeedback, { minScore: 0, message: '' }]
+                    })}
+                    className="text-primary-600 hover:text-primary-700 text-sm flex items-center"
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add Message
+                  </button>
+                </div>
+                {quizForm.results.scoreFeedback.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    Show students a message with their results depending on their score, e.g. "Below 50%: review section 2".
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {quizForm.results.scoreFeedback.map((band, bandIndex) => (
+                      <div key={bandIndex} className="flex items-center space-x-2">
+                        <span className="text-sm text-gray-600 whitespace-nowrap">From</span>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={band.minScore}
+                          onChange={(e) => updateScoreFeedback(bandIndex, { ...band, minScore: clampPercentage(e.target.value) })}
+                          className="w-20 px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        />
+                        <span className="text-sm text-gray-600">%</span>
+                        <input
+                          type="text"
+                          value={band.message}
+                          onChange={(e) => updateScoreFeedback(bandIndex, { ...band, message: e.target.value })}
+                          placeholder="Message for scores from here up to the next band"
+                          maxLength={1000}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => updateScoreFeedback(bandIndex, null)}
+                          className="text-error-600 hover:text-error-700"
+                          title="Remove message"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Shuffle Settings */}
+              <div className="border border-gray-200 rounded-lg p-4 space-y-2">
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={quizForm.settings.shuffleQuestions}
+                    onChange={(e) => updateSettings('shuffleQuestions', e.target.checked)}
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-2 text-sm font-medium text-gray-700">Shuffle question order for each attempt</span>
+                </label>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={quizForm.settings.shuffleOptions}
+                    onChange={(e) => updateSettings('shuffleOptions', e.target.checked)}
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-2 text-sm font-medium text-gray-700">Shuffle answer options of multiple choice questions</span>
+                </label>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={quizForm.settings.requireFullscreen}
+                    onChange={(e) => updateSettings('requireFullscreen', e.target.checked)}
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-2 text-sm font-medium text-gray-700">Require fullscreen while students take the quiz</span>
+                </label>
+              </div>
+
+              {/* Access Restrictions */}
+              <div className="border border-gray-200 rounded-lg p-4">
+                <h3 className="text-sm font-medium text-gray-700 mb-3">Access Restrictions</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Input
+                    label="Quiz Password"
+                    value={quizForm.settings.accessPassword}
+                    onChange={(e) => updateSettings('accessPassword', e.target.value)}
+                    maxLength={100}
+                    helperText="Announce it in the exam room. Students need it to start and submit. Leave blank for none."
+                    fullWidth
+                  />
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Allowed Networks
+                    </label>
+                    <textarea
+                      value={quizForm.settings.allowedNetworks}
+                      onChange={(e) => updateSettings('allowedNetworks', e.target.value)}
+                      rows={3}
+                      placeholder={'10.20.0.0/16\n192.168.5.0/24'}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    />
+                    <p className="mt-1 text-sm text-gray-500">
+                      One IP address or CIDR range per line, e.g. your lab subnets. Leave blank to allow any network.
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              {/* Retake Settings */}
+              <div className="border border-gray-200 rounded-lg p-4">
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={quizForm.settings.allowRetake}
+                    onChange={(e) => updateSettings('allowRetake', e.target.checked)}
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-2 text-sm font-medium text-gray-700">Allow students to retake this quiz</span>
+                </label>
+
+                {quizForm.settings.allowRetake && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                    <Input
+                      label="Max Attempts"
+                      type="number"
+                      min="0"
+                      value={quizForm.settings.maxAttempts}
+                      onChange={(e) => updateSettings('maxAttempts', Math.max(0, parseInt(e.target.value) || 0))}
+                      helperText="0 for unlimited attempts"
+                      fullWidth
+                    />
+                    <Input
+                      label="Cooldown (minutes)"
+                      type="number"
+                      min="0"
+                      value={quizForm.settings.retakeCooldown}
+                      onChange={(e) => updateSettings('retakeCooldown', Math.max(0, parseInt(e.target.value) || 0))}
+                      helperText="Wait time between attempts"
+                      fullWidth
+                    />
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Counted Score
+                      </label>
+                      <select
+                        value={quizForm.settings.gradingPolicy}
+                        onChange={(e) => updateSettings('gradingPolicy', e.target.value as GradingPolicy)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        <option value="highest">Highest attempt</option>
+                        <option value="latest">Latest attempt</option>
+                        <option value="average">Average of attempts</option>
+                      </select>
+                    </div>
+                  </div>
+                )}
+              </div>
               
+              {/* Question Bank Rules */}
+              <div className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-medium text-gray-700">Questions from the Question Bank</h3>
+                  <button
+                    type="button"
+                    onClick={() => setQuizForm(prev => ({
+                      ...prev,
+                      questionRules: [...prev.questionRules, { tag: '', difficulty: '', count: '1' }]
+                    }))}
+                    className="text-primary-600 hover:text-primary-700 text-sm flex items-center"
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add Rule
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mb-3">
+                  Each student gets their own random draw, added after the fixed questions below.
+                </p>
+                <datalist id="question-bank-tags">
+                  {bankTags.map(tag => (
+                    <option key={tag} value={tag} />
+                  ))}
+                </datalist>
+                <div className="space-y-2">
+                  {quizForm.questionRules.map((rule, ruleIndex) => (
+                    <div key={ruleIndex} className="flex flex-wrap items-center gap-2 bg-gray-50 p-3 rounded border">
+                      <span className="text-sm text-gray-700">Draw</span>
+                      <input
+                        type="number"
+                        min="1"
+                        value={rule.count}
+                        onChange={(e) => updateQuestionRule(ruleIndex, { count: e.target.value })}
+                        className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      />
+                      <select
+                        value={rule.difficulty}
+                        onChange={(e) => updateQuestionRule(ruleIndex, { difficulty: e.target.value as Difficulty | '' })}
+                        className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        <option value="">any difficulty</option>
+                        {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map(level => (
+                          <option key={level} value={level}>{DIFFICULTY_LABELS[level].toLowerCase()}</option>
+                        ))}
+                      </select>
+                      <span className="text-sm text-gray-700">questions tagged</span>
+                      <input
+                        type="text"
+                        list="question-bank-tags"
+                        value={rule.tag}
+                        onChange={(e) => updateQuestionRule(ruleIndex, { tag: e.target.value })}
+                        placeholder="any tag"
+                        className="flex-1 min-w-[8rem] px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      />
+                      <span className="text-xs text-gray-500">
+                        {countBankQuestionsForRule(rule)} available
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setQuizForm(prev => ({
+                          ...prev,
+                          questionRules: prev.questionRules.filter((_, i) => i !== ruleIndex)
+                        }))}
+                        className="text-error-600 hover:text-error-700"
+                        title="Remove rule"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               {/* Questions */}
               <div>
                 <div className="flex items-center justify-between mb-4">
@@ -636,133 +1449,13 @@ const QuizManagementPage: React.FC = () => {
                 ) : (
                   <div className="space-y-6">
                     {quizForm.questions.map((question, questionIndex) => (
-                      <div key={questionIndex} className="border border-gray-200 rounded-lg p-4 bg-gray-50">
-                        <div className="flex items-center justify-between mb-4">
-                          <h4 className="font-medium text-gray-900">Question {questionIndex + 1}</h4>
-                          <button
-                            type="button"
-                            onClick={() => removeQuestion(questionIndex)}
-                            className="text-error-600 hover:text-error-700"
-                            title="Remove question"
-                          >
-                            <Trash className="h-4 w-4" />
-                          </button>
-                        </div>
-                        
-                        <div className="space-y-4">
-                          <Input
-                            label="Question Text"
-                            value={question.text}
-                            onChange={(e) => updateQuestion(questionIndex, 'text', e.target.value)}
-                            required
-                            fullWidth
-                            placeholder="Enter your question"
-                          />
-                          
-                          <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">
-                              Question Type
-                            </label>
-                            <select
-                              value={question.type}
-                              onChange={(e) => {
-                                const newType = e.target.value as 'single' | 'multiple';
-                                updateQuestion(questionIndex, 'type', newType);
-                                
-                                // If changing to single choice, ensure only one option is correct
-                                if (newType === 'single') {
-                                  const correctIndex = question.options.findIndex(opt => opt.isCorrect);
-                                  const updatedOptions = question.options.map((opt, i) => ({
-                                    ...opt,
-                                    isCorrect: i === (correctIndex >= 0 ? correctIndex : 0)
-                                  }));
-                                  updateQuestion(questionIndex, 'options', updatedOptions);
-                                }
-                              }}
-                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-                            >
-                              <option value="single">Single Choice</option>
-                              <option value="multiple">Multiple Choice</option>
-                            </select>
-                            <p className="text-xs text-gray-500 mt-1">
-                              {question.type === 'single' 
-                                ? 'Students can select only one correct answer'
-                                : 'Students can select multiple correct answers'
-                              }
-                            </p>
-                          </div>
-                          
-                          {/* Options */}
-                          <div>
-                            <div className="flex items-center justify-between mb-2">
-                              <label className="text-sm font-medium text-gray-700">
-                                Answer Options (minimum 2)
-                              </label>
-                              <button
-                                type="button"
-                                onClick={() => addOption(questionIndex)}
-                                className="text-primary-600 hover:text-primary-700 text-sm flex items-center"
-                              >
-                                <Plus className="h-3 w-3 mr-1" />
-                                Add Option
-                              </button>
-                            </div>
-                            
-                            <div className="space-y-2">
-                              {question.options.map((option, optionIndex) => (
-                                <div key={optionIndex} className="flex items-center space-x-2 bg-white p-3 rounded border">
-                                  <input
-                                    type={question.type === 'single' ? 'radio' : 'checkbox'}
-                                    name={`question-${questionIndex}`}
-                                    checked={option.isCorrect}
-                                    onChange={(e) => {
-                                      if (question.type === 'single') {
-                                        // For single choice, uncheck all others
-                                        const updatedOptions = question.options.map((o, i) => ({
-                                          ...o,
-                                          isCorrect: i === optionIndex
-                                        }));
-                                        updateQuestion(questionIndex, 'options', updatedOptions);
-                                      } else {
-                                        updateOption(questionIndex, optionIndex, 'isCorrect', e.target.checked);
-                                      }
-                                    }}
-                                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
-                                  />
-                                  <input
-                                    type="text"
-                                    value={option.text}
-                                    onChange={(e) => updateOption(questionIndex, optionIndex, 'text', e.target.value)}
-                                    placeholder={`Option ${optionIndex + 1}`}
-                                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-                                    required
-                                  />
-                                  {question.options.length > 2 && (
-                                    <button
-                                      type="button"
-                                      onClick={() => removeOption(questionIndex, optionIndex)}
-                                      className="text-error-600 hover:text-error-700"
-                                      title="Remove option"
-                                    >
-                                      <X className="h-4 w-4" />
-                                    </button>
-                                  )}
-                                </div>
-                              ))}
-                            </div>
-                            
-                            <div className="mt-2 text-xs text-gray-500">
-                              <p>
-                                <strong>Tip:</strong> Check the {question.type === 'single' ? 'radio button' : 'checkbox'} next to correct answers.
-                                {question.type === 'single' 
-                                  ? ' Only one option can be correct for single choice questions.'
-                                  : ' Multiple options can be correct for multiple choice questions.'
-                                }
-                              </p>
-                            </div>
-                          </div>
-                        </div>
-                      </div>
+                      <QuestionEditor
+                        key={questionIndex}
+                        question={question}
+                        index={questionIndex}
+                        onChange={(updated) => replaceQuestion(questionIndex, updated)}
+                        onRemove={() => removeQuestion(questionIndex)}
+                      />
                     ))}
                   </div>
                 )}
@@ -793,6 +1486,32 @@ const QuizManagementPage: React.FC = () => {
         </div>
       )}
 
+      {/* Import Modal */}
+      {showImportModal && courseId && (
+        <QuizImportModal
+          courseId={courseId}
+          onClose={() => setShowImportModal(false)}
+        />
+      )}
+
+      {/* Spreadsheet Modal */}
+      {showSpreadsheetModal && courseId && (
+        <QuizSpreadsheetModal
+          courseId={courseId}
+          onClose={() => setShowSpreadsheetModal(false)}
+          onDraft={startSpreadsheetDraft}
+        />
+      )}
+
+      {/* Accommodations Modal */}
+      {accommodationsQuiz && courseId && (
+        <QuizAccommodationsModal
+          courseId={courseId}
+          quiz={accommodationsQuiz}
+          onClose={() => setAccommodationsQuiz(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -1,21 +1,78 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { 
   Clock, CheckCircle, XCircle, AlertCircle, ArrowLeft, 
-  FileText, Award, RefreshCw, Eye, Calendar
+  FileText, Award, RefreshCw, Eye, Calendar, History, ChevronUp, ChevronDown, Lock
 } from 'lucide-react';
 
 import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
 import { Card, CardContent, CardHeader } from '../../components/ui/Card';
 import { useAuthStore } from '../../stores/authStore';
-import { useQuizStore } from '../../stores/quizStore';
+import {
+  useQuizStore, getQuizAvailability, QuizAnswerData, QuizQuestion, QuizQuestionResult,
+  IntegrityEvent, IntegrityEventType
+} from '../../stores/quizStore';
 import { useCourseStore } from '../../stores/courseStore';
+import { formatDateTime, getApiErrorMessage } from '../../lib/utils';
 
-interface QuizAnswer {
-  question: string;
-  selectedOptions: string[];
+type QuizAnswer = QuizAnswerData;
+
+// Wait this long after the last change to a question before autosaving it
+const AUTOSAVE_DELAY_MS = 800;
+
+// Integrity events are collected for this long before being sent, so bursts go in one request
+const INTEGRITY_REPORT_DELAY_MS = 2000;
+
+// Most integrity events sent in one request, matching the server's limit
+const INTEGRITY_BATCH_SIZE = 50;
+
+interface PendingSave {
+  timer: ReturnType<typeof setTimeout>;
+  answer: QuizAnswer;
 }
 
+const isAnswered = (answer?: QuizAnswer) => Boolean(
+  answer && (
+    answer.selectedOptions.length > 0 ||
+    answer.textAnswer?.trim() ||
+    (answer.matches && answer.matches.length > 0)
+  )
+);
+
+// The questions served with an attempt, drawn from the question bank and/or shuffled for it,
+// or null when it uses the quiz's own in their usual order
+const getServedQuestions = (attempt?: { questions?: QuizQuestion[] } | null) =>
+  attempt?.questions && attempt.questions.length > 0 ? attempt.questions : null;
+
+// One answer per question, filled in from any answers already saved on the server
+const buildAnswerSheet = (questions: QuizQuestion[], savedAnswers: QuizAnswer[] = []): QuizAnswer[] =>
+  questions.map(question => {
+    const saved = savedAnswers.find(answer => answer.question === question._id);
+    // Ordering items start in the mixed-up order the server sent them in
+    const initialOrder = question.type === 'ordering'
+      ? question.options.map(option => option._id!)
+      : [];
+
+    return {
+      question: question._id!,
+      selectedOptions: saved?.selectedOptions?.length ? saved.selectedOptions : initialOrder,
+      textAnswer: saved?.textAnswer ?? '',
+      matches: saved?.matches || []
+    };
+  });
+
+const QUESTION_HINTS: Record<string, string> = {
+  single: 'Select one answer',
+  true_false: 'Select True or False',
+  multiple: 'Select all correct answers',
+  short_answer: 'Type your answer',
+  numeric: 'Enter a number',
+  matching: 'Choose the matching answer for each item',
+  ordering: 'Put the items in the correct order',
+  essay: 'Write your response; it will be graded by your instructor'
+};
+
 const QuizTakingPage: React.FC = () => {
   const { courseId, quizId } = useParams<{ courseId: string; quizId: string }>();
   const navigate = useNavigate();
@@ -23,8 +80,12 @@ const QuizTakingPage: React.FC = () => {
   const { 
     currentQuiz, 
     currentAttempt,
+    attemptHistory,
     fetchQuizById, 
-    fetchMyQuizAttempt,
+    fetchMyQuizAttempts,
+    startQuizAttempt,
+    saveQuizAnswer,
+    reportIntegrityEvents,
     submitQuizAttempt,
     isLoading, 
     error,
@@ -36,9 +97,49 @@ const QuizTakingPage: React.FC = () => {
   
   const [answers, setAnswers] = useState<QuizAnswer[]>([]);
   const [timeLeft, setTimeLeft] = useState<number>(0);
+  // Local time at which the server deadline falls, so the countdown survives throttled timers
+  const [endsAt, setEndsAt] = useState<number | null>(null);
   const [quizStarted, setQuizStarted] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [attemptError, setAttemptError] = useState<string | null>(null);
+  // The proctor's password, sent again with every save, event report and the submission
+  const [accessPassword, setAccessPassword] = useState('');
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  // Debounced autosaves keyed by question id
+  const pendingSaves = useRef<Record<string, PendingSave>>({});
+  // Milliseconds spent on each question, for item analysis. Time counts towards the question
+  // the student last clicked or typed in, and only while the page is visible.
+  const questionTimes = useRef<Record<string, number>>({});
+  const activeQuestion = useRef<{ id: string; since: number | null } | null>(null);
+  // Integrity events waiting to be sent, and the timer that sends them
+  const pendingIntegrityEvents = useRef<IntegrityEvent[]>([]);
+  const integrityTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(Boolean(document.fullscreenElement));
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showResults, setShowResults] = useState(false);
+  const [isRetaking, setIsRetaking] = useState(false);
+  const [reviewAttemptId, setReviewAttemptId] = useState<string | null>(null);
+  // Set while taking a quiz whose questions were drawn or shuffled for this attempt
+  const [attemptQuestions, setAttemptQuestions] = useState<QuizQuestion[] | null>(null);
+  // The latest submit handler, so the countdown submits the answers as they are when time runs out
+  const submitQuizRef = useRef<(timeExpired?: boolean) => Promise<void>>();
+
+  const history = quizId ? attemptHistory[quizId] : undefined;
+  const quizPassword = currentQuiz?.requiresPassword ? accessPassword : undefined;
+  // Read by the saves sent when the student leaves the page
+  const quizPasswordRef = useRef(quizPassword);
+  quizPasswordRef.current = quizPassword;
+  // The questions being answered
+  const quizQuestions = attemptQuestions || currentQuiz?.questions || [];
+
+  // The attempt shown in the results view; defaults to the latest one
+  const reviewedAttempt = history?.attempts.find(attempt => attempt._id === reviewAttemptId) || currentAttempt;
+  const reviewQuestions = getServedQuestions(reviewedAttempt) || currentQuiz?.questions || [];
+  // Essay responses still need grading, so the score isn't final yet
+  const isAwaitingGrading = reviewedAttempt?.status === 'pending_review';
+  const passingScore = currentQuiz?.passingScore ?? 60;
+  // Attempts graded before pass marks were stored are judged against the current one
+  const hasPassed = reviewedAttempt ? (reviewedAttempt.passed ?? reviewedAttempt.score >= passingScore) : false;
 
   useEffect(() => {
     if (courseId && quizId) {
@@ -47,51 +148,216 @@ const QuizTakingPage: React.FC = () => {
       clearCurrentAttempt();
       fetchCourseById(courseId);
       fetchQuizById(quizId);
-      fetchMyQuizAttempt(quizId);
+      fetchMyQuizAttempts(quizId);
     }
-  }, [courseId, quizId, fetchCourseById, fetchQuizById, fetchMyQuizAttempt, clearError, clearCurrentQuiz, clearCurrentAttempt]);
+  }, [courseId, quizId, fetchCourseById, fetchQuizById, fetchMyQuizAttempts, clearError, clearCurrentQuiz, clearCurrentAttempt]);
 
-  // Initialize answers when quiz is loaded
+  // Initialize answers when quiz is loaded or a retake begins
   useEffect(() => {
-    if (currentQuiz && !currentAttempt) {
-      const initialAnswers = currentQuiz.questions.map(question => ({
-        question: question._id!,
-        selectedOptions: []
-      }));
-      setAnswers(initialAnswers);
+    if (currentQuiz && !quizStarted && (!currentAttempt || isRetaking)) {
+      setAnswers(buildAnswerSheet(currentQuiz.questions));
       setTimeLeft(currentQuiz.timeLimit * 60); // Convert minutes to seconds
     }
-  }, [currentQuiz, currentAttempt]);
+  }, [currentQuiz, currentAttempt, isRetaking, quizStarted]);
+
+  // Send any autosaves still waiting when the student leaves the page
+  useEffect(() => {
+    const pending = pendingSaves.current;
+
+    return () => {
+      if (!quizId) return;
+
+      Object.values(pending).forEach(save => {
+        clearTimeout(save.timer);
+        saveQuizAnswer(quizId, save.answer, quizPasswordRef.current)
+          .catch(error => console.error('Failed to save answer:', error));
+      });
+    };
+  }, [quizId, saveQuizAnswer]);
 
   // Show results if user has already attempted
   useEffect(() => {
-    if (currentAttempt) {
+    if (currentAttempt && !isRetaking) {
       setShowResults(true);
     }
-  }, [currentAttempt]);
+  }, [currentAttempt, isRetaking]);
 
-  // Timer countdown
+  // Fill the answer sheet from answers autosaved on the server
+  const restoreSavedAnswers = useCallback((questions: QuizQuestion[], savedAnswers: QuizAnswer[]) => {
+    if (!currentQuiz) return;
+
+    // Time already recorded on the server keeps adding up after a reload
+    questionTimes.current = Object.fromEntries(
+      savedAnswers.map(answer => [answer.question, (answer.timeSpent || 0) * 1000])
+    );
+    activeQuestion.current = null;
+    setAnswers(buildAnswerSheet(questions, savedAnswers));
+    setSaveStatus(savedAnswers.length > 0 ? 'saved' : 'idle');
+  }, [currentQuiz]);
+
+  // Resume an attempt left in progress, e.g. after a page reload
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    
-    if (quizStarted && timeLeft > 0 && !showResults) {
-      interval = setInterval(() => {
-        setTimeLeft(prev => {
-          if (prev <= 1) {
-            handleSubmitQuiz(); // Auto-submit when time runs out
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
+    const activeAttempt = history?.activeAttempt;
+
+    if (activeAttempt && currentQuiz && !quizStarted) {
+      // A restricted quiz needs its password again, so stay on the instructions to resume
+      if (activeAttempt.locked) {
+        setIsRetaking(true);
+        setShowResults(false);
+        return;
+      }
+
+      const servedQuestions = getServedQuestions(activeAttempt);
+      setAttemptQuestions(servedQuestions);
+      restoreSavedAnswers(servedQuestions || currentQuiz.questions, activeAttempt.answers);
+      setEndsAt(Date.now() + activeAttempt.remainingSeconds * 1000);
+      setTimeLeft(activeAttempt.remainingSeconds);
+      setIsRetaking(true);
+      setShowResults(false);
+      setQuizStarted(true);
     }
-    
-    return () => {
-      if (interval) {
+  }, [history?.activeAttempt, currentQuiz, quizStarted, restoreSavedAnswers]);
+
+  // Timer countdown
+  useEffect(() => {
+    if (!quizStarted || showResults || endsAt === null) return;
+
+    const interval = setInterval(() => {
+      const remaining = Math.max(0, Math.round((endsAt - Date.now()) / 1000));
+      setTimeLeft(remaining);
+
+      if (remaining === 0) {
         clearInterval(interval);
+        submitQuizRef.current?.(true); // Auto-submit when time runs out
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [quizStarted, showResults, endsAt]);
+
+  // Stop the clock on the active question while the student is on another tab
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      const active = activeQuestion.current;
+      if (!active) return;
+
+      if (document.hidden) {
+        recordActiveTime();
+        active.since = null;
+      } else {
+        active.since = Date.now();
       }
     };
-  }, [quizStarted, timeLeft, showResults]);
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Send the integrity events collected so far; those that fail to send are kept for the next try
+  const sendIntegrityEvents = useCallback(async () => {
+    if (integrityTimer.current) {
+      clearTimeout(integrityTimer.current);
+      integrityTimer.current = null;
+    }
+    if (!quizId || pendingIntegrityEvents.current.length === 0) return;
+
+    const batch = pendingIntegrityEvents.current.slice(0, INTEGRITY_BATCH_SIZE);
+    pendingIntegrityEvents.current = pendingIntegrityEvents.current.slice(INTEGRITY_BATCH_SIZE);
+
+    try {
+      await reportIntegrityEvents(quizId, batch, quizPassword);
+    } catch (error) {
+      console.error('Failed to report integrity events:', error);
+      pendingIntegrityEvents.current = [...batch, ...pendingIntegrityEvents.current];
+      return;
+    }
+
+    if (pendingIntegrityEvents.current.length > 0) {
+      await sendIntegrityEvents();
+    }
+  }, [quizId, quizPassword, reportIntegrityEvents]);
+
+  const recordIntegrityEvent = useCallback((type: IntegrityEventType) => {
+    pendingIntegrityEvents.current.push({
+      type,
+      at: new Date().toISOString(),
+      ...(activeQuestion.current && { question: activeQuestion.current.id })
+    });
+
+    if (!integrityTimer.current) {
+      integrityTimer.current = setTimeout(sendIntegrityEvents, INTEGRITY_REPORT_DELAY_MS);
+    }
+  }, [sendIntegrityEvents]);
+
+  // Watch for the student leaving the quiz while an attempt is in progress
+  useEffect(() => {
+    if (!quizStarted || showResults) return;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) recordIntegrityEvent('tab_hidden');
+    };
+    const handleBlur = () => recordIntegrityEvent('window_blur');
+    const handleCopy = () => recordIntegrityEvent('copy');
+    const handlePaste = () => recordIntegrityEvent('paste');
+    const handleFullscreenChange = () => {
+      setIsFullscreen(Boolean(document.fullscreenElement));
+      if (!document.fullscreenElement) recordIntegrityEvent('fullscreen_exit');
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+    };
+  }, [quizStarted, showResults, recordIntegrityEvent]);
+
+  // Leave fullscreen once the attempt is over; the listeners above are gone by then
+  useEffect(() => {
+    if ((!quizStarted || showResults) && document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    }
+  }, [quizStarted, showResults]);
+
+  const requiresFullscreen = Boolean(currentQuiz?.settings?.requireFullscreen) && document.fullscreenEnabled;
+
+  // Must run in response to a click, which is when browsers allow it
+  const enterFullscreen = () => {
+    document.documentElement.requestFullscreen()
+      .then(() => setIsFullscreen(true))
+      .catch(error => console.error('Failed to enter fullscreen:', error));
+  };
+
+  // Add the time since the active question was last checked to its total
+  const recordActiveTime = () => {
+    const active = activeQuestion.current;
+    if (!active || active.since === null) return;
+
+    const now = Date.now();
+    questionTimes.current[active.id] = (questionTimes.current[active.id] || 0) + (now - active.since);
+    active.since = now;
+  };
+
+  const focusQuestion = (questionId: string) => {
+    if (activeQuestion.current?.id === questionId) return;
+
+    recordActiveTime();
+    activeQuestion.current = { id: questionId, since: document.hidden ? null : Date.now() };
+  };
+
+  // Seconds spent on a question so far, sent with each save of its answer
+  const getTimeSpent = (questionId: string) => {
+    recordActiveTime();
+    return Math.round((questionTimes.current[questionId] || 0) / 1000);
+  };
 
   const formatTime = (seconds: number): string => {
     const minutes = Math.floor(seconds / 60);
@@ -99,48 +365,150 @@ const QuizTakingPage: React.FC = () => {
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
-  const handleStartQuiz = () => {
-    setQuizStarted(true);
+  const scheduleAutosave = (answer: QuizAnswer) => {
+    if (!quizId) return;
+
+    const questionId = answer.question;
+    const existing = pendingSaves.current[questionId];
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    const timer = setTimeout(async () => {
+      delete pendingSaves.current[questionId];
+      setSaveStatus('saving');
+
+      try {
+        await saveQuizAnswer(quizId, { ...answer, timeSpent: getTimeSpent(questionId) }, quizPassword);
+        if (Object.keys(pendingSaves.current).length === 0) {
+          setSaveStatus('saved');
+        }
+      } catch (error) {
+        console.error('Failed to save answer:', error);
+        setSaveStatus('error');
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    pendingSaves.current[questionId] = { timer, answer };
+  };
+
+  const cancelPendingAutosaves = () => {
+    Object.values(pendingSaves.current).forEach(save => clearTimeout(save.timer));
+    pendingSaves.current = {};
+  };
+
+  // Save every answer still waiting on its autosave delay straight away
+  const flushPendingAutosaves = async () => {
+    if (!quizId) return;
+
+    const pending = Object.values(pendingSaves.current);
+    cancelPendingAutosaves();
+
+    await Promise.all(pending.map(save =>
+      saveQuizAnswer(quizId, { ...save.answer, timeSpent: getTimeSpent(save.answer.question) }, quizPassword)
+        .catch(error => console.error('Failed to save answer:', error))
+    ));
+  };
+
+  const handleStartQuiz = async () => {
+    if (!quizId) return;
+
+    if (currentQuiz?.requiresPassword && !accessPassword.trim()) {
+      setAttemptError('Enter the password announced by your proctor');
+      return;
+    }
+
+    setIsStarting(true);
+    setAttemptError(null);
+    if (requiresFullscreen) {
+      enterFullscreen();
+    }
+
+    try {
+      const session = await startQuizAttempt(quizId, quizPassword);
+      pendingIntegrityEvents.current = [];
+      questionTimes.current = {};
+      activeQuestion.current = null;
+      const servedQuestions = getServedQuestions(session.attempt);
+      setAttemptQuestions(servedQuestions);
+      if (session.resumed || servedQuestions) {
+        restoreSavedAnswers(
+          servedQuestions || currentQuiz?.questions || [],
+          session.resumed ? session.attempt.answers : []
+        );
+      }
+      setEndsAt(Date.now() + session.remainingSeconds * 1000);
+      setTimeLeft(session.remainingSeconds);
+      setQuizStarted(true);
+    } catch (error) {
+      setAttemptError(getApiErrorMessage(error, 'Failed to start quiz'));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleRetakeQuiz = () => {
+    setReviewAttemptId(null);
+    setAttemptError(null);
+    setAttemptQuestions(null);
+    setIsRetaking(true);
+    setShowResults(false);
+    setQuizStarted(false);
   };
 
   const handleAnswerChange = (questionIndex: number, optionId: string, isChecked: boolean) => {
     if (!currentQuiz) return;
     
-    const question = currentQuiz.questions[questionIndex];
+    const question = quizQuestions[questionIndex];
+    const currentSelection = answers[questionIndex]?.selectedOptions || [];
+    let selectedOptions: string[];
     
-    setAnswers(prev => prev.map((answer, index) => {
-      if (index === questionIndex) {
-        if (question.type === 'single') {
-          // For single choice, replace all options with the selected one
-          return {
-            ...answer,
-            selectedOptions: isChecked ? [optionId] : []
-          };
-        } else {
-          // For multiple choice, add or remove the option
-          if (isChecked) {
-            return {
-              ...answer,
-              selectedOptions: [...answer.selectedOptions, optionId]
-            };
-          } else {
-            return {
-              ...answer,
-              selectedOptions: answer.selectedOptions.filter(id => id !== optionId)
-            };
-          }
-        }
-      }
-      return answer;
-    }));
+    // True/false questions are answered like single choice ones
+    
+    if (question.type !== 'multiple') {
+      // For single choice, replace all options with the selected one
+      selectedOptions = isChecked ? [optionId] : [];
+    } else if (isChecked) {
+      // For multiple choice, add or remove the option
+      selectedOptions = [...currentSelection, optionId];
+    } else {
+      selectedOptions = currentSelection.filter(id => id !== optionId);
+    }
+
+    updateAnswer(questionIndex, { selectedOptions });
   };
 
-  const handleSubmitQuiz = async () => {
+  const updateAnswer = (questionIndex: number, changes: Partial<QuizAnswer>) => {
+    const current = answers[questionIndex];
+    if (!current) return;
+
+    const updated = { ...current, ...changes };
+    setAnswers(prev => prev.map((answer, index) => index === questionIndex ? updated : answer));
+    scheduleAutosave(updated);
+  };
+
+  const handleMatchChange = (questionIndex: number, promptId: string, answerId: string) => {
+    const matches = (answers[questionIndex]?.matches || []).filter(entry => entry.prompt !== promptId);
+    updateAnswer(questionIndex, {
+      matches: answerId ? [...matches, { prompt: promptId, answer: answerId }] : matches
+    });
+  };
+
+  const handleMoveItem = (questionIndex: number, fromIndex: number, toIndex: number) => {
+    const order = [...(answers[questionIndex]?.selectedOptions || [])];
+    if (toIndex < 0 || toIndex >= order.length) return;
+
+    const [item] = order.splice(fromIndex, 1);
+    order.splice(toIndex, 0, item);
+    updateAnswer(questionIndex, { selectedOptions: order });
+  };
+
+  const handleSubmitQuiz = async (timeExpired = false) => {
     if (!currentQuiz || !quizId) return;
     
-    // Check if all questions are answered
-    const unansweredQuestions = answers.filter(answer => answer.selectedOptions.length === 0);
-    if (unansweredQuestions.length > 0) {
+    // Check if all questions are answered; don't hold up a submission the timer forced
+    const unansweredQuestions = answers.filter(answer => !isAnswered(answer));
+    if (unansweredQuestions.length > 0 && !timeExpired) {
       const confirm = window.confirm(
         `You have ${unansweredQuestions.length} unanswered question(s). Do you want to submit anyway?`
       );
@@ -150,47 +518,295 @@ const QuizTakingPage: React.FC = () => {
     setIsSubmitting(true);
     
     try {
-      await submitQuizAttempt(quizId, { answers });
+      // Once time is up the server grades the answers it has saved, so those still waiting
+      // are saved first. Otherwise the submission carries every answer and they are redundant.
+      if (timeExpired) {
+        await flushPendingAutosaves();
+      } else {
+        cancelPendingAutosaves();
+      }
+
+      // Events can only be recorded while the attempt is in progress
+      await sendIntegrityEvents();
+      await submitQuizAttempt(quizId, {
+        answers: answers.map(answer => ({ ...answer, timeSpent: getTimeSpent(answer.question) })),
+        password: quizPassword
+      });
+      await fetchMyQuizAttempts(quizId);
+      setReviewAttemptId(null);
+      setIsRetaking(false);
       setShowResults(true);
       setQuizStarted(false);
     } catch (error) {
       console.error('Failed to submit quiz:', error);
+      clearError();
+      setAttemptError(getApiErrorMessage(error, 'Failed to submit quiz'));
+
+      // If the server closed the attempt (e.g. the deadline passed), show its result
+      const updatedHistory = await fetchMyQuizAttempts(quizId);
+      if (updatedHistory && !updatedHistory.activeAttempt) {
+        setReviewAttemptId(null);
+        setIsRetaking(false);
+        setShowResults(true);
+        setQuizStarted(false);
+      }
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  submitQuizRef.current = handleSubmitQuiz;
+
+  // How a question of the reviewed attempt was marked, from the results the server sent
   const getQuestionResult = (questionIndex: number) => {
-    if (!currentAttempt || !currentQuiz) return null;
-    
-    const userAnswer = currentAttempt.answers.find(a => a.question === currentQuiz.questions[questionIndex]._id);
-    const question = currentQuiz.questions[questionIndex];
-    
-    if (!userAnswer) return { isCorrect: false, userSelected: [], correctOptions: [] };
-    
-    const correctOptionIds = question.options
-      .filter(opt => opt.isCorrect)
-      .map(opt => opt._id!);
-    
-    const userSelectedIds = userAnswer.selectedOptions;
-    
-    let isCorrect = false;
-    
-    if (question.type === 'single') {
-      isCorrect = userSelectedIds.length === 1 && correctOptionIds.includes(userSelectedIds[0]);
-    } else {
-      isCorrect = correctOptionIds.length === userSelectedIds.length &&
-                  correctOptionIds.every(id => userSelectedIds.includes(id)) &&
-                  userSelectedIds.every(id => correctOptionIds.includes(id));
-    }
-    
+    if (!reviewedAttempt?.results) return null;
+
+    const question = reviewQuestions[questionIndex];
+    const result = reviewedAttempt.results.find(r => r.question === question._id);
+    const userAnswer = reviewedAttempt.answers.find(a => a.question === question._id);
+
+    if (!result) return null;
+
     return {
-      isCorrect,
-      userSelected: userSelectedIds,
-      correctOptions: correctOptionIds
+      ...result,
+      userSelected: userAnswer?.selectedOptions || [],
+      correctOptions: result.correctOptions || [],
+      answer: userAnswer
     };
   };
 
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500';
+
+  // Answer controls for a question while the quiz is in progress
+  const renderQuestionInput = (question: QuizQuestion, questionIndex: number) => {
+    const answer = answers[questionIndex];
+
+    switch (question.type) {
+      case 'short_answer':
+      case 'numeric':
+        return (
+          <input
+            type="text"
+            inputMode={question.type === 'numeric' ? 'decimal' : 'text'}
+            value={answer?.textAnswer || ''}
+            onChange={(e) => updateAnswer(questionIndex, { textAnswer: e.target.value })}
+            placeholder={question.type === 'numeric' ? 'Enter a number' : 'Your answer'}
+            className={inputClassName}
+          />
+        );
+
+      case 'essay':
+        return (
+          <textarea
+            value={answer?.textAnswer || ''}
+            onChange={(e) => updateAnswer(questionIndex, { textAnswer: e.target.value })}
+            rows={8}
+            placeholder="Your response"
+            className={inputClassName}
+          />
+        );
+
+      case 'matching':
+        return (
+          <div className="space-y-3">
+            {(question.pairs || []).map(pair => {
+              const selected = answer?.matches?.find(entry => entry.prompt === pair._id)?.answer || '';
+
+              return (
+                <div key={pair._id} className="flex flex-col md:flex-row md:items-center gap-2 p-4 rounded-lg border-2 border-gray-200">
+                  <span className="flex-1 text-gray-900">{pair.prompt}</span>
+                  <select
+                    value={selected}
+                    onChange={(e) => handleMatchChange(questionIndex, pair._id!, e.target.value)}
+                    className={`md:w-1/2 ${inputClassName}`}
+                  >
+                    <option value="">Select a match</option>
+                    {(question.matchChoices || []).map(choice => (
+                      <option key={choice._id} value={choice._id}>
+                        {choice.text}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        );
+
+      case 'ordering':
+        return (
+          <div className="space-y-2">
+            {(answer?.selectedOptions || []).map((optionId, position, order) => (
+              <div key={optionId} className="flex items-center p-3 rounded-lg border-2 border-gray-200 bg-white">
+                <span className="w-8 text-sm font-medium text-gray-500">{position + 1}.</span>
+                <span className="flex-1 text-gray-900">
+                  {question.options.find(option => option._id === optionId)?.text}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleMoveItem(questionIndex, position, position - 1)}
+                  disabled={position === 0}
+                  className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleMoveItem(questionIndex, position, position + 1)}
+                  disabled={position === order.length - 1}
+                  className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        );
+
+      default:
+        return (
+          <div className="space-y-3">
+            {question.options.map((option, optionIndex) => {
+              const isSelected = answer?.selectedOptions.includes(option._id!);
+
+              return (
+                <label 
+                  key={optionIndex}
+                  className={`flex items-center p-4 rounded-lg border-2 cursor-pointer transition-colors ${
+                    isSelected 
+                      ? 'border-primary-500 bg-primary-50' 
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <input
+                    type={question.type === 'multiple' ? 'checkbox' : 'radio'}
+                    name={`question-${questionIndex}`}
+                    checked={isSelected}
+                    onChange={(e) => handleAnswerChange(questionIndex, option._id!, e.target.checked)}
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
+                  />
+                  <span className="ml-3 text-gray-900">{option.text}</span>
+                </label>
+              );
+            })}
+          </div>
+        );
+    }
+  };
+
+  // What the student answered next to the answer key, for non-choice questions
+  const renderAnswerReview = (question: QuizQuestion, result: QuizQuestionResult, answer?: QuizAnswerData) => {
+    const yourAnswerClass = 'p-3 rounded-md border bg-gray-50 border-gray-200';
+    const answerKeyClass = 'p-3 rounded-md border bg-success-50 border-success-200 text-success-800';
+
+    switch (question.type) {
+      case 'short_answer':
+      case 'numeric':
+        return (
+          <div className="space-y-2 text-sm">
+            <div className={yourAnswerClass}>
+              <span className="text-gray-500">Your answer: </span>
+              <span className="text-gray-900">{answer?.textAnswer?.trim() || 'No answer'}</span>
+            </div>
+            <div className={answerKeyClass}>
+              {question.type === 'short_answer' ? (
+                <>Accepted answers: {(result.acceptedAnswers || []).join(', ')}</>
+              ) : (
+                <>
+                  Correct answer: {result.numericAnswer}
+                  {result.tolerance ? ` (± ${result.tolerance})` : ''}
+                </>
+              )}
+            </div>
+          </div>
+        );
+
+      case 'matching':
+        return (
+          <div className="space-y-2 text-sm">
+            {(question.pairs || []).map(pair => {
+              const chosenId = answer?.matches?.find(entry => entry.prompt === pair._id)?.answer;
+              const chosen = question.matchChoices?.find(choice => choice._id === chosenId);
+              const correctMatch = result.correctMatches?.find(entry => entry.prompt === pair._id)?.match;
+              const isRight = Boolean(chosen) && chosen?.text === correctMatch;
+
+              return (
+                <div
+                  key={pair._id}
+                  className={`p-3 rounded-md border ${
+                    isRight ? 'bg-success-50 border-success-200' : 'bg-error-50 border-error-200'
+                  }`}
+                >
+                  <span className="font-medium text-gray-900">{pair.prompt}</span>
+                  <span className="text-gray-500"> → </span>
+                  <span className={isRight ? 'text-success-800' : 'text-error-800'}>
+                    {chosen ? chosen.text : 'No answer'}
+                  </span>
+                  {!isRight && (
+                    <span className="text-success-700"> (correct: {correctMatch})</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        );
+
+      case 'essay':
+        return (
+          <div className="space-y-2 text-sm">
+            <div className={yourAnswerClass}>
+              <div className="text-gray-500 mb-1">Your response</div>
+              <div className="text-gray-900 whitespace-pre-wrap">{answer?.textAnswer?.trim() || 'No answer'}</div>
+            </div>
+            {result.needsGrading ? (
+              <div className="p-3 rounded-md border bg-accent-50 border-accent-200 text-accent-800">
+                Awaiting grading by your instructor
+              </div>
+            ) : result.feedback ? (
+              <div className="p-3 rounded-md border bg-primary-50 border-primary-200 text-primary-800">
+                <span className="font-medium">Feedback: </span>
+                <span className="whitespace-pre-wrap">{result.feedback}</span>
+              </div>
+            ) : null}
+          </div>
+        );
+
+      case 'ordering':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <div className={yourAnswerClass}>
+              <div className="text-gray-500 mb-2">Your order</div>
+              <ol className="list-decimal list-inside space-y-1 text-gray-900">
+                {(answer?.selectedOptions || []).map(optionId => (
+                  <li key={optionId}>{question.options.find(option => option._id === optionId)?.text}</li>
+                ))}
+              </ol>
+            </div>
+            <div className={answerKeyClass}>
+              <div className="mb-2">Correct order</div>
+              <ol className="list-decimal list-inside space-y-1">
+                {(result.correctOptions || []).map(optionId => (
+                  <li key={optionId}>{question.options.find(option => option._id === optionId)?.text}</li>
+                ))}
+              </ol>
+            </div>
+          </div>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  const attemptErrorBanner = attemptError && (
+    <div className="bg-error-50 text-error-700 p-3 rounded-md mb-4 flex items-center">
+      <AlertCircle className="h-5 w-5 mr-2" />
+      {attemptError}
+    </div>
+  );
+
   // Check access permissions
   const isEnrolled = currentCourse?.enrolledStudents.includes(user?.id || user?._id || '');
   const isOwner = currentCourse?.createdBy?.id === user?.id || currentCourse?.createdBy?._id === user?._id;
@@ -231,7 +847,7 @@ const QuizTakingPage: React.FC = () => {
   }
 
   // Show results if user has already attempted
-  if (showResults && currentAttempt) {
+  if (showResults && reviewedAttempt) {
     return (
       <div className="animate-fade-in max-w-4xl mx-auto">
         <div className="mb-6">
@@ -240,39 +856,61 @@ const QuizTakingPage: React.FC = () => {
           </Button>
         </div>
 
+        {attemptErrorBanner}
+
         <Card className="mb-6">
           <CardHeader className="text-center">
             <div className="flex justify-center mb-4">
               <div className={`rounded-full p-4 ${
-                currentAttempt.score >= 80 ? 'bg-success-100' :
-                currentAttempt.score >= 60 ? 'bg-accent-100' : 'bg-error-100'
+                isAwaitingGrading ? 'bg-gray-100' :
+                reviewedAttempt.score >= 80 ? 'bg-success-100' :
+                reviewedAttempt.score >= passingScore ? 'bg-accent-100' : 'bg-error-100'
               }`}>
                 <Award className={`h-12 w-12 ${
-                  currentAttempt.score >= 80 ? 'text-success-600' :
-                  currentAttempt.score >= 60 ? 'text-accent-600' : 'text-error-600'
+                  isAwaitingGrading ? 'text-gray-500' :
+                  reviewedAttempt.score >= 80 ? 'text-success-600' :
+                  reviewedAttempt.score >= passingScore ? 'text-accent-600' : 'text-error-600'
                 }`} />
               </div>
             </div>
             <h1 className="text-2xl font-bold text-gray-900">{currentQuiz.title}</h1>
-            <p className="text-gray-600 mt-2">Quiz Results</p>
+            <p className="text-gray-600 mt-2">
+              Quiz Results
+              {history && history.attempts.length > 1 && ` — Attempt ${reviewedAttempt.attemptNumber}`}
+            </p>
           </CardHeader>
           
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
               <div className="text-center">
-                <div className={`text-3xl font-bold ${
-                  currentAttempt.score >= 80 ? 'text-success-600' :
-                  currentAttempt.score >= 60 ? 'text-accent-600' : 'text-error-600'
-                }`}>
-                  {currentAttempt.score}%
-                </div>
+                {isAwaitingGrading ? (
+                  <div className="text-xl font-bold text-gray-700 py-1">Awaiting grading</div>
+                ) : (
+                  <div className={`text-3xl font-bold ${
+                    reviewedAttempt.score >= 80 ? 'text-success-600' :
+                    reviewedAttempt.score >= passingScore ? 'text-accent-600' : 'text-error-600'
+                  }`}>
+                    {reviewedAttempt.score}%
+                  </div>
+                )}
                 <div className="text-sm text-gray-500">Your Score</div>
               </div>
               <div className="text-center">
-                <div className="text-3xl font-bold text-gray-700">
-                  {Math.round((currentAttempt.score / 100) * currentQuiz.questions.length)}/{currentQuiz.questions.length}
-                </div>
-                <div className="text-sm text-gray-500">Correct Answers</div>
+                {reviewedAttempt.pointsPossible ? (
+                  <>
+                    <div className="text-3xl font-bold text-gray-700">
+                      {reviewedAttempt.pointsEarned}/{reviewedAttempt.pointsPossible}
+                    </div>
+                    <div className="text-sm text-gray-500">Points</div>
+                  </>
+                ) : (
+                  <>
+                    <div className="text-3xl font-bold text-gray-700">
+                      {Math.round((reviewedAttempt.score / 100) * reviewQuestions.length)}/{reviewQuestions.length}
+                    </div>
+                    <div className="text-sm text-gray-500">Correct Answers</div>
+                  </>
+                )}
               </div>
               <div className="text-center">
                 <div className="text-3xl font-bold text-gray-700">
@@ -285,40 +923,148 @@ const QuizTakingPage: React.FC = () => {
             <div className="text-center">
               <div className="flex items-center justify-center text-sm text-gray-500 mb-4">
                 <Calendar className="h-4 w-4 mr-1" />
-                Completed on {new Date(currentAttempt.completedAt!).toLocaleString()}
+                Completed on {new Date(reviewedAttempt.completedAt!).toLocaleString()}
+                {reviewedAttempt.isLate && (
+                  <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-accent-100 text-accent-800">
+                    Late{reviewedAttempt.latePenalty ? ` (−${reviewedAttempt.latePenalty}%)` : ''}
+                  </span>
+                )}
               </div>
               
-              <div className={`inline-flex items-center px-4 py-2 rounded-full text-sm font-medium ${
-                currentAttempt.score >= 80 ? 'bg-success-100 text-success-800' :
-                currentAttempt.score >= 60 ? 'bg-accent-100 text-accent-800' : 'bg-error-100 text-error-800'
-              }`}>
-                {currentAttempt.score >= 80 ? 'Excellent!' :
-                 currentAttempt.score >= 60 ? 'Good Job!' : 'Needs Improvement'}
-              </div>
+              {isAwaitingGrading ? (
+                <div className="inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-accent-100 text-accent-800">
+                  <Clock className="h-4 w-4 mr-1" />
+                  Some answers are awaiting grading — your score will update once they are graded
+                </div>
+              ) : (
+                <div className={`inline-flex items-center px-4 py-2 rounded-full text-sm font-medium ${
+                  hasPassed ? 'bg-success-100 text-success-800' : 'bg-error-100 text-error-800'
+                }`}>
+                  {hasPassed ? <CheckCircle className="h-4 w-4 mr-1" /> : <XCircle className="h-4 w-4 mr-1" />}
+                  {hasPassed ? 'Passed' : 'Not passed'} — {passingScore}% needed to pass
+                </div>
+              )}
+
+              {reviewedAttempt.scoreOverride && (
+                <p className="mt-4 text-sm text-gray-600">
+                  Your score was adjusted by your instructor: {reviewedAttempt.scoreOverride.reason}
+                </p>
+              )}
+
+              {reviewedAttempt.scoreFeedback && (
+                <p className="mt-4 p-3 rounded-md bg-primary-50 border border-primary-200 text-primary-800 text-sm whitespace-pre-wrap">
+                  {reviewedAttempt.scoreFeedback}
+                </p>
+              )}
             </div>
           </CardContent>
         </Card>
 
+        {/* Attempt History */}
+        {history && (
+          <Card className="mb-6">
+            <CardHeader className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                <History className="h-5 w-5 mr-2" />
+                Your Attempts
+              </h2>
+              {history.countedScore !== null && (
+                <div className="text-sm text-gray-600">
+                  Counted score ({history.gradingPolicy}):{' '}
+                  <span className="font-semibold text-gray-900">{history.countedScore}%</span>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y divide-gray-200">
+                {history.attempts.map(attempt => (
+                  <button
+                    key={attempt._id}
+                    type="button"
+                    onClick={() => setReviewAttemptId(attempt._id)}
+                    className={`w-full flex items-center justify-between py-3 px-2 text-left rounded-md ${
+                      attempt._id === reviewedAttempt._id ? 'bg-primary-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="text-sm font-medium text-gray-900">Attempt {attempt.attemptNumber}</span>
+                    <span className="text-sm text-gray-500">
+                      {attempt.completedAt ? new Date(attempt.completedAt).toLocaleString() : 'In progress'}
+                    </span>
+                    {attempt.status === 'pending_review' ? (
+                      <span className="text-sm font-semibold text-gray-500">Awaiting grading</span>
+                    ) : (
+                      <span className={`text-sm font-semibold ${
+                        attempt.score >= 80 ? 'text-success-600' :
+                        attempt.score >= passingScore ? 'text-accent-600' : 'text-error-600'
+                      }`}>
+                        {attempt.score}%
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+
+              <div className="mt-4 flex items-center justify-between">
+                <p className="text-sm text-gray-500">
+                  {history.attemptsRemaining === null
+                    ? 'Unlimited attempts'
+                    : `${history.attemptsRemaining} of ${history.attemptLimit} attempt${history.attemptLimit !== 1 ? 's' : ''} remaining`}
+                  {history.nextAttemptAvailableAt &&
+                    ` • Next attempt available ${new Date(history.nextAttemptAvailableAt).toLocaleString()}`}
+                </p>
+                {history.canAttempt && (
+                  <Button
+                    onClick={handleRetakeQuiz}
+                    icon={<RefreshCw className="h-4 w-4" />}
+                  >
+                    Retake Quiz
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Detailed Results */}
         <div className="space-y-6">
           <h2 className="text-xl font-semibold text-gray-900">Question Review</h2>
+
+          {!reviewedAttempt.results && (
+            <Card>
+              <CardContent className="text-center py-8">
+                <Eye className="h-10 w-10 text-gray-400 mx-auto mb-3" />
+                <p className="text-gray-600">Your instructor has chosen not to show answers for this quiz.</p>
+              </CardContent>
+            </Card>
+          )}
           
-          {currentQuiz.questions.map((question, index) => {
+          {reviewedAttempt.results && reviewQuestions.map((question, index) => {
             const result = getQuestionResult(index);
+            if (!result) return null;
+            const isPendingGrade = result.needsGrading;
             
             return (
               <Card key={index} className={`border-l-4 ${
-                result?.isCorrect ? 'border-success-500' : 'border-error-500'
+                isPendingGrade ? 'border-gray-300' :
+                result.isCorrect ? 'border-success-500' : 'border-error-500'
               }`}>
                 <CardContent className="p-6">
                   <div className="flex items-start justify-between mb-4">
                     <h3 className="font-medium text-gray-900">
                       Question {index + 1}: {question.text}
                     </h3>
-                    <div className={`flex items-center ${
-                      result?.isCorrect ? 'text-success-600' : 'text-error-600'
+                    <div className={`flex items-center space-x-2 ${
+                      isPendingGrade ? 'text-gray-500' :
+                      result.isCorrect ? 'text-success-600' : 'text-error-600'
                     }`}>
-                      {result?.isCorrect ? (
+                      {!!reviewedAttempt.pointsPossible && (
+                        <span className="text-sm font-medium whitespace-nowrap">
+                          {isPendingGrade ? '–' : result.pointsEarned} / {question.points ?? 1} pts
+                        </span>
+                      )}
+                      {isPendingGrade ? (
+                        <Clock className="h-5 w-5" />
+                      ) : result.isCorrect ? (
                         <CheckCircle className="h-5 w-5" />
                       ) : (
                         <XCircle className="h-5 w-5" />
@@ -326,10 +1072,11 @@ const QuizTakingPage: React.FC = () => {
                     </div>
                   </div>
                   
+                  {['single', 'multiple', 'true_false'].includes(question.type) ? (
                   <div className="space-y-2">
                     {question.options.map((option, optionIndex) => {
-                      const isUserSelected = result?.userSelected.includes(option._id!);
-                      const isCorrect = result?.correctOptions.includes(option._id!);
+                      const isUserSelected = result.userSelected.includes(option._id!);
+                      const isCorrect = result.correctOptions.includes(option._id!);
                       
                       return (
                         <div
@@ -343,7 +1090,7 @@ const QuizTakingPage: React.FC = () => {
                           }`}
                         >
                           <div className="flex items-center mr-3">
-                            {question.type === 'single' ? (
+                            {question.type !== 'multiple' ? (
                               <div className={`w-4 h-4 rounded-full border-2 ${
                                 isUserSelected 
                                   ? (isCorrect ? 'border-success-500 bg-success-500' : 'border-error-500 bg-error-500')
@@ -389,6 +1136,30 @@ const QuizTakingPage: React.FC = () => {
                       );
                     })}
                   </div>
+                  ) : renderAnswerReview(question, result, result.answer)}
+
+                  {result.optionFeedback && result.optionFeedback.length > 0 && (
+                    <div className="mt-3 space-y-2 text-sm">
+                      {result.optionFeedback.map(entry => (
+                        <div
+                          key={entry.option}
+                          className="p-3 rounded-md border bg-primary-50 border-primary-200 text-primary-800"
+                        >
+                          <span className="font-medium">
+                            {question.options.find(option => option._id === entry.option)?.text}:{' '}
+                          </span>
+                          {entry.feedback}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {result.explanation && (
+                    <div className="mt-3 p-3 rounded-md border bg-gray-50 border-gray-200 text-sm text-gray-700">
+                      <span className="font-medium text-gray-900">Explanation: </span>
+                      <span className="whitespace-pre-wrap">{result.explanation}</span>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             );
@@ -400,6 +1171,11 @@ const QuizTakingPage: React.FC = () => {
 
   // Quiz not started yet
   if (!quizStarted) {
+    // Course owners and admins can preview a quiz outside its availability window
+    const availability = getQuizAvailability(currentQuiz);
+    const canStart = isOwner || isAdmin || availability === 'open' || availability === 'late';
+    const isResuming = Boolean(history?.activeAttempt);
+
     return (
       <div className="animate-fade-in max-w-2xl mx-auto">
         <div className="mb-6">
@@ -408,6 +1184,8 @@ const QuizTakingPage: React.FC = () => {
           </Button>
         </div>
 
+        {attemptErrorBanner}
+
         <Card>
           <CardHeader className="text-center">
             <div className="flex justify-center mb-4">
@@ -422,7 +1200,7 @@ const QuizTakingPage: React.FC = () => {
           <CardContent className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div className="text-center">
-                <div className="text-2xl font-bold text-gray-700">{currentQuiz.questions.length}</div>
+                <div className="text-2xl font-bold text-gray-700">{currentQuiz.questionCount ?? quizQuestions.length}</div>
                 <div className="text-sm text-gray-500">Questions</div>
               </div>
               <div className="text-center">
@@ -435,20 +1213,66 @@ const QuizTakingPage: React.FC = () => {
               <h3 className="text-sm font-medium text-amber-800 mb-2">Important Instructions:</h3>
               <ul className="text-sm text-amber-700 space-y-1">
                 <li>• You have {currentQuiz.timeLimit} minutes to complete this quiz</li>
-                <li>• You can only attempt this quiz once</li>
+                {currentQuiz.availableUntil && availability === 'open' && (
+                  <li>• The quiz closes {formatDateTime(currentQuiz.availableUntil)}; an attempt in progress ends then</li>
+                )}
+                {availability === 'late' && (
+                  <li>
+                    • The quiz closed {formatDateTime(currentQuiz.availableUntil!)}; late attempts
+                    {currentQuiz.lateSubmission?.penalty ? ` lose ${currentQuiz.lateSubmission.penalty}% of their score` : ' are accepted'}
+                  </li>
+                )}
+                <li>• {!history || history.attemptLimit === 1
+                  ? 'You can only attempt this quiz once'
+                  : history.attemptsRemaining === null
+                  ? 'You can retake this quiz as many times as you like'
+                  : `You have ${history.attemptsRemaining} attempt${history.attemptsRemaining !== 1 ? 's' : ''} remaining`}</li>
                 <li>• Make sure you have a stable internet connection</li>
                 <li>• Answer all questions before submitting</li>
+                <li>• Your answers are saved as you go, and the timer keeps running if you leave or reload this page</li>
                 <li>• The quiz will auto-submit when time runs out</li>
+                {requiresFullscreen && (
+                  <li>• This quiz opens in fullscreen and must stay in fullscreen until you submit</li>
+                )}
+                {currentQuiz.networkRestricted && (
+                  <li>• This quiz can only be taken from an approved network, such as a campus lab</li>
+                )}
+                <li>• Leaving the quiz tab or window, copying and pasting{requiresFullscreen ? ' and leaving fullscreen' : ''} are recorded for your instructor</li>
               </ul>
             </div>
             
             <div className="text-center">
+              {!canStart && (
+                <p className="text-sm text-gray-600 mb-3">
+                  {availability === 'upcoming'
+                    ? `This quiz opens ${formatDateTime(currentQuiz.availableFrom!)}`
+                    : 'This quiz is closed'}
+                </p>
+              )}
+              {currentQuiz.requiresPassword && canStart && (
+                <div className="max-w-xs mx-auto text-left">
+                  <Input
+                    label="Quiz password"
+                    type="password"
+                    value={accessPassword}
+                    onChange={(e) => setAccessPassword(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleStartQuiz();
+                    }}
+                    leftIcon={<Lock className="h-4 w-4" />}
+                    helperText="Announced by your proctor. The timer starts once it is accepted."
+                    fullWidth
+                  />
+                </div>
+              )}
               <Button 
                 onClick={handleStartQuiz}
                 size="lg"
+                isLoading={isStarting}
+                disabled={isStarting || !canStart}
                 icon={<Clock className="h-5 w-5" />}
               >
-                Start Quiz
+                {isResuming ? 'Resume Quiz' : 'Start Quiz'}
               </Button>
             </div>
           </CardContent>
@@ -460,10 +1284,31 @@ const QuizTakingPage: React.FC = () => {
   // Quiz in progress
   return (
     <div className="animate-fade-in max-w-4xl mx-auto">
+      {requiresFullscreen && !isFullscreen && (
+        <div className="fixed inset-0 bg-gray-900 bg-opacity-95 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full text-center">
+            <AlertCircle className="h-10 w-10 text-accent-600 mx-auto mb-3" />
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Return to fullscreen</h2>
+            <p className="text-gray-600 mb-4">
+              This quiz must be taken in fullscreen. The timer keeps running while you are away,
+              and leaving fullscreen is recorded for your instructor.
+            </p>
+            <Button onClick={enterFullscreen}>Continue in Fullscreen</Button>
+          </div>
+        </div>
+      )}
+
       {/* Timer Header */}
       <div className="sticky top-0 bg-white border-b border-gray-200 p-4 mb-6 z-10">
         <div className="flex items-center justify-between">
-          <h1 className="text-xl font-semibold text-gray-900">{currentQuiz.title}</h1>
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">{currentQuiz.title}</h1>
+            <p className={`text-xs mt-1 ${saveStatus === 'error' ? 'text-error-600' : 'text-gray-500'}`}>
+              {saveStatus === 'saving' && 'Saving answers...'}
+              {saveStatus === 'saved' && 'All answers saved'}
+              {saveStatus === 'error' && 'Your latest answer could not be saved. It will be sent again when you submit.'}
+            </p>
+          </div>
           <div className={`flex items-center space-x-4 ${
             timeLeft < 300 ? 'text-error-600' : 'text-gray-700'
           }`}>
@@ -478,59 +1323,41 @@ const QuizTakingPage: React.FC = () => {
         <div className="mt-4">
           <div className="flex justify-between text-sm text-gray-600 mb-1">
             <span>Progress</span>
-            <span>{answers.filter(a => a.selectedOptions.length > 0).length} of {currentQuiz.questions.length} answered</span>
+            <span>{answers.filter(isAnswered).length} of {quizQuestions.length} answered</span>
           </div>
           <div className="w-full bg-gray-200 rounded-full h-2">
             <div 
               className="bg-primary-600 h-2 rounded-full transition-all duration-300"
               style={{ 
-                width: `${(answers.filter(a => a.selectedOptions.length > 0).length / currentQuiz.questions.length) * 100}%` 
+                width: `${(answers.filter(isAnswered).length / quizQuestions.length) * 100}%` 
               }}
             />
           </div>
         </div>
       </div>
 
+      {attemptErrorBanner}
+
       {/* Questions */}
       <div className="space-y-8">
-        {currentQuiz.questions.map((question, questionIndex) => (
-          <Card key={questionIndex}>
+        {quizQuestions.map((question, questionIndex) => (
+          <Card
+            key={questionIndex}
+            onPointerDownCapture={() => focusQuestion(question._id!)}
+            onFocusCapture={() => focusQuestion(question._id!)}
+          >
             <CardContent className="p-6">
               <div className="mb-6">
                 <h2 className="text-lg font-medium text-gray-900 mb-2">
-                  Question {questionIndex + 1} of {currentQuiz.questions.length}
+                  Question {questionIndex + 1} of {quizQuestions.length}
                 </h2>
                 <p className="text-gray-700">{question.text}</p>
                 <div className="mt-2 text-xs text-gray-500">
-                  {question.type === 'single' ? 'Select one answer' : 'Select all correct answers'}
+                  {QUESTION_HINTS[question.type]}
                 </div>
               </div>
               
-              <div className="space-y-3">
-                {question.options.map((option, optionIndex) => {
-                  const isSelected = answers[questionIndex]?.selectedOptions.includes(option._id!);
-                  
-                  return (
-                    <label 
-                      key={optionIndex}
-                      className={`flex items-center p-4 rounded-lg border-2 cursor-pointer transition-colors ${
-                        isSelected 
-                          ? 'border-primary-500 bg-primary-50' 
-                          : 'border-gray-200 hover:border-gray-300'
-                      }`}
-                    >
-                      <input
-                        type={question.type === 'single' ? 'radio' : 'checkbox'}
-                        name={`question-${questionIndex}`}
-                        checked={isSelected}
-                        onChange={(e) => handleAnswerChange(questionIndex, option._id!, e.target.checked)}
-                        className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
-                      />
-                      <span className="ml-3 text-gray-900">{option.text}</span>
-                    </label>
-                  );
-                })}
-              </div>
+              {renderQuestionInput(question, questionIndex)}
             </CardContent>
           </Card>
         ))}
@@ -540,10 +1367,10 @@ const QuizTakingPage: React.FC = () => {
       <div className="sticky bottom-0 bg-white border-t border-gray-200 p-4 mt-8">
         <div className="flex justify-between items-center">
           <div className="text-sm text-gray-600">
-            {answers.filter(a => a.selectedOptions.length > 0).length} of {currentQuiz.questions.length} questions answered
+            {answers.filter(isAnswered).length} of {quizQuestions.length} questions answered
           </div>
           <Button
-            onClick={handleSubmitQuiz}
+            onClick={() => handleSubmitQuiz()}
             isLoading={isSubmitting}
             size="lg"
             disabled={isSubmitting}
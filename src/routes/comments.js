@@ -0,0 +1,29 @@
+// src/routes/comments.js
+import express from 'express';
+import {
+  getComments,
+  createComment,
+  updateComment,
+  deleteComment,
+  moderateComment
+} from '../controllers/comments.js';
+import { protect } from '../middleware/auth.js';
+
+// Mounted at /api/v1/courses/:id/comments from server.js
+const router = express.Router({ mergeParams: true });
+
+router.use(protect);
+
+router
+  .route('/')
+  .get(getComments) // Threads for a subsection, or the course board without ?subsection
+  .post(createComment); // New thread, or a reply when parent is given
+
+router
+  .route('/:commentId')
+  .put(updateComment)
+  .delete(deleteComment);
+
+router.put('/:commentId/moderate', moderateComment); // Pin, answered, hide, lock
+
+export default router;
@@ -16,9 +16,11 @@ import {
   deleteSubsection,
   uploadFile,
   deleteUploadedFile,
+  getCourseFile,
   getCourseAnalytics,
   upload
 } from '../controllers/courses.js';
+import { getMyProgress } from '../controllers/progress.js';
 import { protect, authorize } from '../middleware/auth.js';
 
 const router = express.Router();
@@ -32,6 +34,9 @@ router.delete('/upload/:filename', protect, authorize('faculty', 'admin'), delet
 router.post('/join', protect, authorize('student'), joinCourse); // Students join with access code
 router.post('/:id/leave', protect, authorize('student'), leaveCourse); // Students leave course
 
+// Progress across all enrolled courses (must be before /:id)
+router.get('/progress', protect, getMyProgress);
+
 // Main course routes
 router
   .route('/')
@@ -44,6 +49,9 @@ router
   .put(protect, authorize('faculty', 'admin'), updateCourse)
   .delete(protect, authorize('faculty', 'admin'), deleteCourse);
 
+// Uploaded lesson files, checked against enrollment and the course's download setting
+router.get('/:id/files/:filename', protect, getCourseFile);
+
 // Course analytics (for faculty/admin)
 router.get('/:id/analytics', protect, authorize('faculty', 'admin'), getCourseAnalytics);
 
@@ -0,0 +1,19 @@
+// src/routes/enrollments.js
+import express from 'express';
+import {
+  getEnrollmentRequests,
+  reviewEnrollmentRequests
+} from '../controllers/enrollments.js';
+import { protect, authorize } from '../middleware/auth.js';
+
+// Mounted at /api/v1/courses/:id/enrollment-requests from server.js
+const router = express.Router({ mergeParams: true });
+
+router.use(protect, authorize('faculty', 'admin'));
+
+router
+  .route('/')
+  .get(getEnrollmentRequests) // Queue of requests waiting for approval
+  .put(reviewEnrollmentRequests); // Approve or reject several requests at once
+
+export default router;
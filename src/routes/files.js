@@ -0,0 +1,12 @@
+// src/routes/files.js
+import express from 'express';
+import { getSignedFile } from '../controllers/files.js';
+import { verifySignedFile } from '../middleware/signedFile.js';
+
+// Mounted at /api/v1/files from server.js. Links are issued with the course data,
+// see utils/signedFileUrl.js.
+const router = express.Router();
+
+router.get('/:filename', verifySignedFile, getSignedFile);
+
+export default router;
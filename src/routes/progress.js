@@ -0,0 +1,21 @@
+// src/routes/progress.js
+import express from 'express';
+import {
+  getCourseProgress,
+  recordSubsectionView,
+  updateSubsectionProgress,
+  getStudentsProgress
+} from '../controllers/progress.js';
+import { protect, authorize } from '../middleware/auth.js';
+
+// Mounted at /api/v1/courses/:id/progress from server.js
+const router = express.Router({ mergeParams: true });
+
+router.use(protect);
+
+router.get('/', getCourseProgress); // Current student's progress
+router.get('/students', authorize('faculty', 'admin'), getStudentsProgress); // All students' progress (owner/admin)
+router.put('/:subsectionId', updateSubsectionProgress); // Mark subsection complete/incomplete
+router.post('/:subsectionId/view', recordSubsectionView); // Record subsection view
+
+export default router;
@@ -0,0 +1,32 @@
+// src/routes/questionBank.js
+import express from 'express';
+import {
+  getBankQuestions,
+  createBankQuestion,
+  updateBankQuestion,
+  deleteBankQuestion
+} from '../controllers/questionBank.js';
+import { protect, authorize } from '../middleware/auth.js';
+
+// Mounted at /api/v1/courses/:courseId/question-bank from server.js
+const router = express.Router({ mergeParams: true });
+
+router.use(protect);
+router.use(authorize('faculty', 'admin'));
+
+router
+  .route('/')
+  .get(getBankQuestions) // List the course's bank, optionally by ?tag= and ?difficulty=
+  .post(createBankQuestion); // Add a question to the bank
+
+// Individual bank questions, mounted at /api/v1/question-bank from server.js
+export const individualBankQuestionRoutes = express.Router();
+individualBankQuestionRoutes.use(protect);
+individualBankQuestionRoutes.use(authorize('faculty', 'admin'));
+
+individualBankQuestionRoutes
+  .route('/:id')
+  .put(updateBankQuestion) // Update a bank question
+  .delete(deleteBankQuestion); // Remove a bank question
+
+export default router;
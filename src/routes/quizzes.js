@@ -6,11 +6,27 @@ import {
   createQuiz,
   updateQuiz,
   deleteQuiz,
+  startQuizAttempt,
+  saveQuizAnswer,
+  recordIntegrityEvents,
   submitQuizAttempt,
   getQuizAttempts,
-  getMyQuizAttempt,
-  getQuizStats
+  getQuizAttempt,
+  getMyQuizAttempts,
+  getQuizStats,
+  getGradingQueue,
+  gradeResponse,
+  regradeQuiz,
+  overrideAttemptScore,
+  removeScoreOverride,
+  getQuizAccommodations,
+  saveQuizAccommodation,
+  deleteQuizAccommodation,
+  recomputeQuizAnalytics
 } from '../controllers/quizzes.js';
+import {
+  importUpload, importQuiz, exportQuiz, draftQuizFromSpreadsheet, getQuizSpreadsheetTemplate
+} from '../controllers/quizTransfer.js';
 import { protect, authorize } from '../middleware/auth.js';
 
 const router = express.Router({ mergeParams: true });
@@ -24,11 +40,18 @@ router
   .get(getQuizzes) // Get all quizzes for a course - FIXED: Allow all authenticated users
   .post(authorize('faculty', 'admin'), createQuiz); // Create quiz for a course
 
+router.post('/import', authorize('faculty', 'admin'), importUpload.single('file'), importQuiz); // Preview or import a GIFT/Moodle XML/QTI file
+router.post('/spreadsheet', authorize('faculty', 'admin'), importUpload.single('file'), draftQuizFromSpreadsheet); // Read a CSV into a draft quiz
+router.get('/spreadsheet/template', authorize('faculty', 'admin'), getQuizSpreadsheetTemplate); // Blank CSV template with examples
+
 // Individual quiz routes (these use the quiz ID directly)
 // Note: These routes will be mounted at /api/v1/quizzes/:id from server.js
 export const individualQuizRoutes = express.Router();
 individualQuizRoutes.use(protect);
 
+// Registered ahead of the /:id routes so "analytics" isn't taken for a quiz id
+individualQuizRoutes.post('/analytics/recompute', authorize('admin'), recomputeQuizAnalytics); // Rebuild analytics from attempts
+
 individualQuizRoutes
   .route('/:id')
   .get(getQuiz) // Get single quiz - FIXED: Allow all authenticated users with access check in controller
@@ -36,9 +59,24 @@ individualQuizRoutes
   .delete(authorize('faculty', 'admin'), deleteQuiz); // Delete quiz
 
 // Quiz attempt routes - FIXED: Allow students to access their own attempts
+individualQuizRoutes.post('/:id/start', startQuizAttempt); // Start or resume a timed attempt
+individualQuizRoutes.put('/:id/attempt/answers', saveQuizAnswer); // Autosave one answer of the attempt in progress
+individualQuizRoutes.post('/:id/attempt/events', recordIntegrityEvents); // Tab, copy/paste and fullscreen signals
 individualQuizRoutes.post('/:id/attempt', submitQuizAttempt); // Submit quiz attempt
 individualQuizRoutes.get('/:id/attempts', authorize('faculty', 'admin'), getQuizAttempts); // Get all attempts (faculty/admin)
-individualQuizRoutes.get('/:id/my-attempt', getMyQuizAttempt); // Get user's own attempt - FIXED: Allow all authenticated users
+individualQuizRoutes.get('/:id/attempts/:attemptId', authorize('faculty', 'admin'), getQuizAttempt); // One attempt with the answer key
+individualQuizRoutes.get('/:id/my-attempts', getMyQuizAttempts); // Get user's own attempt history
 individualQuizRoutes.get('/:id/stats', authorize('faculty', 'admin'), getQuizStats); // Get quiz statistics
+individualQuizRoutes.get('/:id/grading-queue', authorize('faculty', 'admin'), getGradingQueue); // Essay responses awaiting grading
+individualQuizRoutes.put('/:id/attempts/:attemptId/answers/:questionId/grade', authorize('faculty', 'admin'), gradeResponse); // Grade one essay response
+individualQuizRoutes.post('/:id/regrade', authorize('faculty', 'admin'), regradeQuiz); // Re-score attempts against the current key
+individualQuizRoutes
+  .route('/:id/attempts/:attemptId/score')
+  .put(authorize('faculty', 'admin'), overrideAttemptScore) // Override one attempt's score
+  .delete(authorize('faculty', 'admin'), removeScoreOverride); // Restore the graded score
+individualQuizRoutes.get('/:id/export', authorize('faculty', 'admin'), exportQuiz); // Download as GIFT, Moodle XML or QTI
+individualQuizRoutes.get('/:id/accommodations', authorize('faculty', 'admin'), getQuizAccommodations); // Per-student accommodations
+individualQuizRoutes.put('/:id/accommodations/:studentId', authorize('faculty', 'admin'), saveQuizAccommodation); // Grant or update one
+individualQuizRoutes.delete('/:id/accommodations/:studentId', authorize('faculty', 'admin'), deleteQuizAccommodation); // Remove one
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,21 @@
+// src/routes/reviews.js
+import express from 'express';
+import {
+  getReviews,
+  saveMyReview,
+  replyToReview,
+  deleteReview
+} from '../controllers/reviews.js';
+import { protect, authorize } from '../middleware/auth.js';
+
+// Mounted at /api/v1/courses/:id/reviews from server.js
+const router = express.Router({ mergeParams: true });
+
+router.use(protect);
+
+router.get('/', getReviews); // Reviews with the course's rating summary
+router.put('/me', authorize('student'), saveMyReview); // Create or edit your own review (must be before /:reviewId)
+router.put('/:reviewId/reply', authorize('faculty', 'admin'), replyToReview);
+router.delete('/:reviewId', deleteReview);
+
+export default router;
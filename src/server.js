@@ -12,6 +12,12 @@ import authRoutes from './routes/auth.js';
 import userRoutes from './routes/users.js';
 import courseRoutes from './routes/courses.js';
 import quizRoutes, { individualQuizRoutes } from './routes/quizzes.js';
+import progressRoutes from './routes/progress.js';
+import questionBankRoutes, { individualBankQuestionRoutes } from './routes/questionBank.js';
+import enrollmentRoutes from './routes/enrollments.js';
+import commentRoutes from './routes/comments.js';
+import fileRoutes from './routes/files.js';
+import reviewRoutes from './routes/reviews.js';
 
 // Import middleware
 import errorHandler from './middleware/error.js';
@@ -31,6 +37,13 @@ mongoose.connect(process.env.MONGO_URI || 'mongodb://localhost:27017/college_cou
 
 const app = express();
 
+// Behind a reverse proxy req.ip is the proxy's address, which breaks quiz network restrictions.
+// TRUST_PROXY takes a hop count (e.g. 1) or the proxy addresses Express should trust.
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+
 // Body parser with increased limit for images
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -45,7 +58,8 @@ app.use(cors({
   ].filter(Boolean), // Remove any undefined values
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization'],
+  exposedHeaders: ['Content-Disposition', 'X-Skipped-Questions'] // Read by quiz exports
 }));
 
 app.use(helmet({
@@ -79,9 +93,6 @@ const limiter = rateLimit({
 });
 app.use(limiter);
 
-// Serve static files
-app.use('/uploads', express.static(path.join(__dirname, 'public/uploads')));
-
 // Mount routers
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/users', userRoutes);
@@ -91,6 +102,25 @@ app.use('/api/v1/courses', courseRoutes);
 app.use('/api/v1/courses/:courseId/quizzes', quizRoutes); // Course-specific quiz routes
 app.use('/api/v1/quizzes', individualQuizRoutes); // Individual quiz routes
 
+// Question bank routes - course-specific listing/creation and individual questions
+app.use('/api/v1/courses/:courseId/question-bank', questionBankRoutes);
+app.use('/api/v1/question-bank', individualBankQuestionRoutes);
+
+// Student progress routes
+app.use('/api/v1/courses/:id/progress', progressRoutes);
+
+// Enrollment requests for courses that require approval
+app.use('/api/v1/courses/:id/enrollment-requests', enrollmentRoutes);
+
+// Subsection comments and the course discussion board
+app.use('/api/v1/courses/:id/comments', commentRoutes);
+
+// Course ratings and reviews
+app.use('/api/v1/courses/:id/reviews', reviewRoutes);
+
+// Uploaded files, only through signed expiring links (public/uploads is not served directly)
+app.use('/api/v1/files', fileRoutes);
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.status(200).json({
@@ -0,0 +1,111 @@
+// src/stores/commentStore.ts
+import { create } from 'zustand';
+import axios from 'axios';
+import { getApiErrorMessage } from '../lib/utils';
+
+export interface CommentAuthor {
+  _id: string;
+  name: string;
+  role: 'student' | 'faculty' | 'admin';
+}
+
+export interface CourseComment {
+  _id: string;
+  course: string;
+  // null for the course discussion board
+  subsection: string | null;
+  // null for a thread, the thread id for a reply
+  parent: string | null;
+  // null once the comment is deleted
+  author: CommentAuthor | null;
+  body: string;
+  isPinned: boolean;
+  isAnswered: boolean;
+  isHidden: boolean;
+  isLocked: boolean;
+  editedAt?: string | null;
+  deletedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // Only on threads
+  replies?: CourseComment[];
+}
+
+export interface CommentThreads {
+  threads: CourseComment[];
+  canModerate: boolean;
+}
+
+export type CommentModeration = Partial<Pick<CourseComment, 'isPinned' | 'isAnswered' | 'isHidden' | 'isLocked'>>;
+
+interface CommentState {
+  // Threads live with the component showing them; these actions throw on failure
+  fetchComments: (courseId: string, subsectionId: string | null) => Promise<CommentThreads>;
+  createComment: (courseId: string, body: string, options?: { subsection?: string | null; parent?: string }) => Promise<CourseComment>;
+  updateComment: (courseId: string, commentId: string, body: string) => Promise<CourseComment>;
+  deleteComment: (courseId: string, commentId: string) => Promise<void>;
+  moderateComment: (courseId: string, commentId: string, flags: CommentModeration) => Promise<CourseComment>;
+}
+
+// Set base URL for API
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api/v1';
+
+export const useCommentStore = create<CommentState>(() => ({
+  fetchComments: async (courseId: string, subsectionId: string | null) => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/courses/${courseId}/comments`, {
+        params: subsectionId ? { subsection: subsectionId } : {}
+      });
+      return {
+        threads: response.data.data || [],
+        canModerate: Boolean(response.data.canModerate)
+      };
+    } catch (error) {
+      console.error('Fetch comments error:', error);
+      throw new Error(getApiErrorMessage(error, 'Failed to load comments'));
+    }
+  },
+
+  createComment: async (courseId: string, body: string, options = {}) => {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/courses/${courseId}/comments`, {
+        body,
+        subsection: options.subsection || null,
+        parent: options.parent
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error('Create comment error:', error);
+      throw new Error(getApiErrorMessage(error, 'Failed to post comment'));
+    }
+  },
+
+  updateComment: async (courseId: string, commentId: string, body: string) => {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/courses/${courseId}/comments/${commentId}`, { body });
+      return response.data.data;
+    } catch (error) {
+      console.error('Update comment error:', error);
+      throw new Error(getApiErrorMessage(error, 'Failed to update comment'));
+    }
+  },
+
+  deleteComment: async (courseId: string, commentId: string) => {
+    try {
+      await axios.delete(`${API_BASE_URL}/courses/${courseId}/comments/${commentId}`);
+    } catch (error) {
+      console.error('Delete comment error:', error);
+      throw new Error(getApiErrorMessage(error, 'Failed to delete comment'));
+    }
+  },
+
+  moderateComment: async (courseId: string, commentId: string, flags: CommentModeration) => {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/courses/${courseId}/comments/${commentId}/moderate`, flags);
+      return response.data.data;
+    } catch (error) {
+      console.error('Moderate comment error:', error);
+      throw new Error(getApiErrorMessage(error, 'Failed to update comment'));
+    }
+  }
+}));
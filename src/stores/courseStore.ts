@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import axios from 'axios';
+import { getApiErrorMessage } from '../lib/utils';
 
 // Types
 export interface Section {
@@ -37,6 +38,33 @@ export interface Subsection {
   updatedAt?: string;
 }
 
+export type EnrollmentRequestStatus = 'pending' | 'approved' | 'rejected';
+
+// A student's request to join a course that requires approval, as shown to them
+export interface EnrollmentStatus {
+  status: EnrollmentRequestStatus;
+  message: string; // from the reviewer
+  requestedAt: string;
+  reviewedAt: string | null;
+}
+
+// A request as shown in the course owner's review queue
+export interface EnrollmentRequest {
+  _id: string;
+  course: string;
+  student: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  status: EnrollmentRequestStatus;
+  message: string;
+  reviewedBy: { _id: string; name: string } | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Course {
   _id: string;
   id: string;
@@ -77,10 +105,16 @@ export interface Course {
   };
   totalContent: number;
   estimatedDuration: number;
+  enrollmentRequest?: EnrollmentStatus | null; // students only
   createdAt: string;
   updatedAt: string;
 }
 
+interface JoinCourseResult {
+  pending: boolean; // the course requires approval, so a request was sent instead
+  message: string;
+}
+
 interface CourseState {
   courses: Course[];
   currentCourse: Course | null;
@@ -93,8 +127,20 @@ interface CourseState {
   createCourse: (courseData: CreateCourseData) => Promise<Course>;
   updateCourse: (id: string, courseData: Partial<CreateCourseData>) => Promise<void>;
   deleteCourse: (id: string) => Promise<void>;
-  joinCourse: (accessCode: string) => Promise<void>;
+  joinCourse: (accessCode: string) => Promise<JoinCourseResult>;
   leaveCourse: (courseId: string) => Promise<void>;
+
+  // Enrollment approval
+  fetchEnrollmentRequests: (courseId: string) => Promise<EnrollmentRequest[]>;
+  reviewEnrollmentRequests: (
+    courseId: string,
+    requestIds: string[],
+    status: 'approved' | 'rejected',
+    message?: string
+  ) => Promise<EnrollmentRequest[]>;
+
+  // Uploaded lesson files, fetched with the user's credentials
+  fetchCourseFile: (courseId: string, filename: string) => Promise<Blob>;
   
   // Section management
   addSection: (courseId: string, section: CreateSectionData) => Promise<void>;
@@ -117,6 +163,8 @@ interface SearchParams {
   difficulty?: string;
   page?: number;
   limit?: number;
+  // Field to sort by, '-' first for descending; 'rating' sorts by average rating
+  sort?: string;
 }
 
 interface CreateCourseData {
@@ -130,6 +178,7 @@ interface CreateCourseData {
   prerequisites?: string[];
   learningOutcomes?: string[];
   tags?: string[];
+  settings?: Course['settings'];
 }
 
 interface CreateSectionData {
@@ -205,6 +254,7 @@ export const useCourseStore = create<CourseState>((set, get) => ({
       if (params?.difficulty) queryParams.append('difficulty', params.difficulty);
       if (params?.page) queryParams.append('page', params.page.toString());
       if (params?.limit) queryParams.append('limit', params.limit.toString());
+      if (params?.sort) queryParams.append('sort', params.sort);
 
       const url = `${API_BASE_URL}/courses${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
       const response = await axios.get(url);
@@ -317,6 +367,12 @@ joinCourse: async (accessCode: string) => {
       accessCode: accessCode.trim().toUpperCase() 
     });
     
+    // Approval-required courses answer with the request instead of the course
+    if (response.status === 202) {
+      await get().fetchCourses();
+      return { pending: true, message: response.data.message };
+    }
+
     if (response.data.success && response.data.data) {
       const joinedCourse = normalizeCourse(response.data.data);
       
@@ -347,7 +403,7 @@ joinCourse: async (accessCode: string) => {
       // Optionally refresh the complete courses list to ensure data consistency
       await get().fetchCourses();
       
-      return joinedCourse;
+      return { pending: false, message: response.data.message };
     } else {
       throw new Error('Invalid response format');
     }
@@ -376,6 +432,63 @@ joinCourse: async (accessCode: string) => {
     }
   },
 
+  fetchEnrollmentRequests: async (courseId: string) => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/courses/${courseId}/enrollment-requests`);
+      return response.data.data;
+    } catch (error) {
+      console.error('Fetch enrollment requests error:', error);
+      throw new Error(getApiErrorMessage(error, 'Failed to load enrollment requests'));
+    }
+  },
+
+  reviewEnrollmentRequests: async (
+    courseId: string,
+    requestIds: string[],
+    status: 'approved' | 'rejected',
+    message?: string
+  ) => {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/courses/${courseId}/enrollment-requests`, {
+        requestIds,
+        status,
+        message
+      });
+
+      // Approved students count towards the course's enrollment
+      if (status === 'approved') {
+        await get().fetchCourseById(courseId);
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Review enrollment requests error:', error);
+      throw new Error(getApiErrorMessage(error, 'Failed to review enrollment requests'));
+    }
+  },
+
+  fetchCourseFile: async (courseId: string, filename: string) => {
+    try {
+      const response = await axios.get(
+        `${API_BASE_URL}/courses/${courseId}/files/${encodeURIComponent(filename)}`,
+        { responseType: 'blob' }
+      );
+      return response.data;
+    } catch (error) {
+      console.error('Fetch course file error:', error);
+      let message = 'Failed to load file';
+      // Error bodies arrive as a Blob too when a blob was asked for
+      if (axios.isAxiosError(error) && error.response?.data instanceof Blob) {
+        try {
+          message = JSON.parse(await error.response.data.text()).error || message;
+        } catch {
+          // Not a JSON error body
+        }
+      }
+      throw new Error(message);
+    }
+  },
+
   // Section management
   addSection: async (courseId: string, sectionData: CreateSectionData) => {
     set({ isLoading: true, error: null });
@@ -0,0 +1,165 @@
+// src/stores/progressStore.ts
+import { create } from 'zustand';
+import axios from 'axios';
+import { getApiErrorMessage } from '../lib/utils';
+
+export interface SubsectionProgress {
+  section: string;
+  subsection: string;
+  completed: boolean;
+  completedAt?: string | null;
+  lastViewedAt?: string;
+}
+
+export interface CourseProgress {
+  course: string;
+  totalSubsections: number;
+  completedSubsections: number;
+  percentComplete: number;
+  isCompleted: boolean;
+  completedAt?: string | null;
+  lastViewedSubsection?: string | null;
+  lastViewedAt?: string | null;
+  subsections?: SubsectionProgress[];
+}
+
+export interface StudentProgress {
+  student: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  totalSubsections: number;
+  completedSubsections: number;
+  percentComplete: number;
+  isCompleted: boolean;
+  completedAt?: string | null;
+  lastViewedAt?: string | null;
+}
+
+interface ProgressState {
+  // Keyed by course id
+  courseProgress: Record<string, CourseProgress>;
+  studentsProgress: StudentProgress[];
+  isLoading: boolean;
+  error: string | null;
+
+  fetchCourseProgress: (courseId: string) => Promise<void>;
+  fetchMyProgress: () => Promise<void>;
+  fetchStudentsProgress: (courseId: string) => Promise<void>;
+  recordSubsectionView: (courseId: string, subsectionId: string) => Promise<void>;
+  setSubsectionCompleted: (courseId: string, subsectionId: string, completed: boolean) => Promise<void>;
+
+  // Utility functions
+  isSubsectionCompleted: (courseId: string, subsectionId: string) => boolean;
+  clearError: () => void;
+}
+
+// Set base URL for API
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api/v1';
+
+export const useProgressStore = create<ProgressState>((set, get) => ({
+  courseProgress: {},
+  studentsProgress: [],
+  isLoading: false,
+  error: null,
+
+  clearError: () => set({ error: null }),
+
+  isSubsectionCompleted: (courseId: string, subsectionId: string) => {
+    const progress = get().courseProgress[courseId];
+    return Boolean(
+      progress?.subsections?.some(entry => entry.subsection === subsectionId && entry.completed)
+    );
+  },
+
+  fetchCourseProgress: async (courseId: string) => {
+    if (!courseId) return;
+
+    try {
+      const response = await axios.get(`${API_BASE_URL}/courses/${courseId}/progress`);
+
+      if (response.data.success && response.data.data) {
+        set(state => ({
+          courseProgress: { ...state.courseProgress, [courseId]: response.data.data }
+        }));
+      }
+    } catch (error) {
+      // Progress is supplementary; don't block the course page on failure
+      console.error('Fetch course progress error:', error);
+    }
+  },
+
+  fetchMyProgress: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await axios.get(`${API_BASE_URL}/courses/progress`);
+      const summaries: CourseProgress[] = response.data.data || [];
+
+      set(state => {
+        const courseProgress = { ...state.courseProgress };
+        summaries.forEach(summary => {
+          // Keep subsection detail already loaded by the course page
+          courseProgress[summary.course] = {
+            ...courseProgress[summary.course],
+            ...summary
+          };
+        });
+        return { courseProgress, isLoading: false };
+      });
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to fetch progress');
+      set({ error: errorMessage, isLoading: false });
+      console.error('Fetch my progress error:', error);
+    }
+  },
+
+  fetchStudentsProgress: async (courseId: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await axios.get(`${API_BASE_URL}/courses/${courseId}/progress/students`);
+      set({ studentsProgress: response.data.data || [], isLoading: false });
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to fetch student progress');
+      set({ error: errorMessage, isLoading: false, studentsProgress: [] });
+      console.error('Fetch students progress error:', error);
+    }
+  },
+
+  recordSubsectionView: async (courseId: string, subsectionId: string) => {
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/courses/${courseId}/progress/${subsectionId}/view`
+      );
+
+      if (response.data.success && response.data.data) {
+        set(state => ({
+          courseProgress: { ...state.courseProgress, [courseId]: response.data.data }
+        }));
+      }
+    } catch (error) {
+      console.error('Record subsection view error:', error);
+    }
+  },
+
+  setSubsectionCompleted: async (courseId: string, subsectionId: string, completed: boolean) => {
+    set({ error: null });
+    try {
+      const response = await axios.put(
+        `${API_BASE_URL}/courses/${courseId}/progress/${subsectionId}`,
+        { completed }
+      );
+
+      if (response.data.success && response.data.data) {
+        set(state => ({
+          courseProgress: { ...state.courseProgress, [courseId]: response.data.data }
+        }));
+      }
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to update progress');
+      set({ error: errorMessage });
+      console.error('Update subsection progress error:', error);
+      throw error;
+    }
+  },
+}));
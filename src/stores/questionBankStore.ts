@@ -0,0 +1,117 @@
+// src/stores/questionBankStore.ts
+import { create } from 'zustand';
+import axios from 'axios';
+import { Difficulty, QuizQuestion } from './quizStore';
+import { getApiErrorMessage } from '../lib/utils';
+
+export interface BankQuestion extends QuizQuestion {
+  _id: string;
+  course: string;
+  tags: string[];
+  difficulty: Difficulty;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type BankQuestionData = QuizQuestion & {
+  tags: string[];
+  difficulty: Difficulty;
+};
+
+interface QuestionBankState {
+  // Questions of the course last fetched, newest first
+  questions: BankQuestion[];
+  courseId: string | null;
+  isLoading: boolean;
+  error: string | null;
+
+  fetchQuestions: (courseId: string) => Promise<void>;
+  createQuestion: (courseId: string, data: BankQuestionData) => Promise<BankQuestion>;
+  updateQuestion: (id: string, data: BankQuestionData) => Promise<BankQuestion>;
+  deleteQuestion: (id: string) => Promise<void>;
+
+  // Utility functions
+  getTags: () => string[];
+  clearError: () => void;
+}
+
+// Set base URL for API
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api/v1';
+
+export const useQuestionBankStore = create<QuestionBankState>((set, get) => ({
+  questions: [],
+  courseId: null,
+  isLoading: false,
+  error: null,
+
+  clearError: () => set({ error: null }),
+
+  // Every tag used in the bank, for rule and filter pickers
+  getTags: () => {
+    const tags = new Set<string>();
+    get().questions.forEach(question => question.tags.forEach(tag => tags.add(tag)));
+    return Array.from(tags).sort();
+  },
+
+  fetchQuestions: async (courseId: string) => {
+    if (!courseId) return;
+
+    set({ isLoading: true, error: null });
+    try {
+      const response = await axios.get(`${API_BASE_URL}/courses/${courseId}/question-bank`);
+      set({ questions: response.data.data || [], courseId, isLoading: false });
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to fetch question bank');
+      set({ error: errorMessage, isLoading: false, questions: [], courseId });
+      console.error('Fetch question bank error:', error);
+    }
+  },
+
+  createQuestion: async (courseId: string, data: BankQuestionData) => {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/courses/${courseId}/question-bank`, data);
+      const question: BankQuestion = response.data.data;
+
+      set(state => ({ questions: [question, ...state.questions], error: null }));
+      return question;
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to add question');
+      set({ error: errorMessage });
+      console.error('Create bank question error:', error);
+      throw error;
+    }
+  },
+
+  updateQuestion: async (id: string, data: BankQuestionData) => {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/question-bank/${id}`, data);
+      const question: BankQuestion = response.data.data;
+
+      set(state => ({
+        questions: state.questions.map(q => q._id === id ? question : q),
+        error: null
+      }));
+      return question;
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to update question');
+      set({ error: errorMessage });
+      console.error('Update bank question error:', error);
+      throw error;
+    }
+  },
+
+  deleteQuestion: async (id: string) => {
+    try {
+      await axios.delete(`${API_BASE_URL}/question-bank/${id}`);
+      set(state => ({
+        questions: state.questions.filter(q => q._id !== id),
+        error: null
+      }));
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to delete question');
+      set({ error: errorMessage });
+      console.error('Delete bank question error:', error);
+      throw error;
+    }
+  },
+}));
@@ -1,18 +1,127 @@
 // src/stores/quizStore.ts - FIXED VERSION
 import { create } from 'zustand';
 import axios from 'axios';
+import { getApiErrorMessage } from '../lib/utils';
 
 interface QuizOption {
   _id?: string;
   text: string;
-  isCorrect: boolean;
+  isCorrect?: boolean; // left out of the questions students receive
+  feedback?: string; // shown after submission to students who chose it
 }
 
-interface QuizQuestion {
+export type QuestionType =
+  | 'single'
+  | 'multiple'
+  | 'true_false'
+  | 'short_answer'
+  | 'numeric'
+  | 'matching'
+  | 'ordering'
+  | 'essay';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: 'Single Choice',
+  multiple: 'Multiple Choice',
+  true_false: 'True / False',
+  short_answer: 'Short Answer',
+  numeric: 'Numeric',
+  matching: 'Matching',
+  ordering: 'Ordering',
+  essay: 'Essay'
+};
+
+// Question types whose answer key is the correct options
+const CHOICE_QUESTION_TYPES: QuestionType[] = ['single', 'multiple', 'true_false'];
+
+export interface QuizMatchPair {
   _id?: string;
+  prompt: string;
+  match?: string; // left out of the questions students receive
+}
+
+// An answer a student can pick for a matching question, under an id that doesn't reveal its pair
+export interface QuizMatchChoice {
+  _id: string;
   text: string;
+}
+
+export interface QuizQuestion {
+  _id?: string;
+  text: string;
+  // For ordering questions, the items in their correct order
   options: QuizOption[];
-  type: 'single' | 'multiple';
+  type: QuestionType;
+  acceptedAnswers?: string[]; // short_answer
+  numericAnswer?: number; // numeric
+  tolerance?: number; // numeric
+  pairs?: QuizMatchPair[]; // matching
+  matchChoices?: QuizMatchChoice[]; // matching, as served to students
+  rubric?: string; // essay: guidance for manual grading
+  points?: number; // defaults to 1
+  partialCredit?: boolean; // multiple
+  penalty?: number; // single and true_false: deducted for a wrong answer
+  explanation?: string; // why the answer is right, for students reviewing results
+}
+
+export type GradingPolicy = 'highest' | 'latest' | 'average';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard'
+};
+
+// Draws `count` random question bank questions matching the tag and/or difficulty
+export interface QuestionRule {
+  _id?: string;
+  tag?: string;
+  difficulty?: Difficulty;
+  count: number;
+}
+
+interface QuizSettings {
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  showResults: boolean;
+  allowRetake: boolean;
+  maxAttempts: number; // 0 = unlimited
+  retakeCooldown: number; // minutes
+  gradingPolicy: GradingPolicy;
+  requireFullscreen: boolean; // leaving fullscreen is recorded on the attempt
+  // Faculty only; students get requiresPassword and networkRestricted on the quiz instead
+  accessPassword?: string; // '' = none
+  allowedNetworks?: string[]; // CIDR ranges, [] = anywhere
+}
+
+// Whether students can take a quiz right now; "late" accepts attempts under the late rules
+export type QuizAvailability = 'upcoming' | 'open' | 'late' | 'closed';
+
+interface LateSubmissionRules {
+  allowed: boolean;
+  until: string | null; // null accepts late attempts indefinitely
+  penalty: number; // percentage deducted from late scores
+}
+
+// Work out a quiz's availability at the given time, the same way the server does
+export const getQuizAvailability = (
+  quiz: { availableFrom?: string | null; availableUntil?: string | null; lateSubmission?: LateSubmissionRules },
+  now = Date.now()
+): QuizAvailability => {
+  if (quiz.availableFrom && now < new Date(quiz.availableFrom).getTime()) return 'upcoming';
+  if (!quiz.availableUntil || now <= new Date(quiz.availableUntil).getTime()) return 'open';
+  if (!quiz.lateSubmission?.allowed) return 'closed';
+
+  const lateUntil = quiz.lateSubmission.until;
+  return !lateUntil || now <= new Date(lateUntil).getTime() ? 'late' : 'closed';
+};
+
+// A message for results scoring at least minScore percent, up to the next band
+export interface ScoreFeedbackBand {
+  minScore: number;
+  message: string;
 }
 
 interface Quiz {
@@ -24,12 +133,34 @@ interface Quiz {
     title: string;
   };
   questions: QuizQuestion[];
+  questionRules?: QuestionRule[];
+  questionCount?: number; // fixed questions plus those drawn by the rules
   timeLimit: number;
+  availableFrom?: string | null;
+  availableUntil?: string | null;
+  lateSubmission?: LateSubmissionRules;
+  passingScore?: number; // percentage needed to pass, 60 unless set
+  scoreFeedback?: ScoreFeedbackBand[];
+  availability?: QuizAvailability; // as of when the quiz was fetched
+  settings?: QuizSettings;
+  requiresPassword?: boolean; // students: the proctor's password is needed to start and submit
+  networkRestricted?: boolean; // students: only allowed networks may take the quiz
+  attemptLimit?: number;
+  totalScore?: number; // sum of question points
+  analytics?: QuizAnalytics;
   createdAt: string;
   updatedAt?: string;
 }
 
-interface QuizAttempt {
+// Aggregates over graded attempts, kept up to date by the server
+export interface QuizAnalytics {
+  totalAttempts: number;
+  averageScore: number; // percentages
+  highestScore: number;
+  lowestScore: number;
+}
+
+export interface QuizAttempt {
   _id: string;
   id: string;
   quiz: string | {
@@ -41,47 +172,310 @@ interface QuizAttempt {
     name: string;
     email: string;
   };
-  answers: Array<{
-    question: string;
-    selectedOptions: string[];
-  }>;
-  score: number;
+  questions?: QuizQuestion[]; // set when drawn from the question bank or shuffled for the attempt
+  answers: QuizAttemptAnswer[];
+  // Marking and answer keys per question; null until submitted or when the quiz hides results
+  results?: QuizQuestionResult[] | null;
+  score: number; // percentage of pointsPossible
+  pointsEarned?: number;
+  pointsPossible?: number;
+  attemptNumber: number;
+  status?: 'in_progress' | 'pending_review' | 'completed';
   startedAt: string;
+  deadline?: string;
   completedAt?: string;
+  isLate?: boolean;
+  latePenalty?: number; // percentage taken off the score
+  passed?: boolean | null; // null until fully graded
+  scoreFeedback?: string | null; // the quiz's message for the band the score falls in
+  scoreOverride?: ScoreOverride | null;
+  regradedAt?: string; // last re-scored against a corrected answer key
+  integrity?: IntegritySummary; // faculty only
+  integrityEvents?: IntegrityEvent[]; // faculty only, in attempt detail
+}
+
+// Browser signals recorded during an attempt, for faculty to judge
+export type IntegrityEventType = 'tab_hidden' | 'window_blur' | 'copy' | 'paste' | 'fullscreen_exit';
+
+export const INTEGRITY_EVENT_LABELS: Record<IntegrityEventType, string> = {
+  tab_hidden: 'Left the tab',
+  window_blur: 'Left the window',
+  copy: 'Copied text',
+  paste: 'Pasted text',
+  fullscreen_exit: 'Left fullscreen'
+};
+
+export interface IntegrityEvent {
+  type: IntegrityEventType;
+  at: string;
+  question?: string; // the question the student was on
+}
+
+export interface IntegritySummary {
+  total: number;
+  counts: Record<IntegrityEventType, number>;
+}
+
+// A score set by faculty in place of the graded one, which score holds while it stands
+export interface ScoreOverride {
+  score: number;
+  gradedScore: number;
+  reason: string;
+  overriddenBy?: string | { _id: string; name: string };
+  overriddenAt: string;
+}
+
+// A finished attempt as faculty review it, with the questions it was graded against
+export interface QuizAttemptDetail extends QuizAttempt {
+  questions: QuizQuestion[];
+}
+
+// An attempt the student has started but not yet submitted
+interface ActiveQuizAttempt {
+  _id: string;
+  attemptNumber: number;
+  startedAt: string;
+  deadline: string;
+  remainingSeconds: number; // as computed by the server
+  questions?: QuizQuestion[]; // set when drawn from the question bank or shuffled for the attempt
+  answers: QuizAnswerData[]; // autosaved so far
+  locked: boolean; // questions and answers come back only by starting again with the password
+}
+
+interface QuizAttemptSession {
+  attempt: QuizAttempt;
+  remainingSeconds: number;
+  resumed: boolean;
+}
+
+interface QuizAttemptHistory {
+  attempts: QuizAttempt[]; // newest first
+  gradingPolicy: GradingPolicy;
+  countedScore: number | null;
+  attemptLimit: number; // 0 = unlimited
+  attemptsUsed: number;
+  attemptsRemaining: number | null;
+  nextAttemptAvailableAt: string | null;
+  canAttempt: boolean;
+  activeAttempt: ActiveQuizAttempt | null;
 }
 
 interface QuizStats {
   totalAttempts: number;
+  totalPoints: number;
+  averagePoints: number;
   averageScore: number;
   highestScore: number;
   lowestScore: number;
-  passRate: number;
+  passingScore: number;
+  passedCount: number;
+  passRate: number; // percentage of attempts that passed
   scoreDistribution: {
     excellent: number; // 90-100%
     good: number;      // 80-89%
     average: number;   // 70-79%
     poor: number;      // below 70%
   };
+  questionStats: QuestionStats[];
+}
+
+interface QuestionStats {
+  question: string;
+  text: string;
+  type: QuestionType;
+  points: number;
+  timesServed: number; // attempts that received the question
+  timesCorrect: number;
+  timesSkipped: number; // attempts that left it unanswered
+  correctRate: number; // percentage
+  averagePoints: number;
+  // Share correct in the top 27% of attempts minus the bottom 27%, from -1 to 1; null with too few attempts
+  discrimination: number | null;
+  averageTime: number | null; // seconds, null until time has been recorded
+  options: QuestionOptionStats[]; // choice questions
+  responses: QuestionResponseStats[]; // short_answer and numeric: the most common responses
+}
+
+interface QuestionOptionStats {
+  option: string;
+  text: string;
+  isCorrect: boolean;
+  count: number;
+  rate: number; // percentage of attempts that picked it
+}
+
+interface QuestionResponseStats {
+  response: string;
+  isCorrect: boolean;
+  count: number;
+}
+
+// How a regrade changes one attempt; overridden attempts keep their score
+export interface RegradeChange {
+  attemptId: string;
+  attemptNumber: number;
+  student: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  previousScore: number;
+  newScore: number;
+  previousPoints: number;
+  newPoints: number;
+  pointsPossible: number;
+  previousPassed: boolean | null;
+  passed: boolean | null;
+  overridden: boolean;
+  gradedScore: number;
+}
+
+export interface QuizRegradeReport {
+  dryRun: boolean;
+  attemptsChecked: number;
+  attemptsChanged: number;
+  changes: RegradeChange[];
+}
+
+export interface GradingQueueItem {
+  attemptId: string;
+  attemptNumber: number;
+  student: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  completedAt: string;
+  questionId: string;
+  questionText: string;
+  rubric: string;
+  points: number;
+  textAnswer: string;
+}
+
+// File formats quizzes can be imported from and exported to
+export type QuizFileFormat = 'gift' | 'moodle_xml' | 'qti';
+
+export const QUIZ_FILE_FORMAT_LABELS: Record<QuizFileFormat, string> = {
+  gift: 'GIFT',
+  moodle_xml: 'Moodle XML',
+  qti: 'QTI 2.1'
+};
+
+// How one question of an import file was read
+export interface QuizImportReportItem {
+  label: string;
+  type: QuestionType | null;
+  text: string | null;
+  status: 'ok' | 'warning' | 'error'; // questions with errors are left out
+  messages: string[];
+}
+
+export interface QuizImportPreview {
+  format: QuizFileFormat;
+  title: string;
+  questionCount: number;
+  skippedCount: number;
+  report: QuizImportReportItem[];
+}
+
+// Questions read from a CSV spreadsheet, to review in the quiz editor before saving.
+// Report labels name the line of the file each row starts on.
+export interface QuizSpreadsheetDraft {
+  title: string;
+  questionCount: number;
+  skippedCount: number;
+  report: QuizImportReportItem[];
+  questions: QuizQuestion[];
+}
+
+// Per-student adjustments to one quiz, managed by faculty
+export interface QuizAccommodation {
+  _id: string;
+  quiz: string;
+  student: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  timeMultiplier: number; // e.g. 1.5 for time and a half
+  availableFrom: string | null; // unset dates fall back to the quiz's
+  availableUntil: string | null;
+  extraAttempts: number;
+  note?: string;
+  updatedAt: string;
+}
+
+export interface QuizAccommodationData {
+  timeMultiplier: number;
+  availableFrom: string | null;
+  availableUntil: string | null;
+  extraAttempts: number;
+  note: string;
 }
 
 interface CreateQuizData {
   title: string;
   course: string;
   questions: QuizQuestion[];
+  questionRules?: QuestionRule[];
   timeLimit: number;
+  availableFrom?: string | null;
+  availableUntil?: string | null;
+  lateSubmission?: Partial<LateSubmissionRules>;
+  passingScore?: number;
+  scoreFeedback?: ScoreFeedbackBand[];
+  settings?: Partial<QuizSettings>;
 }
 
 interface UpdateQuizData {
   title?: string;
   questions?: QuizQuestion[];
+  questionRules?: QuestionRule[];
   timeLimit?: number;
+  availableFrom?: string | null;
+  availableUntil?: string | null;
+  lateSubmission?: Partial<LateSubmissionRules>;
+  passingScore?: number;
+  scoreFeedback?: ScoreFeedbackBand[];
+  settings?: Partial<QuizSettings>;
+}
+
+export interface QuizAnswerData {
+  question: string;
+  selectedOptions: string[]; // ordering questions: option ids in the student's order
+  textAnswer?: string; // short_answer, numeric and essay questions
+  matches?: Array<{ prompt: string; answer: string }>; // matching questions
+  timeSpent?: number; // seconds spent on the question
+}
+
+// An answer as graded by the server
+export interface QuizAttemptAnswer extends QuizAnswerData {
+  isCorrect?: boolean;
+  pointsEarned?: number;
+  needsGrading?: boolean; // essay responses not yet graded
+  feedback?: string; // from the grader
+}
+
+// How one question of a submitted attempt was marked, with its answer key
+export interface QuizQuestionResult {
+  question: string;
+  isCorrect: boolean;
+  pointsEarned: number;
+  needsGrading: boolean; // essay responses not yet graded
+  feedback: string | null; // from the grader
+  explanation: string | null; // why the answer is right, written with the question
+  optionFeedback?: Array<{ option: string; feedback: string }>; // for the options the student chose
+  correctOptions?: string[]; // choice questions; ordering questions: the correct order
+  acceptedAnswers?: string[]; // short_answer
+  numericAnswer?: number; // numeric
+  tolerance?: number; // numeric
+  correctMatches?: Array<{ prompt: string; match: string }>; // matching
 }
 
 interface QuizAttemptData {
-  answers: Array<{
-    question: string;
-    selectedOptions: string[];
-  }>;
+  answers: QuizAnswerData[];
+  password?: string; // for quizzes that require one
 }
 
 interface QuizState {
@@ -89,7 +483,12 @@ interface QuizState {
   currentQuiz: Quiz | null;
   quizAttempts: QuizAttempt[];
   currentAttempt: QuizAttempt | null;
+  // Keyed by quiz id
+  attemptHistory: Record<string, QuizAttemptHistory>;
   quizStats: QuizStats | null;
+  gradingQueue: GradingQueueItem[];
+  // Of the quiz last fetched
+  accommodations: QuizAccommodation[];
   isLoading: boolean;
   error: string | null;
   
@@ -99,12 +498,49 @@ interface QuizState {
   createQuiz: (courseId: string, quizData: CreateQuizData) => Promise<Quiz>;
   updateQuiz: (id: string, quizData: UpdateQuizData) => Promise<void>;
   deleteQuiz: (id: string) => Promise<void>;
+
+  // Import and export
+  previewQuizImport: (courseId: string, file: File, format?: QuizFileFormat) => Promise<QuizImportPreview>;
+  importQuiz: (
+    courseId: string,
+    file: File,
+    options: { format?: QuizFileFormat; title: string; timeLimit: number }
+  ) => Promise<Quiz>;
+  exportQuiz: (quizId: string, format: QuizFileFormat) => Promise<{ skipped: number }>;
+  draftQuizFromSpreadsheet: (courseId: string, file: File) => Promise<QuizSpreadsheetDraft>;
+  downloadQuizSpreadsheetTemplate: (courseId: string) => Promise<void>;
   
   // Quiz attempt operations
+  startQuizAttempt: (quizId: string, password?: string) => Promise<QuizAttemptSession>;
+  saveQuizAnswer: (quizId: string, answer: QuizAnswerData, password?: string) => Promise<void>;
+  reportIntegrityEvents: (quizId: string, events: IntegrityEvent[], password?: string) => Promise<void>;
   submitQuizAttempt: (quizId: string, attemptData: QuizAttemptData) => Promise<QuizAttempt>;
   fetchQuizAttempts: (quizId: string) => Promise<void>;
-  fetchMyQuizAttempt: (quizId: string) => Promise<void>;
+  fetchMyQuizAttempts: (quizId: string) => Promise<QuizAttemptHistory | null>;
   fetchQuizStats: (quizId: string) => Promise<void>;
+
+  // Manual grading
+  fetchGradingQueue: (quizId: string) => Promise<void>;
+  gradeResponse: (
+    quizId: string,
+    item: GradingQueueItem,
+    grade: { points: number; feedback: string }
+  ) => Promise<void>;
+
+  // Attempt review and regrading
+  fetchAttemptDetail: (quizId: string, attemptId: string) => Promise<QuizAttemptDetail>;
+  regradeQuiz: (quizId: string, dryRun: boolean) => Promise<QuizRegradeReport>;
+  overrideAttemptScore: (
+    quizId: string,
+    attemptId: string,
+    override: { score: number; reason: string }
+  ) => Promise<QuizAttempt>;
+  removeScoreOverride: (quizId: string, attemptId: string) => Promise<QuizAttempt>;
+
+  // Student accommodations
+  fetchAccommodations: (quizId: string) => Promise<void>;
+  saveAccommodation: (quizId: string, studentId: string, data: QuizAccommodationData) => Promise<void>;
+  deleteAccommodation: (quizId: string, studentId: string) => Promise<void>;
   
   // Utility functions
   clearError: () => void;
@@ -138,15 +574,29 @@ const normalizeQuiz = (quiz: any): Quiz => {
 // Helper function to normalize quiz attempt data
 const normalizeQuizAttempt = (attempt: any): QuizAttempt => ({
   ...attempt,
-  id: attempt._id
+  id: attempt._id,
+  attemptNumber: attempt.attemptNumber || 1
 });
 
+// Save a downloaded file through the browser
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 export const useQuizStore = create<QuizState>((set, get) => ({
   quizzes: [],
   currentQuiz: null,
   quizAttempts: [],
   currentAttempt: null,
+  attemptHistory: {},
   quizStats: null,
+  gradingQueue: [],
+  accommodations: [],
   isLoading: false,
   error: null,
 
@@ -210,17 +660,24 @@ export const useQuizStore = create<QuizState>((set, get) => ({
       throw new Error('Quiz title is required');
     }
 
-    if (!quizData.questions || !Array.isArray(quizData.questions) || quizData.questions.length === 0) {
+    // Quizzes drawn from the question bank may have no fixed questions
+    const hasQuestionRules = (quizData.questionRules || []).length > 0;
+
+    if (!quizData.questions || !Array.isArray(quizData.questions) || (quizData.questions.length === 0 && !hasQuestionRules)) {
       throw new Error('At least one question is required');
     }
 
-    // Validate questions
+    // Validate questions; other question types' answer keys are checked by the server
     for (let i = 0; i < quizData.questions.length; i++) {
       const question = quizData.questions[i];
       
       if (!question.text?.trim()) {
         throw new Error(`Question ${i + 1} text is required`);
       }
+
+      if (!CHOICE_QUESTION_TYPES.includes(question.type)) {
+        continue;
+      }
       
       if (!question.options || !Array.isArray(question.options) || question.options.length < 2) {
         throw new Error(`Question ${i + 1} must have at least 2 options`);
@@ -284,7 +741,9 @@ export const useQuizStore = create<QuizState>((set, get) => ({
     }
 
     if (quizData.questions !== undefined) {
-      if (!Array.isArray(quizData.questions) || quizData.questions.length === 0) {
+      const hasQuestionRules = (quizData.questionRules || []).length > 0;
+
+      if (!Array.isArray(quizData.questions) || (quizData.questions.length === 0 && !hasQuestionRules)) {
         throw new Error('At least one question is required');
       }
       
@@ -295,6 +754,10 @@ export const useQuizStore = create<QuizState>((set, get) => ({
         if (!question.text?.trim()) {
           throw new Error(`Question ${i + 1} text is required`);
         }
+
+        if (!CHOICE_QUESTION_TYPES.includes(question.type)) {
+          continue;
+        }
         
         if (!question.options || !Array.isArray(question.options) || question.options.length < 2) {
           throw new Error(`Question ${i + 1} must have at least 2 options`);
@@ -366,6 +829,127 @@ export const useQuizStore = create<QuizState>((set, get) => ({
     }
   },
 
+  previewQuizImport: async (courseId, file, format) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('preview', 'true');
+    if (format) formData.append('format', format);
+
+    try {
+      const response = await axios.post(`${API_BASE_URL}/courses/${courseId}/quizzes/import`, formData);
+      return response.data.data;
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to read the import file');
+      console.error('Preview quiz import error:', error);
+      throw new Error(errorMessage);
+    }
+  },
+
+  importQuiz: async (courseId, file, options) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('title', options.title);
+    formData.append('timeLimit', String(options.timeLimit));
+    if (options.format) formData.append('format', options.format);
+
+    try {
+      const response = await axios.post(`${API_BASE_URL}/courses/${courseId}/quizzes/import`, formData);
+      const newQuiz = normalizeQuiz(response.data.data.quiz);
+
+      set(state => ({ quizzes: [newQuiz, ...state.quizzes], error: null }));
+      return newQuiz;
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to import quiz');
+      console.error('Import quiz error:', error);
+      throw new Error(errorMessage);
+    }
+  },
+
+  // Download the file through the browser, keeping the name the server gave it
+  exportQuiz: async (quizId, format) => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/quizzes/${quizId}/export`, {
+        params: { format },
+        responseType: 'blob'
+      });
+      const disposition: string = response.headers['content-disposition'] || '';
+      downloadBlob(response.data, /filename="([^"]+)"/.exec(disposition)?.[1] || `quiz-${format}`);
+
+      return { skipped: Number(response.headers['x-skipped-questions'] || 0) };
+    } catch (error) {
+      // Errors arrive as a blob too, since that is what was asked for
+      let errorMessage = 'Failed to export quiz';
+      if (axios.isAxiosError(error) && error.response?.data instanceof Blob) {
+        try {
+          errorMessage = JSON.parse(await error.response.data.text()).error || errorMessage;
+        } catch {
+          // Keep the generic message
+        }
+      }
+      console.error('Export quiz error:', error);
+      throw new Error(errorMessage);
+    }
+  },
+
+  draftQuizFromSpreadsheet: async (courseId, file) => {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    try {
+      const response = await axios.post(`${API_BASE_URL}/courses/${courseId}/quizzes/spreadsheet`, formData);
+      return response.data.data;
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to read the spreadsheet');
+      console.error('Quiz spreadsheet error:', error);
+      throw new Error(errorMessage);
+    }
+  },
+
+  downloadQuizSpreadsheetTemplate: async (courseId) => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/courses/${courseId}/quizzes/spreadsheet/template`, {
+        responseType: 'blob'
+      });
+      downloadBlob(response.data, 'quiz-questions-template.csv');
+    } catch (error) {
+      console.error('Quiz spreadsheet template error:', error);
+      throw new Error('Failed to download the template');
+    }
+  },
+
+  startQuizAttempt: async (quizId: string, password?: string) => {
+    if (!quizId) {
+      throw new Error('Quiz ID is required');
+    }
+
+    try {
+      const response = await axios.post(`${API_BASE_URL}/quizzes/${quizId}/start`, { password });
+      
+      if (response.data.success && response.data.data) {
+        return {
+          ...response.data.data,
+          attempt: normalizeQuizAttempt(response.data.data.attempt)
+        };
+      } else {
+        throw new Error('Invalid response format');
+      }
+    } catch (error) {
+      // Left to the quiz page to report, so a refused start doesn't hide the quiz
+      console.error('Start quiz attempt error:', error);
+      throw error;
+    }
+  },
+
+  saveQuizAnswer: async (quizId: string, answer: QuizAnswerData, password?: string) => {
+    // Autosave runs in the background; failures are reported by the quiz page
+    await axios.put(`${API_BASE_URL}/quizzes/${quizId}/attempt/answers`, { ...answer, password });
+  },
+
+  reportIntegrityEvents: async (quizId: string, events: IntegrityEvent[], password?: string) => {
+    // Sent in the background like autosaves; the quiz page keeps events that fail to send
+    await axios.post(`${API_BASE_URL}/quizzes/${quizId}/attempt/events`, { events, password });
+  },
+
   submitQuizAttempt: async (quizId: string, attemptData: QuizAttemptData) => {
     if (!quizId) {
       throw new Error('Quiz ID is required');
@@ -423,42 +1007,37 @@ export const useQuizStore = create<QuizState>((set, get) => ({
     }
   },
 
-  fetchMyQuizAttempt: async (quizId: string) => {
+  fetchMyQuizAttempts: async (quizId: string) => {
     if (!quizId) {
-      console.log('Quiz ID is required for fetchMyQuizAttempt');
-      return;
+      set({ error: 'Quiz ID is required' });
+      return null;
     }
 
     // Don't set loading state for individual quiz attempt checks
-    // set({ isLoading: true, error: null });
-    
     try {
-      const response = await axios.get(`${API_BASE_URL}/quizzes/${quizId}/my-attempt`);
+      const response = await axios.get(`${API_BASE_URL}/quizzes/${quizId}/my-attempts`);
       
       if (response.data.success && response.data.data) {
-        const attempt = normalizeQuizAttempt(response.data.data);
-        set({ currentAttempt: attempt, error: null });
-        console.log('Found quiz attempt:', attempt);
-        return attempt;
-      } else {
-        set({ currentAttempt: null, error: null });
-        console.log('No quiz attempt found for quiz:', quizId);
-        return null;
+        const history: QuizAttemptHistory = {
+          activeAttempt: null,
+          ...response.data.data,
+          attempts: (response.data.data.attempts || []).map(normalizeQuizAttempt)
+        };
+
+        set(state => ({
+          attemptHistory: { ...state.attemptHistory, [quizId]: history },
+          currentAttempt: history.attempts[0] || null,
+          error: null
+        }));
+        return history;
       }
+
+      return null;
     } catch (error: any) {
-      // 404 is expected if user hasn't attempted the quiz yet
-      if (error.response?.status === 404) {
-        set({ currentAttempt: null, error: null });
-        console.log('No attempt found for quiz (404):', quizId);
-        return null;
-      } else {
-        console.error('Error fetching quiz attempt:', error);
-        // Don't set a global error for individual quiz attempt failures
-        // const errorMessage = error.response?.data?.error || 'Failed to fetch your quiz attempt';
-        // set({ error: errorMessage });
-        set({ currentAttempt: null });
-        return null;
-      }
+      // Don't set a global error for individual quiz attempt failures
+      console.error('Error fetching quiz attempts:', error);
+      set({ currentAttempt: null });
+      return null;
     }
   },
 
@@ -484,4 +1063,148 @@ export const useQuizStore = create<QuizState>((set, get) => ({
       console.error('Fetch quiz stats error:', error);
     }
   },
+
+  fetchGradingQueue: async (quizId: string) => {
+    if (!quizId) {
+      set({ error: 'Quiz ID is required', isLoading: false });
+      return;
+    }
+
+    set({ isLoading: true, error: null });
+    try {
+      const response = await axios.get(`${API_BASE_URL}/quizzes/${quizId}/grading-queue`);
+      set({ gradingQueue: response.data.data || [], isLoading: false });
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to fetch grading queue');
+      set({ error: errorMessage, isLoading: false, gradingQueue: [] });
+      console.error('Fetch grading queue error:', error);
+    }
+  },
+
+  gradeResponse: async (quizId, item, grade) => {
+    try {
+      await axios.put(
+        `${API_BASE_URL}/quizzes/${quizId}/attempts/${item.attemptId}/answers/${item.questionId}/grade`,
+        grade
+      );
+
+      // Graded responses leave the queue
+      set(state => ({
+        gradingQueue: state.gradingQueue.filter(
+          entry => entry.attemptId !== item.attemptId || entry.questionId !== item.questionId
+        )
+      }));
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to save grade');
+      console.error('Grade response error:', error);
+      throw new Error(errorMessage);
+    }
+  },
+
+  fetchAttemptDetail: async (quizId, attemptId) => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/quizzes/${quizId}/attempts/${attemptId}`);
+      return normalizeQuizAttempt(response.data.data) as QuizAttemptDetail;
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to fetch quiz attempt');
+      console.error('Fetch attempt detail error:', error);
+      throw new Error(errorMessage);
+    }
+  },
+
+  regradeQuiz: async (quizId, dryRun) => {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/quizzes/${quizId}/regrade`, { dryRun });
+
+      // Pick up the new scores once the regrade is applied
+      if (!dryRun) {
+        await get().fetchQuizAttempts(quizId);
+      }
+      return response.data.data;
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to regrade quiz');
+      console.error('Regrade quiz error:', error);
+      throw new Error(errorMessage);
+    }
+  },
+
+  overrideAttemptScore: async (quizId, attemptId, override) => {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/quizzes/${quizId}/attempts/${attemptId}/score`, override);
+      const attempt = normalizeQuizAttempt(response.data.data);
+      set(state => ({
+        quizAttempts: state.quizAttempts.map(entry =>
+          entry._id === attemptId ? { ...entry, ...attempt, student: entry.student, quiz: entry.quiz } : entry)
+      }));
+      return attempt;
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to override score');
+      console.error('Override attempt score error:', error);
+      throw new Error(errorMessage);
+    }
+  },
+
+  removeScoreOverride: async (quizId, attemptId) => {
+    try {
+      const response = await axios.delete(`${API_BASE_URL}/quizzes/${quizId}/attempts/${attemptId}/score`);
+      const attempt = normalizeQuizAttempt(response.data.data);
+      set(state => ({
+        quizAttempts: state.quizAttempts.map(entry =>
+          entry._id === attemptId ? { ...entry, ...attempt, student: entry.student, quiz: entry.quiz } : entry)
+      }));
+      return attempt;
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to remove score override');
+      console.error('Remove score override error:', error);
+      throw new Error(errorMessage);
+    }
+  },
+
+  fetchAccommodations: async (quizId: string) => {
+    if (!quizId) {
+      set({ error: 'Quiz ID is required' });
+      return;
+    }
+
+    // Loaded alongside the quiz list, so the list's loading state is left alone
+    set({ accommodations: [], error: null });
+    try {
+      const response = await axios.get(`${API_BASE_URL}/quizzes/${quizId}/accommodations`);
+      set({ accommodations: response.data.data || [] });
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to fetch accommodations');
+      set({ error: errorMessage, accommodations: [] });
+      console.error('Fetch accommodations error:', error);
+    }
+  },
+
+  saveAccommodation: async (quizId, studentId, data) => {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/quizzes/${quizId}/accommodations/${studentId}`, data);
+      const accommodation: QuizAccommodation = response.data.data;
+
+      set(state => ({
+        accommodations: state.accommodations.some(entry => entry.student._id === studentId)
+          ? state.accommodations.map(entry => entry.student._id === studentId ? accommodation : entry)
+          : [...state.accommodations, accommodation]
+      }));
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to save accommodation');
+      console.error('Save accommodation error:', error);
+      throw new Error(errorMessage);
+    }
+  },
+
+  deleteAccommodation: async (quizId, studentId) => {
+    try {
+      await axios.delete(`${API_BASE_URL}/quizzes/${quizId}/accommodations/${studentId}`);
+      set(state => ({
+        accommodations: state.accommodations.filter(entry => entry.student._id !== studentId)
+      }));
+    } catch (error) {
+      const errorMessage = getApiErrorMessage(error, 'Failed to remove accommodation');
+      console.error('Delete accommodation error:', error);
+      throw new Error(errorMessage);
+    }
+  },
 }));
\ No newline at end of file
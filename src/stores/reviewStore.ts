@@ -0,0 +1,97 @@
+// src/stores/reviewStore.ts
+import { create } from 'zustand';
+import axios from 'axios';
+import { getApiErrorMessage } from '../lib/utils';
+
+export interface CourseReview {
+  _id: string;
+  course: string;
+  student: {
+    _id: string;
+    name: string;
+  } | null;
+  rating: number;
+  body: string;
+  // The course owner's answer, if they gave one
+  reply: {
+    body: string;
+    author?: {
+      _id: string;
+      name: string;
+    } | null;
+    repliedAt: string;
+  } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RatingSummary {
+  averageRating: number;
+  totalRatings: number;
+  // Number of reviews per star, keyed 1 to 5
+  distribution: Record<number, number>;
+}
+
+export interface CourseReviews {
+  reviews: CourseReview[];
+  summary: RatingSummary;
+  myReview: CourseReview | null;
+  canReview: boolean;
+}
+
+interface ReviewState {
+  // Reviews live with the component showing them; these actions throw on failure
+  fetchReviews: (courseId: string) => Promise<CourseReviews>;
+  saveMyReview: (courseId: string, rating: number, body: string) => Promise<CourseReview>;
+  replyToReview: (courseId: string, reviewId: string, body: string) => Promise<CourseReview>;
+  deleteReview: (courseId: string, reviewId: string) => Promise<void>;
+}
+
+// Set base URL for API
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api/v1';
+
+export const useReviewStore = create<ReviewState>(() => ({
+  fetchReviews: async (courseId: string) => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/courses/${courseId}/reviews`);
+      return {
+        reviews: response.data.data || [],
+        summary: response.data.summary,
+        myReview: response.data.myReview || null,
+        canReview: Boolean(response.data.canReview)
+      };
+    } catch (error) {
+      console.error('Fetch reviews error:', error);
+      throw new Error(getApiErrorMessage(error, 'Failed to load reviews'));
+    }
+  },
+
+  saveMyReview: async (courseId: string, rating: number, body: string) => {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/courses/${courseId}/reviews/me`, { rating, body });
+      return response.data.data;
+    } catch (error) {
+      console.error('Save review error:', error);
+      throw new Error(getApiErrorMessage(error, 'Failed to save review'));
+    }
+  },
+
+  replyToReview: async (courseId: string, reviewId: string, body: string) => {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/courses/${courseId}/reviews/${reviewId}/reply`, { body });
+      return response.data.data;
+    } catch (error) {
+      console.error('Reply to review error:', error);
+      throw new Error(getApiErrorMessage(error, 'Failed to save reply'));
+    }
+  },
+
+  deleteReview: async (courseId: string, reviewId: string) => {
+    try {
+      await axios.delete(`${API_BASE_URL}/courses/${courseId}/reviews/${reviewId}`);
+    } catch (error) {
+      console.error('Delete review error:', error);
+      throw new Error(getApiErrorMessage(error, 'Failed to delete review'));
+    }
+  }
+}));
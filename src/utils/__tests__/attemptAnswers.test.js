@@ -0,0 +1,84 @@
+import { hasResponse, mergeSubmittedAnswers } from '../attemptAnswers.js';
+
+const saved = (question, fields) => ({
+  question,
+  selectedOptions: [],
+  textAnswer: null,
+  matches: [],
+  timeSpent: 30,
+  ...fields
+});
+
+describe('hasResponse', () => {
+  it('is false for blank answers', () => {
+    expect(hasResponse({ selectedOptions: [], textAnswer: '   ', matches: [] })).toBe(false);
+    expect(hasResponse(null)).toBe(false);
+  });
+
+  it('is true for an option, text or a match', () => {
+    expect(hasResponse({ selectedOptions: ['a'] })).toBe(true);
+    expect(hasResponse({ textAnswer: '42' })).toBe(true);
+    expect(hasResponse({ matches: [{ prompt: 'p', answer: 'a' }] })).toBe(true);
+  });
+});
+
+describe('mergeSubmittedAnswers', () => {
+  it('keeps autosaved answers when a timeout submit carries no answers', () => {
+    const merged = mergeSubmittedAnswers(
+      [saved('q1', { selectedOptions: ['b'] }), saved('q2', { textAnswer: 'photosynthesis' })],
+      []
+    );
+
+    expect(merged).toEqual([
+      expect.objectContaining({ question: 'q1', selectedOptions: ['b'] }),
+      expect.objectContaining({ question: 'q2', textAnswer: 'photosynthesis' })
+    ]);
+  });
+
+  it('keeps the autosaved answer to a question the submission leaves out', () => {
+    const merged = mergeSubmittedAnswers(
+      [saved('q1', { selectedOptions: ['b'] }), saved('q2', { textAnswer: 'photosynthesis' })],
+      [{ question: 'q1', selectedOptions: ['c'] }]
+    );
+
+    expect(merged).toEqual([
+      expect.objectContaining({ question: 'q1', selectedOptions: ['c'] }),
+      expect.objectContaining({ question: 'q2', textAnswer: 'photosynthesis' })
+    ]);
+  });
+
+  it('treats a blank submitted answer as cleared', () => {
+    const [answer] = mergeSubmittedAnswers(
+      [saved('q1', { selectedOptions: ['b'] })],
+      [{ question: 'q1', selectedOptions: [], textAnswer: '', matches: [] }]
+    );
+
+    expect(answer.selectedOptions).toEqual([]);
+    expect(hasResponse(answer)).toBe(false);
+  });
+
+  it('lets a submitted answer replace the saved one', () => {
+    const [answer] = mergeSubmittedAnswers(
+      [saved('q1', { selectedOptions: ['b'] })],
+      [{ question: 'q1', selectedOptions: ['c'], timeSpent: 45 }]
+    );
+
+    expect(answer.selectedOptions).toEqual(['c']);
+    expect(answer.timeSpent).toBe(45);
+  });
+
+  it('keeps the recorded time when the submission has none', () => {
+    const [answer] = mergeSubmittedAnswers(
+      [saved('q1', { selectedOptions: ['b'], timeSpent: 12 })],
+      [{ question: 'q1', selectedOptions: ['c'] }]
+    );
+
+    expect(answer.timeSpent).toBe(12);
+  });
+
+  it('adds answers to questions that had nothing saved, even blank ones', () => {
+    const merged = mergeSubmittedAnswers([], [{ question: 'q3', textAnswer: '' }]);
+
+    expect(merged).toEqual([expect.objectContaining({ question: 'q3', textAnswer: '' })]);
+  });
+});
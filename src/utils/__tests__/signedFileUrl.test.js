@@ -0,0 +1,76 @@
+import { jest } from '@jest/globals';
+import { signFileUrl, toStoredFileUrl, verifyFileSignature } from '../signedFileUrl.js';
+
+const userId = '64b000000000000000000001';
+const storedUrl = 'http://localhost:5000/uploads/file-123.pdf';
+
+// The parts of a signed link that the file route checks
+const readLink = (url) => {
+  const { pathname, searchParams } = new URL(url);
+  return {
+    filename: pathname.split('/').pop(),
+    user: searchParams.get('user'),
+    expires: searchParams.get('expires'),
+    signature: searchParams.get('signature')
+  };
+};
+
+const verify = ({ filename, user, expires, signature }) =>
+  verifyFileSignature(filename, user, expires, signature);
+
+describe('signed file links', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env, FILE_URL_SECRET: 'test-secret', FILE_URL_EXPIRE_MINUTES: '60' };
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.useRealTimers();
+  });
+
+  it('signs upload URLs and verifies them', () => {
+    const url = signFileUrl(storedUrl, userId);
+
+    expect(url).toMatch(/^http:\/\/localhost:5000\/api\/v1\/files\/file-123\.pdf\?/);
+    expect(verify(readLink(url))).toBe(true);
+  });
+
+  it('leaves other URLs alone', () => {
+    expect(signFileUrl('https://www.youtube.com/watch?v=abc', userId)).toBe('https://www.youtube.com/watch?v=abc');
+  });
+
+  it('turns signed links back into stored URLs', () => {
+    expect(toStoredFileUrl(signFileUrl(storedUrl, userId))).toBe(storedUrl);
+  });
+
+  it('rejects links once they expire', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T10:00:00Z') });
+    const link = readLink(signFileUrl(storedUrl, userId));
+
+    jest.setSystemTime(Number(link.expires) * 1000 - 1000);
+    expect(verify(link)).toBe(true);
+
+    jest.setSystemTime(Number(link.expires) * 1000 + 1000);
+    expect(verify(link)).toBe(false);
+  });
+
+  it('rejects links that were tampered with', () => {
+    const link = readLink(signFileUrl(storedUrl, userId));
+
+    expect(verify({ ...link, filename: 'file-456.pdf' })).toBe(false);
+    expect(verify({ ...link, user: '64b000000000000000000002' })).toBe(false);
+    expect(verify({ ...link, expires: String(Number(link.expires) + 3600) })).toBe(false);
+    expect(verify({ ...link, signature: link.signature.replace(/.$/, c => (c === '0' ? '1' : '0')) })).toBe(false);
+    expect(verify({ ...link, signature: 'abc' })).toBe(false);
+    expect(verify({ ...link, signature: null })).toBe(false);
+  });
+
+  it('rejects links signed with another secret', () => {
+    const link = readLink(signFileUrl(storedUrl, userId));
+    process.env.FILE_URL_SECRET = 'rotated-secret';
+
+    expect(verify(link)).toBe(false);
+  });
+});
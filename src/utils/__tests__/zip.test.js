@@ -0,0 +1,76 @@
+import zlib from 'zlib';
+import { createZip, isZip, readZip } from '../zip.js';
+
+// A one-file archive holding deflated data, declaring whatever uncompressed size it is given
+const deflatedZip = (name, content, declaredSize = content.length) => {
+  const nameBuffer = Buffer.from(name, 'utf8');
+  const compressed = zlib.deflateRawSync(content);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(compressed.length, 18);
+  local.writeUInt32LE(declaredSize, 22);
+  local.writeUInt16LE(nameBuffer.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(compressed.length, 20);
+  central.writeUInt32LE(declaredSize, 24);
+  central.writeUInt16LE(nameBuffer.length, 28);
+
+  const centralOffset = local.length + nameBuffer.length + compressed.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + nameBuffer.length, 12);
+  end.writeUInt32LE(centralOffset, 16);
+
+  return Buffer.concat([local, nameBuffer, compressed, central, nameBuffer, end]);
+};
+
+describe('readZip', () => {
+  it('reads back the entries createZip wrote', () => {
+    const archive = createZip([
+      { name: 'imsmanifest.xml', data: '<manifest/>' },
+      { name: 'items/q1.xml', data: Buffer.from('<item/>') }
+    ]);
+
+    expect(isZip(archive)).toBe(true);
+    expect(readZip(archive).map(entry => [entry.name, entry.data.toString('utf8')])).toEqual([
+      ['imsmanifest.xml', '<manifest/>'],
+      ['items/q1.xml', '<item/>']
+    ]);
+  });
+
+  it('inflates deflated entries', () => {
+    const content = Buffer.from('<item>'.repeat(100));
+    const [entry] = readZip(deflatedZip('q1.xml', content));
+
+    expect(entry.data.equals(content)).toBe(true);
+  });
+
+  it('refuses archives declaring more than the size limit', () => {
+    const archive = deflatedZip('bomb.xml', Buffer.alloc(2048));
+
+    expect(() => readZip(archive, { maxUncompressedBytes: 1024 })).toThrow(/expands to more than/);
+  });
+
+  it('stops inflating an entry that is larger than it declares', () => {
+    const archive = deflatedZip('bomb.xml', Buffer.alloc(1024 * 1024), 100);
+
+    expect(() => readZip(archive)).toThrow(/larger than it claims/);
+  });
+
+  it('refuses archives with too many entries', () => {
+    const archive = createZip(Array.from({ length: 5 }, (_, i) => ({ name: `q${i}.xml`, data: '' })));
+
+    expect(() => readZip(archive, { maxEntries: 4 })).toThrow(/more than 4 files/);
+  });
+
+  it('rejects files that are not ZIP archives', () => {
+    expect(() => readZip(Buffer.from('not a zip file at all, just some text'))).toThrow(/not a valid ZIP/);
+  });
+});
@@ -0,0 +1,38 @@
+// src/utils/attemptAnswers.js
+
+// Reduce an answer from a request to the fields stored on an attempt
+export const toStoredAnswer = (answer) => ({
+  question: answer.question,
+  selectedOptions: answer.selectedOptions || [],
+  textAnswer: answer.textAnswer !== undefined && answer.textAnswer !== null
+    ? String(answer.textAnswer)
+    : null,
+  matches: (answer.matches || []).map(entry => ({ prompt: entry.prompt, answer: entry.answer })),
+  timeSpent: typeof answer.timeSpent === 'number' ? Math.round(answer.timeSpent) : null
+});
+
+// Whether the student actually gave an answer: an option, some text or a match
+export const hasResponse = (answer) => Boolean(answer) && (
+  (answer.selectedOptions && answer.selectedOptions.length > 0) ||
+  (answer.textAnswer !== undefined && answer.textAnswer !== null && String(answer.textAnswer).trim() !== '') ||
+  (answer.matches && answer.matches.length > 0)
+);
+
+// Combine the answers autosaved on an attempt with those sent when submitting it. The
+// submission wins for every question it includes, so an answer the student cleared is graded
+// as unanswered; questions it leaves out keep their autosaved answer.
+export const mergeSubmittedAnswers = (savedAnswers, submittedAnswers) => {
+  const answersByQuestion = new Map(
+    savedAnswers.map(answer => [answer.question.toString(), toStoredAnswer(answer)])
+  );
+
+  submittedAnswers.forEach(answer => {
+    const questionId = answer.question.toString();
+    const stored = toStoredAnswer(answer);
+    const saved = answersByQuestion.get(questionId);
+
+    answersByQuestion.set(questionId, stored.timeSpent === null && saved ? { ...stored, timeSpent: saved.timeSpent } : stored);
+  });
+
+  return Array.from(answersByQuestion.values());
+};
@@ -0,0 +1,78 @@
+// src/utils/csv.js
+// A small CSV reader and writer (RFC 4180) for spreadsheet uploads and templates.
+
+// Spreadsheets in some locales save with semicolons because the comma is their decimal mark
+const detectDelimiter = (text) => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const count = (char) => firstLine.split(char).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+};
+
+// Split CSV text into rows of cells. Each row records the line it starts on, so problems
+// can be reported against the line a spreadsheet user sees when opening the file in an editor.
+// Quoted cells may contain delimiters, doubled quotes and line breaks. Blank rows are dropped.
+export const parseCsv = (text) => {
+  const content = String(text).replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content);
+  const rows = [];
+
+  let cells = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      cell = '';
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Line ${rowLine} has a quoted cell that is never closed`);
+  }
+  endRow();
+
+  return rows;
+};
+
+const formatCell = (value) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Join rows of cells into CSV text with Windows line endings, which spreadsheets expect
+export const toCsv = (rows) =>
+  rows.map(row => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
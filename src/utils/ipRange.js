@@ -0,0 +1,48 @@
+// src/utils/ipRange.js
+// Checks client addresses against CIDR ranges such as 10.20.0.0/16 or 2001:db8::/32.
+import net from 'net';
+
+// Dual-stack servers report IPv4 clients as ::ffff:10.20.1.5
+const normalizeAddress = (address) => {
+  const value = String(address || '').trim();
+  const mapped = value.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  return mapped ? mapped[1] : value;
+};
+
+// Split a range into its address, family and prefix length, or null if it isn't valid.
+// A bare address is treated as a range holding just that address.
+export const parseCidr = (range) => {
+  const [rawAddress, prefix, ...rest] = String(range || '').trim().split('/');
+  const address = normalizeAddress(rawAddress);
+  const version = net.isIP(address);
+
+  if (!version || rest.length > 0) {
+    return null;
+  }
+
+  const maxPrefix = version === 4 ? 32 : 128;
+  const prefixLength = prefix === undefined ? maxPrefix : Number(prefix);
+
+  if (!/^\d+$/.test(prefix ?? String(maxPrefix)) || prefixLength > maxPrefix) {
+    return null;
+  }
+
+  return { address, family: version === 4 ? 'ipv4' : 'ipv6', prefixLength };
+};
+
+// Whether the address falls inside any of the ranges; invalid ranges never match
+export const isAddressInRanges = (address, ranges) => {
+  const client = normalizeAddress(address);
+  const version = net.isIP(client);
+
+  if (!version) {
+    return false;
+  }
+
+  const blockList = new net.BlockList();
+  ranges.map(parseCidr).filter(Boolean).forEach(({ address: network, family, prefixLength }) => {
+    blockList.addSubnet(network, prefixLength, family);
+  });
+
+  return blockList.check(client, version === 4 ? 'ipv4' : 'ipv6');
+};
@@ -0,0 +1,74 @@
+import { getQuizFormat, detectQuizFormat, readQuizFile, writeQuizFile } from '../index.js';
+
+const quiz = {
+  title: 'Cell Biology',
+  questions: [
+    {
+      type: 'single',
+      text: 'Which organelle makes ATP?',
+      points: 2,
+      options: [
+        { text: 'Mitochondrion', isCorrect: true },
+        { text: 'Ribosome', isCorrect: false }
+      ]
+    },
+    {
+      type: 'true_false',
+      text: 'Plant cells have a cell wall.',
+      points: 1,
+      options: [
+        { text: 'True', isCorrect: true },
+        { text: 'False', isCorrect: false }
+      ]
+    }
+  ]
+};
+
+describe('getQuizFormat', () => {
+  it('finds the known formats', () => {
+    expect(getQuizFormat('qti').label).toBe('QTI 2.1');
+    expect(getQuizFormat('gift').label).toBe('GIFT');
+  });
+
+  it('ignores names inherited from Object.prototype and non-strings', () => {
+    expect(getQuizFormat('constructor')).toBeNull();
+    expect(getQuizFormat('toString')).toBeNull();
+    expect(getQuizFormat('__proto__')).toBeNull();
+    expect(getQuizFormat(['qti'])).toBeNull();
+    expect(getQuizFormat(undefined)).toBeNull();
+  });
+});
+
+describe('QTI packages', () => {
+  it('reads back the questions it exported', () => {
+    const { content } = writeQuizFile(quiz, 'qti');
+
+    expect(detectQuizFormat('quiz.zip', content)).toBe('qti');
+
+    const parsed = readQuizFile(content, 'qti');
+    expect(parsed.title).toBe('Cell Biology');
+    expect(parsed.report.every(item => item.status !== 'error')).toBe(true);
+    expect(parsed.questions).toHaveLength(2);
+    expect(parsed.questions[0]).toMatchObject({
+      type: 'single',
+      text: 'Which organelle makes ATP?',
+      points: 2
+    });
+    expect(parsed.questions[0].options.filter(option => option.isCorrect).map(option => option.text))
+      .toEqual(['Mitochondrion']);
+  });
+
+  it('reports a package that is not a ZIP archive', () => {
+    expect(() => readQuizFile(Buffer.from('<assessmentItem>'), 'qti')).toThrow();
+  });
+});
+
+describe('GIFT files', () => {
+  it('reads a multiple choice question', () => {
+    const parsed = readQuizFile(Buffer.from('::Q1:: Which organelle makes ATP? {=Mitochondrion ~Ribosome}\n'), 'gift');
+
+    expect(parsed.questions).toHaveLength(1);
+    expect(parsed.questions[0].type).toBe('single');
+    expect(parsed.questions[0].options.find(option => option.isCorrect).text).toBe('Mitochondrion');
+  });
+});
@@ -0,0 +1,279 @@
+// src/utils/quizFormats/gift.js
+import { describeItem, hasImages, htmlToText, importedItem, skippedItem, TRUE_FALSE_OPTIONS } from './text.js';
+
+// GIFT is Moodle's plain text format: one question per paragraph, with the answers in
+// braces, e.g. `Capital of France? {=Paris ~London ~Berlin}`.
+// https://docs.moodle.org/en/GIFT_format
+
+const GIFT_SPECIAL_CHARACTERS = /[~=#{}:\\]/g;
+
+const escapeGift = (text) =>
+  String(text).replace(GIFT_SPECIAL_CHARACTERS, char => `\\${char}`).replace(/\n/g, '\\n');
+
+const unescapeGift = (text) =>
+  text.replace(/\\(n|.)/g, (match, char) => char === 'n' ? '\n' : char).trim();
+
+// Position of the first occurrence of `char` that isn't escaped with a backslash
+const indexOfUnescaped = (text, char, from = 0) => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === char) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const lastIndexOfUnescaped = (text, char) => {
+  let found = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === char) {
+      found = i;
+    }
+  }
+  return found;
+};
+
+// Split an answer block into answers, each starting with one of the marker characters
+const splitAnswers = (block, markers) => {
+  const answers = [];
+  for (let i = 0; i < block.length; i++) {
+    if (block[i] === '\\') {
+      i++;
+      if (answers.length > 0) answers[answers.length - 1].text += block.slice(i - 1, i + 1);
+    } else if (markers.includes(block[i])) {
+      answers.push({ marker: block[i], text: '' });
+    } else if (answers.length > 0) {
+      answers[answers.length - 1].text += block[i];
+    }
+  }
+  return answers;
+};
+
+// Pull the `%50%` weight and `#feedback` off an answer
+const parseAnswer = ({ marker, text }) => {
+  let body = text;
+  let weight = null;
+
+  const weightMatch = /^\s*%(-?\d+(?:\.\d+)?)%/.exec(body);
+  if (weightMatch) {
+    weight = Number(weightMatch[1]);
+    body = body.slice(weightMatch[0].length);
+  }
+
+  const feedbackStart = indexOfUnescaped(body, '#');
+  if (feedbackStart !== -1) {
+    body = body.slice(0, feedbackStart);
+  }
+
+  return { marker, weight, text: body };
+};
+
+const parseNumericAnswer = (text) => {
+  const value = unescapeGift(text);
+  const range = /^(-?[\d.]+(?:e-?\d+)?)\.\.(-?[\d.]+(?:e-?\d+)?)$/i.exec(value);
+  if (range) {
+    const min = Number(range[1]);
+    const max = Number(range[2]);
+    return { numericAnswer: (min + max) / 2, tolerance: Math.abs(max - min) / 2 };
+  }
+
+  const [answer, tolerance] = value.split(':');
+  return { numericAnswer: Number(answer), tolerance: tolerance === undefined ? 0 : Number(tolerance) };
+};
+
+// Turn the contents of an answer block into the answer key of a question
+const parseAnswerBlock = (block, warnings) => {
+  const content = block.trim();
+
+  if (!content) {
+    return { type: 'essay' };
+  }
+
+  const trueFalse = /^(T|TRUE|F|FALSE)\s*(#|$)/i.exec(content);
+  if (trueFalse) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith('T');
+    return {
+      type: 'true_false',
+      options: TRUE_FALSE_OPTIONS.map(text => ({ text, isCorrect: (text === 'True') === isTrue }))
+    };
+  }
+
+  if (content.startsWith('#')) {
+    const numericBody = content.slice(1);
+    const answers = numericBody.trim().startsWith('=')
+      ? splitAnswers(numericBody, ['=']).map(parseAnswer)
+      : [parseAnswer({ marker: '=', text: numericBody })];
+    const fullCredit = answers.filter(answer => answer.weight === null || answer.weight === 100);
+
+    if (answers.length > fullCredit.length || fullCredit.length > 1) {
+      warnings.push('Only the first fully correct numeric answer was imported');
+    }
+
+    return { type: 'numeric', ...parseNumericAnswer((fullCredit[0] || answers[0]).text) };
+  }
+
+  const answers = splitAnswers(content, ['=', '~']).map(parseAnswer);
+
+  if (answers.length === 0) {
+    return null;
+  }
+
+  if (answers.some(answer => answer.text.includes('->'))) {
+    const pairs = answers.map(answer => {
+      const [prompt, ...match] = answer.text.split('->');
+      return { prompt: unescapeGift(prompt), match: unescapeGift(match.join('->')) };
+    });
+    const distractors = pairs.filter(pair => !pair.prompt);
+    if (distractors.length > 0) {
+      warnings.push('Extra matches without a prompt were left out');
+    }
+    return { type: 'matching', pairs: pairs.filter(pair => pair.prompt) };
+  }
+
+  if (answers.every(answer => answer.marker === '=')) {
+    const accepted = answers.filter(answer => answer.weight === null || answer.weight === 100);
+    if (accepted.length < answers.length) {
+      warnings.push('Answers worth partial credit were left out');
+    }
+    return { type: 'short_answer', acceptedAnswers: accepted.map(answer => unescapeGift(answer.text)) };
+  }
+
+  const options = answers.map(answer => ({
+    text: unescapeGift(answer.text),
+    isCorrect: answer.marker === '=' || answer.weight > 0
+  }));
+  const correctCount = options.filter(option => option.isCorrect).length;
+
+  if (correctCount > 1) {
+    return { type: 'multiple', options, partialCredit: true };
+  }
+
+  // A negative weight on a wrong answer is a deduction for picking it
+  const deduction = Math.max(0, ...answers.map(answer => answer.weight < 0 ? -answer.weight : 0));
+  return { type: 'single', options, penalty: Math.min(100, deduction) / 100 };
+};
+
+const parseQuestion = (source, index) => {
+  let text = source.trim();
+  let name = null;
+
+  const title = /^::((?:\\.|[^:\\]|:(?!:))*)::/.exec(text);
+  if (title) {
+    name = unescapeGift(title[1]);
+    text = text.slice(title[0].length).trim();
+  }
+
+  const label = describeItem(index, name);
+  const isHtml = /^\[html\]/i.test(text);
+  text = text.replace(/^\[(html|moodle|plain|markdown)\]/i, '');
+
+  const blockStart = indexOfUnescaped(text, '{');
+  const blockEnd = lastIndexOfUnescaped(text, '}');
+
+  if (blockStart === -1 || blockEnd < blockStart) {
+    return skippedItem(label, 'Has no answers in braces, so it is not a question');
+  }
+
+  const warnings = [];
+  const before = text.slice(0, blockStart).trim();
+  const after = text.slice(blockEnd + 1).trim();
+  const answerKey = parseAnswerBlock(text.slice(blockStart + 1, blockEnd), warnings);
+
+  if (!answerKey) {
+    return skippedItem(label, 'Could not read the answers in braces');
+  }
+
+  // "Missing word" questions have the answer block in the middle of the sentence
+  const questionText = after
+    ? `${unescapeGift(before)} _____ ${unescapeGift(after)}`.trim()
+    : unescapeGift(before);
+
+  if (isHtml && hasImages(questionText)) {
+    warnings.push('Images in the question text were left out');
+  }
+
+  return importedItem(label, {
+    text: isHtml ? htmlToText(questionText) : questionText,
+    points: 1,
+    ...answerKey
+  }, warnings);
+};
+
+export const parseGift = (content) => {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+    .filter(line => !line.trim().startsWith('//'));
+
+  // Questions are separated by blank lines
+  const blocks = lines.join('\n').split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(block => block && !block.startsWith('$CATEGORY:'));
+
+  return {
+    title: null,
+    items: blocks.map(parseQuestion)
+  };
+};
+
+const formatWeight = (weight) => Number(weight.toFixed(5)).toString();
+
+const toAnswerBlock = (question) => {
+  const options = question.options || [];
+  const points = question.points ?? 1;
+
+  switch (question.type) {
+    case 'true_false': {
+      const correct = options.find(option => option.isCorrect);
+      return correct && /^true$/i.test(correct.text.trim()) ? 'TRUE' : 'FALSE';
+    }
+    case 'multiple': {
+      const correctCount = options.filter(option => option.isCorrect).length;
+      return options.map(option => option.isCorrect
+        ? `~%${formatWeight(100 / correctCount)}%${escapeGift(option.text)}`
+        : `~%-100%${escapeGift(option.text)}`).join(' ');
+    }
+    case 'short_answer':
+      return (question.acceptedAnswers || []).map(answer => `=${escapeGift(answer)}`).join(' ');
+    case 'numeric':
+      return `#${question.numericAnswer}:${question.tolerance || 0}`;
+    case 'matching':
+      return (question.pairs || []).map(pair => `=${escapeGift(pair.prompt)} -> ${escapeGift(pair.match)}`).join(' ');
+    case 'essay':
+      return '';
+    default: {
+      const deduction = question.penalty > 0 && points > 0
+        ? `%-${formatWeight(Math.min(100, (question.penalty / points) * 100))}%`
+        : '';
+      return options.map(option => option.isCorrect
+        ? `=${escapeGift(option.text)}`
+        : `~${deduction}${escapeGift(option.text)}`).join(' ');
+    }
+  }
+};
+
+// GIFT has no ordering questions, so those are left out and reported back
+export const toGift = (quiz) => {
+  const skipped = [];
+  const blocks = [];
+
+  quiz.questions.forEach((question, index) => {
+    if (question.type === 'ordering') {
+      skipped.push(describeItem(index));
+      return;
+    }
+    blocks.push(`${escapeGift(question.text)} {${toAnswerBlock(question)}}`);
+  });
+
+  const header = [`// ${quiz.title}`];
+  if (skipped.length > 0) {
+    header.push(`// Not exported (GIFT has no ordering questions): ${skipped.join(', ')}`);
+  }
+
+  return {
+    content: `${header.join('\n')}\n\n${blocks.join('\n\n')}\n`,
+    skipped
+  };
+};
@@ -0,0 +1,121 @@
+// src/utils/quizFormats/index.js
+import path from 'path';
+import Quiz from '../../models/Quiz.js';
+import { isZip } from '../zip.js';
+import { parseGift, toGift } from './gift.js';
+import { parseMoodleXml, toMoodleXml } from './moodleXml.js';
+import { parseQti, toQti } from './qti.js';
+import { parseQuizSpreadsheet } from './spreadsheet.js';
+
+// Exchange formats quizzes can be imported from and exported to
+export const QUIZ_FORMATS = {
+  gift: {
+    label: 'GIFT',
+    extension: 'gift.txt',
+    contentType: 'text/plain; charset=utf-8',
+    parse: (buffer) => parseGift(buffer.toString('utf8')),
+    serialize: toGift
+  },
+  moodle_xml: {
+    label: 'Moodle XML',
+    extension: 'moodle.xml',
+    contentType: 'application/xml; charset=utf-8',
+    parse: (buffer) => parseMoodleXml(buffer.toString('utf8')),
+    serialize: toMoodleXml
+  },
+  qti: {
+    label: 'QTI 2.1',
+    extension: 'qti.zip',
+    contentType: 'application/zip',
+    parse: parseQti,
+    serialize: toQti
+  }
+};
+
+// The format with the given name, or null. Names come from requests, so only the table's own
+// keys count; inherited ones like "constructor" are not formats.
+export const getQuizFormat = (name) =>
+  typeof name === 'string' && Object.hasOwn(QUIZ_FORMATS, name) ? QUIZ_FORMATS[name] : null;
+
+// Work out the format of an uploaded file from its name and, for XML, its root element
+export const detectQuizFormat = (filename, buffer) => {
+  const extension = path.extname(filename || '').toLowerCase();
+
+  if (isZip(buffer)) {
+    return 'qti';
+  }
+  if (extension === '.gift' || extension === '.txt') {
+    return 'gift';
+  }
+
+  const start = buffer.subarray(0, 4096).toString('utf8');
+  if (/<quiz[\s>]/.test(start)) {
+    return 'moodle_xml';
+  }
+  if (/<(\w+:)?assessment(Item|Test)[\s>]/.test(start)) {
+    return 'qti';
+  }
+
+  return extension === '.xml' ? null : 'gift';
+};
+
+// Field length limits from the quiz schema, which the answer key check leaves out
+const getLengthError = (question) => {
+  if (question.text.length > 2000) {
+    return 'Question text is longer than 2000 characters';
+  }
+  const longOption = (question.options || []).find(option => option.text.length > 500);
+  if (longOption) {
+    return `Option "${longOption.text.slice(0, 30)}..." is longer than 500 characters`;
+  }
+  const longPair = (question.pairs || []).find(pair => pair.prompt.length > 500 || pair.match.length > 500);
+  if (longPair) {
+    return 'A matching prompt or answer is longer than 500 characters';
+  }
+  if ((question.explanation || '').length > 2000) {
+    return 'Explanation is longer than 2000 characters';
+  }
+  return null;
+};
+
+// Check each parsed item against the quiz schema and report on it. Items with errors are left out.
+const checkItems = ({ title, items }) => {
+  const report = items.map(item => {
+    let error = item.error;
+
+    if (!error && !item.question.text) {
+      error = 'Question text is required';
+    }
+    if (!error) {
+      error = Quiz.getQuestionError(item.question) || getLengthError(item.question);
+    }
+
+    return {
+      label: item.label,
+      type: item.question ? item.question.type : null,
+      text: item.question ? item.question.text : null,
+      status: error ? 'error' : item.warnings.length > 0 ? 'warning' : 'ok',
+      messages: error ? [error, ...item.warnings] : item.warnings
+    };
+  });
+
+  return {
+    title,
+    questions: items.filter((item, i) => report[i].status !== 'error').map(item => item.question),
+    report
+  };
+};
+
+// Parse a file into the questions that can be imported and a report on every item in it.
+// Throws an Error when the file can't be read at all.
+export const readQuizFile = (buffer, format) => checkItems(QUIZ_FORMATS[format].parse(buffer));
+
+// Parse a CSV question spreadsheet the same way, reporting on each row by its line number
+export const readQuizSpreadsheet = (buffer) => checkItems(parseQuizSpreadsheet(buffer.toString('utf8')));
+
+// Write the fixed questions of a quiz in the given format
+export const writeQuizFile = (quiz, format) =>
+  QUIZ_FORMATS[format].serialize({
+    title: quiz.title,
+    questions: quiz.questions.map(question => question.toObject ? question.toObject() : question)
+  });
@@ -0,0 +1,305 @@
+// src/utils/quizFormats/moodleXml.js
+import { parseXml, childElement, childElements, findElement, textContent, escapeXml } from '../xml.js';
+import {
+  describeItem, questionName, hasImages, htmlToText, textToHtml, importedItem, skippedItem, TRUE_FALSE_OPTIONS
+} from './text.js';
+
+// Moodle XML: a <quiz> holding one <question type="..."> per question.
+// https://docs.moodle.org/en/Moodle_XML_format
+
+const UNSUPPORTED_TYPES = {
+  multianswer: 'Embedded answers (Cloze)',
+  calculated: 'Calculated',
+  calculatedmulti: 'Calculated multichoice',
+  calculatedsimple: 'Simple calculated',
+  ddwtos: 'Drag and drop into text',
+  ddimageortext: 'Drag and drop onto image',
+  ddmarker: 'Drag and drop markers',
+  gapselect: 'Select missing words',
+  randomsamatch: 'Random short-answer matching',
+  random: 'Random'
+};
+
+// The text of a <questiontext>, <answer> or similar element, flattened to plain text
+const readText = (element) => {
+  if (!element) return { text: '', images: false };
+
+  const raw = textContent(childElement(element, 'text'));
+  const format = element.attributes.format || 'html';
+  const images = childElements(element, 'file').length > 0 || hasImages(raw);
+
+  return {
+    text: format === 'html' || format === 'moodle_auto_format' ? htmlToText(raw) : raw.trim(),
+    images
+  };
+};
+
+const readNumber = (element, fallback) => {
+  const value = Number(textContent(element).trim());
+  return element && Number.isFinite(value) ? value : fallback;
+};
+
+const readAnswers = (question) => childElements(question, 'answer').map(answer => ({
+  ...readText(answer),
+  fraction: Number(answer.attributes.fraction || 0),
+  element: answer
+}));
+
+const parseQuestion = (question, index) => {
+  const type = question.attributes.type;
+  const name = readText(childElement(question, 'name')).text;
+  const label = describeItem(index, name);
+
+  if (UNSUPPORTED_TYPES[type]) {
+    return skippedItem(label, `${UNSUPPORTED_TYPES[type]} questions are not supported`);
+  }
+
+  const questionText = readText(childElement(question, 'questiontext'));
+  const points = readNumber(childElement(question, 'defaultgrade'), 1);
+  const answers = readAnswers(question);
+  const warnings = [];
+
+  if (questionText.images || answers.some(answer => answer.images)) {
+    warnings.push('Images were left out');
+  }
+
+  const base = { text: questionText.text, points };
+
+  switch (type) {
+    case 'multichoice': {
+      const single = textContent(childElement(question, 'single')).trim() !== 'false';
+
+      if (!single) {
+        return importedItem(label, {
+          ...base,
+          type: 'multiple',
+          partialCredit: true,
+          options: answers.map(answer => ({ text: answer.text, isCorrect: answer.fraction > 0 }))
+        }, warnings);
+      }
+
+      if (answers.some(answer => answer.fraction > 0 && answer.fraction < 100)) {
+        warnings.push('Answers worth partial credit are marked incorrect');
+      }
+
+      // A negative fraction on a wrong answer is a deduction for picking it
+      const deduction = Math.max(0, ...answers.map(answer => -answer.fraction));
+      return importedItem(label, {
+        ...base,
+        type: 'single',
+        penalty: Math.round(points * Math.min(100, deduction)) / 100,
+        options: answers.map(answer => ({ text: answer.text, isCorrect: answer.fraction >= 100 }))
+      }, warnings);
+    }
+
+    case 'truefalse': {
+      const trueAnswer = answers.find(answer => answer.text.toLowerCase() === 'true');
+      const isTrue = Boolean(trueAnswer && trueAnswer.fraction > 0);
+      return importedItem(label, {
+        ...base,
+        type: 'true_false',
+        options: TRUE_FALSE_OPTIONS.map(text => ({ text, isCorrect: (text === 'True') === isTrue }))
+      }, warnings);
+    }
+
+    case 'shortanswer': {
+      const accepted = answers.filter(answer => answer.fraction >= 100);
+      if (accepted.length < answers.length) {
+        warnings.push('Answers worth partial credit were left out');
+      }
+      if (accepted.some(answer => answer.text.includes('*'))) {
+        warnings.push('Wildcards (*) in accepted answers are matched literally');
+      }
+      return importedItem(label, {
+        ...base,
+        type: 'short_answer',
+        acceptedAnswers: accepted.map(answer => answer.text)
+      }, warnings);
+    }
+
+    case 'numerical': {
+      const correct = answers.filter(answer => answer.fraction >= 100 && answer.text !== '*');
+      if (correct.length !== answers.length) {
+        warnings.push('Only the first fully correct numeric answer was imported');
+      }
+      if (findElement(question, 'units')) {
+        warnings.push('Units were left out');
+      }
+      const answer = correct[0];
+      return importedItem(label, {
+        ...base,
+        type: 'numeric',
+        numericAnswer: answer ? Number(answer.text) : undefined,
+        tolerance: answer ? readNumber(childElement(answer.element, 'tolerance'), 0) : 0
+      }, warnings);
+    }
+
+    case 'matching': {
+      const pairs = childElements(question, 'subquestion').map(subquestion => ({
+        prompt: readText(subquestion).text,
+        match: readText(childElement(subquestion, 'answer')).text
+      }));
+      if (pairs.some(pair => !pair.prompt)) {
+        warnings.push('Extra matches without a prompt were left out');
+      }
+      return importedItem(label, {
+        ...base,
+        type: 'matching',
+        pairs: pairs.filter(pair => pair.prompt)
+      }, warnings);
+    }
+
+    case 'ordering': {
+      // Items are exported in their correct order, numbered by fraction
+      const ordered = [...answers].sort((a, b) => a.fraction - b.fraction);
+      return importedItem(label, {
+        ...base,
+        type: 'ordering',
+        options: ordered.map(answer => ({ text: answer.text, isCorrect: false }))
+      }, warnings);
+    }
+
+    case 'essay':
+      return importedItem(label, {
+        ...base,
+        type: 'essay',
+        rubric: readText(childElement(question, 'graderinfo')).text
+      }, warnings);
+
+    case 'description':
+      return skippedItem(label, 'Descriptions are text only, not questions');
+
+    default:
+      return skippedItem(label, `Unknown question type "${type}"`);
+  }
+};
+
+export const parseMoodleXml = (content) => {
+  const root = parseXml(content);
+  if (root.name !== 'quiz') {
+    throw new Error('A Moodle XML file must start with a <quiz> element');
+  }
+
+  const questions = childElements(root, 'question');
+  const questionItems = questions.filter(question => question.attributes.type !== 'category');
+
+  // The last category level is the closest thing to a quiz title
+  const category = questions.find(question => question.attributes.type === 'category');
+  const categoryPath = category ? textContent(findElement(category, 'text')).trim() : '';
+  const title = categoryPath.split('/').filter(part => part && !part.startsWith('$')).pop() || null;
+
+  return {
+    title: title && title !== 'top' ? title : null,
+    items: questionItems.map(parseQuestion)
+  };
+};
+
+const formatFraction = (fraction) => Number(fraction.toFixed(5)).toString();
+
+const htmlText = (text) => `<text>${escapeXml(textToHtml(text))}</text>`;
+
+const answerXml = (fraction, text, extra = '', format = 'html') =>
+  `    <answer fraction="${formatFraction(fraction)}" format="${format}">\n` +
+  `      ${format === 'html' ? htmlText(text) : `<text>${escapeXml(text)}</text>`}\n${extra}` +
+  '    </answer>';
+
+const questionBody = (question) => {
+  const options = question.options || [];
+  const points = question.points ?? 1;
+
+  switch (question.type) {
+    case 'multiple': {
+      const correctCount = options.filter(option => option.isCorrect).length;
+      return [
+        '    <single>false</single>',
+        '    <shuffleanswers>true</shuffleanswers>',
+        ...options.map(option => answerXml(option.isCorrect ? 100 / correctCount : -100, option.text))
+      ];
+    }
+    case 'true_false': {
+      const correct = options.find(option => option.isCorrect);
+      const isTrue = Boolean(correct && /^true$/i.test(correct.text.trim()));
+      return [
+        answerXml(isTrue ? 100 : 0, 'true', '', 'moodle_auto_format'),
+        answerXml(isTrue ? 0 : 100, 'false', '', 'moodle_auto_format')
+      ];
+    }
+    case 'short_answer':
+      return [
+        '    <usecase>0</usecase>',
+        ...(question.acceptedAnswers || []).map(answer => answerXml(100, answer, '', 'moodle_auto_format'))
+      ];
+    case 'numeric':
+      return [answerXml(100, String(question.numericAnswer), `      <tolerance>${question.tolerance || 0}</tolerance>\n`, 'moodle_auto_format')];
+    case 'matching':
+      return [
+        '    <shuffleanswers>true</shuffleanswers>',
+        ...(question.pairs || []).map(pair =>
+          '    <subquestion format="html">\n' +
+          `      ${htmlText(pair.prompt)}\n` +
+          `      <answer><text>${escapeXml(pair.match)}</text></answer>\n` +
+          '    </subquestion>')
+      ];
+    case 'ordering':
+      return [
+        '    <layouttype>VERTICAL</layouttype>',
+        '    <selecttype>ALL</selecttype>',
+        '    <selectcount>0</selectcount>',
+        '    <gradingtype>ABSOLUTE_POSITION</gradingtype>',
+        ...options.map((option, position) => answerXml(position + 1, option.text, '', 'moodle_auto_format'))
+      ];
+    case 'essay':
+      return [
+        '    <responseformat>editor</responseformat>',
+        '    <responserequired>1</responserequired>',
+        '    <responsefieldlines>15</responsefieldlines>',
+        '    <attachments>0</attachments>',
+        `    <graderinfo format="html">${htmlText(question.rubric || '')}</graderinfo>`
+      ];
+    default: {
+      // single: the penalty becomes a negative fraction on each wrong answer
+      const deduction = question.penalty > 0 && points > 0 ? -Math.min(100, (question.penalty / points) * 100) : 0;
+      return [
+        '    <single>true</single>',
+        '    <shuffleanswers>true</shuffleanswers>',
+        ...options.map(option => answerXml(option.isCorrect ? 100 : deduction, option.text))
+      ];
+    }
+  }
+};
+
+const MOODLE_TYPES = {
+  single: 'multichoice',
+  multiple: 'multichoice',
+  true_false: 'truefalse',
+  short_answer: 'shortanswer',
+  numeric: 'numerical',
+  matching: 'matching',
+  ordering: 'ordering',
+  essay: 'essay'
+};
+
+export const toMoodleXml = (quiz) => {
+  const questions = quiz.questions.map(question => [
+    `  <question type="${MOODLE_TYPES[question.type] || 'multichoice'}">`,
+    `    <name><text>${escapeXml(questionName(question))}</text></name>`,
+    `    <questiontext format="html">${htmlText(question.text)}</questiontext>`,
+    `    <defaultgrade>${question.points ?? 1}</defaultgrade>`,
+    '    <hidden>0</hidden>',
+    ...questionBody(question),
+    '  </question>'
+  ].join('\n'));
+
+  const content = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<quiz>',
+    '  <question type="category">',
+    `    <category><text>$course$/top/${escapeXml(quiz.title.replace(/\//g, '-'))}</text></category>`,
+    '  </question>',
+    ...questions,
+    '</quiz>',
+    ''
+  ].join('\n');
+
+  return { content, skipped: [] };
+};
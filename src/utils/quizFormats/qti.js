@@ -0,0 +1,509 @@
+// src/utils/quizFormats/qti.js
+import path from 'path';
+import {
+  parseXml, childElement, childElements, findElement, findElements, textContent, escapeXml
+} from '../xml.js';
+import { readZip, createZip, isZip } from '../zip.js';
+import { describeItem, questionName, importedItem, skippedItem, TRUE_FALSE_OPTIONS } from './text.js';
+
+// IMS QTI 2.1: one <assessmentItem> per question, usually shipped as a content package
+// (a ZIP with an imsmanifest.xml listing the item files and an assessment test).
+// https://www.imsglobal.org/question/qtiv2p1/imsqti_infov2p1.html
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const CP_NAMESPACE = 'http://www.imsglobal.org/xsd/imscp_v1p1';
+const RESPONSE_TEMPLATES = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates';
+
+const SUPPORTED_INTERACTIONS = [
+  'choiceInteraction', 'textEntryInteraction', 'extendedTextInteraction', 'matchInteraction', 'orderInteraction'
+];
+
+const BLOCK_ELEMENTS = ['p', 'div', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'tr'];
+
+// Flatten XHTML content to plain text, showing inline blanks as "_____"
+const renderText = (node, context) => {
+  if (typeof node === 'string') {
+    return node.replace(/\s+/g, ' ');
+  }
+
+  switch (node.name) {
+    case 'br':
+      return '\n';
+    case 'img':
+    case 'object':
+      context.images = true;
+      return '';
+    case 'textEntryInteraction':
+      return ' _____ ';
+    case 'rubricBlock':
+    case 'feedbackBlock':
+    case 'feedbackInline':
+    case 'modalFeedback':
+    case 'simpleChoice':
+    case 'simpleAssociableChoice':
+    case 'simpleMatchSet':
+      return '';
+    default: {
+      const inner = node.children.map(child => renderText(child, context)).join('');
+      return BLOCK_ELEMENTS.includes(node.name) || node.name === 'prompt' || node.name.endsWith('Interaction')
+        ? `\n${inner}\n`
+        : inner;
+    }
+  }
+};
+
+const cleanText = (text) =>
+  text.split('\n').map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n');
+
+// The text inside an element, which may itself be one that is left out of the question text
+const readText = (node, context) =>
+  cleanText(node.children.map(child => renderText(child, context)).join(''));
+
+const readChoices = (container, context) =>
+  childElements(container).filter(child => child.name === 'simpleChoice' || child.name === 'simpleAssociableChoice')
+    .map(choice => ({
+      identifier: choice.attributes.identifier,
+      text: readText(choice, context)
+    }));
+
+const readResponseDeclaration = (item, identifier) => {
+  const declaration = childElements(item, 'responseDeclaration')
+    .find(element => element.attributes.identifier === identifier);
+
+  if (!declaration) {
+    return { cardinality: 'single', baseType: 'identifier', correct: [], mapping: [] };
+  }
+
+  return {
+    cardinality: declaration.attributes.cardinality,
+    baseType: declaration.attributes.baseType,
+    correct: childElements(childElement(declaration, 'correctResponse'), 'value')
+      .map(value => textContent(value).trim()),
+    mapping: childElements(childElement(declaration, 'mapping'), 'mapEntry').map(entry => ({
+      key: entry.attributes.mapKey,
+      value: Number(entry.attributes.mappedValue || 0)
+    }))
+  };
+};
+
+const readPoints = (item) => {
+  const maxScore = childElements(item, 'outcomeDeclaration')
+    .find(element => element.attributes.identifier === 'MAXSCORE');
+  const fromMaxScore = Number(textContent(findElement(maxScore, 'value')).trim());
+  if (maxScore && Number.isFinite(fromMaxScore) && fromMaxScore >= 0) {
+    return fromMaxScore;
+  }
+
+  const score = childElements(item, 'outcomeDeclaration')
+    .find(element => element.attributes.identifier === 'SCORE');
+  const normalMaximum = Number(score && score.attributes.normalMaximum);
+  return Number.isFinite(normalMaximum) && normalMaximum > 0 ? normalMaximum : 1;
+};
+
+// The tolerance of an <equal> comparison in custom response processing, if there is one
+const readTolerance = (item, answer) => {
+  const equal = findElement(childElement(item, 'responseProcessing'), 'equal');
+  if (!equal || !equal.attributes.tolerance) {
+    return 0;
+  }
+
+  const tolerance = Number(equal.attributes.tolerance.trim().split(/\s+/)[0]);
+  if (!Number.isFinite(tolerance)) {
+    return 0;
+  }
+  return equal.attributes.toleranceMode === 'relative' ? Math.abs(answer * tolerance) / 100 : tolerance;
+};
+
+const findInteractions = (node) =>
+  childElements(node).flatMap(child => child.name.endsWith('Interaction') ? [child] : findInteractions(child));
+
+const isTrueFalse = (choices) =>
+  choices.length === 2 && choices.map(choice => choice.text.toLowerCase()).sort().join() === 'false,true';
+
+const parseItem = (item, index) => {
+  const label = describeItem(index, item.attributes.title);
+  const itemBody = childElement(item, 'itemBody');
+
+  if (!itemBody) {
+    return skippedItem(label, 'Has no item body');
+  }
+
+  const interactions = findInteractions(itemBody);
+  if (interactions.length === 0) {
+    return skippedItem(label, 'Has no interaction, so it is not a question');
+  }
+  if (interactions.length > 1) {
+    return skippedItem(label, 'Items with more than one interaction are not supported');
+  }
+
+  const interaction = interactions[0];
+  if (!SUPPORTED_INTERACTIONS.includes(interaction.name)) {
+    return skippedItem(label, `${interaction.name} items are not supported`);
+  }
+
+  const context = { images: false };
+  const warnings = [];
+  const response = readResponseDeclaration(item, interaction.attributes.responseIdentifier);
+  const points = readPoints(item);
+  // A blank on a line of its own, as most tools export it, isn't part of the question
+  const base = { text: readText(itemBody, context).replace(/\n_____$/, ''), points };
+  let question;
+
+  switch (interaction.name) {
+    case 'choiceInteraction': {
+      const choices = readChoices(interaction, context);
+      const positive = response.mapping.filter(entry => entry.value > 0).map(entry => entry.key);
+      const correctIds = response.correct.length > 0 ? response.correct : positive;
+      const options = choices.map(choice => ({ text: choice.text, isCorrect: correctIds.includes(choice.identifier) }));
+      const maxChoices = Number(interaction.attributes.maxChoices ?? 1);
+
+      if (maxChoices === 1 && response.cardinality !== 'multiple') {
+        if (isTrueFalse(choices)) {
+          const isTrue = options.some(option => option.isCorrect && option.text.toLowerCase() === 'true');
+          question = {
+            ...base,
+            type: 'true_false',
+            options: TRUE_FALSE_OPTIONS.map(text => ({ text, isCorrect: (text === 'True') === isTrue }))
+          };
+        } else {
+          const deduction = Math.max(0, ...response.mapping.map(entry => -entry.value));
+          question = { ...base, type: 'single', options, penalty: Math.min(deduction, points) };
+        }
+      } else {
+        question = { ...base, type: 'multiple', options, partialCredit: response.mapping.length > 0 };
+      }
+      break;
+    }
+
+    case 'textEntryInteraction': {
+      if (['float', 'integer'].includes(response.baseType)) {
+        const numericAnswer = Number(response.correct[0]);
+        question = { ...base, type: 'numeric', numericAnswer, tolerance: readTolerance(item, numericAnswer) };
+      } else {
+        const accepted = [
+          ...response.correct,
+          ...response.mapping.filter(entry => entry.value > 0).map(entry => entry.key)
+        ];
+        if (response.mapping.some(entry => entry.value > 0 && entry.value < points)) {
+          warnings.push('Answers worth partial credit are accepted as fully correct');
+        }
+        question = { ...base, type: 'short_answer', acceptedAnswers: Array.from(new Set(accepted)) };
+      }
+      break;
+    }
+
+    case 'extendedTextInteraction': {
+      const rubric = findElements(itemBody, 'rubricBlock')
+        .map(block => readText(block, context))
+        .join('\n');
+      question = { ...base, type: 'essay', rubric };
+      break;
+    }
+
+    case 'matchInteraction': {
+      const [promptSet, matchSet] = childElements(interaction, 'simpleMatchSet').map(set => readChoices(set, context));
+      const prompts = new Map((promptSet || []).map(choice => [choice.identifier, choice.text]));
+      const matches = new Map((matchSet || []).map(choice => [choice.identifier, choice.text]));
+      const pairs = response.correct
+        .map(value => value.split(/\s+/))
+        .filter(([prompt, match]) => prompts.has(prompt) && matches.has(match))
+        .map(([prompt, match]) => ({ prompt: prompts.get(prompt), match: matches.get(match) }));
+
+      if (pairs.length < prompts.size || pairs.length < matches.size) {
+        warnings.push('Prompts and matches that are not part of a correct pair were left out');
+      }
+      question = { ...base, type: 'matching', pairs };
+      break;
+    }
+
+    case 'orderInteraction': {
+      const choices = new Map(readChoices(interaction, context).map(choice => [choice.identifier, choice.text]));
+      question = {
+        ...base,
+        type: 'ordering',
+        options: response.correct
+          .filter(identifier => choices.has(identifier))
+          .map(identifier => ({ text: choices.get(identifier), isCorrect: false }))
+      };
+      break;
+    }
+
+    default:
+      break;
+  }
+
+  if (context.images) {
+    warnings.push('Images were left out');
+  }
+
+  return importedItem(label, question, warnings);
+};
+
+const isItem = (root) => root.name === 'assessmentItem';
+
+// Read the items of a content package in manifest order, with the test title if there is one
+const readPackage = (buffer) => {
+  const files = new Map(readZip(buffer).map(entry => [entry.name, entry.data.toString('utf8')]));
+  const manifestName = Array.from(files.keys()).find(name => path.posix.basename(name) === 'imsmanifest.xml');
+  let itemFiles = [];
+  let title = null;
+
+  if (manifestName) {
+    const base = path.posix.dirname(manifestName);
+    const resources = findElements(parseXml(files.get(manifestName)), 'resource');
+    const resolve = (href) => path.posix.normalize(path.posix.join(base, decodeURIComponent(href)));
+
+    itemFiles = resources
+      .filter(resource => (resource.attributes.type || '').startsWith('imsqti_item'))
+      .map(resource => resolve(resource.attributes.href));
+
+    const test = resources.find(resource => (resource.attributes.type || '').startsWith('imsqti_test'));
+    if (test && files.has(resolve(test.attributes.href))) {
+      title = parseXml(files.get(resolve(test.attributes.href))).attributes.title || null;
+    }
+  } else {
+    itemFiles = Array.from(files.keys()).filter(name => name.toLowerCase().endsWith('.xml')).sort();
+  }
+
+  const items = itemFiles.map(name => {
+    if (!files.has(name)) {
+      throw new Error(`The package lists ${name} but does not contain it`);
+    }
+    return parseXml(files.get(name));
+  }).filter(isItem);
+
+  return { title, items };
+};
+
+export const parseQti = (buffer) => {
+  let title = null;
+  let items;
+
+  if (isZip(buffer)) {
+    ({ title, items } = readPackage(buffer));
+  } else {
+    const root = parseXml(buffer.toString('utf8'));
+    if (root.name === 'assessmentTest') {
+      throw new Error('An assessment test only refers to its items; upload the whole content package (.zip)');
+    }
+    if (!isItem(root)) {
+      throw new Error('A QTI file must be an <assessmentItem> or a content package (.zip)');
+    }
+    items = [root];
+  }
+
+  if (items.length === 0) {
+    throw new Error('The package contains no assessment items');
+  }
+
+  return { title, items: items.map(parseItem) };
+};
+
+const paragraphs = (text) =>
+  text.split('\n').map(line => `    <p>${escapeXml(line)}</p>`).join('\n');
+
+const declaration = (cardinality, baseType, correct, mapping = '') => [
+  `  <responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="${baseType}">`,
+  '    <correctResponse>',
+  ...correct.map(value => `      <value>${escapeXml(value)}</value>`),
+  '    </correctResponse>',
+  mapping,
+  '  </responseDeclaration>'
+].filter(Boolean).join('\n');
+
+const mappingXml = (entries, lowerBound, caseSensitive) => [
+  `    <mapping lowerBound="${lowerBound}" defaultValue="0">`,
+  ...entries.map(([key, value]) =>
+    `      <mapEntry mapKey="${escapeXml(key)}" mappedValue="${value}"${caseSensitive === undefined ? '' : ` caseSensitive="${caseSensitive}"`}/>`),
+  '    </mapping>'
+].join('\n');
+
+const template = (name) => `  <responseProcessing template="${RESPONSE_TEMPLATES}/${name}"/>`;
+
+const choiceXml = (options, prefix) =>
+  options.map((option, i) => `      <simpleChoice identifier="${prefix}-${i + 1}">${escapeXml(option.text)}</simpleChoice>`);
+
+// The response declaration, interaction and response processing of one question
+const itemParts = (question) => {
+  const options = question.options || [];
+  const points = question.points ?? 1;
+  const correctIds = options.map((option, i) => option.isCorrect ? `choice-${i + 1}` : null).filter(Boolean);
+
+  switch (question.type) {
+    case 'multiple': {
+      const share = correctIds.length > 0 ? points / correctIds.length : 0;
+      return {
+        declaration: declaration('multiple', 'identifier', correctIds, question.partialCredit
+          ? mappingXml(options.map((option, i) => [`choice-${i + 1}`, option.isCorrect ? share : -share]), 0)
+          : ''),
+        interaction: [
+          `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="0">`,
+          ...choiceXml(options, 'choice'),
+          '    </choiceInteraction>'
+        ],
+        processing: template(question.partialCredit ? 'map_response' : 'match_correct')
+      };
+    }
+    case 'short_answer':
+      return {
+        declaration: declaration('single', 'string', (question.acceptedAnswers || []).slice(0, 1),
+          mappingXml((question.acceptedAnswers || []).map(answer => [answer, points]), 0, false)),
+        interaction: [
+          '    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="20"/></p>'
+        ],
+        processing: template('map_response')
+      };
+    case 'numeric':
+      return {
+        declaration: declaration('single', 'float', [String(question.numericAnswer)]),
+        interaction: [
+          '    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="10"/></p>'
+        ],
+        processing: [
+          '  <responseProcessing>',
+          '    <responseCondition>',
+          '      <responseIf>',
+          `        <equal toleranceMode="absolute" tolerance="${question.tolerance || 0} ${question.tolerance || 0}">`,
+          '          <variable identifier="RESPONSE"/>',
+          '          <correct identifier="RESPONSE"/>',
+          '        </equal>',
+          '        <setOutcomeValue identifier="SCORE">',
+          '          <variable identifier="MAXSCORE"/>',
+          '        </setOutcomeValue>',
+          '      </responseIf>',
+          '    </responseCondition>',
+          '  </responseProcessing>'
+        ].join('\n')
+      };
+    case 'matching': {
+      const pairs = question.pairs || [];
+      return {
+        declaration: declaration('multiple', 'directedPair', pairs.map((pair, i) => `prompt-${i + 1} match-${i + 1}`)),
+        interaction: [
+          `    <matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${pairs.length}">`,
+          '      <simpleMatchSet>',
+          ...pairs.map((pair, i) =>
+            `        <simpleAssociableChoice identifier="prompt-${i + 1}" matchMax="1">${escapeXml(pair.prompt)}</simpleAssociableChoice>`),
+          '      </simpleMatchSet>',
+          '      <simpleMatchSet>',
+          ...pairs.map((pair, i) =>
+            `        <simpleAssociableChoice identifier="match-${i + 1}" matchMax="1">${escapeXml(pair.match)}</simpleAssociableChoice>`),
+          '      </simpleMatchSet>',
+          '    </matchInteraction>'
+        ],
+        processing: template('match_correct')
+      };
+    }
+    case 'ordering':
+      return {
+        declaration: declaration('ordered', 'identifier', options.map((option, i) => `item-${i + 1}`)),
+        interaction: [
+          '    <orderInteraction responseIdentifier="RESPONSE" shuffle="true">',
+          ...choiceXml(options, 'item'),
+          '    </orderInteraction>'
+        ],
+        processing: template('match_correct')
+      };
+    case 'essay':
+      return {
+        declaration: '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>',
+        interaction: [
+          ...(question.rubric
+            ? ['    <rubricBlock view="scorer">', paragraphs(question.rubric).replace(/^ {4}/gm, '      '), '    </rubricBlock>']
+            : []),
+          '    <extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="15"/>'
+        ],
+        processing: null
+      };
+    default: {
+      // single and true_false: the penalty is a negative mapping on each wrong choice
+      const penalty = question.penalty > 0 ? Math.min(question.penalty, points) : 0;
+      return {
+        declaration: declaration('single', 'identifier', correctIds,
+          mappingXml(options.map((option, i) => [`choice-${i + 1}`, option.isCorrect ? points : -penalty]), -penalty)),
+        interaction: [
+          '    <choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="1">',
+          ...choiceXml(options, 'choice'),
+          '    </choiceInteraction>'
+        ],
+        processing: template('map_response')
+      };
+    }
+  }
+};
+
+const itemXml = (question, identifier) => {
+  const parts = itemParts(question);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+    `  xsi:schemaLocation="${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"`,
+    `  identifier="${identifier}" title="${escapeXml(questionName(question))}" adaptive="false" timeDependent="false">`,
+    parts.declaration,
+    '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">',
+    '    <defaultValue><value>0</value></defaultValue>',
+    '  </outcomeDeclaration>',
+    '  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">',
+    `    <defaultValue><value>${question.points ?? 1}</value></defaultValue>`,
+    '  </outcomeDeclaration>',
+    '  <itemBody>',
+    paragraphs(question.text),
+    ...parts.interaction,
+    '  </itemBody>',
+    parts.processing,
+    '</assessmentItem>',
+    ''
+  ].filter(line => line !== null).join('\n');
+};
+
+const testXml = (quiz, identifiers) => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  `<assessmentTest xmlns="${QTI_NAMESPACE}" identifier="test" title="${escapeXml(quiz.title)}">`,
+  '  <testPart identifier="part-1" navigationMode="nonlinear" submissionMode="simultaneous">',
+  '    <assessmentSection identifier="section-1" title="Questions" visible="true">',
+  ...identifiers.map(identifier =>
+    `      <assessmentItemRef identifier="${identifier}" href="items/${identifier}.xml"/>`),
+  '    </assessmentSection>',
+  '  </testPart>',
+  '</assessmentTest>',
+  ''
+].join('\n');
+
+const manifestXml = (identifiers) => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  `<manifest xmlns="${CP_NAMESPACE}" identifier="manifest">`,
+  '  <metadata>',
+  '    <schema>IMS Content</schema>',
+  '    <schemaversion>1.1</schemaversion>',
+  '  </metadata>',
+  '  <organizations/>',
+  '  <resources>',
+  '    <resource identifier="test" type="imsqti_test_xmlv2p1" href="assessmentTest.xml">',
+  '      <file href="assessmentTest.xml"/>',
+  ...identifiers.map(identifier => `      <dependency identifierref="${identifier}"/>`),
+  '    </resource>',
+  ...identifiers.map(identifier => [
+    `    <resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="items/${identifier}.xml">`,
+    `      <file href="items/${identifier}.xml"/>`,
+    '    </resource>'
+  ].join('\n')),
+  '  </resources>',
+  '</manifest>',
+  ''
+].join('\n');
+
+// A content package with every question of the quiz
+export const toQti = (quiz) => {
+  const identifiers = quiz.questions.map((question, i) => `item-${i + 1}`);
+
+  const content = createZip([
+    { name: 'imsmanifest.xml', data: manifestXml(identifiers) },
+    { name: 'assessmentTest.xml', data: testXml(quiz, identifiers) },
+    ...quiz.questions.map((question, i) => ({
+      name: `items/${identifiers[i]}.xml`,
+      data: itemXml(question, identifiers[i])
+    }))
+  ]);
+
+  return { content, skipped: [] };
+};
@@ -0,0 +1,249 @@
+// src/utils/quizFormats/spreadsheet.js
+import { parseCsv, toCsv } from '../csv.js';
+import { importedItem, skippedItem, TRUE_FALSE_OPTIONS } from './text.js';
+
+// Columns of the question spreadsheet, in template order, with the headings each may go by
+const COLUMNS = {
+  text: ['question', 'questiontext', 'text'],
+  type: ['type', 'questiontype'],
+  options: ['options', 'choices', 'answers', 'items', 'pairs'],
+  correct: ['correct', 'correctanswer', 'correctanswers', 'answer', 'key'],
+  points: ['points', 'marks', 'score'],
+  explanation: ['explanation', 'feedback']
+};
+
+const normalizeName = (value) => String(value).toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Names people use for each question type, including the labels shown in the quiz editor
+const TYPE_NAMES = {
+  single: ['single', 'singlechoice', 'choice', 'mcq', 'radio'],
+  multiple: ['multiple', 'multiplechoice', 'multi', 'checkbox', 'checkboxes'],
+  true_false: ['truefalse', 'tf', 'boolean'],
+  short_answer: ['shortanswer', 'short', 'text', 'fillintheblank', 'blank'],
+  numeric: ['numeric', 'numerical', 'number'],
+  matching: ['matching', 'match'],
+  ordering: ['ordering', 'order', 'sequence'],
+  essay: ['essay', 'longanswer', 'open']
+};
+
+const TYPE_LABELS = {
+  single: 'single choice',
+  multiple: 'multiple choice',
+  true_false: 'true/false',
+  short_answer: 'short answer',
+  numeric: 'numeric',
+  matching: 'matching',
+  ordering: 'ordering',
+  essay: 'essay'
+};
+
+const findType = (value) => {
+  const name = normalizeName(value);
+  return Object.keys(TYPE_NAMES).find(type => TYPE_NAMES[type].includes(name)) || null;
+};
+
+// Multiple values in one cell are separated with a vertical bar
+const splitList = (value) => value.split('|').map(part => part.trim()).filter(Boolean);
+
+// Option markers: letters (A, C) or positions (1, 3), separated by bars, commas or spaces
+const readMarkers = (value, options) => {
+  const markers = value.split(/[|,;\s]+/).filter(Boolean);
+  const indexes = [];
+
+  for (const marker of markers) {
+    let index = NaN;
+    if (/^[a-z]$/i.test(marker)) {
+      index = marker.toUpperCase().charCodeAt(0) - 65;
+    } else if (/^\d+$/.test(marker)) {
+      index = Number(marker) - 1;
+    }
+
+    if (!(index >= 0 && index < options.length)) {
+      return { error: `Correct answer "${marker}" doesn't match any of the ${options.length} options; use letters (A, B) or positions (1, 2)` };
+    }
+    if (!indexes.includes(index)) {
+      indexes.push(index);
+    }
+  }
+
+  return { indexes };
+};
+
+const TRUE_VALUES = ['true', 't', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'f', 'no', 'n', '0'];
+
+// A numeric answer with an optional tolerance, e.g. "9.81" or "9.81 +- 0.05"
+const readNumericAnswer = (value) => {
+  const [answer, tolerance = '0'] = value.split(/\s*(?:±|\+\/-|\+-)\s*/);
+  const numericAnswer = Number(answer.trim());
+  const toleranceValue = Number(tolerance.trim());
+
+  if (answer.trim() === '' || !Number.isFinite(numericAnswer)) {
+    return { error: `Correct answer "${value}" is not a number` };
+  }
+  if (!(toleranceValue >= 0)) {
+    return { error: `Tolerance "${tolerance}" must be a non-negative number` };
+  }
+
+  return { numericAnswer, tolerance: toleranceValue };
+};
+
+// Turn one spreadsheet row into a question, or the reason it can't be one
+const parseRow = (row, columns) => {
+  const label = `Line ${row.line}`;
+  const cell = (column) => (columns[column] === undefined ? '' : (row.cells[columns[column]] || '').trim());
+  const warnings = [];
+
+  const text = cell('text');
+  if (!text) {
+    return skippedItem(label, 'The question column is empty');
+  }
+
+  const points = cell('points') === '' ? 1 : Number(cell('points'));
+  if (!(points >= 0)) {
+    return skippedItem(label, `Points "${cell('points')}" must be a non-negative number`);
+  }
+
+  const options = splitList(cell('options'));
+  const correct = cell('correct');
+
+  let type = 'single';
+  if (cell('type')) {
+    type = findType(cell('type'));
+    if (!type) {
+      return skippedItem(label, `Unknown question type "${cell('type')}"; use one of ${Object.keys(TYPE_NAMES).join(', ')}`);
+    }
+  } else if (correct.split(/[|,;\s]+/).filter(Boolean).length > 1) {
+    type = 'multiple';
+  }
+
+  const base = { text, type, points };
+  if (cell('explanation')) {
+    base.explanation = cell('explanation');
+  }
+
+  const ignore = (column, name) => {
+    if (cell(column)) {
+      warnings.push(`The ${name} column is ignored for ${TYPE_LABELS[type]} questions`);
+    }
+  };
+
+  switch (type) {
+    case 'single':
+    case 'multiple': {
+      if (!correct) {
+        return skippedItem(label, 'Mark the correct option in the correct column, e.g. "B" or "2"');
+      }
+      const { indexes, error } = readMarkers(correct, options);
+      if (error) {
+        return skippedItem(label, error);
+      }
+      return importedItem(label, {
+        ...base,
+        options: options.map((option, i) => ({ text: option, isCorrect: indexes.includes(i) }))
+      }, warnings);
+    }
+
+    case 'true_false': {
+      const answer = correct.toLowerCase();
+      if (!TRUE_VALUES.includes(answer) && !FALSE_VALUES.includes(answer)) {
+        return skippedItem(label, 'The correct column must say True or False');
+      }
+      ignore('options', 'options');
+      return importedItem(label, {
+        ...base,
+        options: TRUE_FALSE_OPTIONS.map(option => ({
+          text: option,
+          isCorrect: (option === 'True') === TRUE_VALUES.includes(answer)
+        }))
+      }, warnings);
+    }
+
+    case 'short_answer':
+      ignore('options', 'options');
+      return importedItem(label, { ...base, acceptedAnswers: splitList(correct) }, warnings);
+
+    case 'numeric': {
+      const { error, ...answer } = readNumericAnswer(correct);
+      if (error) {
+        return skippedItem(label, error);
+      }
+      ignore('options', 'options');
+      return importedItem(label, { ...base, ...answer }, warnings);
+    }
+
+    case 'matching': {
+      const pairs = [];
+      for (const option of options) {
+        const separator = option.indexOf('=');
+        if (separator < 0) {
+          return skippedItem(label, `Pair "${option}" needs an equals sign between the prompt and its match`);
+        }
+        pairs.push({ prompt: option.slice(0, separator).trim(), match: option.slice(separator + 1).trim() });
+      }
+      ignore('correct', 'correct');
+      return importedItem(label, { ...base, pairs }, warnings);
+    }
+
+    case 'ordering':
+      ignore('correct', 'correct');
+      return importedItem(label, { ...base, options: options.map(option => ({ text: option, isCorrect: false })) }, warnings);
+
+    case 'essay':
+      ignore('options', 'options');
+      return importedItem(label, { ...base, rubric: correct }, warnings);
+
+    default:
+      return skippedItem(label, `Unknown question type "${type}"`);
+  }
+};
+
+// Work out which column holds what from the heading row. Files without one are read in template order.
+const readColumns = (headings) => {
+  const names = headings.map(normalizeName);
+  const columns = {};
+
+  Object.keys(COLUMNS).forEach(column => {
+    const index = names.findIndex(name => COLUMNS[column].includes(name));
+    if (index >= 0) {
+      columns[column] = index;
+    }
+  });
+
+  return columns;
+};
+
+export const parseQuizSpreadsheet = (content) => {
+  const rows = parseCsv(content);
+  if (rows.length === 0) {
+    throw new Error('The file is empty');
+  }
+
+  let columns = readColumns(rows[0].cells);
+  let questionRows = rows.slice(1);
+
+  if (Object.keys(columns).length === 0) {
+    columns = Object.fromEntries(Object.keys(COLUMNS).map((column, index) => [column, index]));
+    questionRows = rows;
+  } else if (columns.text === undefined) {
+    throw new Error('The heading row has no "question" column');
+  }
+
+  return {
+    title: null,
+    items: questionRows.map(row => parseRow(row, columns))
+  };
+};
+
+// The downloadable template: the headings and one example row for each question type
+export const QUIZ_SPREADSHEET_TEMPLATE = toCsv([
+  ['question', 'type', 'options', 'correct', 'points', 'explanation'],
+  ['What is the capital of France?', 'single', 'Berlin | Paris | Madrid | Rome', 'B', '1', 'Paris has been the capital since 987.'],
+  ['Which of these are prime numbers?', 'multiple', '2 | 4 | 7 | 9', 'A, C', '2', ''],
+  ['The Earth orbits the Sun.', 'true_false', '', 'True', '1', ''],
+  ['Name the largest planet in the Solar System.', 'short_answer', '', 'Jupiter | Jupiter planet', '1', ''],
+  ['What is the acceleration due to gravity in m/s²?', 'numeric', '', '9.81 +- 0.05', '1', ''],
+  ['Match each country to its capital.', 'matching', 'Japan = Tokyo | Kenya = Nairobi | Peru = Lima', '', '3', ''],
+  ['Put these events in chronological order.', 'ordering', 'Moon landing | Fall of the Berlin Wall | First iPhone', '', '2', ''],
+  ['Explain the causes of the First World War.', 'essay', '', 'Mentions alliances, militarism, imperialism and nationalism', '5', '']
+]);
@@ -0,0 +1,35 @@
+// src/utils/quizFormats/text.js
+import { decodeEntities, escapeXml } from '../xml.js';
+
+// Questions are stored as plain text, so formatting from other systems is flattened
+export const htmlToText = (html) =>
+  decodeEntities(
+    String(html || '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|tr)>/gi, '\n')
+      .replace(/<[^>]*>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export const hasImages = (html) => /<img\b/i.test(html || '');
+
+// Plain text as an HTML fragment that keeps its line breaks
+export const textToHtml = (text) => escapeXml(text).replace(/\n/g, '<br />');
+
+// Name a question in reports, e.g. `Question 3 ("Capitals")`
+export const describeItem = (index, name) =>
+  name ? `Question ${index + 1} ("${name}")` : `Question ${index + 1}`;
+
+// Other systems name every question; the start of its text is the usual choice
+export const questionName = (question) => {
+  const text = question.text.replace(/\s+/g, ' ');
+  return text.length > 50 ? `${text.slice(0, 47).trim()}...` : text;
+};
+
+// A parsed question, or the reason it can't be imported
+export const importedItem = (label, question, warnings = []) => ({ label, question, warnings, error: null });
+export const skippedItem = (label, error, warnings = []) => ({ label, question: null, warnings, error });
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
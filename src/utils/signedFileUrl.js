@@ -0,0 +1,62 @@
+// src/utils/signedFileUrl.js
+// Short-lived links to uploaded files. Each link carries the user it was issued to, an
+// expiry time and an HMAC over the file, user and expiry, so it works in <img>, <video>
+// and <iframe> tags that can't send an Authorization header.
+import crypto from 'crypto';
+
+export const SIGNED_FILE_ROUTE = '/api/v1/files';
+
+// How long a link stays valid, in minutes
+const DEFAULT_EXPIRE_MINUTES = 120;
+
+// Stored URLs end in /uploads/<file>; links handed out end in /api/v1/files/<file>?...
+const UPLOAD_PATH = /\/uploads\/([^/?#]+)$/;
+const SIGNED_PATH = /\/api\/v1\/files\/([^/?#]+)(\?[^#]*)?$/;
+
+const getSecret = () => process.env.FILE_URL_SECRET || process.env.JWT_SECRET;
+
+const getExpireSeconds = () =>
+  (parseInt(process.env.FILE_URL_EXPIRE_MINUTES, 10) || DEFAULT_EXPIRE_MINUTES) * 60;
+
+const sign = (filename, userId, expires) =>
+  crypto.createHmac('sha256', getSecret()).update(`${filename}:${userId}:${expires}`).digest('hex');
+
+// Link to an uploaded file for one user. Expiry is rounded up to the end of a window so
+// the same user gets the same link for a while and browsers can cache what it serves.
+// URLs that don't point at an upload, such as YouTube links, are returned unchanged.
+export const signFileUrl = (url, userId) => {
+  const match = typeof url === 'string' ? url.match(UPLOAD_PATH) : null;
+  if (!match) return url;
+
+  const windowSeconds = getExpireSeconds();
+  const expires = Math.ceil((Math.floor(Date.now() / 1000) + windowSeconds) / windowSeconds) * windowSeconds;
+  const query = new URLSearchParams({
+    user: userId.toString(),
+    expires: String(expires),
+    signature: sign(match[1], userId.toString(), expires)
+  });
+
+  return `${url.slice(0, match.index)}${SIGNED_FILE_ROUTE}/${match[1]}?${query}`;
+};
+
+// The form a URL is stored in. Signed links sent back by the client, e.g. from an edit
+// form, are turned back into upload URLs so expired signatures never reach the database.
+export const toStoredFileUrl = (url) =>
+  typeof url === 'string' ? url.replace(SIGNED_PATH, '/uploads/$1') : url;
+
+// Whether a link's signature matches and it hasn't expired
+export const verifyFileSignature = (filename, userId, expires, signature) => {
+  const expiresAt = Number(expires);
+  if (!filename || !userId || !Number.isInteger(expiresAt) || typeof signature !== 'string') {
+    return false;
+  }
+
+  if (expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(filename, userId, expiresAt), 'hex');
+  const provided = Buffer.from(signature, 'hex');
+
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+};
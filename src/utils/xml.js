@@ -0,0 +1,149 @@
+// src/utils/xml.js
+
+// A small XML reader and writer for the quiz exchange formats. It understands elements,
+// attributes, text, CDATA, comments and character entities, which is all those formats
+// use; DOCTYPE declarations are skipped and namespace prefixes are dropped from names.
+
+const NAMED_ENTITIES = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' '
+};
+
+export const decodeEntities = (text) =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+export const escapeXml = (value) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const localName = (name) => name.slice(name.indexOf(':') + 1);
+
+const parseAttributes = (source) => {
+  const attributes = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match;
+  while ((match = pattern.exec(source))) {
+    attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4]);
+  }
+  return attributes;
+};
+
+// Parse a document into { name, attributes, children } elements, where children are
+// elements or strings. Throws an Error describing the first problem found.
+export const parseXml = (text) => {
+  const root = { name: '#document', attributes: {}, children: [] };
+  const stack = [root];
+  let position = 0;
+
+  const fail = (message) => {
+    const line = text.slice(0, position).split('\n').length;
+    throw new Error(`Invalid XML on line ${line}: ${message}`);
+  };
+
+  while (position < text.length) {
+    const tagStart = text.indexOf('<', position);
+    const current = stack[stack.length - 1];
+
+    if (tagStart === -1 || tagStart > position) {
+      const end = tagStart === -1 ? text.length : tagStart;
+      const content = text.slice(position, end);
+      if (current !== root) {
+        current.children.push(decodeEntities(content));
+      } else if (content.trim()) {
+        fail('text outside the root element');
+      }
+      position = end;
+      continue;
+    }
+
+    if (text.startsWith('<!--', position)) {
+      const end = text.indexOf('-->', position);
+      if (end === -1) fail('unclosed comment');
+      position = end + 3;
+    } else if (text.startsWith('<![CDATA[', position)) {
+      const end = text.indexOf(']]>', position);
+      if (end === -1) fail('unclosed CDATA section');
+      current.children.push(text.slice(position + 9, end));
+      position = end + 3;
+    } else if (text.startsWith('<?', position)) {
+      const end = text.indexOf('?>', position);
+      if (end === -1) fail('unclosed processing instruction');
+      position = end + 2;
+    } else if (text.startsWith('<!', position)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = text.indexOf('[', position);
+      const close = text.indexOf('>', position);
+      const end = bracket !== -1 && bracket < close ? text.indexOf(']>', bracket) + 1 : close;
+      if (end <= 0) fail('unclosed declaration');
+      position = end + 1;
+    } else if (text[position + 1] === '/') {
+      const end = text.indexOf('>', position);
+      if (end === -1) fail('unclosed end tag');
+      const name = localName(text.slice(position + 2, end).trim());
+      if (current === root || current.name !== name) {
+        fail(`unexpected </${name}>`);
+      }
+      stack.pop();
+      position = end + 1;
+    } else {
+      const match = /^<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(text.slice(position));
+      if (!match) fail('malformed start tag');
+      if (current === root && root.children.length > 0) {
+        fail('more than one root element');
+      }
+      const element = { name: localName(match[1]), attributes: parseAttributes(match[2]), children: [] };
+      current.children.push(element);
+      if (!match[3]) {
+        stack.push(element);
+      }
+      position += match[0].length;
+    }
+  }
+
+  if (stack.length > 1) {
+    fail(`<${stack[stack.length - 1].name}> is never closed`);
+  }
+  if (root.children.length === 0) {
+    fail('the document is empty');
+  }
+
+  return root.children[0];
+};
+
+const isElement = (node) => typeof node === 'object';
+
+export const childElements = (node, name) =>
+  (node ? node.children : []).filter(child => isElement(child) && (!name || child.name === name));
+
+export const childElement = (node, name) => childElements(node, name)[0] || null;
+
+// Every descendant element with the given name, in document order
+export const findElements = (node, name) => {
+  const found = [];
+  childElements(node).forEach(child => {
+    if (child.name === name) found.push(child);
+    found.push(...findElements(child, name));
+  });
+  return found;
+};
+
+export const findElement = (node, name) => findElements(node, name)[0] || null;
+
+// All text inside an element, including that of its descendants
+export const textContent = (node) => {
+  if (!node) return '';
+  return node.children.map(child => isElement(child) ? textContent(child) : child).join('');
+};
@@ -0,0 +1,172 @@
+// src/utils/zip.js
+import zlib from 'zlib';
+
+// Just enough of the ZIP format for QTI content packages: reading stored or deflated
+// entries, and writing stored ones.
+
+const CENTRAL_DIRECTORY_END = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Limits on what an uploaded archive may expand to, since a few kilobytes of deflated
+// data can inflate to gigabytes
+const MAX_ENTRIES = 1000;
+const MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (buffer) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Inflate a deflated entry, stopping as soon as it grows past the size the archive declared
+const inflateEntry = (name, compressed, uncompressedSize) => {
+  if (uncompressedSize === 0) {
+    return Buffer.alloc(0);
+  }
+
+  let data;
+  try {
+    data = zlib.inflateRawSync(compressed, { maxOutputLength: uncompressedSize });
+  } catch (error) {
+    throw new Error(`${name} in the ZIP archive is damaged or larger than it claims`);
+  }
+
+  if (data.length !== uncompressedSize) {
+    throw new Error(`${name} in the ZIP archive is damaged or larger than it claims`);
+  }
+  return data;
+};
+
+export const isZip = (buffer) => buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+
+// List the files in an archive as { name, data } entries, skipping directories. Throws if
+// the archive has more entries or would expand to more bytes than the limits allow.
+export const readZip = (buffer, { maxEntries = MAX_ENTRIES, maxUncompressedBytes = MAX_UNCOMPRESSED_BYTES } = {}) => {
+  // The end of central directory record sits in the last 64 KB, after an optional comment
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === CENTRAL_DIRECTORY_END) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('The file is not a valid ZIP archive');
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  if (entryCount > maxEntries) {
+    throw new Error(`The ZIP archive has more than ${maxEntries} files`);
+  }
+
+  let offset = buffer.readUInt32LE(end + 16);
+  let totalSize = 0;
+  const entries = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('The ZIP archive is damaged');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+
+    // Checked against the sizes the archive declares before anything is inflated
+    totalSize += uncompressedSize;
+    if (totalSize > maxUncompressedBytes) {
+      throw new Error(`The ZIP archive expands to more than ${Math.round(maxUncompressedBytes / (1024 * 1024))} MB`);
+    }
+
+    if (localOffset + 30 > buffer.length) {
+      throw new Error('The ZIP archive is damaged');
+    }
+    const dataStart = localOffset + 30 +
+      buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > buffer.length) {
+      throw new Error('The ZIP archive is damaged');
+    }
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      if (compressedSize !== uncompressedSize) {
+        throw new Error('The ZIP archive is damaged');
+      }
+      entries.push({ name, data: compressed });
+    } else if (method === 8) {
+      entries.push({ name, data: inflateEntry(name, compressed, uncompressedSize) });
+    } else {
+      throw new Error(`${name} uses a ZIP compression method that is not supported`);
+    }
+  }
+
+  return entries;
+};
+
+// Build an uncompressed archive from { name, data } entries
+export const createZip = (entries) => {
+  const localParts = [];
+  const centralParts = [];
+  let offset = 0;
+
+  entries.forEach(({ name, data }) => {
+    const nameBuffer = Buffer.from(name, 'utf8');
+    const content = Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8');
+    const checksum = crc32(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // names are UTF-8
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(content.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_ENTRY, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(content.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBuffer, content);
+    centralParts.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + content.length;
+  });
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(CENTRAL_DIRECTORY_END, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};